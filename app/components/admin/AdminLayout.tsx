@@ -1,4 +1,4 @@
-import { AdminSidebar } from "./AdminSidebar";
+import { AdminSidebar, type PluginSidebarItem } from "./AdminSidebar";
 import { Button } from "~/components/ui/button";
 import { Menu, X } from "lucide-react";
 import { useState } from "react";
@@ -10,16 +10,17 @@ interface AdminLayoutProps {
     email: string;
     name?: string | null;
   };
+  pluginMenuItems?: PluginSidebarItem[];
 }
 
-export function AdminLayout({ children }: AdminLayoutProps) {
+export function AdminLayout({ children, pluginMenuItems }: AdminLayoutProps) {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   return (
     <div className="flex h-screen bg-gray-50">
       {/* Desktop Sidebar */}
       <div className="hidden lg:block">
-        <AdminSidebar />
+        <AdminSidebar pluginItems={pluginMenuItems} />
       </div>
 
       {/* Mobile Sidebar Overlay */}
@@ -40,7 +41,7 @@ export function AdminLayout({ children }: AdminLayoutProps) {
                 <X className="h-4 w-4" />
               </Button>
             </div>
-            <AdminSidebar />
+            <AdminSidebar pluginItems={pluginMenuItems} />
           </div>
         </div>
       )}
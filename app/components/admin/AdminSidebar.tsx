@@ -16,6 +16,9 @@ import {
   Coins,
   Trophy,
   Activity,
+  Image,
+  Puzzle,
+  Webhook,
 } from "lucide-react";
 import { Button } from "~/components/ui/button";
 import { useState } from "react";
@@ -41,6 +44,11 @@ const sidebarItems = [
     href: "/admin/posts",
     icon: FileText,
   },
+  {
+    title: "미디어 라이브러리",
+    href: "/admin/media",
+    icon: Image,
+  },
   {
     title: "메뉴 관리",
     href: "/admin/menus",
@@ -85,6 +93,12 @@ const sidebarItems = [
     href: "/admin/settings",
     icon: Settings,
   },
+  {
+    title: "웹훅",
+    href: "/admin/webhooks",
+    icon: Webhook,
+    description: "외부 서비스 연동",
+  },
   {
     title: "테마 설정",
     href: "/admin/theme",
@@ -98,7 +112,14 @@ const sidebarItems = [
   },
 ];
 
-export function AdminSidebar() {
+/** 활성 플러그인이 추가한 메뉴 (플러그인 라우트나 외부 페이지로 이동) */
+export interface PluginSidebarItem {
+  title: string;
+  href: string;
+  pluginId: string;
+}
+
+export function AdminSidebar({ pluginItems = [] }: { pluginItems?: PluginSidebarItem[] }) {
   const location = useLocation();
   const [collapsed, setCollapsed] = useState(false);
 
@@ -154,6 +175,28 @@ export function AdminSidebar() {
               </Link>
             );
           })}
+
+          {pluginItems.length > 0 && (
+            <>
+              {!collapsed && (
+                <p className="px-3 pt-4 pb-1 text-xs font-medium text-gray-400">플러그인</p>
+              )}
+              {pluginItems.map((item) => (
+                <a
+                  key={`${item.pluginId}:${item.href}`}
+                  href={item.href}
+                  title={collapsed ? item.title : undefined}
+                  className={cn(
+                    "flex items-center gap-3 rounded-lg px-3 py-2.5 lg:py-2 text-sm transition-colors touch-manipulation text-gray-600 hover:bg-gray-100 hover:text-gray-900",
+                    collapsed && "lg:justify-center"
+                  )}
+                >
+                  <Puzzle className="h-5 w-5 lg:h-4 lg:w-4 flex-shrink-0" />
+                  {!collapsed && <span>{item.title}</span>}
+                </a>
+              ))}
+            </>
+          )}
         </nav>
       </div>
     </aside>
@@ -18,11 +18,11 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "~/components/ui/dropdown-menu";
-import { MoreHorizontal, User, Shield, Ban } from "lucide-react";
+import { MoreHorizontal, User, Shield, Ban, Coins } from "lucide-react";
 import { format } from "date-fns";
 import { ko } from "date-fns/locale";
 
-interface UserData {
+export interface UserData {
   id: string;
   email: string;
   name: string | null;
@@ -33,15 +33,17 @@ interface UserData {
     posts: number;
     comments: number;
   };
+  userPoints?: { balance: number } | null;
 }
 
 interface UserTableProps {
   users: UserData[];
   onRoleChange: (userId: string, role: 'USER' | 'ADMIN') => void;
   onActiveChange: (userId: string, isActive: boolean) => void;
+  onAdjustPoints?: (user: UserData) => void;
 }
 
-export function UserTable({ users, onRoleChange, onActiveChange }: UserTableProps) {
+export function UserTable({ users, onRoleChange, onActiveChange, onAdjustPoints }: UserTableProps) {
   return (
     <div className="rounded-md border">
       <Table>
@@ -52,6 +54,7 @@ export function UserTable({ users, onRoleChange, onActiveChange }: UserTableProp
             <TableHead>상태</TableHead>
             <TableHead>게시글</TableHead>
             <TableHead>댓글</TableHead>
+            <TableHead>포인트</TableHead>
             <TableHead>가입일</TableHead>
             <TableHead className="w-[50px]"></TableHead>
           </TableRow>
@@ -78,6 +81,7 @@ export function UserTable({ users, onRoleChange, onActiveChange }: UserTableProp
               </TableCell>
               <TableCell>{user._count.posts}</TableCell>
               <TableCell>{user._count.comments}</TableCell>
+              <TableCell>{(user.userPoints?.balance ?? 0).toLocaleString()}P</TableCell>
               <TableCell>
                 {format(user.createdAt, 'yyyy년 MM월 dd일', { locale: ko })}
               </TableCell>
@@ -103,6 +107,12 @@ export function UserTable({ users, onRoleChange, onActiveChange }: UserTableProp
                       <Shield className="mr-2 h-4 w-4" />
                       {user.role === 'ADMIN' ? '일반 사용자로 변경' : '관리자로 변경'}
                     </DropdownMenuItem>
+                    {onAdjustPoints && (
+                      <DropdownMenuItem onClick={() => onAdjustPoints(user)}>
+                        <Coins className="mr-2 h-4 w-4" />
+                        포인트 지급/회수
+                      </DropdownMenuItem>
+                    )}
                     <DropdownMenuItem
                       onClick={() => onActiveChange(user.id, !user.isActive)}
                       className="text-red-600"
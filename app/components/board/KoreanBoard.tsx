@@ -47,6 +47,7 @@ interface KoreanBoardProps {
   categorySlug: string;
   categoryName: string;
   isLoggedIn?: boolean;
+  canWrite?: boolean;
 }
 
 const POSTS_PER_PAGE = 50;
@@ -59,6 +60,7 @@ export function KoreanBoard({
   categorySlug,
   categoryName,
   isLoggedIn = false,
+  canWrite = isLoggedIn,
 }: KoreanBoardProps) {
   const [searchParams, setSearchParams] = useSearchParams();
   const [searchTerm, setSearchTerm] = useState(searchParams.get("search") || "");
@@ -282,7 +284,7 @@ export function KoreanBoard({
         )}
 
         {/* 글쓰기 버튼 */}
-        {isLoggedIn && (
+        {canWrite && (
           <div className="flex justify-end mt-4">
             <Button asChild className="w-full sm:w-auto">
               <Link to={`/${categorySlug}/write`}>글쓰기</Link>
@@ -27,6 +27,8 @@ interface FileUploaderProps {
   maxFileSize?: number; // bytes
   acceptedTypes?: string[];
   initialFiles?: UploadedFile[];
+  /** 업로드 대상 게시판 메뉴 (서버에서 첨부 권한 확인) */
+  menuId?: string;
 }
 
 function formatFileSize(bytes: number): string {
@@ -53,6 +55,7 @@ export function FileUploader({
   maxFileSize = 10 * 1024 * 1024, // 10MB
   acceptedTypes = ["image/jpeg", "image/png", "image/webp", "image/gif"],
   initialFiles = [],
+  menuId,
 }: FileUploaderProps) {
   const [files, setFiles] = useState<UploadedFile[]>(initialFiles);
   const [uploading, setUploading] = useState(false);
@@ -62,6 +65,9 @@ export function FileUploader({
   const uploadFile = async (file: File): Promise<UploadedFile | null> => {
     const formData = new FormData();
     formData.append("file", file);
+    if (menuId) {
+      formData.append("menuId", menuId);
+    }
 
     try {
       const response = await fetch("/api/upload", {
@@ -130,7 +136,7 @@ export function FileUploader({
         setUploading(false);
       }
     },
-    [files, maxFiles, maxFileSize, acceptedTypes, onFilesChange]
+    [files, maxFiles, maxFileSize, acceptedTypes, onFilesChange, menuId]
   );
 
   const handleDrag = useCallback((e: React.DragEvent) => {
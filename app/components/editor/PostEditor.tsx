@@ -1,10 +1,11 @@
 import React, { useState } from "react";
-import { Form, useNavigation } from "@remix-run/react";
+import { Form, useActionData, useNavigation } from "@remix-run/react";
 import { Input } from "~/components/ui/input";
 import { Button } from "~/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
 import { RichTextEditor } from "./RichTextEditor";
 import { FileUploader } from "./FileUploader";
+import { POST_STATUS_LABELS, type PublishIntent } from "~/lib/posts/post-status";
 
 // 실제 사용하는 필드만 정의한 유연한 인터페이스
 interface PostData {
@@ -14,6 +15,8 @@ interface PostData {
   menuId: string;
   isNotice: boolean;
   isPublished?: boolean;
+  status?: keyof typeof POST_STATUS_LABELS;
+  publishedAt?: string | null;
   menu?: {
     id: string;
     name: string;
@@ -25,6 +28,7 @@ interface CategoryData {
   id: string;
   name: string;
   slug: string;
+  canAttach?: boolean;
 }
 
 interface PostEditorProps {
@@ -34,35 +38,77 @@ interface PostEditorProps {
   mode: "create" | "edit";
 }
 
+// Date → datetime-local 입력값 (브라우저 로컬 시간)
+function toLocalInputValue(date: Date) {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+interface UploadedFile {
+  id: string;
+  filename: string;
+  originalName: string;
+  path: string;
+  thumbnailPath?: string;
+  size: number;
+  url: string;
+  thumbnailUrl?: string;
+}
+
+function escapeAttribute(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
 export function PostEditor({ post, categories, isAdmin = false, mode }: PostEditorProps) {
   const navigation = useNavigation();
+  const actionData = useActionData<{ error?: string }>();
   const isSubmitting = navigation.state === "submitting";
   
   const [title, setTitle] = useState(post?.title || "");
   const [content, setContent] = useState(post?.content || "");
   const [categoryId, setCategoryId] = useState(post?.menuId || "");
   const [isPinned, setIsPinned] = useState(post?.isNotice || false);
-  const [isDraft, setIsDraft] = useState(false);
+  const [publishIntent, setPublishIntent] = useState<PublishIntent>("publish");
+  const [showSchedule, setShowSchedule] = useState(post?.status === "SCHEDULED");
+  const [scheduledAt, setScheduledAt] = useState(
+    post?.status === "SCHEDULED" && post.publishedAt ? toLocalInputValue(new Date(post.publishedAt)) : ""
+  );
   const [showPreview, setShowPreview] = useState(false);
-  const [uploadedFiles, setUploadedFiles] = useState<Array<{
-    id: string;
-    filename: string;
-    originalName: string;
-    path: string;
-    thumbnailPath?: string;
-    size: number;
-    url: string;
-    thumbnailUrl?: string;
-  }>>([]);
+  const selectedCategory = categories.find((category) => category.id === categoryId);
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+
+  // 새로 올린 이미지는 본문 끝에 삽입 (본문에서 참조해야 미디어 정리 대상에서 제외됨)
+  const handleFilesChange = (files: UploadedFile[]) => {
+    const added = files.filter((file) => !uploadedFiles.some((f) => f.id === file.id));
+    if (added.length > 0) {
+      setContent((current) =>
+        current + added.map((file) => `<p><img src="${escapeAttribute(file.url)}" alt="${escapeAttribute(file.originalName)}"></p>`).join("")
+      );
+    }
+    setUploadedFiles(files);
+  };
 
   const handleSaveDraft = () => {
-    setIsDraft(true);
-    // Form will be submitted with isDraft = true
+    setPublishIntent("draft");
+    // Form will be submitted with publishIntent = draft
   };
 
   return (
     <div className="max-w-4xl mx-auto">
       <Form method="post" className="space-y-6">
+        {post?.status && post.status !== "PUBLISHED" && (
+          <div className="rounded-md border border-amber-200 bg-amber-50 dark:border-amber-900 dark:bg-amber-950/40 px-4 py-2 text-sm">
+            현재 상태: <strong>{POST_STATUS_LABELS[post.status]}</strong>
+            {post.status === "SCHEDULED" && post.publishedAt && (
+              <> · {new Date(post.publishedAt).toLocaleString("ko-KR")} 발행 예정</>
+            )}
+          </div>
+        )}
+
+        {actionData?.error && (
+          <p className="text-sm text-red-600">{actionData.error}</p>
+        )}
+
         {/* 제목 입력 */}
         <div>
           <label htmlFor="title" className="block text-sm font-medium mb-2">
@@ -134,19 +180,22 @@ export function PostEditor({ post, categories, isAdmin = false, mode }: PostEdit
           />
         </div>
 
-        {/* 파일 첨부 */}
-        <div>
-          <label className="block text-sm font-medium mb-2">
-            파일 첨부
-          </label>
-          <FileUploader
-            onFilesChange={setUploadedFiles}
-            maxFiles={10}
-            maxFileSize={10 * 1024 * 1024}
-            acceptedTypes={["image/jpeg", "image/png", "image/webp", "image/gif"]}
-            initialFiles={uploadedFiles}
-          />
-        </div>
+        {/* 파일 첨부 (첨부를 허용하는 게시판만) */}
+        {selectedCategory?.canAttach && (
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              파일 첨부
+            </label>
+            <FileUploader
+              onFilesChange={handleFilesChange}
+              maxFiles={10}
+              maxFileSize={10 * 1024 * 1024}
+              acceptedTypes={["image/jpeg", "image/png", "image/webp", "image/gif"]}
+              initialFiles={uploadedFiles}
+              menuId={selectedCategory.id}
+            />
+          </div>
+        )}
 
         {/* 미리보기 */}
         {showPreview && (
@@ -161,8 +210,30 @@ export function PostEditor({ post, categories, isAdmin = false, mode }: PostEdit
           </div>
         )}
 
-        {/* 임시 저장 플래그 */}
-        <input type="hidden" name="isDraft" value={isDraft.toString()} />
+        {/* 예약 발행 */}
+        {showSchedule && (
+          <div className="flex items-center gap-2">
+            <label htmlFor="scheduledAtLocal" className="text-sm font-medium">
+              예약 발행 시각
+            </label>
+            <Input
+              id="scheduledAtLocal"
+              type="datetime-local"
+              value={scheduledAt}
+              min={toLocalInputValue(new Date())}
+              onChange={(e) => setScheduledAt(e.target.value)}
+              className="w-auto"
+            />
+          </div>
+        )}
+
+        {/* 발행 방식 (publish / draft / schedule) */}
+        <input type="hidden" name="publishIntent" value={publishIntent} />
+        <input
+          type="hidden"
+          name="scheduledAt"
+          value={scheduledAt ? new Date(scheduledAt).toISOString() : ""}
+        />
 
         {/* 버튼들 */}
         <div className="flex items-center justify-between">
@@ -182,6 +253,25 @@ export function PostEditor({ post, categories, isAdmin = false, mode }: PostEdit
             >
               임시 저장
             </Button>
+            {showSchedule ? (
+              <Button
+                type="submit"
+                variant="outline"
+                onClick={() => setPublishIntent("schedule")}
+                disabled={isSubmitting || !scheduledAt}
+              >
+                예약 발행
+              </Button>
+            ) : (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setShowSchedule(true)}
+                disabled={isSubmitting}
+              >
+                예약 발행...
+              </Button>
+            )}
           </div>
           <div className="space-x-2">
             <Button
@@ -195,7 +285,7 @@ export function PostEditor({ post, categories, isAdmin = false, mode }: PostEdit
             <Button
               type="submit"
               disabled={isSubmitting}
-              onClick={() => setIsDraft(false)}
+              onClick={() => setPublishIntent("publish")}
             >
               {isSubmitting 
                 ? (mode === "create" ? "작성 중..." : "수정 중...") 
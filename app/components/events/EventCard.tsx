@@ -138,96 +138,106 @@ export function EventCard({
         <StatusBadge status={status} timeLeft={timeLeft} />
       </div>
 
-      {/* 선택지 */}
-      <div className={cn('grid gap-3', options.length === 2 ? 'grid-cols-2' : 'grid-cols-1')}>
-        {options.map((option) => {
-          const stat = optionStats.find((s) => s.id === option.id);
-          const isSelected = selectedChoice === option.id;
-          const isUserChoice = userParticipation?.choice === option.id;
-          const isCorrect = correctAnswer === option.id;
-          const isWrong = isSettled && isUserChoice && !userParticipation?.isWinner;
+      {/* 예측 입력 */}
+      {type === 'PREDICTION' ? (
+        <PredictionInput
+          value={selectedChoice ?? ''}
+          onChange={setSelectedChoice}
+          disabled={hasParticipated || !isOpen || isSubmitting}
+          userParticipation={userParticipation}
+          correctAnswer={isSettled ? correctAnswer : null}
+        />
+      ) : (
+        <div className={cn('grid gap-3', options.length === 2 ? 'grid-cols-2' : 'grid-cols-1')}>
+          {options.map((option) => {
+            const stat = optionStats.find((s) => s.id === option.id);
+            const isSelected = selectedChoice === option.id;
+            const isUserChoice = userParticipation?.choice === option.id;
+            const isCorrect = correctAnswer === option.id;
+            const isWrong = isSettled && isUserChoice && !userParticipation?.isWinner;
 
-          return (
-            <button
-              key={option.id}
-              onClick={() => !hasParticipated && isOpen && setSelectedChoice(option.id)}
-              disabled={hasParticipated || !isOpen || isSubmitting}
-              className={cn(
-                'relative p-4 rounded-lg border-2 transition-all text-left',
-                isSelected && !hasParticipated && 'ring-2 ring-offset-2',
-                isUserChoice && 'border-blue-500',
-                isCorrect && isSettled && 'border-green-500 bg-green-50 dark:bg-green-900/20',
-                isWrong && 'border-red-500 bg-red-50 dark:bg-red-900/20',
-                !isSelected && !isUserChoice && !isCorrect && 'border-gray-200 dark:border-gray-600',
-                hasParticipated || !isOpen ? 'cursor-default' : 'cursor-pointer hover:border-gray-300'
-              )}
-              style={{
-                borderColor: isSelected && !hasParticipated ? option.color : undefined,
-                ringColor: isSelected ? option.color : undefined,
-              }}
-            >
-              {/* 배경 프로그레스 바 */}
-              {(hasParticipated || isSettled) && (
-                <div
-                  className="absolute inset-0 rounded-lg opacity-10"
-                  style={{
-                    width: `${stat?.percentage || 0}%`,
-                    backgroundColor: option.color,
-                  }}
-                />
-              )}
-
-              <div className="relative flex items-center justify-between">
-                <div className="flex items-center gap-3">
+            return (
+              <button
+                key={option.id}
+                onClick={() => !hasParticipated && isOpen && setSelectedChoice(option.id)}
+                disabled={hasParticipated || !isOpen || isSubmitting}
+                className={cn(
+                  'relative p-4 rounded-lg border-2 transition-all text-left',
+                  isSelected && !hasParticipated && 'ring-2 ring-offset-2',
+                  isUserChoice && 'border-blue-500',
+                  isCorrect && isSettled && 'border-green-500 bg-green-50 dark:bg-green-900/20',
+                  isWrong && 'border-red-500 bg-red-50 dark:bg-red-900/20',
+                  !isSelected && !isUserChoice && !isCorrect && 'border-gray-200 dark:border-gray-600',
+                  hasParticipated || !isOpen ? 'cursor-default' : 'cursor-pointer hover:border-gray-300'
+                )}
+                style={{
+                  borderColor: isSelected && !hasParticipated ? option.color : undefined,
+                  ringColor: isSelected ? option.color : undefined,
+                }}
+              >
+                {/* 배경 프로그레스 바 */}
+                {(hasParticipated || isSettled) && (
                   <div
-                    className="w-10 h-10 rounded-lg flex items-center justify-center text-white font-bold"
-                    style={{ backgroundColor: option.color }}
-                  >
-                    {option.label.charAt(0)}
-                  </div>
-                  <div>
-                    <div className="font-medium text-gray-900 dark:text-gray-100">
-                      {option.label}
+                    className="absolute inset-0 rounded-lg opacity-10"
+                    style={{
+                      width: `${stat?.percentage || 0}%`,
+                      backgroundColor: option.color,
+                    }}
+                  />
+                )}
+
+                <div className="relative flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div
+                      className="w-10 h-10 rounded-lg flex items-center justify-center text-white font-bold"
+                      style={{ backgroundColor: option.color }}
+                    >
+                      {option.label.charAt(0)}
                     </div>
-                    {(hasParticipated || isSettled) && (
-                      <div className="text-sm text-gray-500">
-                        {stat?.count || 0}명 ({stat?.percentage || 0}%)
+                    <div>
+                      <div className="font-medium text-gray-900 dark:text-gray-100">
+                        {option.label}
                       </div>
-                    )}
+                      {(hasParticipated || isSettled) && (
+                        <div className="text-sm text-gray-500">
+                          {stat?.count || 0}명 ({stat?.percentage || 0}%)
+                        </div>
+                      )}
+                    </div>
                   </div>
-                </div>
 
-                {/* 선택 표시 */}
-                {isSelected && !hasParticipated && (
-                  <div
-                    className="w-6 h-6 rounded-full flex items-center justify-center"
-                    style={{ backgroundColor: option.color }}
-                  >
-                    <Check className="w-4 h-4 text-white" />
-                  </div>
-                )}
+                  {/* 선택 표시 */}
+                  {isSelected && !hasParticipated && (
+                    <div
+                      className="w-6 h-6 rounded-full flex items-center justify-center"
+                      style={{ backgroundColor: option.color }}
+                    >
+                      <Check className="w-4 h-4 text-white" />
+                    </div>
+                  )}
 
-                {/* 참여 완료 표시 */}
-                {isUserChoice && (
-                  <div className="flex items-center gap-2">
-                    {isSettled && userParticipation?.isWinner && (
-                      <span className="text-green-600 font-bold">
-                        +{userParticipation.reward?.toLocaleString()}P
-                      </span>
-                    )}
-                    <Check className="w-5 h-5 text-blue-500" />
-                  </div>
-                )}
+                  {/* 참여 완료 표시 */}
+                  {isUserChoice && (
+                    <div className="flex items-center gap-2">
+                      {isSettled && userParticipation?.isWinner && (
+                        <span className="text-green-600 font-bold">
+                          +{userParticipation.reward?.toLocaleString()}P
+                        </span>
+                      )}
+                      <Check className="w-5 h-5 text-blue-500" />
+                    </div>
+                  )}
 
-                {/* 정답 표시 */}
-                {isCorrect && isSettled && !isUserChoice && (
-                  <Trophy className="w-5 h-5 text-yellow-500" />
-                )}
-              </div>
-            </button>
-          );
-        })}
-      </div>
+                  {/* 정답 표시 */}
+                  {isCorrect && isSettled && !isUserChoice && (
+                    <Trophy className="w-5 h-5 text-yellow-500" />
+                  )}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
 
       {/* 베팅 포인트 (optional) */}
       {isOpen && !hasParticipated && pointCost === 0 && !compact && (
@@ -300,6 +310,63 @@ export function EventCard({
   );
 }
 
+function PredictionInput({
+  value,
+  onChange,
+  disabled,
+  userParticipation,
+  correctAnswer,
+}: {
+  value: string;
+  onChange: (value: string | null) => void;
+  disabled: boolean;
+  userParticipation: EventCardProps['userParticipation'];
+  correctAnswer?: string | null;
+}) {
+  if (userParticipation) {
+    return (
+      <div className={cn(
+        'p-4 rounded-lg border-2',
+        userParticipation.isWinner === true && 'border-green-500 bg-green-50 dark:bg-green-900/20',
+        userParticipation.isWinner === false && 'border-red-500 bg-red-50 dark:bg-red-900/20',
+        userParticipation.isWinner == null && 'border-blue-500'
+      )}>
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="text-sm text-gray-500">내 예측</div>
+            <div className="text-xl font-bold text-gray-900 dark:text-gray-100">{userParticipation.choice}</div>
+          </div>
+          {userParticipation.isWinner && (
+            <span className="text-green-600 font-bold">
+              +{userParticipation.reward?.toLocaleString()}P
+            </span>
+          )}
+        </div>
+        {correctAnswer && (
+          <div className="mt-2 text-sm text-gray-500">결과: {correctAnswer}</div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <input
+        type="number"
+        step="any"
+        value={value}
+        onChange={(e) => onChange(e.target.value || null)}
+        disabled={disabled}
+        placeholder="예측 값을 입력하세요"
+        className="w-full px-4 py-3 border-2 rounded-lg text-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50"
+      />
+      {correctAnswer && (
+        <div className="text-sm text-gray-500">결과: {correctAnswer}</div>
+      )}
+    </div>
+  );
+}
+
 function StatusBadge({ status, timeLeft }: { status: EventStatus; timeLeft: string }) {
   const config = {
     UPCOMING: { label: '예정', color: 'bg-blue-100 text-blue-800' },
@@ -63,12 +63,13 @@ export function Header({ user, menus = [], onMenuClick, siteName, themeMode = "l
             <ThemeToggle currentMode={themeMode} />
 
             {/* 검색 버튼 */}
-            <button
+            <Link
+              to="/search"
               className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
               aria-label="검색"
             >
               <Search className="h-5 w-5 dark:text-gray-200" />
-            </button>
+            </Link>
 
             {user ? (
               <>
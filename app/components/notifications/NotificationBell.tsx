@@ -17,7 +17,8 @@ import {
 import { Button } from '~/components/ui/button';
 import { Badge } from '~/components/ui/badge';
 import { NotificationItem } from './NotificationItem';
-import { NotificationType, NotificationPriority } from '~/lib/notifications/notification.types';
+import { NotificationType, NotificationPriority, NotificationStatus } from '~/lib/notifications/notification.types';
+import { groupNotifications } from '~/lib/notifications/notification-digest';
 
 interface NotificationBellProps {
   className?: string;
@@ -47,7 +48,12 @@ export function NotificationBell({ className = '' }: NotificationBellProps) {
     markAllAsRead();
   };
   
-  const recentNotifications = notifications.slice(0, 5);
+  // 같은 글의 같은 종류 알림은 하나로 묶어서 표시
+  const recentGroups = groupNotifications(notifications).slice(0, 5);
+  
+  const handleGroupRead = (ids: string[]) => {
+    ids.forEach((id) => markAsRead(id));
+  };
   
   return (
     <DropdownMenu open={isOpen} onOpenChange={setIsOpen}>
@@ -87,17 +93,26 @@ export function NotificationBell({ className = '' }: NotificationBellProps) {
         
         <DropdownMenuSeparator />
         
-        {recentNotifications.length === 0 ? (
+        {recentGroups.length === 0 ? (
           <div className="py-8 text-center text-sm text-muted-foreground">
             새로운 알림이 없습니다.
           </div>
         ) : (
           <>
-            {recentNotifications.map((notification) => (
+            {recentGroups.map((group) => (
               <NotificationItem
-                key={notification.id}
-                notification={notification}
-                onRead={() => markAsRead(notification.id)}
+                key={group.key}
+                notification={{
+                  ...group.latest,
+                  status: group.unreadCount > 0 ? NotificationStatus.SENT : NotificationStatus.READ,
+                  data: { ...group.latest.data, title: group.title, message: group.message },
+                }}
+                count={group.notifications.length}
+                onRead={() =>
+                  handleGroupRead(
+                    group.notifications.filter((item) => item.status !== 'READ').map((item) => item.id)
+                  )
+                }
               />
             ))}
             
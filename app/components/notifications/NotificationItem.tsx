@@ -22,12 +22,15 @@ import { cn } from '~/lib/utils';
 interface NotificationItemProps {
   notification: any;
   onRead?: () => void;
+  /** 묶인 알림 수 (2 이상이면 표시) */
+  count?: number;
   className?: string;
 }
 
 export function NotificationItem({ 
   notification, 
   onRead,
+  count = 1,
   className = '' 
 }: NotificationItemProps) {
   const isUnread = notification.status !== 'READ';
@@ -131,6 +134,12 @@ export function NotificationItem({
         </div>
         
         <div className="flex items-center gap-2 mt-1">
+          {count > 1 && (
+            <>
+              <span className="text-xs text-primary">{count}건</span>
+              <span className="text-xs text-muted-foreground">·</span>
+            </>
+          )}
           <span className="text-xs text-muted-foreground">
             {formatDistanceToNow(new Date(notification.createdAt), {
               addSuffix: true,
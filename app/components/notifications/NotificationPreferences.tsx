@@ -10,12 +10,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '~/com
 import { Button } from '~/components/ui/button';
 import { Input } from '~/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '~/components/ui/tabs';
+import { RadioGroup, RadioGroupItem } from '~/components/ui/radio-group';
 import {
+  DigestFrequency,
   NotificationChannel,
   NotificationType,
   NotificationPreferences,
 } from '~/lib/notifications/notification.types';
+import { DIGEST_FREQUENCY_LABELS } from '~/lib/notifications/notification-digest';
 import { useToast } from '~/components/ui/use-toast';
+import { usePushSubscription } from '~/hooks/usePushSubscription';
 
 interface NotificationPreferencesFormProps {
   userId: string;
@@ -47,10 +51,12 @@ export function NotificationPreferencesForm({
         timezone: 'Asia/Seoul',
       },
       doNotDisturb: false,
+      digestFrequency: DigestFrequency.IMMEDIATE,
     }
   );
   
   const [isSaving, setIsSaving] = useState(false);
+  const push = usePushSubscription();
   
   // 채널 토글
   const toggleChannel = (channel: NotificationChannel) => {
@@ -63,6 +69,34 @@ export function NotificationPreferencesForm({
     }));
   };
   
+  // 푸시 토글 (이 브라우저를 구독/해제한 뒤 설정 변경)
+  const togglePush = async (enabled: boolean) => {
+    if (enabled) {
+      const subscribed = push.isSubscribed || (await push.subscribe());
+      if (!subscribed) return;
+    } else if (push.isSubscribed) {
+      await push.unsubscribe();
+    }
+    
+    setPreferences(prev => ({
+      ...prev,
+      channels: {
+        ...prev.channels,
+        [NotificationChannel.PUSH]: enabled,
+      },
+    }));
+  };
+  
+  useEffect(() => {
+    if (push.error) {
+      toast({
+        title: '푸시 알림',
+        description: push.error,
+        variant: 'destructive',
+      });
+    }
+  }, [push.error, toast]);
+  
   // 알림 타입 토글
   const toggleNotificationType = (type: NotificationType, enabled: boolean) => {
     setPreferences(prev => ({
@@ -96,6 +130,14 @@ export function NotificationPreferencesForm({
     }));
   };
   
+  // 모아보기 주기
+  const changeDigestFrequency = (frequency: string) => {
+    setPreferences(prev => ({
+      ...prev,
+      digestFrequency: frequency as DigestFrequency,
+    }));
+  };
+  
   // 저장
   const handleSave = async () => {
     if (!onSave) return;
@@ -218,13 +260,18 @@ export function NotificationPreferencesForm({
                 <Label htmlFor="push" className="flex flex-col gap-1">
                   <span>푸시 알림</span>
                   <span className="text-xs font-normal text-muted-foreground">
-                    모바일 앱에서 푸시 알림을 받습니다.
+                    {!push.isSupported
+                      ? '이 브라우저는 푸시 알림을 지원하지 않습니다.'
+                      : push.permission === 'denied'
+                        ? '브라우저 설정에서 알림 권한을 허용해야 합니다.'
+                        : '사이트를 닫아도 이 기기로 알림을 받습니다.'}
                   </span>
                 </Label>
                 <Switch
                   id="push"
                   checked={preferences.channels[NotificationChannel.PUSH] || false}
-                  onCheckedChange={() => toggleChannel(NotificationChannel.PUSH)}
+                  disabled={push.isLoading || (!push.isSupported && !preferences.channels[NotificationChannel.PUSH])}
+                  onCheckedChange={togglePush}
                 />
               </div>
               
@@ -289,6 +336,30 @@ export function NotificationPreferencesForm({
             </CardContent>
           </Card>
           
+          <Card>
+            <CardHeader>
+              <CardTitle>알림 모아보기</CardTitle>
+              <CardDescription>
+                중요도가 보통 이하인 알림(좋아요, 댓글 등)을 모아서 이메일 한 통으로 받습니다. 앱 내 알림은 바로 표시됩니다.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RadioGroup
+                value={preferences.digestFrequency ?? DigestFrequency.IMMEDIATE}
+                onValueChange={changeDigestFrequency}
+              >
+                {Object.values(DigestFrequency).map((frequency) => (
+                  <div key={frequency} className="flex items-center gap-2">
+                    <RadioGroupItem value={frequency} id={`digest-${frequency}`} />
+                    <Label htmlFor={`digest-${frequency}`} className="font-normal">
+                      {DIGEST_FREQUENCY_LABELS[frequency]}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </CardContent>
+          </Card>
+          
           <Card>
             <CardHeader>
               <CardTitle>조용한 시간</CardTitle>
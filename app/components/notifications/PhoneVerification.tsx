@@ -0,0 +1,103 @@
+/**
+ * 휴대폰 번호 인증
+ * SMS/알림톡 알림은 인증된 번호로만 발송되므로 알림 설정 화면에서 번호를 등록
+ */
+
+import { useEffect, useState } from 'react';
+import { useFetcher } from '@remix-run/react';
+import { CheckCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '~/components/ui/card';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { Label } from '~/components/ui/label';
+
+interface PhoneVerificationProps {
+  /** 인증된 번호 (숫자만) */
+  phone: string | null;
+  verified: boolean;
+  /** 문자 발송 설정이 없으면 인증번호를 보낼 수 없음 */
+  available: boolean;
+  /** 인증 요청/확인을 처리하는 라우트 */
+  action: string;
+}
+
+type PhoneVerificationResult =
+  | { success: true; intent: 'send-phone-code'; verificationId: string }
+  | { success: true; intent: 'verify-phone-code' }
+  | { success: false; error: string };
+
+function formatPhone(phone: string) {
+  return phone.replace(/^(\d{3})(\d{3,4})(\d{4})$/, '$1-$2-$3');
+}
+
+export function PhoneVerification({ phone, verified, available, action }: PhoneVerificationProps) {
+  const sendFetcher = useFetcher<PhoneVerificationResult>();
+  const verifyFetcher = useFetcher<PhoneVerificationResult>();
+  const [editing, setEditing] = useState(!verified);
+
+  const sent = sendFetcher.data?.success && sendFetcher.data.intent === 'send-phone-code' ? sendFetcher.data : null;
+  const confirmed = verifyFetcher.data?.success === true;
+  const error =
+    (verifyFetcher.data && !verifyFetcher.data.success && verifyFetcher.data.error) ||
+    (sendFetcher.data && !sendFetcher.data.success && sendFetcher.data.error) ||
+    null;
+
+  useEffect(() => {
+    if (confirmed) setEditing(false);
+  }, [confirmed]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>휴대폰 번호</CardTitle>
+        <CardDescription>
+          SMS와 카카오톡 알림톡은 인증된 번호로만 보내드립니다.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!editing && phone ? (
+          <div className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <CheckCircle className="w-4 h-4 text-green-500" />
+              {formatPhone(phone)}
+            </span>
+            <Button variant="outline" size="sm" onClick={() => setEditing(true)} disabled={!available}>
+              번호 변경
+            </Button>
+          </div>
+        ) : !available ? (
+          <p className="text-sm text-muted-foreground">문자 발송이 설정되지 않아 지금은 번호를 인증할 수 없습니다.</p>
+        ) : (
+          <>
+            <sendFetcher.Form method="post" action={action} className="flex items-end gap-2">
+              <input type="hidden" name="intent" value="send-phone-code" />
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="phone">휴대폰 번호</Label>
+                <Input id="phone" name="phone" type="tel" inputMode="numeric" placeholder="010-1234-5678" required />
+              </div>
+              <Button type="submit" variant="outline" disabled={sendFetcher.state !== 'idle'}>
+                {sent ? '다시 받기' : '인증번호 받기'}
+              </Button>
+            </sendFetcher.Form>
+
+            {sent && (
+              <verifyFetcher.Form method="post" action={action} className="flex items-end gap-2">
+                <input type="hidden" name="intent" value="verify-phone-code" />
+                <input type="hidden" name="verificationId" value={sent.verificationId} />
+                <div className="flex-1 space-y-1">
+                  <Label htmlFor="code">인증번호 (5분 안에 입력)</Label>
+                  <Input id="code" name="code" inputMode="numeric" maxLength={6} pattern="\d{6}" required />
+                </div>
+                <Button type="submit" disabled={verifyFetcher.state !== 'idle'}>
+                  확인
+                </Button>
+              </verifyFetcher.Form>
+            )}
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -78,12 +78,12 @@ export function CategoryGridBlock({ block, categories = [], isEditing, onSetting
     );
   }
 
-  const gridCols = {
+  const gridCols = ({
     3: 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3',
     4: 'grid-cols-2 md:grid-cols-3 lg:grid-cols-4',
     5: 'grid-cols-2 md:grid-cols-3 lg:grid-cols-5',
     6: 'grid-cols-2 md:grid-cols-4 lg:grid-cols-6',
-  }[columns] || 'grid-cols-2 md:grid-cols-3 lg:grid-cols-4';
+  } as Record<number, string>)[columns] || 'grid-cols-2 md:grid-cols-3 lg:grid-cols-4';
 
   return (
     <div className="py-12 bg-gray-50">
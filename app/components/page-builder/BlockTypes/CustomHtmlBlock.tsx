@@ -0,0 +1,41 @@
+import React from 'react';
+import type { BlockConfig } from '~/stores/page-builder.store';
+
+interface CustomHtmlBlockProps {
+  block: BlockConfig;
+  isEditing?: boolean;
+  onSettingsChange?: (settings: Record<string, any>) => void;
+}
+
+export function CustomHtmlBlock({ block, isEditing, onSettingsChange }: CustomHtmlBlockProps) {
+  const { html } = block.settings;
+
+  if (isEditing) {
+    return (
+      <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+        <h3 className="font-semibold text-lg">HTML 설정</h3>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            HTML
+          </label>
+          <textarea
+            value={html}
+            onChange={(e) => onSettingsChange?.({ ...block.settings, html: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+            rows={10}
+            spellCheck={false}
+          />
+          <p className="mt-1 text-sm text-gray-500">
+            저장할 때 스크립트, 이벤트 속성, iframe, 폼 요소는 제거됩니다.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!html) return null;
+
+  // 저장할 때 서버에서 정화된 HTML
+  return <div dangerouslySetInnerHTML={{ __html: html }} />;
+}
@@ -0,0 +1,143 @@
+import React from 'react';
+import { Link } from '@remix-run/react';
+import type { BlockConfig } from '~/stores/page-builder.store';
+
+interface EventSummary {
+  id: string;
+  title: string;
+  status: string;
+  startsAt: string;
+  endsAt: string;
+  pointCost: number;
+  rewardPool: number;
+  totalParticipants: number;
+  imageUrl: string | null;
+}
+
+interface EventsBlockProps {
+  block: BlockConfig;
+  events?: EventSummary[];
+  isEditing?: boolean;
+  onSettingsChange?: (settings: Record<string, any>) => void;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  OPEN: '진행중',
+  UPCOMING: '예정',
+};
+
+export function EventsBlock({ block, events = [], isEditing, onSettingsChange }: EventsBlockProps) {
+  const { title, status, count, showReward } = block.settings;
+
+  if (isEditing) {
+    return (
+      <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+        <h3 className="font-semibold text-lg">이벤트 목록 설정</h3>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            제목
+          </label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => onSettingsChange?.({ ...block.settings, title: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              표시할 이벤트
+            </label>
+            <select
+              value={status}
+              onChange={(e) => onSettingsChange?.({ ...block.settings, status: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="OPEN">진행중</option>
+              <option value="UPCOMING">예정</option>
+              <option value="ALL">진행중 + 예정</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              표시 개수
+            </label>
+            <input
+              type="number"
+              value={count}
+              min="1"
+              max="12"
+              onChange={(e) => onSettingsChange?.({ ...block.settings, count: parseInt(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+        </div>
+
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={showReward}
+            onChange={(e) => onSettingsChange?.({ ...block.settings, showReward: e.target.checked })}
+            className="mr-2"
+          />
+          참여 비용 / 보상 표시
+        </label>
+      </div>
+    );
+  }
+
+  const displayEvents = events
+    .filter((event) => status === 'ALL' || event.status === status)
+    .slice(0, count);
+
+  if (displayEvents.length === 0) return null;
+
+  return (
+    <div className="py-8 sm:py-12">
+      <div className="container mx-auto px-4">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl sm:text-3xl font-bold">{title}</h2>
+          <Link to="/events" className="text-sm text-blue-600 hover:underline">
+            전체 보기
+          </Link>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {displayEvents.map((event) => (
+            <Link
+              key={event.id}
+              to="/events"
+              className="block bg-white dark:bg-gray-800 rounded-lg shadow hover:shadow-md transition-shadow overflow-hidden"
+            >
+              {event.imageUrl && (
+                <img src={event.imageUrl} alt={event.title} loading="lazy" className="w-full h-32 object-cover" />
+              )}
+              <div className="p-4">
+                <span className={`inline-block px-2 py-0.5 text-xs rounded-full mb-2 ${
+                  event.status === 'OPEN' ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'
+                }`}>
+                  {STATUS_LABELS[event.status] ?? event.status}
+                </span>
+                <h3 className="font-semibold line-clamp-2">{event.title}</h3>
+                <p className="mt-2 text-xs text-gray-500">
+                  {new Date(event.status === 'OPEN' ? event.endsAt : event.startsAt).toLocaleString('ko-KR')}
+                  {event.status === 'OPEN' ? ' 마감' : ' 시작'} · {event.totalParticipants}명 참여
+                </p>
+                {showReward && (
+                  <p className="mt-1 text-xs text-gray-600">
+                    참여 {event.pointCost.toLocaleString()}P
+                    {event.rewardPool > 0 && ` · 보상 ${event.rewardPool.toLocaleString()}P`}
+                  </p>
+                )}
+              </div>
+            </Link>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import type { BlockConfig } from '~/stores/page-builder.store';
+
+interface FaqItem {
+  question: string;
+  answer: string;
+}
+
+interface FaqBlockProps {
+  block: BlockConfig;
+  isEditing?: boolean;
+  onSettingsChange?: (settings: Record<string, any>) => void;
+}
+
+export function FaqBlock({ block, isEditing, onSettingsChange }: FaqBlockProps) {
+  const { title, allowMultiple } = block.settings;
+  const items: FaqItem[] = block.settings.items ?? [];
+  const [openIndexes, setOpenIndexes] = useState<number[]>([]);
+
+  if (isEditing) {
+    const updateItem = (index: number, updates: Partial<FaqItem>) => {
+      const next = items.map((item, i) => (i === index ? { ...item, ...updates } : item));
+      onSettingsChange?.({ ...block.settings, items: next });
+    };
+
+    return (
+      <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+        <h3 className="font-semibold text-lg">FAQ 설정</h3>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            제목
+          </label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => onSettingsChange?.({ ...block.settings, title: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={allowMultiple}
+            onChange={(e) => onSettingsChange?.({ ...block.settings, allowMultiple: e.target.checked })}
+            className="mr-2"
+          />
+          여러 항목 동시에 펼치기
+        </label>
+
+        <div className="space-y-3">
+          {items.map((item, index) => (
+            <div key={index} className="space-y-2 p-3 bg-white border border-gray-200 rounded-md">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={item.question}
+                  placeholder="질문"
+                  onChange={(e) => updateItem(index, { question: e.target.value })}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+                />
+                <button
+                  onClick={() => onSettingsChange?.({ ...block.settings, items: items.filter((_, i) => i !== index) })}
+                  className="px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded"
+                >
+                  삭제
+                </button>
+              </div>
+              <textarea
+                value={item.answer}
+                placeholder="답변"
+                onChange={(e) => updateItem(index, { answer: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                rows={3}
+              />
+            </div>
+          ))}
+          <button
+            onClick={() => onSettingsChange?.({ ...block.settings, items: [...items, { question: '', answer: '' }] })}
+            disabled={items.length >= 50}
+            className="px-3 py-2 text-sm bg-white border border-gray-300 rounded hover:bg-gray-100"
+          >
+            + 질문 추가
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (items.length === 0) return null;
+
+  const toggle = (index: number) => {
+    if (openIndexes.includes(index)) {
+      setOpenIndexes(openIndexes.filter((i) => i !== index));
+    } else {
+      setOpenIndexes(allowMultiple ? [...openIndexes, index] : [index]);
+    }
+  };
+
+  return (
+    <div className="py-8 sm:py-12">
+      <div className="container mx-auto px-4 max-w-3xl">
+        {title && <h2 className="text-2xl sm:text-3xl font-bold mb-6">{title}</h2>}
+        <div className="divide-y divide-gray-200 dark:divide-gray-700 border-y border-gray-200 dark:border-gray-700">
+          {items.map((item, index) => {
+            const isOpen = openIndexes.includes(index);
+            return (
+              <div key={index}>
+                <button
+                  onClick={() => toggle(index)}
+                  aria-expanded={isOpen}
+                  className="w-full flex items-center justify-between py-4 text-left font-medium"
+                >
+                  <span>{item.question}</span>
+                  <span className="ml-4 text-gray-400">{isOpen ? '−' : '+'}</span>
+                </button>
+                {isOpen && (
+                  <p className="pb-4 text-gray-600 dark:text-gray-300 whitespace-pre-line">{item.answer}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
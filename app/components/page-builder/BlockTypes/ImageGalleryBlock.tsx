@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import type { BlockConfig } from '~/stores/page-builder.store';
+
+interface GalleryImage {
+  url: string;
+  alt: string;
+  caption: string;
+}
+
+interface ImageGalleryBlockProps {
+  block: BlockConfig;
+  isEditing?: boolean;
+  onSettingsChange?: (settings: Record<string, any>) => void;
+}
+
+const GRID_COLUMNS: Record<number, string> = {
+  2: 'grid-cols-1 sm:grid-cols-2',
+  3: 'grid-cols-2 md:grid-cols-3',
+  4: 'grid-cols-2 md:grid-cols-4',
+};
+
+export function ImageGalleryBlock({ block, isEditing, onSettingsChange }: ImageGalleryBlockProps) {
+  const { title, layout, columns, autoplay, interval } = block.settings;
+  const images: GalleryImage[] = block.settings.images ?? [];
+  const [current, setCurrent] = useState(0);
+
+  // 캐러셀 자동 넘김
+  useEffect(() => {
+    if (isEditing || layout !== 'carousel' || !autoplay || images.length < 2) return;
+    const timer = setInterval(() => setCurrent((index) => (index + 1) % images.length), interval * 1000);
+    return () => clearInterval(timer);
+  }, [isEditing, layout, autoplay, interval, images.length]);
+
+  if (isEditing) {
+    const updateImage = (index: number, updates: Partial<GalleryImage>) => {
+      const next = images.map((image, i) => (i === index ? { ...image, ...updates } : image));
+      onSettingsChange?.({ ...block.settings, images: next });
+    };
+
+    return (
+      <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+        <h3 className="font-semibold text-lg">이미지 갤러리 설정</h3>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            제목 (선택사항)
+          </label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => onSettingsChange?.({ ...block.settings, title: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              형태
+            </label>
+            <select
+              value={layout}
+              onChange={(e) => onSettingsChange?.({ ...block.settings, layout: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="grid">그리드</option>
+              <option value="carousel">캐러셀</option>
+            </select>
+          </div>
+
+          {layout === 'grid' ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                열 개수
+              </label>
+              <select
+                value={columns}
+                onChange={(e) => onSettingsChange?.({ ...block.settings, columns: parseInt(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="2">2열</option>
+                <option value="3">3열</option>
+                <option value="4">4열</option>
+              </select>
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                자동 넘김 간격 (초)
+              </label>
+              <input
+                type="number"
+                value={interval}
+                min="2"
+                max="30"
+                onChange={(e) => onSettingsChange?.({ ...block.settings, interval: parseInt(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          )}
+        </div>
+
+        {layout === 'carousel' && (
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={autoplay}
+              onChange={(e) => onSettingsChange?.({ ...block.settings, autoplay: e.target.checked })}
+              className="mr-2"
+            />
+            자동 넘김
+          </label>
+        )}
+
+        <div className="space-y-3">
+          <label className="block text-sm font-medium text-gray-700">
+            이미지 ({images.length}/30)
+          </label>
+          {images.map((image, index) => (
+            <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+              <input
+                type="text"
+                value={image.url}
+                placeholder="이미지 URL"
+                onChange={(e) => updateImage(index, { url: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <input
+                type="text"
+                value={image.alt}
+                placeholder="대체 텍스트"
+                onChange={(e) => updateImage(index, { alt: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <input
+                type="text"
+                value={image.caption}
+                placeholder="설명 (선택사항)"
+                onChange={(e) => updateImage(index, { caption: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <button
+                onClick={() => onSettingsChange?.({ ...block.settings, images: images.filter((_, i) => i !== index) })}
+                className="px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded"
+              >
+                삭제
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => onSettingsChange?.({ ...block.settings, images: [...images, { url: '', alt: '', caption: '' }] })}
+            disabled={images.length >= 30}
+            className="px-3 py-2 text-sm bg-white border border-gray-300 rounded hover:bg-gray-100"
+          >
+            + 이미지 추가
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (images.length === 0) return null;
+
+  if (layout === 'carousel') {
+    const image = images[current % images.length];
+
+    return (
+      <div className="py-8">
+        <div className="container mx-auto px-4">
+          {title && <h2 className="text-2xl sm:text-3xl font-bold mb-6">{title}</h2>}
+          <div className="relative overflow-hidden rounded-lg bg-gray-900">
+            <img src={image.url} alt={image.alt} className="w-full max-h-[500px] object-contain mx-auto" />
+            {image.caption && (
+              <p className="absolute bottom-0 inset-x-0 bg-black/50 text-white text-sm px-4 py-2">{image.caption}</p>
+            )}
+            {images.length > 1 && (
+              <>
+                <button
+                  onClick={() => setCurrent((current - 1 + images.length) % images.length)}
+                  className="absolute left-2 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-black/40 text-white hover:bg-black/60"
+                  aria-label="이전 이미지"
+                >
+                  ‹
+                </button>
+                <button
+                  onClick={() => setCurrent((current + 1) % images.length)}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-black/40 text-white hover:bg-black/60"
+                  aria-label="다음 이미지"
+                >
+                  ›
+                </button>
+              </>
+            )}
+          </div>
+          {images.length > 1 && (
+            <div className="flex justify-center gap-2 mt-3">
+              {images.map((_, index) => (
+                <button
+                  key={index}
+                  onClick={() => setCurrent(index)}
+                  className={`w-2.5 h-2.5 rounded-full ${index === current ? 'bg-blue-600' : 'bg-gray-300'}`}
+                  aria-label={`${index + 1}번째 이미지`}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-8">
+      <div className="container mx-auto px-4">
+        {title && <h2 className="text-2xl sm:text-3xl font-bold mb-6">{title}</h2>}
+        <div className={`grid ${GRID_COLUMNS[columns] ?? GRID_COLUMNS[3]} gap-4`}>
+          {images.map((image, index) => (
+            <figure key={index}>
+              <img src={image.url} alt={image.alt} loading="lazy" className="w-full aspect-square object-cover rounded-lg" />
+              {image.caption && <figcaption className="mt-2 text-sm text-gray-600">{image.caption}</figcaption>}
+            </figure>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
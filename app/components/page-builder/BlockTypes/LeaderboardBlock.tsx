@@ -0,0 +1,120 @@
+import React from 'react';
+import { Link } from '@remix-run/react';
+import { PERIOD_LABELS, type LeaderboardPeriod } from '~/lib/points/leaderboard';
+import type { BlockConfig } from '~/stores/page-builder.store';
+
+interface LeaderboardRow {
+  rank: number;
+  points: number;
+  wins: number;
+  winRate: number;
+  user: {
+    username: string;
+    name: string | null;
+  };
+}
+
+interface LeaderboardBlockProps {
+  block: BlockConfig;
+  leaderboards?: Partial<Record<LeaderboardPeriod, LeaderboardRow[]>>;
+  isEditing?: boolean;
+  onSettingsChange?: (settings: Record<string, any>) => void;
+}
+
+export function LeaderboardBlock({ block, leaderboards = {}, isEditing, onSettingsChange }: LeaderboardBlockProps) {
+  const { title, period, count, showWinRate } = block.settings;
+
+  if (isEditing) {
+    return (
+      <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+        <h3 className="font-semibold text-lg">리더보드 설정</h3>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            제목
+          </label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => onSettingsChange?.({ ...block.settings, title: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              기간
+            </label>
+            <select
+              value={period}
+              onChange={(e) => onSettingsChange?.({ ...block.settings, period: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              {Object.entries(PERIOD_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              표시 인원
+            </label>
+            <input
+              type="number"
+              value={count}
+              min="3"
+              max="20"
+              onChange={(e) => onSettingsChange?.({ ...block.settings, count: parseInt(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+        </div>
+
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={showWinRate}
+            onChange={(e) => onSettingsChange?.({ ...block.settings, showWinRate: e.target.checked })}
+            className="mr-2"
+          />
+          승률 표시
+        </label>
+      </div>
+    );
+  }
+
+  const rows = (leaderboards[period as LeaderboardPeriod] ?? []).slice(0, count);
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="py-8 sm:py-12">
+      <div className="container mx-auto px-4 max-w-3xl">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl sm:text-3xl font-bold">{title}</h2>
+          <Link to={`/leaderboard?period=${period}`} className="text-sm text-blue-600 hover:underline">
+            전체 순위
+          </Link>
+        </div>
+
+        <ol className="bg-white dark:bg-gray-800 rounded-lg shadow divide-y divide-gray-100 dark:divide-gray-700">
+          {rows.map((row) => (
+            <li key={row.rank} className="flex items-center gap-4 px-4 py-3">
+              <span className={`w-8 text-center font-bold ${row.rank <= 3 ? 'text-yellow-600' : 'text-gray-500'}`}>
+                {row.rank}
+              </span>
+              <span className="flex-1 truncate">{row.user.name || row.user.username}</span>
+              {showWinRate && (
+                <span className="text-sm text-gray-500">승률 {row.winRate.toFixed(1)}%</span>
+              )}
+              <span className="font-semibold">{row.points.toLocaleString()}P</span>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
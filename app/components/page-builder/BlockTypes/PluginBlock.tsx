@@ -0,0 +1,141 @@
+import React from 'react';
+import type { BlockConfig } from '~/stores/page-builder.store';
+import type { PluginBlockSetting, PluginBlockType } from '~/lib/plugins/plugin-extensions';
+import { getPluginBlockRenderer } from '../plugin-block-renderers';
+
+interface PluginBlockProps {
+  block: BlockConfig;
+  /** 등록된 블록 정의 (플러그인이 비활성화되었으면 없음) */
+  definition?: PluginBlockType;
+  isEditing?: boolean;
+  onSettingsChange?: (settings: Record<string, any>) => void;
+}
+
+export function PluginBlock({ block, definition, isEditing, onSettingsChange }: PluginBlockProps) {
+  const Renderer = getPluginBlockRenderer(block.type);
+
+  if (!Renderer || !definition) {
+    if (!isEditing) return null;
+    return (
+      <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+        플러그인 블록({block.type})을 표시할 수 없습니다. 플러그인이 비활성화되었거나 삭제되었습니다.
+      </div>
+    );
+  }
+
+  if (!isEditing) {
+    return <Renderer settings={block.settings} isEditing={false} />;
+  }
+
+  const handleChange = (key: string, value: string | number | boolean) => {
+    onSettingsChange?.({ ...block.settings, [key]: value });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+        <h3 className="font-semibold text-lg">{definition.label} 설정</h3>
+        {definition.description && (
+          <p className="text-sm text-gray-600">{definition.description}</p>
+        )}
+
+        {definition.settings.map((setting) => (
+          <SettingField
+            key={setting.key}
+            setting={setting}
+            value={block.settings[setting.key] ?? setting.default}
+            onChange={(value) => handleChange(setting.key, value)}
+          />
+        ))}
+      </div>
+
+      <div className="border-t pt-4">
+        <h4 className="text-sm font-medium text-gray-700 mb-2">미리보기</h4>
+        <Renderer settings={block.settings} isEditing />
+      </div>
+    </div>
+  );
+}
+
+interface SettingFieldProps {
+  setting: PluginBlockSetting;
+  value: string | number | boolean;
+  onChange: (value: string | number | boolean) => void;
+}
+
+function SettingField({ setting, value, onChange }: SettingFieldProps) {
+  const id = `plugin-setting-${setting.key}`;
+
+  if (setting.type === 'boolean') {
+    return (
+      <div className="flex items-center">
+        <input
+          id={id}
+          type="checkbox"
+          checked={Boolean(value)}
+          onChange={(e) => onChange(e.target.checked)}
+          className="mr-2"
+        />
+        <label htmlFor={id} className="text-sm font-medium text-gray-700">
+          {setting.label}
+        </label>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+        {setting.label}
+      </label>
+      {setting.type === 'textarea' ? (
+        <textarea
+          id={id}
+          value={String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          rows={4}
+        />
+      ) : setting.type === 'select' ? (
+        <select
+          id={id}
+          value={String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+        >
+          {setting.options?.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      ) : setting.type === 'number' ? (
+        <input
+          id={id}
+          type="number"
+          value={Number(value)}
+          min={setting.min}
+          max={setting.max}
+          onChange={(e) => onChange(e.target.valueAsNumber)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+        />
+      ) : setting.type === 'color' ? (
+        <input
+          id={id}
+          type="color"
+          value={String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full h-10 px-3 py-1 border border-gray-300 rounded-md"
+        />
+      ) : (
+        <input
+          id={id}
+          type="text"
+          value={String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+        />
+      )}
+    </div>
+  );
+}
@@ -114,11 +114,11 @@ export function RecentPostsBlock({ block, posts = [], isEditing, onSettingsChang
   }
 
   const displayPosts = posts.slice(0, count);
-  const gridCols = {
+  const gridCols = ({
     2: 'grid-cols-1 sm:grid-cols-2',
     3: 'grid-cols-1 sm:grid-cols-2 lg:grid-cols-3',
     4: 'grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4',
-  }[columns] || 'grid-cols-1 sm:grid-cols-2 lg:grid-cols-3';
+  } as Record<number, string>)[columns] || 'grid-cols-1 sm:grid-cols-2 lg:grid-cols-3';
 
   return (
     <div className="py-8 sm:py-12">
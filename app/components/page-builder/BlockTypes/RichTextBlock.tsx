@@ -0,0 +1,62 @@
+import React from 'react';
+import { RichTextEditor } from '~/components/editor/RichTextEditor';
+import type { BlockConfig } from '~/stores/page-builder.store';
+
+interface RichTextBlockProps {
+  block: BlockConfig;
+  isEditing?: boolean;
+  onSettingsChange?: (settings: Record<string, any>) => void;
+}
+
+const WIDTH_CLASSES: Record<string, string> = {
+  narrow: 'max-w-2xl',
+  normal: 'max-w-4xl',
+  wide: 'max-w-6xl',
+};
+
+export function RichTextBlock({ block, isEditing, onSettingsChange }: RichTextBlockProps) {
+  const { content, width } = block.settings;
+
+  if (isEditing) {
+    return (
+      <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+        <h3 className="font-semibold text-lg">텍스트 설정</h3>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            내용
+          </label>
+          <RichTextEditor
+            value={content}
+            onChange={(value) => onSettingsChange?.({ ...block.settings, content: value })}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            너비
+          </label>
+          <select
+            value={width}
+            onChange={(e) => onSettingsChange?.({ ...block.settings, width: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="narrow">좁게</option>
+            <option value="normal">보통</option>
+            <option value="wide">넓게</option>
+          </select>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-8">
+      {/* 에디터와 같은 스타일로 표시 (내용은 저장할 때 서버에서 정화) */}
+      <div
+        className={`ProseMirror ${WIDTH_CLASSES[width] ?? WIDTH_CLASSES.normal} mx-auto px-4`}
+        dangerouslySetInnerHTML={{ __html: content }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import React from 'react';
+import { getVideoEmbed } from '~/lib/pages/block-schema';
+import type { BlockConfig } from '~/stores/page-builder.store';
+
+interface VideoBlockProps {
+  block: BlockConfig;
+  isEditing?: boolean;
+  onSettingsChange?: (settings: Record<string, any>) => void;
+}
+
+const ASPECT_CLASSES: Record<string, string> = {
+  '16:9': 'aspect-video',
+  '4:3': 'aspect-[4/3]',
+  '1:1': 'aspect-square',
+};
+
+export function VideoBlock({ block, isEditing, onSettingsChange }: VideoBlockProps) {
+  const { title, url, aspectRatio } = block.settings;
+  const embed = url ? getVideoEmbed(url) : null;
+
+  if (isEditing) {
+    return (
+      <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+        <h3 className="font-semibold text-lg">동영상 설정</h3>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            제목 (선택사항)
+          </label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => onSettingsChange?.({ ...block.settings, title: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            동영상 URL (YouTube, Vimeo, mp4/webm 파일)
+          </label>
+          <input
+            type="text"
+            value={url}
+            onChange={(e) => onSettingsChange?.({ ...block.settings, url: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+          {url && !embed && (
+            <p className="mt-1 text-sm text-red-600">지원하지 않는 동영상 주소입니다.</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            화면 비율
+          </label>
+          <select
+            value={aspectRatio}
+            onChange={(e) => onSettingsChange?.({ ...block.settings, aspectRatio: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="16:9">16:9</option>
+            <option value="4:3">4:3</option>
+            <option value="1:1">1:1</option>
+          </select>
+        </div>
+      </div>
+    );
+  }
+
+  if (!embed) return null;
+
+  const aspectClass = ASPECT_CLASSES[aspectRatio] ?? ASPECT_CLASSES['16:9'];
+
+  return (
+    <div className="py-8">
+      <div className="container mx-auto px-4 max-w-4xl">
+        {title && <h2 className="text-2xl sm:text-3xl font-bold mb-6">{title}</h2>}
+        {embed.kind === 'iframe' ? (
+          <iframe
+            src={embed.src}
+            title={title || '동영상'}
+            className={`w-full ${aspectClass} rounded-lg`}
+            allow="accelerometer; encrypted-media; gyroscope; picture-in-picture; fullscreen"
+            allowFullScreen
+            loading="lazy"
+          />
+        ) : (
+          <video src={embed.src} controls className={`w-full ${aspectClass} rounded-lg bg-black`} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import React from 'react';
+import { VoteBox } from '~/components/home/VoteBox';
+import type { BlockConfig } from '~/stores/page-builder.store';
+
+interface VoteTopicSummary {
+  topicId: string;
+  title: string;
+  description: string | null;
+  likeCount: number;
+  dislikeCount: number;
+}
+
+interface VoteBlockProps {
+  block: BlockConfig;
+  voteTopics?: VoteTopicSummary[];
+  isEditing?: boolean;
+  onSettingsChange?: (settings: Record<string, any>) => void;
+}
+
+export function VoteBlock({ block, voteTopics = [], isEditing, onSettingsChange }: VoteBlockProps) {
+  const { topicId } = block.settings;
+  // 지정한 투표가 끝났거나 없으면 진행 중인 최신 투표
+  const topic = voteTopics.find((t) => t.topicId === topicId) ?? voteTopics[0];
+
+  if (isEditing) {
+    return (
+      <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+        <h3 className="font-semibold text-lg">투표 설정</h3>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            투표 주제
+          </label>
+          <select
+            value={topicId}
+            onChange={(e) => onSettingsChange?.({ ...block.settings, topicId: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="">진행 중인 최신 투표</option>
+            {voteTopics.map((t) => (
+              <option key={t.topicId} value={t.topicId}>
+                {t.title}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {!topic && (
+          <p className="text-sm text-gray-500">진행 중인 투표가 없습니다. 투표가 없으면 블록이 표시되지 않습니다.</p>
+        )}
+      </div>
+    );
+  }
+
+  if (!topic) return null;
+
+  return (
+    <div className="py-8">
+      <div className="container mx-auto px-4 max-w-4xl">
+        <VoteBox
+          key={topic.topicId}
+          topicId={topic.topicId}
+          title={topic.title}
+          {...(topic.description ? { description: topic.description } : {})}
+          initialLikeCount={topic.likeCount}
+          initialDislikeCount={topic.dislikeCount}
+        />
+      </div>
+    </div>
+  );
+}
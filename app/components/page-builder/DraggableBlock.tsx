@@ -2,9 +2,12 @@ import React from 'react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import type { BlockConfig } from '~/stores/page-builder.store';
+import { BLOCK_LABELS, isBuiltinBlockType } from '~/lib/pages/block-schema';
 
 interface DraggableBlockProps {
   block: BlockConfig;
+  /** 블록 이름 (플러그인 블록처럼 기본 이름이 없는 경우) */
+  label?: string;
   children: React.ReactNode;
   onRemove: () => void;
   onToggleActive: () => void;
@@ -13,6 +16,7 @@ interface DraggableBlockProps {
 
 export function DraggableBlock({ 
   block, 
+  label,
   children, 
   onRemove, 
   onToggleActive,
@@ -33,14 +37,6 @@ export function DraggableBlock({
     opacity: isDragging ? 0.5 : 1,
   };
 
-  const blockTypeLabels = {
-    'hero': '히어로 섹션',
-    'recent-posts': '최근 게시물',
-    'category-grid': '카테고리 그리드',
-    'popular-posts': '인기 게시물',
-    'banner': '배너',
-  };
-
   if (!isEditing) {
     return <div>{children}</div>;
   }
@@ -67,7 +63,7 @@ export function DraggableBlock({
           </button>
           
           <div>
-            <h4 className="font-medium">{blockTypeLabels[block.type]}</h4>
+            <h4 className="font-medium">{label ?? (isBuiltinBlockType(block.type) ? BLOCK_LABELS[block.type] : block.type)}</h4>
             <p className="text-sm text-gray-500">ID: {block.id}</p>
           </div>
         </div>
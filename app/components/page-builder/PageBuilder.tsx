@@ -19,7 +19,19 @@ import { RecentPostsBlock } from './BlockTypes/RecentPostsBlock';
 import { CategoryGridBlock } from './BlockTypes/CategoryGridBlock';
 import { PopularPostsBlock } from './BlockTypes/PopularPostsBlock';
 import { BannerBlock } from './BlockTypes/BannerBlock';
+import { RichTextBlock } from './BlockTypes/RichTextBlock';
+import { ImageGalleryBlock } from './BlockTypes/ImageGalleryBlock';
+import { VideoBlock } from './BlockTypes/VideoBlock';
+import { VoteBlock } from './BlockTypes/VoteBlock';
+import { EventsBlock } from './BlockTypes/EventsBlock';
+import { LeaderboardBlock } from './BlockTypes/LeaderboardBlock';
+import { FaqBlock } from './BlockTypes/FaqBlock';
+import { CustomHtmlBlock } from './BlockTypes/CustomHtmlBlock';
+import { PluginBlock } from './BlockTypes/PluginBlock';
 import type { BlockConfig } from '~/stores/page-builder.store';
+import { BLOCK_LABELS, BUILTIN_BLOCK_TYPES } from '~/lib/pages/block-schema';
+import { getDefaultBlockSettings, isPluginBlockType } from '~/lib/plugins/plugin-extensions';
+import type { PluginBlockType } from '~/lib/plugins/plugin-extensions';
 
 interface PageBuilderProps {
   isEditing?: boolean;
@@ -27,12 +39,19 @@ interface PageBuilderProps {
     posts?: any[];
     categories?: any[];
     popularPosts?: any[];
+    voteTopics?: any[];
+    events?: any[];
+    leaderboards?: Record<string, any[]>;
   };
+  /** 활성 플러그인이 등록한 블록 */
+  pluginBlocks?: PluginBlockType[];
+  /** 방문자용 렌더링에 쓸 블록 (없으면 편집 중인 블록) */
+  blocks?: BlockConfig[];
 }
 
-export function PageBuilder({ isEditing = false, data }: PageBuilderProps) {
+export function PageBuilder({ isEditing = false, data, pluginBlocks = [], blocks: pageBlocks }: PageBuilderProps) {
   const {
-    blocks,
+    blocks: editingBlocks,
     addBlock,
     removeBlock,
     updateBlock,
@@ -40,6 +59,7 @@ export function PageBuilder({ isEditing = false, data }: PageBuilderProps) {
     toggleBlockActive,
     setIsDragging,
   } = usePageBuilderStore();
+  const blocks = (!isEditing && pageBlocks) || editingBlocks;
 
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -61,6 +81,8 @@ export function PageBuilder({ isEditing = false, data }: PageBuilderProps) {
     }
   };
 
+  const findPluginBlock = (type: string) => pluginBlocks.find((pluginBlock) => pluginBlock.type === type);
+
   const renderBlock = (block: BlockConfig) => {
     const blockProps = {
       block,
@@ -81,7 +103,26 @@ export function PageBuilder({ isEditing = false, data }: PageBuilderProps) {
         return <PopularPostsBlock {...blockProps} posts={data?.popularPosts} />;
       case 'banner':
         return <BannerBlock {...blockProps} />;
+      case 'rich-text':
+        return <RichTextBlock {...blockProps} />;
+      case 'image-gallery':
+        return <ImageGalleryBlock {...blockProps} />;
+      case 'video':
+        return <VideoBlock {...blockProps} />;
+      case 'vote':
+        return <VoteBlock {...blockProps} voteTopics={data?.voteTopics} />;
+      case 'events':
+        return <EventsBlock {...blockProps} events={data?.events} />;
+      case 'leaderboard':
+        return <LeaderboardBlock {...blockProps} leaderboards={data?.leaderboards} />;
+      case 'faq':
+        return <FaqBlock {...blockProps} />;
+      case 'custom-html':
+        return <CustomHtmlBlock {...blockProps} />;
       default:
+        if (isPluginBlockType(block.type)) {
+          return <PluginBlock {...blockProps} definition={findPluginBlock(block.type)} />;
+        }
         return null;
     }
   };
@@ -94,36 +135,25 @@ export function PageBuilder({ isEditing = false, data }: PageBuilderProps) {
             <h2 className="text-2xl font-bold mb-4">페이지 빌더</h2>
             
             <div className="flex flex-wrap gap-2 mb-4">
-              <button
-                onClick={() => addBlock('hero')}
-                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
-              >
-                + 히어로 섹션
-              </button>
-              <button
-                onClick={() => addBlock('recent-posts')}
-                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
-              >
-                + 최근 게시물
-              </button>
-              <button
-                onClick={() => addBlock('category-grid')}
-                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
-              >
-                + 카테고리 그리드
-              </button>
-              <button
-                onClick={() => addBlock('popular-posts')}
-                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
-              >
-                + 인기 게시물
-              </button>
-              <button
-                onClick={() => addBlock('banner')}
-                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
-              >
-                + 배너
-              </button>
+              {BUILTIN_BLOCK_TYPES.map((type) => (
+                <button
+                  key={type}
+                  onClick={() => addBlock(type)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                >
+                  + {BLOCK_LABELS[type]}
+                </button>
+              ))}
+              {pluginBlocks.map((pluginBlock) => (
+                <button
+                  key={pluginBlock.type}
+                  onClick={() => addBlock(pluginBlock.type, getDefaultBlockSettings(pluginBlock.settings))}
+                  className="px-4 py-2 bg-purple-600 text-white rounded hover:bg-purple-700"
+                  title={pluginBlock.description}
+                >
+                  + {pluginBlock.label}
+                </button>
+              ))}
             </div>
             
             <p className="text-sm text-gray-600">
@@ -145,6 +175,7 @@ export function PageBuilder({ isEditing = false, data }: PageBuilderProps) {
                 <DraggableBlock
                   key={block.id}
                   block={block}
+                  label={findPluginBlock(block.type)?.label}
                   onRemove={() => removeBlock(block.id)}
                   onToggleActive={() => toggleBlockActive(block.id)}
                   isEditing={isEditing}
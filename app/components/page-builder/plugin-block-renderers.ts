@@ -0,0 +1,25 @@
+import type { ComponentType } from 'react';
+import type { PluginBlockRendererProps } from '~/lib/plugins/plugin-extensions';
+
+interface PluginBlocksModule {
+  blocks?: Record<string, ComponentType<PluginBlockRendererProps>>;
+}
+
+// 내장 플러그인이 app/plugins/{플러그인 ID}/blocks.tsx 로 내보낸 블록 렌더러
+const modules = import.meta.glob<PluginBlocksModule>('../../plugins/*/blocks.tsx', { eager: true });
+
+const renderers = new Map<string, ComponentType<PluginBlockRendererProps>>();
+
+for (const [path, module] of Object.entries(modules)) {
+  const pluginId = path.split('/').slice(-2)[0];
+  for (const [name, component] of Object.entries(module.blocks ?? {})) {
+    renderers.set(`${pluginId}/${name}`, component);
+  }
+}
+
+/**
+ * 플러그인 블록 타입("{플러그인 ID}/{이름}")의 렌더러 조회
+ */
+export function getPluginBlockRenderer(type: string) {
+  return renderers.get(type) ?? null;
+}
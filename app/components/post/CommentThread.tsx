@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "@remix-run/react";
+import { formatDistanceToNow } from "date-fns";
+import { ko } from "date-fns/locale";
+import { Edit, Trash2, User, CornerDownRight } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Textarea } from "~/components/ui/textarea";
+import { cn } from "~/lib/utils";
+import { MAX_COMMENT_DEPTH, splitMentions } from "~/lib/comments/mentions";
+
+export interface ThreadComment {
+  id: string;
+  content: string;
+  createdAt: string;
+  parentId: string | null;
+  author: {
+    id: string;
+    username: string;
+    name: string | null;
+    email: string;
+  };
+  replies: ThreadComment[];
+}
+
+interface CommentThreadProps {
+  comment: ThreadComment;
+  depth?: number;
+  currentUserId?: string;
+  isAdmin: boolean;
+  /** 게시판 댓글 권한 (답글/수정 버튼 노출) */
+  canReply?: boolean;
+}
+
+function CommentContent({ content }: { content: string }) {
+  return (
+    <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+      {splitMentions(content).map((segment, index) =>
+        segment.type === "mention" ? (
+          <span key={index} className="font-medium text-primary">
+            {segment.value}
+          </span>
+        ) : (
+          <span key={index}>{segment.value}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+export function CommentThread({ comment, depth = 0, currentUserId, isAdmin, canReply = !!currentUserId }: CommentThreadProps) {
+  const fetcher = useFetcher<{ success?: boolean; error?: string }>();
+  const [isEditing, setIsEditing] = useState(false);
+  const [editContent, setEditContent] = useState("");
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyContent, setReplyContent] = useState("");
+
+  const canModify = currentUserId === comment.author.id || isAdmin;
+  const authorName = comment.author.name || comment.author.username || comment.author.email.split('@')[0];
+
+  // 답글 작성 완료 시 폼 닫기
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data?.success) {
+      setIsReplying(false);
+      setReplyContent("");
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  const handleEdit = () => {
+    setIsEditing(true);
+    setEditContent(comment.content);
+  };
+
+  const handleSaveEdit = () => {
+    fetcher.submit(
+      { _action: "editComment", commentId: comment.id, content: editContent },
+      { method: "post" }
+    );
+    setIsEditing(false);
+    setEditContent("");
+  };
+
+  const handleDelete = () => {
+    if (confirm("댓글을 삭제하시겠습니까? 답글도 함께 삭제됩니다.")) {
+      fetcher.submit(
+        { _action: "deleteComment", commentId: comment.id },
+        { method: "post" }
+      );
+    }
+  };
+
+  const handleStartReply = () => {
+    setIsReplying(true);
+    // 최대 깊이에서는 같은 레벨에 붙으므로 대상 작성자를 멘션으로 표시
+    setReplyContent(depth >= MAX_COMMENT_DEPTH ? `@${comment.author.username} ` : "");
+  };
+
+  const handleSubmitReply = () => {
+    fetcher.submit(
+      { _action: "comment", parentId: comment.id, content: replyContent },
+      { method: "post" }
+    );
+  };
+
+  return (
+    <div id={`comment-${comment.id}`} className={cn(depth === 0 ? "p-6" : "pt-4")}>
+      <div className="flex items-start gap-3">
+        {depth > 0 && (
+          <CornerDownRight className="h-4 w-4 mt-3 text-gray-400 dark:text-gray-500 shrink-0" />
+        )}
+        <div className={cn(
+          "bg-gray-200 dark:bg-gray-700 rounded-full flex items-center justify-center shrink-0",
+          depth === 0 ? "w-10 h-10" : "w-8 h-8"
+        )}>
+          <User className="h-5 w-5 text-gray-400 dark:text-gray-500" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between mb-1">
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-gray-900 dark:text-gray-100">{authorName}</span>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true, locale: ko })}
+              </span>
+            </div>
+            {!isEditing && (
+              <div className="flex items-center gap-1">
+                {canReply && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleStartReply}
+                    className="h-7 px-2 text-xs"
+                  >
+                    <CornerDownRight className="h-3 w-3 mr-1" />
+                    답글
+                  </Button>
+                )}
+                {canModify && (
+                  <>
+                    {canReply && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleEdit}
+                        className="h-7 px-2 text-xs"
+                      >
+                        <Edit className="h-3 w-3 mr-1" />
+                        수정
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleDelete}
+                      className="h-7 px-2 text-xs text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      삭제
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+          {isEditing ? (
+            <div className="space-y-2">
+              <Textarea
+                value={editContent}
+                onChange={(e) => setEditContent(e.target.value)}
+                className="w-full"
+                rows={3}
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => setIsEditing(false)}>
+                  취소
+                </Button>
+                <Button size="sm" onClick={handleSaveEdit} disabled={!editContent.trim()}>
+                  저장
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <CommentContent content={comment.content} />
+          )}
+
+          {isReplying && (
+            <div className="mt-3 space-y-2">
+              <Textarea
+                value={replyContent}
+                onChange={(e) => setReplyContent(e.target.value)}
+                placeholder={`${authorName}님에게 답글 작성... (@아이디 로 멘션)`}
+                className="w-full"
+                rows={2}
+              />
+              {fetcher.data?.error && (
+                <p className="text-sm text-red-600">{fetcher.data.error}</p>
+              )}
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => setIsReplying(false)}>
+                  취소
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleSubmitReply}
+                  disabled={!replyContent.trim() || fetcher.state !== "idle"}
+                >
+                  답글 작성
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {comment.replies.length > 0 && (
+            <div className="mt-2 border-l-2 border-gray-100 dark:border-gray-800 pl-2">
+              {comment.replies.map((reply) => (
+                <CommentThread
+                  key={reply.id}
+                  comment={reply}
+                  depth={depth + 1}
+                  currentUserId={currentUserId}
+                  isAdmin={isAdmin}
+                  canReply={canReply}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { Link, useFetcher, useSearchParams } from "@remix-run/react";
+import { format } from "date-fns";
+import { ko } from "date-fns/locale";
+import { History, RotateCcw } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import { cn } from "~/lib/utils";
+import type { DiffMode, SideBySideRow } from "~/lib/posts/revision-diff";
+
+export interface RevisionListItem {
+  id: string;
+  revision: number;
+  title: string;
+  restoredFromId: string | null;
+  createdAt: string;
+  author: {
+    id: string;
+    username: string;
+    name: string | null;
+  };
+}
+
+export interface RevisionComparison {
+  mode: DiffMode;
+  left: { id: string; label: string; title: string };
+  right: { id: string | null; label: string; title: string };
+  titleChanged: boolean;
+  rows: SideBySideRow[];
+  stats: { added: number; removed: number };
+}
+
+interface PostRevisionHistoryProps {
+  revisions: RevisionListItem[];
+  comparison: RevisionComparison | null;
+  isAdmin: boolean;
+}
+
+const rowStyles: Record<SideBySideRow["type"], { left: string; right: string }> = {
+  equal: { left: "", right: "" },
+  removed: { left: "bg-red-50 dark:bg-red-950/40", right: "bg-gray-50 dark:bg-gray-900" },
+  added: { left: "bg-gray-50 dark:bg-gray-900", right: "bg-green-50 dark:bg-green-950/40" },
+  changed: { left: "bg-red-50 dark:bg-red-950/40", right: "bg-green-50 dark:bg-green-950/40" },
+};
+
+export function PostRevisionHistory({ revisions, comparison, isAdmin }: PostRevisionHistoryProps) {
+  const [searchParams] = useSearchParams();
+  const fetcher = useFetcher<{ success?: boolean; error?: string }>();
+
+  const linkTo = (params: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(params)) {
+      if (value === null) next.delete(key);
+      else next.set(key, value);
+    }
+    return `?${next.toString()}`;
+  };
+
+  const handleRestore = (revision: RevisionListItem) => {
+    if (!confirm(`#${revision.revision} 리비전으로 복원하시겠습니까? 현재 내용은 이력에 보존됩니다.`)) {
+      return;
+    }
+    fetcher.submit(
+      { intent: "restoreRevision", revisionId: revision.id },
+      { method: "post", action: "/admin/posts" }
+    );
+  };
+
+  return (
+    <section id="revisions" className="max-w-4xl mx-auto mt-12 bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-800 flex items-center gap-2">
+        <History className="h-5 w-5" />
+        <h2 className="text-lg font-semibold">수정 이력</h2>
+        <span className="text-sm text-muted-foreground">{revisions.length}개</span>
+      </div>
+
+      {revisions.length === 0 ? (
+        <p className="p-4 text-sm text-muted-foreground">아직 저장된 리비전이 없습니다.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-800">
+          {revisions.map((revision, index) => {
+            const isSelected = comparison?.left.id === revision.id;
+            return (
+              <li
+                key={revision.id}
+                className={cn("p-4 flex items-center justify-between gap-4", isSelected && "bg-primary/5")}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sm">#{revision.revision}</span>
+                    {index === 0 && <Badge variant="secondary">최신</Badge>}
+                    {revision.restoredFromId && <Badge variant="outline">복원됨</Badge>}
+                    <span className="truncate font-medium">{revision.title}</span>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {revision.author.name || revision.author.username} ·{" "}
+                    {format(new Date(revision.createdAt), "yyyy-MM-dd HH:mm", { locale: ko })}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button size="sm" variant={isSelected ? "default" : "outline"} asChild>
+                    <Link to={linkTo({ revision: revision.id, against: null })} preventScrollReset>
+                      현재와 비교
+                    </Link>
+                  </Button>
+                  {index < revisions.length - 1 && (
+                    <Button size="sm" variant="ghost" asChild>
+                      <Link
+                        to={linkTo({ revision: revisions[index + 1].id, against: revision.id })}
+                        preventScrollReset
+                      >
+                        이전과 비교
+                      </Link>
+                    </Button>
+                  )}
+                  {isAdmin && index > 0 && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRestore(revision)}
+                      disabled={fetcher.state !== "idle"}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      복원
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {fetcher.data?.error && (
+        <p className="px-4 pb-4 text-sm text-red-600">{fetcher.data.error}</p>
+      )}
+
+      {comparison && (
+        <div className="border-t border-gray-200 dark:border-gray-800">
+          <div className="p-4 flex items-center justify-between">
+            <div className="text-sm">
+              <span className="text-red-600">-{comparison.stats.removed}</span>{" "}
+              <span className="text-green-600">+{comparison.stats.added}</span>
+              {comparison.titleChanged && (
+                <span className="ml-2 text-muted-foreground">(제목 변경됨)</span>
+              )}
+            </div>
+            <div className="flex gap-1">
+              {(["text", "html"] as const).map((mode) => (
+                <Button key={mode} size="sm" variant={comparison.mode === mode ? "default" : "outline"} asChild>
+                  <Link to={linkTo({ mode })} preventScrollReset>
+                    {mode === "text" ? "텍스트" : "HTML"}
+                  </Link>
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 text-sm font-medium border-y border-gray-200 dark:border-gray-800">
+            <div className="p-2 border-r border-gray-200 dark:border-gray-800">{comparison.left.label}</div>
+            <div className="p-2">{comparison.right.label}</div>
+          </div>
+          {comparison.titleChanged && (
+            <div className="grid grid-cols-2 text-sm border-b border-gray-200 dark:border-gray-800">
+              <div className="p-2 border-r border-gray-200 dark:border-gray-800 bg-red-50 dark:bg-red-950/40 font-semibold">
+                {comparison.left.title}
+              </div>
+              <div className="p-2 bg-green-50 dark:bg-green-950/40 font-semibold">{comparison.right.title}</div>
+            </div>
+          )}
+          <div className="max-h-[600px] overflow-auto font-mono text-xs">
+            {comparison.rows.length === 0 ? (
+              <p className="p-4 text-muted-foreground">본문이 비어 있습니다.</p>
+            ) : (
+              comparison.rows.map((row, index) => (
+                <div key={index} className="grid grid-cols-2">
+                  <pre className={cn("p-1 px-2 whitespace-pre-wrap break-all border-r border-gray-200 dark:border-gray-800", rowStyles[row.type].left)}>
+                    {row.left ?? ""}
+                  </pre>
+                  <pre className={cn("p-1 px-2 whitespace-pre-wrap break-all", rowStyles[row.type].right)}>
+                    {row.right ?? ""}
+                  </pre>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -3,8 +3,9 @@
  */
 
 import { useState, useEffect } from 'react';
-import { X, Download, Smartphone } from 'lucide-react';
+import { X, Download, Smartphone, Bell } from 'lucide-react';
 import { Button } from '~/components/ui/button';
+import { usePushSubscription } from '~/hooks/usePushSubscription';
 
 interface BeforeInstallPromptEvent extends Event {
   prompt: () => Promise<void>;
@@ -16,6 +17,8 @@ export function InstallPrompt() {
   const [showBanner, setShowBanner] = useState(false);
   const [isIOS, setIsIOS] = useState(false);
   const [showIOSInstructions, setShowIOSInstructions] = useState(false);
+  const push = usePushSubscription();
+  const canSubscribePush = push.isSupported && !push.isSubscribed && push.permission !== 'denied';
 
   useEffect(() => {
     // 이미 설치되었거나 배너를 닫은 경우 표시하지 않음
@@ -115,6 +118,21 @@ export function InstallPrompt() {
                 나중에
               </Button>
             </div>
+
+            {/* 설치와 별개로 이 브라우저에서 푸시 알림 받기 */}
+            {canSubscribePush && (
+              <button
+                onClick={push.subscribe}
+                disabled={push.isLoading}
+                className="mt-2 inline-flex items-center text-xs text-blue-600 hover:underline disabled:opacity-50"
+              >
+                <Bell className="w-3 h-3 mr-1" />
+                새 댓글, 멘션 알림을 푸시로 받기
+              </button>
+            )}
+            {push.error && (
+              <p className="mt-1 text-xs text-red-600">{push.error}</p>
+            )}
           </div>
 
           <button
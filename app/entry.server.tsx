@@ -27,6 +27,55 @@ if (process.env.NODE_ENV === "production") {
   });
 }
 
+// 예약 게시글 발행 스케줄러
+import("./lib/posts/post-status.server").then(({ startPostScheduler }) => {
+  startPostScheduler();
+}).catch((err) => {
+  console.error("Failed to start post scheduler:", err);
+});
+
+// 기간별 리더보드 집계 / 마감 기간 보관 스케줄러
+import("./lib/points/leaderboard.server").then(({ startLeaderboardScheduler }) => {
+  startLeaderboardScheduler();
+}).catch((err) => {
+  console.error("Failed to start leaderboard scheduler:", err);
+});
+
+// 참여 이벤트 상태 자동 전환 스케줄러
+import("./lib/events/event-lifecycle.server").then(({ startEventScheduler }) => {
+  startEventScheduler();
+}).catch((err) => {
+  console.error("Failed to start event scheduler:", err);
+});
+
+// 사용하지 않는 업로드 파일 정리 스케줄러
+import("./lib/media/media.server").then(({ startMediaCleanupScheduler }) => {
+  startMediaCleanupScheduler();
+}).catch((err) => {
+  console.error("Failed to start media cleanup scheduler:", err);
+});
+
+// 알림 모아보기 이메일 스케줄러
+import("./lib/notifications/notification-digest.server").then(({ startNotificationDigestScheduler }) => {
+  startNotificationDigestScheduler();
+}).catch((err) => {
+  console.error("Failed to start notification digest scheduler:", err);
+});
+
+// 외부 웹훅 재시도 스케줄러
+import("./lib/webhooks/webhook.server").then(({ startWebhookScheduler }) => {
+  startWebhookScheduler();
+}).catch((err) => {
+  console.error("Failed to start webhook scheduler:", err);
+});
+
+// 플러그인 로드 (활성화 상태로 저장된 플러그인의 훅 등록)
+import("./lib/architecture/plugin-system.server").then(({ ensurePluginsLoaded }) => {
+  return ensurePluginsLoaded();
+}).catch((err) => {
+  console.error("Failed to load plugins:", err);
+});
+
 export default function handleRequest(
   request: Request,
   responseStatusCode: number,
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useState } from "react";
+
+const ENDPOINT = "/api/push-subscriptions";
+
+export type PushPermissionState = "unsupported" | "default" | "granted" | "denied";
+
+function isPushSupported() {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window
+  );
+}
+
+// base64url VAPID 공개키 → applicationServerKey
+function toApplicationServerKey(base64Url: string) {
+  const base64 = (base64Url + "=".repeat((4 - (base64Url.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+}
+
+async function getRegistration() {
+  // entry.client.tsx 에서 등록한 /sw.js
+  return navigator.serviceWorker.ready;
+}
+
+/**
+ * 브라우저 Web Push 구독 상태와 구독/해제 함수
+ * 로그인한 사용자만 서버에 구독을 저장할 수 있음
+ */
+export function usePushSubscription() {
+  const [permission, setPermission] = useState<PushPermissionState>("unsupported");
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isPushSupported()) return;
+
+    setPermission(Notification.permission as PushPermissionState);
+    getRegistration()
+      .then((registration) => registration.pushManager.getSubscription())
+      .then((subscription) => setIsSubscribed(subscription !== null))
+      .catch(() => setIsSubscribed(false));
+  }, []);
+
+  const subscribe = useCallback(async () => {
+    if (!isPushSupported()) return false;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const keyResponse = await fetch(ENDPOINT, { headers: { Accept: "application/json" } });
+      // 로그인하지 않았으면 로그인 페이지(HTML)로 리다이렉트됨
+      const isJson = keyResponse.ok && keyResponse.headers.get("Content-Type")?.includes("application/json");
+      const { publicKey } = isJson ? await keyResponse.json() : { publicKey: null };
+      if (!publicKey) {
+        throw new Error("푸시 알림을 사용할 수 없습니다.");
+      }
+
+      const result = await Notification.requestPermission();
+      setPermission(result as PushPermissionState);
+      if (result !== "granted") {
+        throw new Error("브라우저 알림 권한이 필요합니다.");
+      }
+
+      const registration = await getRegistration();
+      const subscription =
+        (await registration.pushManager.getSubscription()) ??
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: toApplicationServerKey(publicKey),
+        }));
+
+      const response = await fetch(ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ subscription: subscription.toJSON() }),
+      });
+      if (!response.ok) {
+        throw new Error("구독 정보를 저장하지 못했습니다.");
+      }
+
+      setIsSubscribed(true);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "푸시 알림 구독에 실패했습니다.");
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const unsubscribe = useCallback(async () => {
+    if (!isPushSupported()) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const registration = await getRegistration();
+      const subscription = await registration.pushManager.getSubscription();
+      if (subscription) {
+        await fetch(ENDPOINT, {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ endpoint: subscription.endpoint }),
+        });
+        await subscription.unsubscribe();
+      }
+      setIsSubscribed(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "푸시 알림 해제에 실패했습니다.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  return {
+    isSupported: permission !== "unsupported",
+    permission,
+    isSubscribed,
+    isLoading,
+    error,
+    subscribe,
+    unsubscribe,
+  };
+}
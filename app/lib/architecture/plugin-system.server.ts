@@ -1,68 +1,85 @@
 /**
  * 플러그인 시스템
  * 확장 가능한 아키텍처를 위한 플러그인 관리 시스템
+ *
+ * - 내장 플러그인: app/plugins/<id>/index.ts (빌드에 함께 포함)
+ * - 패키지 플러그인: ./plugins/<dir>, node_modules/@codeb-cms/plugin-* (package.json keywords 에 codeb-cms-plugin)
+ * - 활성화 여부와 플러그인 설정은 PluginData 에 저장되어 재시작 후에도 유지
+ * - 게시글/댓글/회원/이벤트 정산/페이지 렌더링 시점에 runPluginHook 으로 훅 실행 (구독 중인 외부 웹훅에도 전송)
+ * - 플러그인 API 라우트(/api/plugins/{ID}/...), 관리자 메뉴, 페이지 빌더 블록 등록
  */
 import { performance } from 'perf_hooks';
 import * as path from 'path';
 import * as fs from 'fs/promises';
+import type { PostStatus } from '@prisma/client';
+import { db } from '~/lib/db.server';
+import type { SettlementMode } from '~/lib/events/event-settlement';
+import {
+  PLUGIN_ROUTE_METHODS,
+  getBlockDefinitionError,
+  isAllowedMenuHref,
+  matchRoutePath,
+  normalizeRoutePath,
+  type PluginAdminMenuItem,
+  type PluginBlockDefinition,
+  type PluginBlockType,
+  type PluginRouteAccess,
+  type PluginRouteMethod,
+} from '~/lib/plugins/plugin-extensions';
+import { isWebhookEvent } from '~/lib/webhooks/webhook-events';
+import { triggerWebhookEvent } from '~/lib/webhooks/webhook.server';
 import { getDependencyManager } from './dependency-manager.server';
 
+// 활성화 여부를 저장하는 PluginData 키 (플러그인 설정 키와 겹치지 않도록 예약)
+const ENABLED_KEY = '__enabled';
+
+declare global {
+  var __pluginManager__: PluginManager | undefined;
+  var __pluginsLoaded__: Promise<void> | undefined;
+}
+
+// 빌드에 포함되는 내장 플러그인 모듈
+const builtinPlugins = import.meta.glob<{ default?: PluginModule } & PluginModule>('../../plugins/*/index.ts');
+
 /**
  * 플러그인 매니저
  */
 export class PluginManager {
   private plugins = new Map<string, PluginInstance>();
   private hooks = new Map<string, Hook[]>();
-  private middleware = new Map<string, MiddlewareHandler[]>();
+  private middleware = new Map<string, MiddlewareEntry[]>();
   private commands = new Map<string, CommandHandler>();
   private dependencyManager = getDependencyManager();
-  
-  private pluginDirectories = [
+
+  private packageDirectories = [
     './plugins',
-    './app/plugins',
-    './node_modules/@codeb-cms/plugin-*'
+    './node_modules/@codeb-cms',
   ];
 
   /**
-   * 플러그인 등록
+   * 플러그인 등록 (비활성 상태로 등록, 활성화는 activatePlugin)
    */
-  async registerPlugin(pluginConfig: PluginConfig): Promise<void> {
-    const { name, version, main } = pluginConfig;
-    
+  registerPlugin(pluginConfig: PluginConfig, pluginModule: PluginModule, loadTime = 0): void {
+    const { name, version } = pluginConfig;
+
     if (this.plugins.has(name)) {
       throw new Error(`플러그인 "${name}"이 이미 등록되어 있습니다`);
     }
 
-    try {
-      const start = performance.now();
-      
-      // 플러그인 모듈 로드
-      const pluginModule = await this.loadPluginModule(main);
-      
-      // 플러그인 인스턴스 생성
-      const plugin: PluginInstance = {
-        config: pluginConfig,
-        module: pluginModule,
-        status: 'loaded',
-        loadTime: performance.now() - start,
-        hooks: [],
-        middleware: [],
-        commands: [],
-      };
-
-      // 플러그인 초기화
-      if (pluginModule.initialize && typeof pluginModule.initialize === 'function') {
-        await pluginModule.initialize(this.createPluginContext(name));
-        plugin.status = 'active';
-      }
+    this.plugins.set(name, {
+      config: pluginConfig,
+      module: pluginModule,
+      status: 'inactive',
+      loadTime,
+      hooks: [],
+      middleware: [],
+      commands: [],
+      routes: [],
+      menuItems: [],
+      blocks: [],
+    });
 
-      this.plugins.set(name, plugin);
-      
-      console.log(`📦 플러그인 등록: ${name}@${version} (${plugin.loadTime.toFixed(2)}ms)`);
-    } catch (error) {
-      console.error(`❌ 플러그인 등록 실패: ${name}`, error);
-      throw error;
-    }
+    console.log(`📦 플러그인 등록: ${name}@${version} (${loadTime.toFixed(2)}ms)`);
   }
 
   /**
@@ -72,8 +89,8 @@ export class PluginManager {
     try {
       // 동적 import 사용
       const modulePath = path.resolve(mainPath);
-      const module = await import(modulePath);
-      
+      const module = await import(/* @vite-ignore */ modulePath);
+
       return module.default || module;
     } catch (error) {
       console.error(`플러그인 모듈 로드 실패: ${mainPath}`, error);
@@ -93,33 +110,38 @@ export class PluginManager {
         error: (message: string, ...args: any[]) => console.error(`[${pluginName}] ${message}`, ...args),
         debug: (message: string, ...args: any[]) => console.debug(`[${pluginName}] ${message}`, ...args),
       },
-      
+
       // 훅 등록
       addHook: (hookName: string, handler: HookHandler, priority = 10) => {
         this.addHook(hookName, handler, { plugin: pluginName, priority });
       },
-      
+
       // 미들웨어 등록
       addMiddleware: (routePattern: string, handler: MiddlewareHandler, priority = 10) => {
         this.addMiddleware(routePattern, handler, { plugin: pluginName, priority });
       },
-      
+
       // 명령어 등록
       addCommand: (commandName: string, handler: CommandHandler) => {
         this.addCommand(commandName, handler, pluginName);
       },
-      
+
+      // API 라우트 / 관리자 메뉴 / 페이지 빌더 블록 등록
+      addRoute: (route: PluginRoute) => this.addRoute(pluginName, route),
+      addAdminMenuItem: (item: PluginAdminMenuItem) => this.addAdminMenuItem(pluginName, item),
+      addBlock: (definition: PluginBlockDefinition) => this.addBlock(pluginName, definition),
+
       // 서비스 접근
       getService: <T>(serviceName: string) => this.dependencyManager.resolve<T>(serviceName),
-      
+
       // 설정 관리
       getConfig: (key?: string) => this.getPluginConfig(pluginName, key),
       setConfig: (key: string, value: any) => this.setPluginConfig(pluginName, key, value),
-      
+
       // 다른 플러그인과 통신
       emit: (eventName: string, data?: any) => this.emitEvent(`plugin:${pluginName}:${eventName}`, data),
-      on: (eventName: string, handler: (data: any) => void) => this.onEvent(eventName, handler),
-    };
+      on: (eventName: string, handler: (data: any) => void) => this.onEvent(eventName, handler, pluginName),
+    } as PluginContext;
   }
 
   /**
@@ -129,18 +151,18 @@ export class PluginManager {
     if (!this.hooks.has(hookName)) {
       this.hooks.set(hookName, []);
     }
-    
+
     const hook: Hook = {
       handler,
       plugin: options?.plugin,
       priority: options?.priority || 10,
     };
-    
+
     this.hooks.get(hookName)!.push(hook);
-    
+
     // 우선순위별 정렬
     this.hooks.get(hookName)!.sort((a, b) => (a.priority || 10) - (b.priority || 10));
-    
+
     // 플러그인 정보 업데이트
     if (options?.plugin && this.plugins.has(options.plugin)) {
       this.plugins.get(options.plugin)!.hooks.push(hookName);
@@ -152,29 +174,29 @@ export class PluginManager {
    */
   async executeHook<T = any>(hookName: string, data?: T, context?: any): Promise<T> {
     const hooks = this.hooks.get(hookName) || [];
-    
+
     if (hooks.length === 0) {
       return data as T;
     }
 
     let result = data;
-    
+
     for (const hook of hooks) {
       try {
         const hookResult = await hook.handler(result, context);
-        
+
         // 훅이 값을 반환하면 다음 훅의 입력으로 사용
         if (hookResult !== undefined) {
           result = hookResult;
         }
       } catch (error) {
         console.error(`훅 실행 실패: ${hookName} (플러그인: ${hook.plugin})`, error);
-        
+
         // 에러 전파 방지 (다음 훅 계속 실행)
         continue;
       }
     }
-    
+
     return result as T;
   }
 
@@ -185,18 +207,18 @@ export class PluginManager {
     if (!this.middleware.has(routePattern)) {
       this.middleware.set(routePattern, []);
     }
-    
+
     const middleware: MiddlewareEntry = {
       handler,
       plugin: options?.plugin,
       priority: options?.priority || 10,
     };
-    
+
     this.middleware.get(routePattern)!.push(middleware);
-    
+
     // 우선순위별 정렬
     this.middleware.get(routePattern)!.sort((a, b) => (a.priority || 10) - (b.priority || 10));
-    
+
     // 플러그인 정보 업데이트
     if (options?.plugin && this.plugins.has(options.plugin)) {
       this.plugins.get(options.plugin)!.middleware.push(routePattern);
@@ -206,29 +228,29 @@ export class PluginManager {
   /**
    * 라우트에 대한 미들웨어 실행
    */
-  async executeMiddleware(route: string, req: any, res: any, next: Function): Promise<void> {
+  async executeMiddleware(route: string, req: any, res: any, next: (error?: unknown) => void): Promise<void> {
     const matchingMiddleware: MiddlewareEntry[] = [];
-    
+
     // 패턴 매칭으로 해당하는 미들웨어 찾기
     for (const [pattern, middlewares] of this.middleware.entries()) {
       if (this.matchRoute(route, pattern)) {
         matchingMiddleware.push(...middlewares);
       }
     }
-    
+
     // 우선순위별 정렬
     matchingMiddleware.sort((a, b) => (a.priority || 10) - (b.priority || 10));
-    
+
     // 미들웨어 체인 실행
     let index = 0;
-    
+
     const executeNext = async (): Promise<void> => {
       if (index >= matchingMiddleware.length) {
         return next();
       }
-      
+
       const middleware = matchingMiddleware[index++];
-      
+
       try {
         await middleware.handler(req, res, executeNext);
       } catch (error) {
@@ -236,7 +258,7 @@ export class PluginManager {
         next(error);
       }
     };
-    
+
     await executeNext();
   }
 
@@ -248,7 +270,7 @@ export class PluginManager {
     const regexPattern = pattern
       .replace(/\*/g, '.*')
       .replace(/:\w+/g, '[^/]+');
-    
+
     const regex = new RegExp(`^${regexPattern}$`);
     return regex.test(route);
   }
@@ -260,14 +282,14 @@ export class PluginManager {
     if (this.commands.has(commandName)) {
       throw new Error(`명령어 "${commandName}"이 이미 등록되어 있습니다`);
     }
-    
+
     this.commands.set(commandName, handler);
-    
+
     // 플러그인 정보 업데이트
     if (pluginName && this.plugins.has(pluginName)) {
       this.plugins.get(pluginName)!.commands.push(commandName);
     }
-    
+
     console.log(`⚡ 명령어 등록: ${commandName} (플러그인: ${pluginName || 'system'})`);
   }
 
@@ -276,11 +298,11 @@ export class PluginManager {
    */
   async executeCommand(commandName: string, args: string[] = [], context?: any): Promise<any> {
     const handler = this.commands.get(commandName);
-    
+
     if (!handler) {
       throw new Error(`명령어 "${commandName}"을 찾을 수 없습니다`);
     }
-    
+
     try {
       return await handler(args, context);
     } catch (error) {
@@ -289,17 +311,113 @@ export class PluginManager {
     }
   }
 
+  /**
+   * API 라우트 추가 (/api/plugins/{플러그인 ID}{path} 로 마운트)
+   */
+  addRoute(pluginName: string, route: PluginRoute): void {
+    const plugin = this.getRegisteredPlugin(pluginName);
+    const method = route.method.toUpperCase() as PluginRouteMethod;
+
+    if (!PLUGIN_ROUTE_METHODS.includes(method)) {
+      throw new Error(`지원하지 않는 메서드입니다: ${route.method}`);
+    }
+
+    const path = normalizeRoutePath(route.path);
+    if (plugin.routes.some((r) => r.method === method && r.path === path)) {
+      throw new Error(`라우트 "${method} ${path}"가 이미 등록되어 있습니다`);
+    }
+
+    plugin.routes.push({ ...route, method, path, access: route.access ?? 'admin' });
+  }
+
+  /**
+   * 요청에 맞는 플러그인 라우트 찾기 (활성 플러그인만)
+   */
+  findRoute(pluginName: string, method: string, path: string): { route: PluginRoute; params: Record<string, string> } | null {
+    const plugin = this.plugins.get(pluginName);
+    if (!plugin || plugin.status !== 'active') return null;
+
+    const requestMethod = method.toUpperCase() === 'HEAD' ? 'GET' : method.toUpperCase();
+    for (const route of plugin.routes) {
+      if (route.method !== requestMethod) continue;
+
+      const params = matchRoutePath(route.path, path);
+      if (params) return { route, params };
+    }
+    return null;
+  }
+
+  /**
+   * 관리자 사이드바 메뉴 추가
+   */
+  addAdminMenuItem(pluginName: string, item: PluginAdminMenuItem): void {
+    const plugin = this.getRegisteredPlugin(pluginName);
+
+    if (!isAllowedMenuHref(item.href)) {
+      throw new Error(`메뉴 링크는 사이트 경로 또는 http(s) URL 이어야 합니다: ${item.href}`);
+    }
+
+    plugin.menuItems.push(item);
+  }
+
+  /**
+   * 활성 플러그인의 관리자 메뉴
+   */
+  getAdminMenuItems(): (PluginAdminMenuItem & { pluginId: string })[] {
+    return this.getActivePlugins().flatMap(([name, plugin]) =>
+      plugin.menuItems.map((item) => ({ ...item, pluginId: name }))
+    );
+  }
+
+  /**
+   * 페이지 빌더 블록 추가 (블록 타입은 "{플러그인 ID}/{이름}")
+   */
+  addBlock(pluginName: string, definition: PluginBlockDefinition): void {
+    const plugin = this.getRegisteredPlugin(pluginName);
+
+    const error = getBlockDefinitionError(definition);
+    if (error) {
+      throw new Error(error);
+    }
+    if (plugin.blocks.some((block) => block.name === definition.name)) {
+      throw new Error(`블록 "${definition.name}"이 이미 등록되어 있습니다`);
+    }
+
+    plugin.blocks.push(definition);
+  }
+
+  /**
+   * 활성 플러그인이 제공하는 페이지 빌더 블록
+   */
+  getBlockTypes(): PluginBlockType[] {
+    return this.getActivePlugins().flatMap(([name, plugin]) =>
+      plugin.blocks.map((block) => ({ ...block, type: `${name}/${block.name}` as const, pluginId: name }))
+    );
+  }
+
+  private getActivePlugins() {
+    return Array.from(this.plugins.entries()).filter(([, plugin]) => plugin.status === 'active');
+  }
+
+  private getRegisteredPlugin(pluginName: string): PluginInstance {
+    const plugin = this.plugins.get(pluginName);
+    if (!plugin) {
+      throw new Error(`플러그인 "${pluginName}"을 찾을 수 없습니다`);
+    }
+    return plugin;
+  }
+
   /**
    * 이벤트 발생
    */
-  private eventListeners = new Map<string, Array<(data: any) => void>>();
-  
+  private eventListeners = new Map<string, EventListenerEntry[]>();
+
   emitEvent(eventName: string, data?: any): void {
     const listeners = this.eventListeners.get(eventName) || [];
-    
-    listeners.forEach(listener => {
+
+    listeners.forEach(({ handler }) => {
       try {
-        listener(data);
+        handler(data);
       } catch (error) {
         console.error(`이벤트 리스너 실행 실패: ${eventName}`, error);
       }
@@ -309,29 +427,81 @@ export class PluginManager {
   /**
    * 이벤트 리스너 등록
    */
-  onEvent(eventName: string, handler: (data: any) => void): void {
+  onEvent(eventName: string, handler: (data: any) => void, pluginName?: string): void {
     if (!this.eventListeners.has(eventName)) {
       this.eventListeners.set(eventName, []);
     }
-    
-    this.eventListeners.get(eventName)!.push(handler);
+
+    this.eventListeners.get(eventName)!.push({ handler, plugin: pluginName });
   }
 
   /**
-   * 플러그인 자동 탐지 및 로드
+   * 플러그인 탐지 및 로드
+   * 저장된 활성화 상태에 따라 활성화까지 진행
    */
   async discoverAndLoadPlugins(): Promise<void> {
     console.log('🔍 플러그인 자동 탐지 시작...');
-    
-    for (const directory of this.pluginDirectories) {
+
+    await this.loadBuiltinPlugins();
+
+    for (const directory of this.packageDirectories) {
       try {
         await this.scanPluginDirectory(directory);
       } catch (error) {
         console.warn(`플러그인 디렉토리 스캔 실패: ${directory}`, error);
       }
     }
-    
-    console.log(`✅ 플러그인 탐지 완료: ${this.plugins.size}개 플러그인 로드됨`);
+
+    const saved = await db.pluginData.findMany({
+      where: { pluginId: { in: [...this.plugins.keys()] } },
+    });
+
+    for (const row of saved) {
+      if (row.key === ENABLED_KEY) continue;
+      try {
+        this.setPluginConfigValue(row.pluginId, row.key, JSON.parse(row.value));
+      } catch {
+        this.setPluginConfigValue(row.pluginId, row.key, row.value);
+      }
+    }
+
+    const enabled = saved.filter((row) => row.key === ENABLED_KEY && row.value === 'true');
+    for (const { pluginId } of enabled) {
+      await this.startPlugin(pluginId);
+    }
+
+    console.log(`✅ 플러그인 탐지 완료: ${this.plugins.size}개 플러그인 로드됨 (${enabled.length}개 활성)`);
+  }
+
+  /**
+   * app/plugins 아래 내장 플러그인 로드 (디렉터리 이름이 플러그인 ID)
+   */
+  private async loadBuiltinPlugins(): Promise<void> {
+    for (const [file, load] of Object.entries(builtinPlugins)) {
+      const id = path.basename(path.dirname(file));
+
+      try {
+        const start = performance.now();
+        const loaded = await load();
+        const pluginModule: PluginModule = loaded.default || loaded;
+
+        this.registerPlugin(
+          {
+            name: id,
+            version: pluginModule.metadata?.version || '0.0.0',
+            description: pluginModule.metadata?.description,
+            author: pluginModule.metadata?.author,
+            displayName: pluginModule.metadata?.name,
+            main: file,
+            source: 'builtin',
+          },
+          pluginModule,
+          performance.now() - start
+        );
+      } catch (error) {
+        console.warn(`내장 플러그인 로드 실패: ${id}`, error);
+      }
+    }
   }
 
   /**
@@ -340,7 +510,7 @@ export class PluginManager {
   private async scanPluginDirectory(directory: string): Promise<void> {
     try {
       const entries = await fs.readdir(directory, { withFileTypes: true });
-      
+
       for (const entry of entries) {
         if (entry.isDirectory()) {
           const pluginPath = path.join(directory, entry.name);
@@ -349,7 +519,7 @@ export class PluginManager {
       }
     } catch (error) {
       // 디렉토리가 존재하지 않으면 무시
-      if (error.code !== 'ENOENT') {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
         throw error;
       }
     }
@@ -360,11 +530,11 @@ export class PluginManager {
    */
   private async loadPluginFromDirectory(pluginPath: string): Promise<void> {
     const packageJsonPath = path.join(pluginPath, 'package.json');
-    
+
     try {
       const packageJson = await fs.readFile(packageJsonPath, 'utf-8');
       const config = JSON.parse(packageJson);
-      
+
       // CodeB CMS 플러그인인지 확인
       if (config.keywords && config.keywords.includes('codeb-cms-plugin')) {
         const pluginConfig: PluginConfig = {
@@ -372,42 +542,64 @@ export class PluginManager {
           version: config.version,
           description: config.description,
           main: path.join(pluginPath, config.main || 'index.js'),
-          author: config.author,
+          author: typeof config.author === 'string' ? config.author : config.author?.name,
           dependencies: config.dependencies || {},
           codebCmsVersion: config.codebCmsVersion || '*',
+          source: 'package',
         };
-        
-        await this.registerPlugin(pluginConfig);
+
+        const start = performance.now();
+        const pluginModule = await this.loadPluginModule(pluginConfig.main);
+        this.registerPlugin(pluginConfig, pluginModule, performance.now() - start);
       }
     } catch (error) {
-      console.warn(`플러그인 로드 실패: ${pluginPath}`, error);
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`플러그인 로드 실패: ${pluginPath}`, error);
+      }
     }
   }
 
   /**
-   * 플러그인 설정 관리
+   * 플러그인 설정 관리 (변경 시 PluginData 에 저장)
    */
-  private pluginConfigs = new Map<string, any>();
-  
+  private pluginConfigs = new Map<string, Record<string, any>>();
+
   private getPluginConfig(pluginName: string, key?: string): any {
     const config = this.pluginConfigs.get(pluginName) || {};
     return key ? config[key] : config;
   }
-  
-  private setPluginConfig(pluginName: string, key: string, value: any): void {
+
+  private setPluginConfigValue(pluginName: string, key: string, value: any): void {
     if (!this.pluginConfigs.has(pluginName)) {
       this.pluginConfigs.set(pluginName, {});
     }
-    
+
     this.pluginConfigs.get(pluginName)![key] = value;
   }
 
+  private async setPluginConfig(pluginName: string, key: string, value: any): Promise<void> {
+    if (key === ENABLED_KEY) {
+      throw new Error(`"${ENABLED_KEY}"는 예약된 설정 키입니다`);
+    }
+
+    this.setPluginConfigValue(pluginName, key, value);
+    await this.savePluginData(pluginName, key, JSON.stringify(value));
+  }
+
+  private async savePluginData(pluginId: string, key: string, value: string): Promise<void> {
+    await db.pluginData.upsert({
+      where: { pluginId_key: { pluginId, key } },
+      create: { pluginId, key, value },
+      update: { value },
+    });
+  }
+
   /**
    * 플러그인 상태 조회
    */
   getPluginStatus(): PluginStatus {
     const plugins = Array.from(this.plugins.values());
-    
+
     return {
       total: plugins.length,
       active: plugins.filter(p => p.status === 'active').length,
@@ -425,9 +617,13 @@ export class PluginManager {
   getPluginList(): PluginInfo[] {
     return Array.from(this.plugins.entries()).map(([name, instance]) => ({
       name,
+      displayName: instance.config.displayName || name,
       version: instance.config.version,
       description: instance.config.description,
+      author: instance.config.author,
+      source: instance.config.source,
       status: instance.status,
+      error: instance.error,
       loadTime: instance.loadTime,
       hooks: instance.hooks.length,
       middleware: instance.middleware.length,
@@ -435,23 +631,92 @@ export class PluginManager {
     }));
   }
 
+  /**
+   * 플러그인 초기화 (훅/미들웨어/명령어 등록)
+   * 실패하면 등록된 항목을 되돌리고 오류 상태로 표시
+   */
+  private async startPlugin(pluginName: string): Promise<boolean> {
+    const plugin = this.plugins.get(pluginName);
+    if (!plugin || plugin.status === 'active') {
+      return !!plugin;
+    }
+
+    try {
+      await plugin.module.initialize?.(this.createPluginContext(pluginName));
+      plugin.status = 'active';
+      plugin.error = undefined;
+      return true;
+    } catch (error) {
+      this.unregisterPluginEntries(pluginName);
+      plugin.status = 'error';
+      plugin.error = error instanceof Error ? error.message : String(error);
+      console.error(`❌ 플러그인 초기화 실패: ${pluginName}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 플러그인이 등록한 훅/미들웨어/명령어/이벤트 리스너/라우트/메뉴/블록 제거
+   */
+  private unregisterPluginEntries(pluginName: string): void {
+    for (const [hookName, hooks] of this.hooks.entries()) {
+      const remaining = hooks.filter((hook) => hook.plugin !== pluginName);
+      if (remaining.length > 0) {
+        this.hooks.set(hookName, remaining);
+      } else {
+        this.hooks.delete(hookName);
+      }
+    }
+
+    for (const [pattern, middlewares] of this.middleware.entries()) {
+      const remaining = middlewares.filter((middleware) => middleware.plugin !== pluginName);
+      if (remaining.length > 0) {
+        this.middleware.set(pattern, remaining);
+      } else {
+        this.middleware.delete(pattern);
+      }
+    }
+
+    for (const [eventName, listeners] of this.eventListeners.entries()) {
+      this.eventListeners.set(eventName, listeners.filter((listener) => listener.plugin !== pluginName));
+    }
+
+    const plugin = this.plugins.get(pluginName);
+    if (plugin) {
+      plugin.commands.forEach((commandName) => this.commands.delete(commandName));
+      plugin.hooks = [];
+      plugin.middleware = [];
+      plugin.commands = [];
+      plugin.routes = [];
+      plugin.menuItems = [];
+      plugin.blocks = [];
+    }
+  }
+
   /**
    * 플러그인 비활성화
    */
   async deactivatePlugin(pluginName: string): Promise<void> {
     const plugin = this.plugins.get(pluginName);
-    
+
     if (!plugin) {
       throw new Error(`플러그인 "${pluginName}"을 찾을 수 없습니다`);
     }
-    
+
     // cleanup 메서드 호출
-    if (plugin.module.cleanup && typeof plugin.module.cleanup === 'function') {
-      await plugin.module.cleanup();
+    if (plugin.status === 'active' && plugin.module.cleanup && typeof plugin.module.cleanup === 'function') {
+      try {
+        await plugin.module.cleanup();
+      } catch (error) {
+        console.error(`플러그인 정리 실패: ${pluginName}`, error);
+      }
     }
-    
+
+    this.unregisterPluginEntries(pluginName);
     plugin.status = 'inactive';
-    
+    plugin.error = undefined;
+    await this.savePluginData(pluginName, ENABLED_KEY, 'false');
+
     console.log(`⏸️  플러그인 비활성화: ${pluginName}`);
   }
 
@@ -460,62 +725,143 @@ export class PluginManager {
    */
   async activatePlugin(pluginName: string): Promise<void> {
     const plugin = this.plugins.get(pluginName);
-    
+
     if (!plugin) {
       throw new Error(`플러그인 "${pluginName}"을 찾을 수 없습니다`);
     }
-    
+
     if (plugin.status === 'active') {
       return;
     }
-    
-    // initialize 메서드 호출
-    if (plugin.module.initialize && typeof plugin.module.initialize === 'function') {
-      await plugin.module.initialize(this.createPluginContext(pluginName));
+
+    if (!(await this.startPlugin(pluginName))) {
+      throw new Error(`플러그인 "${pluginName}" 초기화 실패: ${plugin.error}`);
     }
-    
-    plugin.status = 'active';
-    
+    await this.savePluginData(pluginName, ENABLED_KEY, 'true');
+
     console.log(`▶️  플러그인 활성화: ${pluginName}`);
   }
 
   /**
-   * 전체 정리
+   * 전체 정리 (저장된 활성화 상태는 유지)
    */
   async cleanup(): Promise<void> {
     console.log('🧹 플러그인 매니저 정리 시작...');
-    
+
     for (const [name, plugin] of this.plugins.entries()) {
       try {
-        await this.deactivatePlugin(name);
+        if (plugin.status === 'active') {
+          await plugin.module.cleanup?.();
+        }
       } catch (error) {
         console.error(`플러그인 정리 실패: ${name}`, error);
       }
     }
-    
+
     this.plugins.clear();
     this.hooks.clear();
     this.middleware.clear();
     this.commands.clear();
     this.eventListeners.clear();
     this.pluginConfigs.clear();
-    
+
     console.log('✅ 플러그인 매니저 정리 완료');
   }
 }
 
+// 훅 데이터 타입
+
+/** 훅에 전달되는 게시글 정보 */
+export interface PluginPost {
+  id: string;
+  title: string;
+  slug: string;
+  content: string;
+  authorId: string;
+  menuId: string;
+  status: PostStatus;
+  isPublished: boolean;
+}
+
+/** 훅에 전달되는 사용자 정보 */
+export interface PluginUser {
+  id: string;
+  username: string;
+  email: string;
+  name: string | null;
+}
+
+export type AuthProvider = 'local' | 'kakao' | 'naver';
+
+/**
+ * 시스템이 실행하는 훅 이름과 데이터
+ * page.render 는 필터 훅으로, 반환값의 data 가 페이지 로더 데이터로 쓰임
+ * 나머지는 알림용이며 반환값은 무시됨
+ */
+export interface PluginHooks {
+  'post.created': { post: PluginPost };
+  'post.updated': { post: PluginPost; actorId: string };
+  'post.deleted': { post: PluginPost; actorId: string };
+  'comment.created': {
+    comment: { id: string; postId: string; authorId: string; parentId: string | null; content: string };
+  };
+  'user.registered': { user: PluginUser; provider: AuthProvider };
+  'user.loggedIn': { user: PluginUser; provider: AuthProvider };
+  'event.settled': {
+    eventId: string;
+    adminId: string;
+    round: number;
+    mode: SettlementMode;
+    correctAnswer: string;
+    winners: number;
+    losers: number;
+    totalPayout: number;
+    resettled: boolean;
+  };
+  'page.render': { path: string; userId: string | null; data: Record<string, unknown> };
+}
+
+export type PluginHookName = keyof PluginHooks;
+
+/**
+ * Post 레코드에서 훅 데이터 추출
+ */
+export function toPluginPost(post: PluginPost): PluginPost {
+  const { id, title, slug, content, authorId, menuId, status, isPublished } = post;
+  return { id, title, slug, content, authorId, menuId, status, isPublished };
+}
+
+/**
+ * User 레코드에서 훅 데이터 추출 (비밀번호 등은 넘기지 않음)
+ */
+export function toPluginUser(user: PluginUser): PluginUser {
+  const { id, username, email, name } = user;
+  return { id, username, email, name };
+}
+
 // 타입 정의
 export interface PluginConfig {
   name: string;
   version: string;
+  displayName?: string;
   description?: string;
   main: string;
   author?: string;
   dependencies?: Record<string, string>;
   codebCmsVersion?: string;
+  source: 'builtin' | 'package';
+}
+
+export interface PluginMetadata {
+  name: string;
+  version: string;
+  description?: string;
+  author?: string;
 }
 
 export interface PluginModule {
+  /** 내장 플러그인의 표시 정보 (패키지 플러그인은 package.json 사용) */
+  metadata?: PluginMetadata;
   initialize?(context: PluginContext): Promise<void> | void;
   cleanup?(): Promise<void> | void;
 }
@@ -528,12 +874,20 @@ export interface PluginContext {
     error(message: string, ...args: any[]): void;
     debug(message: string, ...args: any[]): void;
   };
+  addHook<K extends PluginHookName>(
+    hookName: K,
+    handler: (data: PluginHooks[K], context?: any) => Promise<PluginHooks[K] | void> | PluginHooks[K] | void,
+    priority?: number
+  ): void;
   addHook(hookName: string, handler: HookHandler, priority?: number): void;
   addMiddleware(routePattern: string, handler: MiddlewareHandler, priority?: number): void;
   addCommand(commandName: string, handler: CommandHandler): void;
+  addRoute(route: PluginRoute): void;
+  addAdminMenuItem(item: PluginAdminMenuItem): void;
+  addBlock(definition: PluginBlockDefinition): void;
   getService<T>(serviceName: string): Promise<T>;
   getConfig(key?: string): any;
-  setConfig(key: string, value: any): void;
+  setConfig(key: string, value: any): Promise<void>;
   emit(eventName: string, data?: any): void;
   on(eventName: string, handler: (data: any) => void): void;
 }
@@ -541,15 +895,35 @@ export interface PluginContext {
 export interface PluginInstance {
   config: PluginConfig;
   module: PluginModule;
-  status: 'loaded' | 'active' | 'inactive' | 'error';
+  status: 'active' | 'inactive' | 'error';
+  error?: string;
   loadTime: number;
   hooks: string[];
   middleware: string[];
   commands: string[];
+  routes: PluginRoute[];
+  menuItems: PluginAdminMenuItem[];
+  blocks: PluginBlockDefinition[];
+}
+
+export interface PluginRouteArgs {
+  request: Request;
+  /** 경로 패턴의 :name, * 값 */
+  params: Record<string, string>;
+  user: { id: string; username: string; role: string } | null;
+}
+
+export interface PluginRoute {
+  method: PluginRouteMethod;
+  /** 플러그인 네임스페이스 안의 경로 (/stats, /items/:id, /files/*) */
+  path: string;
+  access?: PluginRouteAccess;
+  /** Response 가 아닌 값을 반환하면 JSON 으로 응답 */
+  handler(args: PluginRouteArgs): Promise<unknown> | unknown;
 }
 
 export type HookHandler = (data?: any, context?: any) => Promise<any> | any;
-export type MiddlewareHandler = (req: any, res: any, next: Function) => Promise<void> | void;
+export type MiddlewareHandler = (req: any, res: any, next: () => Promise<void>) => Promise<void> | void;
 export type CommandHandler = (args: string[], context?: any) => Promise<any> | any;
 
 export interface Hook {
@@ -564,6 +938,11 @@ export interface MiddlewareEntry {
   priority?: number;
 }
 
+interface EventListenerEntry {
+  handler: (data: any) => void;
+  plugin?: string;
+}
+
 export interface HookOptions {
   plugin?: string;
   priority?: number;
@@ -586,26 +965,62 @@ export interface PluginStatus {
 
 export interface PluginInfo {
   name: string;
+  displayName: string;
   version: string;
   description?: string;
-  status: string;
+  author?: string;
+  source: PluginConfig['source'];
+  status: PluginInstance['status'];
+  error?: string;
   loadTime: number;
   hooks: number;
   middleware: number;
   commands: number;
 }
 
-// 전역 플러그인 매니저
-let globalPluginManager: PluginManager | null = null;
-
 /**
- * 전역 플러그인 매니저 가져오기
+ * 전역 플러그인 매니저 가져오기 (개발 서버 재로딩에도 유지)
  */
 export function getPluginManager(): PluginManager {
-  if (!globalPluginManager) {
-    globalPluginManager = new PluginManager();
+  if (!global.__pluginManager__) {
+    global.__pluginManager__ = new PluginManager();
+  }
+  return global.__pluginManager__;
+}
+
+/**
+ * 플러그인 탐지/로드 (한 번만 실행, 실패하면 다음 호출에서 다시 시도)
+ */
+export function ensurePluginsLoaded(): Promise<void> {
+  if (!global.__pluginsLoaded__) {
+    global.__pluginsLoaded__ = getPluginManager()
+      .discoverAndLoadPlugins()
+      .catch((error) => {
+        global.__pluginsLoaded__ = undefined;
+        console.error('❌ 플러그인 로드 실패:', error);
+      });
+  }
+  return global.__pluginsLoaded__;
+}
+
+/**
+ * 시스템 훅 실행
+ * 플러그인/웹훅 오류는 호출한 요청을 실패시키지 않으며, 필터 훅은 처리된 데이터를 반환
+ */
+export async function runPluginHook<K extends PluginHookName>(hookName: K, data: PluginHooks[K]): Promise<PluginHooks[K]> {
+  if (isWebhookEvent(hookName)) {
+    await triggerWebhookEvent(hookName, data).catch((error) => {
+      console.error(`웹훅 전송 실패: ${hookName}`, error);
+    });
+  }
+
+  try {
+    await ensurePluginsLoaded();
+    return await getPluginManager().executeHook(hookName, data, { hook: hookName });
+  } catch (error) {
+    console.error(`훅 실행 실패: ${hookName}`, error);
+    return data;
   }
-  return globalPluginManager;
 }
 
-export default getPluginManager;
\ No newline at end of file
+export default getPluginManager;
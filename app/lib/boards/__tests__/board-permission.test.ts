@@ -0,0 +1,64 @@
+/**
+ * 게시판 권한 정책 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_BOARD_POLICY,
+  evaluateBoardPermissions,
+  getBoardPermissionError,
+  type BoardPolicy,
+} from '../board-permission';
+
+const member = { role: 'USER' as const };
+const admin = { role: 'ADMIN' as const };
+
+function policy(overrides: Partial<BoardPolicy>): BoardPolicy {
+  return { ...DEFAULT_BOARD_POLICY, ...overrides };
+}
+
+describe('evaluateBoardPermissions', () => {
+  it('기본 정책은 누구나 읽고 회원만 쓸 수 있어야 함', () => {
+    expect(evaluateBoardPermissions(DEFAULT_BOARD_POLICY, null)).toMatchObject({
+      canRead: true,
+      canWrite: false,
+      canComment: false,
+    });
+    expect(evaluateBoardPermissions(DEFAULT_BOARD_POLICY, member)).toMatchObject({
+      canRead: true,
+      canWrite: true,
+      canComment: true,
+      canAttach: true,
+    });
+  });
+
+  it('회원 전용 게시판은 비회원이 읽을 수 없어야 함', () => {
+    const result = evaluateBoardPermissions(policy({ readPermission: 'user' }), null);
+    expect(result.canRead).toBe(false);
+    expect(getBoardPermissionError(result, 'read', null)).toContain('로그인');
+  });
+
+  it('관리자 전용 쓰기는 일반 회원에게 허용되지 않아야 함', () => {
+    const board = policy({ writePermission: 'admin' });
+    expect(evaluateBoardPermissions(board, member).canWrite).toBe(false);
+    expect(evaluateBoardPermissions(board, admin).canWrite).toBe(true);
+  });
+
+  it('댓글을 끈 게시판은 관리자도 댓글을 쓸 수 없어야 함', () => {
+    const result = evaluateBoardPermissions(policy({ useComment: false }), admin);
+    expect(result.canComment).toBe(false);
+    expect(result.commentsDisabled).toBe(true);
+    expect(getBoardPermissionError(result, 'comment', admin)).toBe('댓글을 사용하지 않는 게시판입니다.');
+  });
+
+  it('첨부는 쓰기 권한과 use_attachment 가 모두 필요해야 함', () => {
+    expect(evaluateBoardPermissions(policy({ useAttachment: false }), member).canAttach).toBe(false);
+    expect(evaluateBoardPermissions(policy({ writePermission: 'admin' }), member).canAttach).toBe(false);
+  });
+
+  it('알 수 없는 권한 값은 관리자 전용으로 취급해야 함', () => {
+    const board = policy({ readPermission: 'vip' });
+    expect(evaluateBoardPermissions(board, member).canRead).toBe(false);
+    expect(evaluateBoardPermissions(board, admin).canRead).toBe(true);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * 게시판 권한 서버 로직
+ * 메뉴(카테고리) → boards 정책 조회 후 평가, 라우트에서 403 처리
+ * 메뉴는 board_id 로 연결되며, 없으면 같은 slug 의 게시판을 사용
+ */
+
+import { db } from '~/lib/db.server';
+import {
+  DEFAULT_BOARD_POLICY,
+  evaluateBoardPermissions,
+  getBoardPermissionError,
+  type BoardAction,
+  type BoardPermissions,
+  type BoardPolicy,
+  type BoardViewer,
+} from './board-permission';
+
+export interface BoardMenuRef {
+  slug: string;
+  board_id: string | null;
+}
+
+const boardPolicySelect = {
+  id: true,
+  slug: true,
+  read_permission: true,
+  write_permission: true,
+  comment_permission: true,
+  use_comment: true,
+  use_attachment: true,
+} as const;
+
+type BoardPolicyRow = {
+  read_permission: string;
+  write_permission: string;
+  comment_permission: string;
+  use_comment: boolean;
+  use_attachment: boolean;
+};
+
+function toPolicy(board: BoardPolicyRow | null | undefined): BoardPolicy {
+  if (!board) return DEFAULT_BOARD_POLICY;
+  return {
+    readPermission: board.read_permission,
+    writePermission: board.write_permission,
+    commentPermission: board.comment_permission,
+    useComment: board.use_comment,
+    useAttachment: board.use_attachment,
+  };
+}
+
+/**
+ * 메뉴의 게시판 정책
+ */
+export async function getBoardPolicy(menu: BoardMenuRef): Promise<BoardPolicy> {
+  const board = await db.boards.findFirst({
+    where: menu.board_id ? { id: menu.board_id } : { slug: menu.slug },
+    select: boardPolicySelect,
+  });
+  return toPolicy(board);
+}
+
+/**
+ * 메뉴에 대한 사용자 권한
+ */
+export async function getBoardPermissions(
+  menu: BoardMenuRef,
+  viewer: BoardViewer | null
+): Promise<BoardPermissions> {
+  return evaluateBoardPermissions(await getBoardPolicy(menu), viewer);
+}
+
+/**
+ * 여러 메뉴의 권한을 한 번에 조회 (메뉴 slug → 권한)
+ */
+export async function getBoardPermissionsForMenus(
+  menus: BoardMenuRef[],
+  viewer: BoardViewer | null
+): Promise<Map<string, BoardPermissions>> {
+  const boardIds = menus.map((m) => m.board_id).filter((id): id is string => !!id);
+  const slugs = menus.filter((m) => !m.board_id).map((m) => m.slug);
+
+  const boards = await db.boards.findMany({
+    where: { OR: [{ id: { in: boardIds } }, { slug: { in: slugs } }] },
+    select: boardPolicySelect,
+  });
+
+  const byId = new Map(boards.map((b) => [b.id, b]));
+  const bySlug = new Map(boards.map((b) => [b.slug, b]));
+
+  return new Map(
+    menus.map((menu) => {
+      const board = menu.board_id ? byId.get(menu.board_id) : bySlug.get(menu.slug);
+      return [menu.slug, evaluateBoardPermissions(toPolicy(board), viewer)];
+    })
+  );
+}
+
+/**
+ * 사용자가 읽을 수 없는 메뉴 ID 목록 (여러 게시판을 모아 보여주는 목록에서 제외용)
+ */
+export async function getUnreadableMenuIds(viewer: BoardViewer | null): Promise<string[]> {
+  const menus = await db.menu.findMany({
+    select: { id: true, slug: true, board_id: true },
+  });
+  const permissions = await getBoardPermissionsForMenus(menus, viewer);
+
+  return menus.filter((menu) => !permissions.get(menu.slug)?.canRead).map((menu) => menu.id);
+}
+
+/**
+ * 글쓰기 가능한 메뉴만 남기고 첨부 가능 여부 표시 (에디터 카테고리 선택용)
+ */
+export async function filterWritableMenus<T extends BoardMenuRef>(
+  menus: T[],
+  viewer: BoardViewer | null
+): Promise<Array<T & { canAttach: boolean }>> {
+  const permissions = await getBoardPermissionsForMenus(menus, viewer);
+
+  return menus.flatMap((menu) => {
+    const permission = permissions.get(menu.slug);
+    return permission?.canWrite ? [{ ...menu, canAttach: permission.canAttach }] : [];
+  });
+}
+
+/**
+ * 권한이 없으면 403 Response 를 던짐 (페이지 라우트용)
+ */
+export async function requireBoardPermission(
+  menu: BoardMenuRef,
+  viewer: BoardViewer | null,
+  action: BoardAction
+): Promise<BoardPermissions> {
+  const permissions = await getBoardPermissions(menu, viewer);
+  const error = getBoardPermissionError(permissions, action, viewer);
+
+  if (error) {
+    throw new Response(error, { status: 403 });
+  }
+
+  return permissions;
+}
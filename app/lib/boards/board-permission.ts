@@ -0,0 +1,112 @@
+/**
+ * 게시판 권한 정책
+ * boards 테이블의 read/write/comment_permission, use_comment, use_attachment 를
+ * 사용자 역할에 대해 평가 (서버/클라이언트 공용 순수 함수)
+ */
+
+import type { Role } from '@prisma/client';
+
+export type BoardPermissionLevel = 'all' | 'user' | 'admin';
+export type BoardAction = 'read' | 'write' | 'comment' | 'attach';
+
+export interface BoardPolicy {
+  readPermission: string;
+  writePermission: string;
+  commentPermission: string;
+  useComment: boolean;
+  useAttachment: boolean;
+}
+
+export interface BoardPermissions {
+  canRead: boolean;
+  canWrite: boolean;
+  canComment: boolean;
+  canAttach: boolean;
+  /** 게시판 자체에서 댓글 기능을 끈 경우 (권한 부족과 구분해 안내) */
+  commentsDisabled: boolean;
+}
+
+export interface BoardViewer {
+  role: Role;
+}
+
+/**
+ * boards 행이 연결되지 않은 메뉴의 기본 정책 (기존 동작 유지)
+ */
+export const DEFAULT_BOARD_POLICY: BoardPolicy = {
+  readPermission: 'all',
+  writePermission: 'user',
+  commentPermission: 'user',
+  useComment: true,
+  useAttachment: true,
+};
+
+export const BOARD_PERMISSION_LABELS: Record<BoardPermissionLevel, string> = {
+  all: '전체 공개',
+  user: '회원',
+  admin: '관리자만',
+};
+
+const LEVEL_RANK: Record<BoardPermissionLevel, number> = { all: 0, user: 1, admin: 2 };
+
+/**
+ * 알 수 없는 값은 가장 엄격한 관리자 전용으로 취급
+ */
+function toLevel(value: string): BoardPermissionLevel {
+  return value in LEVEL_RANK ? (value as BoardPermissionLevel) : 'admin';
+}
+
+function viewerRank(viewer: BoardViewer | null): number {
+  if (!viewer) return LEVEL_RANK.all;
+  return viewer.role === 'ADMIN' ? LEVEL_RANK.admin : LEVEL_RANK.user;
+}
+
+/**
+ * 정책 + 사용자 → 허용 여부
+ * - 글쓰기/댓글은 작성자가 필요하므로 'all' 이어도 로그인 필요
+ * - use_comment / use_attachment 가 꺼져 있으면 관리자도 사용 불가
+ */
+export function evaluateBoardPermissions(
+  policy: BoardPolicy,
+  viewer: BoardViewer | null
+): BoardPermissions {
+  const rank = viewerRank(viewer);
+  const allows = (value: string, minimum: BoardPermissionLevel = 'all') =>
+    rank >= Math.max(LEVEL_RANK[toLevel(value)], LEVEL_RANK[minimum]);
+
+  const canRead = allows(policy.readPermission);
+  const canWrite = canRead && allows(policy.writePermission, 'user');
+
+  return {
+    canRead,
+    canWrite,
+    canComment: canRead && policy.useComment && allows(policy.commentPermission, 'user'),
+    canAttach: canWrite && policy.useAttachment,
+    commentsDisabled: !policy.useComment,
+  };
+}
+
+/**
+ * 거부 사유 메시지 (허용이면 null)
+ */
+export function getBoardPermissionError(
+  permissions: BoardPermissions,
+  action: BoardAction,
+  viewer: BoardViewer | null
+): string | null {
+  switch (action) {
+    case 'read':
+      if (permissions.canRead) return null;
+      return viewer ? '이 게시판을 읽을 권한이 없습니다.' : '로그인한 회원만 읽을 수 있는 게시판입니다.';
+    case 'write':
+      if (permissions.canWrite) return null;
+      return viewer ? '이 게시판에 글을 쓸 권한이 없습니다.' : '글을 쓰려면 로그인이 필요합니다.';
+    case 'comment':
+      if (permissions.canComment) return null;
+      if (permissions.commentsDisabled) return '댓글을 사용하지 않는 게시판입니다.';
+      return viewer ? '이 게시판에 댓글을 쓸 권한이 없습니다.' : '댓글을 쓰려면 로그인이 필요합니다.';
+    case 'attach':
+      if (permissions.canAttach) return null;
+      return '이 게시판에는 파일을 첨부할 수 없습니다.';
+  }
+}
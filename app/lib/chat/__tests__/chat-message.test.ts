@@ -0,0 +1,78 @@
+/**
+ * 채팅 메시지 변환 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { groupReactions, inferLegacyRoomType, parseLegacyMessage, parseLegacyRoom } from '../chat-message';
+
+describe('groupReactions', () => {
+  it('이모지별로 사용자를 묶어야 함', () => {
+    expect(
+      groupReactions([
+        { userId: 'a', emoji: '👍' },
+        { userId: 'b', emoji: '❤️' },
+        { userId: 'c', emoji: '👍' },
+      ])
+    ).toEqual({ '👍': ['a', 'c'], '❤️': ['b'] });
+  });
+});
+
+describe('parseLegacyMessage', () => {
+  it('Redis 메시지 JSON 을 변환해야 함', () => {
+    const message = parseLegacyMessage(
+      JSON.stringify({
+        id: 'msg_1',
+        roomId: 'group_1',
+        userId: 'u1',
+        content: '안녕하세요',
+        type: 'text',
+        reactions: { '👍': ['u2', 3] },
+        editedAt: '2026-10-19T01:00:00.000Z',
+        createdAt: '2026-10-19T00:00:00.000Z',
+      })
+    );
+
+    expect(message).toMatchObject({
+      id: 'msg_1',
+      content: '안녕하세요',
+      reactions: { '👍': ['u2'] },
+    });
+    expect(message?.editedAt?.toISOString()).toBe('2026-10-19T01:00:00.000Z');
+  });
+
+  it('알 수 없는 타입은 text 로 처리해야 함', () => {
+    const raw = JSON.stringify({ id: 'm', roomId: 'r', userId: 'u', content: 'x', type: 'video', createdAt: 1 });
+    expect(parseLegacyMessage(raw)?.type).toBe('text');
+  });
+
+  it('형식이 맞지 않으면 null 이어야 함', () => {
+    expect(parseLegacyMessage('not json')).toBeNull();
+    expect(parseLegacyMessage(JSON.stringify({ id: 'm', roomId: 'r' }))).toBeNull();
+  });
+});
+
+describe('parseLegacyRoom', () => {
+  it('Redis 채팅방 JSON 을 변환해야 함', () => {
+    const room = parseLegacyRoom(
+      JSON.stringify({
+        id: 'direct_a_b',
+        name: '',
+        type: 'direct',
+        participants: ['a', 'b'],
+        createdBy: 'a',
+        createdAt: '2026-10-19T00:00:00.000Z',
+      })
+    );
+
+    expect(room).toMatchObject({ id: 'direct_a_b', name: 'direct_a_b', type: 'direct', participants: ['a', 'b'] });
+    expect(room?.updatedAt.toISOString()).toBe('2026-10-19T00:00:00.000Z');
+  });
+});
+
+describe('inferLegacyRoomType', () => {
+  it('1:1/비공개 채팅방 ID 는 공개 채널로 만들지 않음', () => {
+    expect(inferLegacyRoomType('direct_u1_u2')).toBe('direct');
+    expect(inferLegacyRoomType('private_team')).toBe('group');
+    expect(inferLegacyRoomType('general')).toBe('channel');
+  });
+});
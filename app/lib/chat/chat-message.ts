@@ -0,0 +1,148 @@
+/**
+ * 채팅 메시지 변환 유틸리티
+ * - DB 반응 행을 이모지별 사용자 목록으로 묶기
+ * - 예전 Redis 저장 형식(JSON)을 가져오기용 레코드로 변환
+ */
+
+export const CHAT_MESSAGE_TYPES = ['text', 'image', 'file', 'emoji', 'system'] as const;
+export const CHAT_ROOM_TYPES = ['direct', 'group', 'channel'] as const;
+
+export type ChatMessageType = typeof CHAT_MESSAGE_TYPES[number];
+export type ChatRoomType = typeof CHAT_ROOM_TYPES[number];
+
+export interface LegacyChatMessage {
+  id: string;
+  roomId: string;
+  userId: string;
+  content: string;
+  type: ChatMessageType;
+  metadata?: Record<string, unknown>;
+  reactions: Record<string, string[]>;
+  editedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface LegacyChatRoom {
+  id: string;
+  name: string;
+  type: ChatRoomType;
+  participants: string[];
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 반응 행을 { 이모지: [userId...] } 형태로 묶음 (입력 순서 유지)
+ */
+export function groupReactions(rows: Array<{ userId: string; emoji: string }>): Record<string, string[]> {
+  const grouped: Record<string, string[]> = {};
+  for (const row of rows) {
+    (grouped[row.emoji] ??= []).push(row.userId);
+  }
+  return grouped;
+}
+
+function toDate(value: unknown): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Redis sorted set 에 저장되어 있던 메시지 JSON 변환 (형식이 맞지 않으면 null)
+ */
+export function parseLegacyMessage(raw: string): LegacyChatMessage | null {
+  const value = parseJson(raw);
+  if (!isRecord(value)) return null;
+
+  const { id, roomId, userId, content } = value;
+  const createdAt = toDate(value.createdAt);
+  if (
+    typeof id !== 'string' ||
+    typeof roomId !== 'string' ||
+    typeof userId !== 'string' ||
+    typeof content !== 'string' ||
+    !createdAt
+  ) {
+    return null;
+  }
+
+  const type = (CHAT_MESSAGE_TYPES as readonly unknown[]).includes(value.type)
+    ? (value.type as ChatMessageType)
+    : 'text';
+
+  const reactions: Record<string, string[]> = {};
+  if (isRecord(value.reactions)) {
+    for (const [emoji, users] of Object.entries(value.reactions)) {
+      if (Array.isArray(users)) {
+        reactions[emoji] = users.filter((user): user is string => typeof user === 'string');
+      }
+    }
+  }
+
+  return {
+    id,
+    roomId,
+    userId,
+    content,
+    type,
+    metadata: isRecord(value.metadata) ? value.metadata : undefined,
+    reactions,
+    editedAt: toDate(value.editedAt),
+    createdAt,
+  };
+}
+
+/**
+ * 채팅방 해시에 정보가 없는 예전 채팅방의 종류를 ID 접두어로 추정
+ * direct_ 는 1:1, private_ 는 비공개 그룹이며 나머지만 공개 채널 (비공개 기록이 공개되지 않도록)
+ */
+export function inferLegacyRoomType(roomId: string): ChatRoomType {
+  if (roomId.startsWith('direct_')) return 'direct';
+  if (roomId.startsWith('private_')) return 'group';
+  return 'channel';
+}
+
+/**
+ * Redis chat:rooms 해시에 저장되어 있던 채팅방 JSON 변환 (형식이 맞지 않으면 null)
+ */
+export function parseLegacyRoom(raw: string): LegacyChatRoom | null {
+  const value = parseJson(raw);
+  if (!isRecord(value)) return null;
+
+  const { id, name, createdBy } = value;
+  const createdAt = toDate(value.createdAt);
+  if (typeof id !== 'string' || typeof createdBy !== 'string' || !createdAt) {
+    return null;
+  }
+
+  const type = (CHAT_ROOM_TYPES as readonly unknown[]).includes(value.type)
+    ? (value.type as ChatRoomType)
+    : 'group';
+  const participants = Array.isArray(value.participants)
+    ? value.participants.filter((user): user is string => typeof user === 'string')
+    : [];
+
+  return {
+    id,
+    name: typeof name === 'string' && name ? name : id,
+    type,
+    participants,
+    createdBy,
+    createdAt,
+    updatedAt: toDate(value.updatedAt) ?? createdAt,
+  };
+}
@@ -1,13 +1,16 @@
 /**
  * 실시간 채팅 서버 (Centrifugo 버전)
  * Socket.IO에서 Centrifugo로 완전 마이그레이션됨
+ * 채팅방/메시지는 PostgreSQL 에 저장하고 Redis 는 최근 메시지 캐시로만 사용
  */
 
+import { Prisma } from '@prisma/client';
 import { db } from '~/lib/db.server';
-import { getRedisClient } from '~/lib/redis.server';
+import { getRedis } from '~/lib/redis.server';
 import { centrifugo } from '~/lib/centrifugo/client.server';
 import { CHANNELS } from '~/lib/centrifugo/channels';
 import { z } from 'zod';
+import { groupReactions } from './chat-message';
 
 // 메시지 스키마
 const MessageSchema = z.object({
@@ -60,11 +63,161 @@ export interface ChatMessage {
   createdAt: Date;
 }
 
+/** Redis 에 유지할 채팅방별 최근 메시지 수 */
+const RECENT_WINDOW = 200;
+
+const messageInclude = {
+  reactions: {
+    select: { userId: true, emoji: true },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.ChatMessageInclude;
+
+type ChatMessageRow = Prisma.ChatMessageGetPayload<{ include: typeof messageInclude }>;
+
+function toChatMessage(row: ChatMessageRow): ChatMessage {
+  return {
+    id: row.id,
+    roomId: row.roomId,
+    userId: row.userId ?? 'system',
+    content: row.content,
+    type: row.type as ChatMessage['type'],
+    metadata: (row.metadata as Record<string, unknown> | null) ?? undefined,
+    reactions: groupReactions(row.reactions),
+    editedAt: row.editedAt ?? undefined,
+    deletedAt: row.deletedAt ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
+
+function channelFor(roomId: string) {
+  return roomId.startsWith('private_')
+    ? CHANNELS.chatPrivate(roomId)
+    : CHANNELS.chatPublic(roomId);
+}
+
 /**
  * Centrifugo 기반 채팅 매니저
+ * PostgreSQL 이 원본이며, Redis 에는 채팅방별 최근 메시지만 ID 로 색인해 캐시
+ * - chat:room:{roomId}:recent   최근 메시지 ID (score: 작성 시각)
+ * - chat:room:{roomId}:message  메시지 ID → 메시지 JSON
  */
 export class ChatManager {
-  private redis = getRedisClient();
+  private redis = getRedis();
+
+  private recentKey(roomId: string) {
+    return `chat:room:${roomId}:recent`;
+  }
+
+  private messageKey(roomId: string) {
+    return `chat:room:${roomId}:message`;
+  }
+
+  /**
+   * 캐시 작업 실행 (Redis 가 없거나 실패해도 DB 결과에는 영향 없음)
+   */
+  private async withCache<T>(fn: (redis: NonNullable<ReturnType<typeof getRedis>>) => Promise<T>): Promise<T | null> {
+    if (!this.redis) return null;
+    try {
+      return await fn(this.redis);
+    } catch (error) {
+      console.error('[Chat] Redis cache error:', error);
+      return null;
+    }
+  }
+
+  private async cacheMessages(roomId: string, messages: ChatMessage[]) {
+    if (messages.length === 0) return;
+
+    await this.withCache(async (redis) => {
+      await redis.zadd(
+        this.recentKey(roomId),
+        ...messages.flatMap((m) => [new Date(m.createdAt).getTime(), m.id])
+      );
+      await redis.hset(
+        this.messageKey(roomId),
+        Object.fromEntries(messages.map((m) => [m.id, JSON.stringify(m)]))
+      );
+
+      // 최근 RECENT_WINDOW 개만 유지
+      const expired = await redis.zrange(this.recentKey(roomId), 0, -(RECENT_WINDOW + 1));
+      if (expired.length > 0) {
+        await redis.zrem(this.recentKey(roomId), ...expired);
+        await redis.hdel(this.messageKey(roomId), ...expired);
+      }
+    });
+  }
+
+  /**
+   * 캐시에 있는 메시지만 갱신 (최근 범위 밖의 메시지는 캐시하지 않음)
+   */
+  private async refreshCachedMessage(message: ChatMessage) {
+    await this.withCache(async (redis) => {
+      if (await redis.hexists(this.messageKey(message.roomId), message.id)) {
+        await redis.hset(this.messageKey(message.roomId), message.id, JSON.stringify(message));
+      }
+    });
+  }
+
+  private async uncacheMessage(roomId: string, messageId: string) {
+    await this.withCache(async (redis) => {
+      await redis.zrem(this.recentKey(roomId), messageId);
+      await redis.hdel(this.messageKey(roomId), messageId);
+    });
+  }
+
+  /**
+   * 캐시에서 최근 메시지 조회 (캐시가 limit 개를 채우지 못하면 null)
+   */
+  private async readRecent(roomId: string, limit: number): Promise<ChatMessage[] | null> {
+    return this.withCache(async (redis) => {
+      const ids = await redis.zrevrange(this.recentKey(roomId), 0, limit - 1);
+      if (ids.length < limit) return null;
+
+      const values = await redis.hmget(this.messageKey(roomId), ...ids);
+      if (values.some((value) => value === null)) return null;
+
+      return values.map((value) => JSON.parse(value!) as ChatMessage).reverse();
+    });
+  }
+
+  private async findMessage(messageId: string, roomId: string) {
+    const row = await db.chatMessage.findUnique({
+      where: { id: messageId },
+      include: messageInclude,
+    });
+    return row && row.roomId === roomId && !row.deletedAt ? row : null;
+  }
+
+  /**
+   * 참여 중인 사용자만 메시지 전송 가능 (공개 채널은 첫 메시지 전송 시 자동 참여)
+   */
+  private async ensureMember(roomId: string, userId: string) {
+    const room = await db.chatRoom.findUnique({
+      where: { id: roomId },
+      select: { type: true },
+    });
+    if (!room) {
+      throw new Error('채팅방을 찾을 수 없습니다.');
+    }
+
+    if (room.type === 'channel') {
+      await db.chatRoomMember.upsert({
+        where: { roomId_userId: { roomId, userId } },
+        create: { roomId, userId },
+        update: { leftAt: null },
+      });
+      return;
+    }
+
+    const member = await db.chatRoomMember.findUnique({
+      where: { roomId_userId: { roomId, userId } },
+      select: { leftAt: true },
+    });
+    if (!member || member.leftAt) {
+      throw new Error('채팅방에 참여하고 있지 않습니다.');
+    }
+  }
 
   /**
    * 메시지 전송 및 브로드캐스트
@@ -82,37 +235,29 @@ export class ChatManager {
       throw new Error('사용자를 찾을 수 없습니다.');
     }
 
-    // 메시지 생성 (Note: ChatMessage 모델이 없으면 메모리/Redis에만 저장)
-    const message: ChatMessage = {
-      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      roomId: validated.roomId,
-      userId,
-      content: validated.content,
-      type: validated.type,
-      metadata: validated.metadata,
-      createdAt: new Date(),
-    };
+    await this.ensureMember(validated.roomId, userId);
 
-    // Redis에 메시지 캐시
-    await this.redis.zadd(
-      `chat:room:${validated.roomId}:messages`,
-      Date.now(),
-      JSON.stringify(message)
-    );
-
-    // Redis에서 오래된 메시지 정리 (최근 1000개만 유지)
-    await this.redis.zremrangebyrank(
-      `chat:room:${validated.roomId}:messages`,
-      0,
-      -1001
-    );
-
-    // 채팅방 타입에 따라 적절한 채널로 발행
-    const channelName = validated.roomId.startsWith('private_')
-      ? CHANNELS.chatPrivate(validated.roomId)
-      : CHANNELS.chatPublic(validated.roomId);
-
-    await centrifugo.publish(channelName, {
+    const [row] = await db.$transaction([
+      db.chatMessage.create({
+        data: {
+          roomId: validated.roomId,
+          userId,
+          content: validated.content,
+          type: validated.type,
+          metadata: validated.metadata as Prisma.InputJsonValue | undefined,
+        },
+        include: messageInclude,
+      }),
+      db.chatRoom.update({
+        where: { id: validated.roomId },
+        data: { lastMessageAt: new Date() },
+      }),
+    ]);
+    const message = toChatMessage(row);
+
+    await this.cacheMessages(message.roomId, [message]);
+
+    await centrifugo.publish(channelFor(validated.roomId), {
       type: 'message:new',
       message: {
         ...message,
@@ -131,71 +276,54 @@ export class ChatManager {
    * 메시지 수정
    */
   async editMessage(messageId: string, userId: string, content: string, roomId: string): Promise<ChatMessage | null> {
-    // Redis에서 메시지 조회 및 수정
-    const messages = await this.redis.zrange(`chat:room:${roomId}:messages`, 0, -1);
-
-    for (const msgStr of messages) {
-      const msg = JSON.parse(msgStr) as ChatMessage;
-      if (msg.id === messageId && msg.userId === userId) {
-        const updatedMessage: ChatMessage = {
-          ...msg,
-          content,
-          editedAt: new Date(),
-        };
-
-        // Redis 업데이트
-        await this.redis.zrem(`chat:room:${roomId}:messages`, msgStr);
-        await this.redis.zadd(
-          `chat:room:${roomId}:messages`,
-          new Date(msg.createdAt).getTime(),
-          JSON.stringify(updatedMessage)
-        );
-
-        // Centrifugo로 브로드캐스트
-        const channelName = roomId.startsWith('private_')
-          ? CHANNELS.chatPrivate(roomId)
-          : CHANNELS.chatPublic(roomId);
-
-        await centrifugo.publish(channelName, {
-          type: 'message:edited',
-          message: updatedMessage,
-        });
-
-        return updatedMessage;
-      }
+    const existing = await this.findMessage(messageId, roomId);
+    if (!existing || existing.userId !== userId) {
+      return null;
     }
 
-    return null;
+    const row = await db.chatMessage.update({
+      where: { id: messageId },
+      data: {
+        content: MessageSchema.shape.content.parse(content),
+        editedAt: new Date(),
+      },
+      include: messageInclude,
+    });
+    const updatedMessage = toChatMessage(row);
+
+    await this.refreshCachedMessage(updatedMessage);
+
+    await centrifugo.publish(channelFor(roomId), {
+      type: 'message:edited',
+      message: updatedMessage,
+    });
+
+    return updatedMessage;
   }
 
   /**
-   * 메시지 삭제
+   * 메시지 삭제 (기록은 남기고 deletedAt 으로 숨김)
    */
   async deleteMessage(messageId: string, userId: string, roomId: string): Promise<boolean> {
-    const messages = await this.redis.zrange(`chat:room:${roomId}:messages`, 0, -1);
-
-    for (const msgStr of messages) {
-      const msg = JSON.parse(msgStr) as ChatMessage;
-      if (msg.id === messageId && msg.userId === userId) {
-        // Redis에서 삭제
-        await this.redis.zrem(`chat:room:${roomId}:messages`, msgStr);
-
-        // Centrifugo로 브로드캐스트
-        const channelName = roomId.startsWith('private_')
-          ? CHANNELS.chatPrivate(roomId)
-          : CHANNELS.chatPublic(roomId);
-
-        await centrifugo.publish(channelName, {
-          type: 'message:deleted',
-          messageId,
-          roomId,
-        });
-
-        return true;
-      }
+    const existing = await this.findMessage(messageId, roomId);
+    if (!existing || existing.userId !== userId) {
+      return false;
     }
 
-    return false;
+    await db.chatMessage.update({
+      where: { id: messageId },
+      data: { deletedAt: new Date() },
+    });
+
+    await this.uncacheMessage(roomId, messageId);
+
+    await centrifugo.publish(channelFor(roomId), {
+      type: 'message:deleted',
+      messageId,
+      roomId,
+    });
+
+    return true;
   }
 
   /**
@@ -207,11 +335,7 @@ export class ChatManager {
       select: { username: true },
     });
 
-    const channelName = roomId.startsWith('private_')
-      ? CHANNELS.chatPrivate(roomId)
-      : CHANNELS.chatPublic(roomId);
-
-    await centrifugo.publish(channelName, {
+    await centrifugo.publish(channelFor(roomId), {
       type: isTyping ? 'typing:start' : 'typing:stop',
       userId,
       username: user?.username || 'Unknown',
@@ -223,92 +347,56 @@ export class ChatManager {
    * 반응 추가
    */
   async addReaction(messageId: string, userId: string, emoji: string, roomId: string): Promise<boolean> {
-    const messages = await this.redis.zrange(`chat:room:${roomId}:messages`, 0, -1);
-
-    for (const msgStr of messages) {
-      const msg = JSON.parse(msgStr) as ChatMessage;
-      if (msg.id === messageId) {
-        const reactions = msg.reactions || {};
-        if (!reactions[emoji]) {
-          reactions[emoji] = [];
-        }
-        if (!reactions[emoji].includes(userId)) {
-          reactions[emoji].push(userId);
-        }
-
-        const updatedMessage = { ...msg, reactions };
-
-        await this.redis.zrem(`chat:room:${roomId}:messages`, msgStr);
-        await this.redis.zadd(
-          `chat:room:${roomId}:messages`,
-          new Date(msg.createdAt).getTime(),
-          JSON.stringify(updatedMessage)
-        );
-
-        const channelName = roomId.startsWith('private_')
-          ? CHANNELS.chatPrivate(roomId)
-          : CHANNELS.chatPublic(roomId);
-
-        await centrifugo.publish(channelName, {
-          type: 'reaction:added',
-          messageId,
-          userId,
-          emoji,
-        });
-
-        return true;
-      }
+    if (!(await this.findMessage(messageId, roomId))) {
+      return false;
     }
 
-    return false;
+    await db.chatMessageReaction.upsert({
+      where: { messageId_userId_emoji: { messageId, userId, emoji } },
+      create: { messageId, userId, emoji },
+      update: {},
+    });
+
+    const row = await this.findMessage(messageId, roomId);
+    if (row) await this.refreshCachedMessage(toChatMessage(row));
+
+    await centrifugo.publish(channelFor(roomId), {
+      type: 'reaction:added',
+      messageId,
+      userId,
+      emoji,
+    });
+
+    return true;
   }
 
   /**
    * 반응 제거
    */
   async removeReaction(messageId: string, userId: string, emoji: string, roomId: string): Promise<boolean> {
-    const messages = await this.redis.zrange(`chat:room:${roomId}:messages`, 0, -1);
-
-    for (const msgStr of messages) {
-      const msg = JSON.parse(msgStr) as ChatMessage;
-      if (msg.id === messageId) {
-        const reactions = msg.reactions || {};
-        if (reactions[emoji]) {
-          reactions[emoji] = reactions[emoji].filter(id => id !== userId);
-          if (reactions[emoji].length === 0) {
-            delete reactions[emoji];
-          }
-        }
-
-        const updatedMessage = { ...msg, reactions };
-
-        await this.redis.zrem(`chat:room:${roomId}:messages`, msgStr);
-        await this.redis.zadd(
-          `chat:room:${roomId}:messages`,
-          new Date(msg.createdAt).getTime(),
-          JSON.stringify(updatedMessage)
-        );
-
-        const channelName = roomId.startsWith('private_')
-          ? CHANNELS.chatPrivate(roomId)
-          : CHANNELS.chatPublic(roomId);
-
-        await centrifugo.publish(channelName, {
-          type: 'reaction:removed',
-          messageId,
-          userId,
-          emoji,
-        });
-
-        return true;
-      }
+    if (!(await this.findMessage(messageId, roomId))) {
+      return false;
     }
 
-    return false;
+    await db.chatMessageReaction.deleteMany({
+      where: { messageId, userId, emoji },
+    });
+
+    const row = await this.findMessage(messageId, roomId);
+    if (row) await this.refreshCachedMessage(toChatMessage(row));
+
+    await centrifugo.publish(channelFor(roomId), {
+      type: 'reaction:removed',
+      messageId,
+      userId,
+      emoji,
+    });
+
+    return true;
   }
 
   /**
-   * 채팅방 생성
+   * 채팅방 생성 (1:1 채팅방은 같은 두 사람에게 하나만 존재)
    */
   async createRoom(
     createdBy: string,
@@ -317,27 +405,46 @@ export class ChatManager {
     participants: string[]
   ): Promise<ChatRoom> {
     // 창작자 포함
-    if (!participants.includes(createdBy)) {
-      participants.push(createdBy);
-    }
+    const memberIds = [...new Set([...participants, createdBy])];
+
+    const roomId = type === 'direct' && memberIds.length === 2
+      ? `direct_${[...memberIds].sort().join('_')}`
+      : undefined;
+
+    const row = await db.$transaction(async (tx) => {
+      const room = roomId
+        ? await tx.chatRoom.upsert({
+            where: { id: roomId },
+            create: { id: roomId, name, type, createdBy },
+            update: {},
+          })
+        : await tx.chatRoom.create({ data: { name, type, createdBy } });
+
+      await tx.chatRoomMember.createMany({
+        data: memberIds.map((userId) => ({ roomId: room.id, userId })),
+        skipDuplicates: true,
+      });
+      // 나갔던 참여자는 다시 참여 처리
+      await tx.chatRoomMember.updateMany({
+        where: { roomId: room.id, userId: { in: memberIds }, leftAt: { not: null } },
+        data: { leftAt: null },
+      });
+
+      return room;
+    });
 
     const room: ChatRoom = {
-      id: type === 'direct' && participants.length === 2
-        ? `direct_${[...participants].sort().join('_')}`
-        : `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      name,
-      type,
-      participants,
-      createdBy,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      id: row.id,
+      name: row.name,
+      type: row.type as ChatRoom['type'],
+      participants: memberIds,
+      createdBy: row.createdBy,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
     };
 
-    // Redis에 채팅방 저장
-    await this.redis.hset(`chat:rooms`, room.id, JSON.stringify(room));
-
     // 참여자들에게 알림
-    for (const participantId of participants) {
+    for (const participantId of memberIds) {
       await centrifugo.publish(CHANNELS.personal(participantId), {
         type: 'room:created',
         room,
@@ -351,37 +458,35 @@ export class ChatManager {
    * 채팅방 나가기
    */
   async leaveRoom(roomId: string, userId: string): Promise<void> {
-    const roomStr = await this.redis.hget('chat:rooms', roomId);
-    if (!roomStr) {
+    const left = await db.chatRoomMember.updateMany({
+      where: { roomId, userId, leftAt: null },
+      data: { leftAt: new Date() },
+    });
+    if (left.count === 0) {
       throw new Error('채팅방을 찾을 수 없습니다.');
     }
 
-    const room = JSON.parse(roomStr) as ChatRoom;
-    room.participants = room.participants.filter(id => id !== userId);
-    room.updatedAt = new Date();
-
-    await this.redis.hset('chat:rooms', roomId, JSON.stringify(room));
-
-    // 시스템 메시지 전송
+    // 시스템 메시지 기록 및 전송
     const user = await db.user.findUnique({
       where: { id: userId },
       select: { username: true },
     });
 
-    const channelName = roomId.startsWith('private_')
-      ? CHANNELS.chatPrivate(roomId)
-      : CHANNELS.chatPublic(roomId);
-
-    await centrifugo.publish(channelName, {
-      type: 'message:new',
-      message: {
-        id: `sys_${Date.now()}`,
+    const row = await db.chatMessage.create({
+      data: {
         roomId,
-        userId: 'system',
         content: `${user?.username || 'Unknown'}님이 채팅방을 나갔습니다.`,
         type: 'system',
-        createdAt: new Date(),
       },
+      include: messageInclude,
+    });
+    const message = toChatMessage(row);
+
+    await this.cacheMessages(roomId, [message]);
+
+    await centrifugo.publish(channelFor(roomId), {
+      type: 'message:new',
+      message,
     });
 
     // 나간 사용자에게 알림
@@ -395,49 +500,77 @@ export class ChatManager {
    * 사용자의 채팅방 목록 조회
    */
   async getUserRooms(userId: string): Promise<ChatRoom[]> {
-    const allRooms = await this.redis.hgetall('chat:rooms');
-    const rooms: ChatRoom[] = [];
-
-    for (const [, roomStr] of Object.entries(allRooms)) {
-      const room = JSON.parse(roomStr) as ChatRoom;
-      if (room.participants.includes(userId)) {
-        rooms.push(room);
-      }
-    }
+    const rows = await db.chatRoom.findMany({
+      where: { members: { some: { userId, leftAt: null } } },
+      include: {
+        members: { where: { leftAt: null }, select: { userId: true } },
+        messages: {
+          where: { deletedAt: null },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          include: messageInclude,
+        },
+      },
+      orderBy: [{ lastMessageAt: { sort: 'desc', nulls: 'last' } }, { updatedAt: 'desc' }],
+    });
 
-    return rooms.sort((a, b) =>
-      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-    );
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      type: row.type as ChatRoom['type'],
+      participants: row.members.map((member) => member.userId),
+      createdBy: row.createdBy,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      lastMessage: row.messages[0] ? toChatMessage(row.messages[0]) : undefined,
+    }));
   }
 
   /**
    * 메시지 히스토리 조회
+   * 최신 구간은 Redis 캐시에서, 이전 페이지(before)나 캐시 미스는 DB 에서 조회
    */
   async getMessageHistory(roomId: string, limit: number = 50, before?: number): Promise<ChatMessage[]> {
-    const maxScore = before || Date.now();
-    const messages = await this.redis.zrevrangebyscore(
-      `chat:room:${roomId}:messages`,
-      maxScore,
-      '-inf',
-      'LIMIT',
-      0,
-      limit
-    );
-
-    return messages.map(str => JSON.parse(str) as ChatMessage).reverse();
+    if (!before && limit <= RECENT_WINDOW) {
+      const cached = await this.readRecent(roomId, limit);
+      if (cached) return cached;
+    }
+
+    const rows = await db.chatMessage.findMany({
+      where: {
+        roomId,
+        deletedAt: null,
+        ...(before && { createdAt: { lt: new Date(before) } }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: messageInclude,
+    });
+    const messages = rows.map(toChatMessage).reverse();
+
+    if (!before) {
+      await this.cacheMessages(roomId, messages.slice(-RECENT_WINDOW));
+    }
+
+    return messages;
   }
 
   /**
    * 메시지 검색
    */
   async searchMessages(roomId: string, query: string, limit: number = 20): Promise<ChatMessage[]> {
-    const allMessages = await this.redis.zrange(`chat:room:${roomId}:messages`, 0, -1);
-    const lowerQuery = query.toLowerCase();
+    const rows = await db.chatMessage.findMany({
+      where: {
+        roomId,
+        deletedAt: null,
+        content: { contains: query, mode: 'insensitive' },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: messageInclude,
+    });
 
-    return allMessages
-      .map(str => JSON.parse(str) as ChatMessage)
-      .filter(msg => msg.content.toLowerCase().includes(lowerQuery))
-      .slice(-limit);
+    return rows.map(toChatMessage).reverse();
   }
 
   /**
@@ -445,11 +578,7 @@ export class ChatManager {
    */
   async getOnlineUserCount(roomId: string): Promise<number> {
     try {
-      const channelName = roomId.startsWith('private_')
-        ? CHANNELS.chatPrivate(roomId)
-        : CHANNELS.chatPublic(roomId);
-
-      const stats = await centrifugo.presenceStats(channelName);
+      const stats = await centrifugo.presenceStats(channelFor(roomId));
       return stats.num_users;
     } catch {
       return 0;
@@ -461,11 +590,7 @@ export class ChatManager {
    */
   async getRoomPresence(roomId: string): Promise<Array<{ id: string; username: string }>> {
     try {
-      const channelName = roomId.startsWith('private_')
-        ? CHANNELS.chatPrivate(roomId)
-        : CHANNELS.chatPublic(roomId);
-
-      const presence = await centrifugo.presence(channelName);
+      const presence = await centrifugo.presence(channelFor(roomId));
       return Object.values(presence.presence).map(p => ({
         id: p.user,
         username: p.conn_info?.username || p.user,
@@ -0,0 +1,59 @@
+/**
+ * 댓글 멘션 / 스레드 유틸리티 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractMentions, splitMentions, buildCommentTree } from '../mentions';
+
+describe('extractMentions', () => {
+  it('본문에서 사용자명을 추출해야 함', () => {
+    expect(extractMentions('@alice 안녕하세요 @bob_99')).toEqual(['alice', 'bob_99']);
+  });
+
+  it('중복 멘션은 한 번만 반환해야 함', () => {
+    expect(extractMentions('@alice @alice 그리고 @alice')).toEqual(['alice']);
+  });
+
+  it('이메일 주소는 멘션으로 인식하지 않아야 함', () => {
+    expect(extractMentions('문의: help@example.com')).toEqual([]);
+  });
+
+  it('가입 규칙에 맞지 않는 길이는 무시해야 함', () => {
+    expect(extractMentions('@ab @abcdefghijklmnopqrstu')).toEqual([]);
+  });
+});
+
+describe('splitMentions', () => {
+  it('텍스트와 멘션 조각으로 분리해야 함', () => {
+    expect(splitMentions('안녕 @alice 반가워')).toEqual([
+      { type: 'text', value: '안녕 ' },
+      { type: 'mention', value: '@alice', username: 'alice' },
+      { type: 'text', value: ' 반가워' },
+    ]);
+  });
+
+  it('멘션이 없으면 원문 그대로 반환해야 함', () => {
+    expect(splitMentions('그냥 댓글')).toEqual([{ type: 'text', value: '그냥 댓글' }]);
+  });
+});
+
+describe('buildCommentTree', () => {
+  it('답글을 부모 아래에 순서대로 배치해야 함', () => {
+    const tree = buildCommentTree([
+      { id: '1', parentId: null },
+      { id: '2', parentId: '1' },
+      { id: '3', parentId: null },
+      { id: '4', parentId: '2' },
+      { id: '5', parentId: '1' },
+    ]);
+
+    expect(tree.map((c) => c.id)).toEqual(['1', '3']);
+    expect(tree[0].replies.map((c) => c.id)).toEqual(['2', '5']);
+    expect(tree[0].replies[0].replies.map((c) => c.id)).toEqual(['4']);
+  });
+
+  it('부모를 찾을 수 없는 답글은 최상위로 올려야 함', () => {
+    const tree = buildCommentTree([{ id: '2', parentId: 'missing' }]);
+    expect(tree.map((c) => c.id)).toEqual(['2']);
+  });
+});
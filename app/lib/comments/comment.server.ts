@@ -0,0 +1,134 @@
+/**
+ * 댓글 서버 로직
+ * 답글(스레드) 생성과 @멘션 추출 (알림은 도메인 이벤트 구독자가 처리)
+ */
+
+import { db } from '~/lib/db.server';
+import { runPluginHook } from '~/lib/architecture/plugin-system.server';
+import { publishDomainEvent } from '~/lib/domain-events/domain-events.server';
+import { extractMentions, MAX_COMMENT_DEPTH } from './mentions';
+
+interface CommentAuthor {
+  id: string;
+  username: string;
+  name?: string | null;
+}
+
+interface CommentPostRef {
+  id: string;
+  title: string;
+  url: string;
+  authorId: string;
+}
+
+/**
+ * 답글 대상 댓글 검증 및 최대 깊이 보정
+ * 최대 깊이의 댓글에 답글을 달면 같은 레벨(형제)로 붙임
+ */
+export async function resolveReplyParent(
+  postId: string,
+  parentId: string | null | undefined
+): Promise<string | null> {
+  if (!parentId) return null;
+
+  const parent = await db.comment.findUnique({
+    where: { id: parentId },
+    select: { id: true, postId: true, parentId: true },
+  });
+
+  if (!parent || parent.postId !== postId) {
+    throw new Response('답글 대상 댓글을 찾을 수 없습니다', { status: 404 });
+  }
+
+  // 조상 체인을 따라 올라가며 깊이 계산
+  const chain = [parent];
+  let cursor = parent.parentId;
+  while (cursor && chain.length <= MAX_COMMENT_DEPTH) {
+    const ancestor = await db.comment.findUnique({
+      where: { id: cursor },
+      select: { id: true, postId: true, parentId: true },
+    });
+    if (!ancestor) break;
+    chain.push(ancestor);
+    cursor = ancestor.parentId;
+  }
+
+  // chain[0]의 깊이 = chain.length - 1, 새 답글 깊이는 그보다 1 깊음
+  const depthOfParent = chain.length - 1;
+  if (depthOfParent < MAX_COMMENT_DEPTH) {
+    return parent.id;
+  }
+
+  return chain[depthOfParent - MAX_COMMENT_DEPTH + 1].id;
+}
+
+/**
+ * 댓글(또는 답글) 작성
+ */
+export async function createComment(input: {
+  post: CommentPostRef;
+  author: CommentAuthor;
+  content: string;
+  parentId?: string | null;
+}) {
+  const parentId = await resolveReplyParent(input.post.id, input.parentId);
+
+  const comment = await db.comment.create({
+    data: {
+      content: input.content,
+      postId: input.post.id,
+      authorId: input.author.id,
+      parentId,
+    },
+  });
+
+  await publishDomainEvent('comment.created', {
+    comment: { id: comment.id, content: comment.content, parentId: comment.parentId },
+    post: input.post,
+    actor: toActor(input.author),
+    mentions: extractMentions(comment.content),
+  });
+
+  await runPluginHook('comment.created', {
+    comment: {
+      id: comment.id,
+      postId: comment.postId,
+      authorId: comment.authorId,
+      parentId: comment.parentId,
+      content: comment.content,
+    },
+  });
+
+  return comment;
+}
+
+/**
+ * 댓글 수정 (새로 추가된 멘션에만 알림)
+ */
+export async function updateComment(input: {
+  commentId: string;
+  previousContent: string;
+  content: string;
+  post: CommentPostRef;
+  author: CommentAuthor;
+}) {
+  const comment = await db.comment.update({
+    where: { id: input.commentId },
+    data: { content: input.content },
+  });
+
+  const previous = new Set(extractMentions(input.previousContent));
+
+  await publishDomainEvent('comment.updated', {
+    comment: { id: comment.id, content: comment.content },
+    post: input.post,
+    actor: toActor(input.author),
+    mentions: extractMentions(comment.content).filter((username) => !previous.has(username)),
+  });
+
+  return comment;
+}
+
+function toActor(author: CommentAuthor) {
+  return { id: author.id, name: author.name || author.username };
+}
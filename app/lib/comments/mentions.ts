@@ -0,0 +1,83 @@
+/**
+ * 댓글 멘션 / 스레드 유틸리티
+ * 서버(알림 발송)와 클라이언트(하이라이트 렌더링)에서 공통으로 사용
+ */
+
+// 가입 규칙과 동일: 영문, 숫자, 언더스코어 3~20자
+const MENTION_PATTERN = /(^|[^a-zA-Z0-9_@])@([a-zA-Z0-9_]{3,20})(?![a-zA-Z0-9_])/g;
+
+// 답글 최대 깊이 (0: 최상위 댓글, 1: 답글, 2: 답글의 답글)
+export const MAX_COMMENT_DEPTH = 2;
+
+export type MentionSegment =
+  | { type: 'text'; value: string }
+  | { type: 'mention'; value: string; username: string };
+
+/**
+ * 본문에서 @username 멘션 추출 (중복 제거, 등장 순서 유지)
+ */
+export function extractMentions(content: string): string[] {
+  const usernames = new Set<string>();
+
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    usernames.add(match[2]);
+  }
+
+  return Array.from(usernames);
+}
+
+/**
+ * 본문을 일반 텍스트 / 멘션 조각으로 분리 (렌더링용)
+ */
+export function splitMentions(content: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const start = (match.index ?? 0) + match[1].length;
+
+    if (start > lastIndex) {
+      segments.push({ type: 'text', value: content.slice(lastIndex, start) });
+    }
+
+    segments.push({ type: 'mention', value: `@${match[2]}`, username: match[2] });
+    lastIndex = start + match[2].length + 1;
+  }
+
+  if (lastIndex < content.length) {
+    segments.push({ type: 'text', value: content.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+export type CommentNode<T> = T & { replies: CommentNode<T>[] };
+
+/**
+ * 평면 댓글 목록을 트리로 변환
+ * - 입력 순서(작성 시간순)를 각 레벨에서 유지
+ * - 부모가 없거나 삭제된 답글은 최상위로 올림
+ */
+export function buildCommentTree<T extends { id: string; parentId: string | null }>(
+  comments: T[]
+): CommentNode<T>[] {
+  const nodes = new Map<string, CommentNode<T>>();
+  const roots: CommentNode<T>[] = [];
+
+  for (const comment of comments) {
+    nodes.set(comment.id, { ...comment, replies: [] });
+  }
+
+  for (const comment of comments) {
+    const node = nodes.get(comment.id)!;
+    const parent = comment.parentId ? nodes.get(comment.parentId) : undefined;
+
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
@@ -0,0 +1,57 @@
+/**
+ * 댓글 알림 대상 / 중복 알림 억제 키 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getNotificationDedupeKey, planCommentRecipients } from '../domain-events';
+import { NotificationType } from '~/lib/notifications/notification.types';
+
+describe('planCommentRecipients', () => {
+  it('글 작성자와 답글 대상 댓글 작성자에게 알림', () => {
+    expect(
+      planCommentRecipients({ actorId: 'a', postAuthorId: 'writer', parentAuthorId: 'commenter' })
+    ).toEqual([
+      { userId: 'commenter', type: NotificationType.CONTENT_COMMENT, reason: 'reply' },
+      { userId: 'writer', type: NotificationType.CONTENT_COMMENT, reason: 'comment' },
+    ]);
+  });
+
+  it('자기 글/댓글/멘션에는 알림 없음', () => {
+    expect(
+      planCommentRecipients({ actorId: 'a', postAuthorId: 'a', parentAuthorId: 'a', mentionedUserIds: ['a'] })
+    ).toEqual([]);
+  });
+
+  it('한 사람에게는 멘션 > 답글 > 댓글 순으로 한 건만', () => {
+    const recipients = planCommentRecipients({
+      actorId: 'a',
+      postAuthorId: 'writer',
+      parentAuthorId: 'writer',
+      mentionedUserIds: ['writer', 'b', 'b'],
+    });
+
+    expect(recipients).toEqual([
+      { userId: 'writer', type: NotificationType.USER_MENTION, reason: 'mention' },
+      { userId: 'b', type: NotificationType.USER_MENTION, reason: 'mention' },
+    ]);
+  });
+});
+
+describe('getNotificationDedupeKey', () => {
+  it('받는 사람/종류/대상/보낸 사람이 모두 같을 때만 같은 키', () => {
+    const key = getNotificationDedupeKey({
+      recipientId: 'writer',
+      type: NotificationType.CONTENT_LIKE,
+      target: 'post:p1',
+      actorId: 'a',
+    });
+
+    expect(key).toBe('notify:writer:CONTENT_LIKE:post:p1:a');
+    expect(
+      getNotificationDedupeKey({ recipientId: 'writer', type: NotificationType.CONTENT_LIKE, target: 'post:p1', actorId: 'b' })
+    ).not.toBe(key);
+    expect(
+      getNotificationDedupeKey({ recipientId: 'writer', type: NotificationType.CONTENT_LIKE, target: 'post:p2', actorId: 'a' })
+    ).not.toBe(key);
+  });
+});
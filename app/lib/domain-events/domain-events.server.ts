@@ -0,0 +1,54 @@
+/**
+ * 도메인 이벤트 발행/구독
+ * - 게시글/댓글/추천/참여 이벤트 처리가 끝난 뒤 publishDomainEvent 로 발행
+ * - 구독자 실패는 로깅만 하고 발행한 요청은 막지 않음
+ * - 기본 구독자: 작성자/참여자 알림 (notification-subscribers.server.ts)
+ */
+
+import { notificationSubscribers } from './notification-subscribers.server';
+import type { DomainEventHandler, DomainEventName, DomainEvents } from './domain-events';
+
+type SubscriberMap = { [K in DomainEventName]?: DomainEventHandler<K>[] };
+
+declare global {
+  var __domainEventSubscribers__: SubscriberMap | undefined;
+}
+
+function getSubscribers(): SubscriberMap {
+  if (!global.__domainEventSubscribers__) {
+    global.__domainEventSubscribers__ = {};
+    for (const [name, handler] of Object.entries(notificationSubscribers)) {
+      subscribeDomainEvent(name as DomainEventName, handler as DomainEventHandler<DomainEventName>);
+    }
+  }
+  return global.__domainEventSubscribers__;
+}
+
+/**
+ * 구독 등록 (해제 함수 반환)
+ */
+export function subscribeDomainEvent<K extends DomainEventName>(name: K, handler: DomainEventHandler<K>) {
+  const subscribers = getSubscribers();
+  const handlers = (subscribers[name] ??= []) as DomainEventHandler<K>[];
+  handlers.push(handler);
+
+  return () => {
+    const index = handlers.indexOf(handler);
+    if (index >= 0) handlers.splice(index, 1);
+  };
+}
+
+/**
+ * 이벤트 발행 (등록 순서대로 구독자 실행)
+ */
+export async function publishDomainEvent<K extends DomainEventName>(name: K, payload: DomainEvents[K]) {
+  const handlers = (getSubscribers()[name] ?? []) as DomainEventHandler<K>[];
+
+  for (const handler of [...handlers]) {
+    try {
+      await handler(payload);
+    } catch (error) {
+      console.error(`[DomainEvents] Subscriber for ${name} failed:`, error);
+    }
+  }
+}
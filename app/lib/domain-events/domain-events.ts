@@ -0,0 +1,111 @@
+/**
+ * 도메인 이벤트 정의 (서버/테스트 공용)
+ * - 게시글/댓글/추천/참여 이벤트 처리 후 발행하는 이벤트와 데이터 형태
+ * - 구독자(알림 등)가 받을 사람을 정하는 규칙과 중복 알림 억제 키
+ */
+
+import { NotificationType } from '~/lib/notifications/notification.types';
+
+export interface DomainActor {
+  id: string;
+  name: string;
+}
+
+export interface DomainPostRef {
+  id: string;
+  title: string;
+  url: string;
+  authorId: string;
+}
+
+export interface DomainEvents {
+  /** 게시글 추천 (추천 취소는 발행하지 않음) */
+  'post.liked': {
+    post: DomainPostRef;
+    actor: DomainActor;
+  };
+  'comment.created': {
+    comment: { id: string; content: string; parentId: string | null };
+    post: DomainPostRef;
+    actor: DomainActor;
+    /** 본문에서 추출한 @username */
+    mentions: string[];
+  };
+  'comment.updated': {
+    comment: { id: string; content: string };
+    post: DomainPostRef;
+    actor: DomainActor;
+    /** 수정으로 새로 추가된 @username 만 */
+    mentions: string[];
+  };
+  'event.settled': {
+    event: { id: string; title: string };
+    round: number;
+    resettled: boolean;
+    payouts: Array<{ userId: string; isWinner: boolean; reward: number }>;
+  };
+  'event.cancelled': {
+    event: { id: string; title: string };
+    refunds: Array<{ userId: string; amount: number }>;
+    reason?: string;
+  };
+}
+
+export type DomainEventName = keyof DomainEvents;
+
+export type DomainEventHandler<K extends DomainEventName> = (payload: DomainEvents[K]) => Promise<void> | void;
+
+export type CommentRecipientReason = 'mention' | 'reply' | 'comment';
+
+export interface CommentRecipient {
+  userId: string;
+  type: NotificationType;
+  reason: CommentRecipientReason;
+}
+
+/**
+ * 댓글 알림 받을 사람
+ * 한 사람에게는 한 건만: 멘션 > 내 댓글에 답글 > 내 글에 댓글 순으로 우선하고, 작성자 본인은 제외
+ */
+export function planCommentRecipients(input: {
+  actorId: string;
+  postAuthorId?: string | null;
+  parentAuthorId?: string | null;
+  mentionedUserIds?: string[];
+}): CommentRecipient[] {
+  const recipients = new Map<string, CommentRecipient>();
+  const add = (userId: string | null | undefined, type: NotificationType, reason: CommentRecipientReason) => {
+    if (!userId || userId === input.actorId || recipients.has(userId)) return;
+    recipients.set(userId, { userId, type, reason });
+  };
+
+  for (const userId of input.mentionedUserIds ?? []) {
+    add(userId, NotificationType.USER_MENTION, 'mention');
+  }
+  add(input.parentAuthorId, NotificationType.CONTENT_COMMENT, 'reply');
+  add(input.postAuthorId, NotificationType.CONTENT_COMMENT, 'comment');
+
+  return [...recipients.values()];
+}
+
+/**
+ * 같은 사람이 같은 대상에 대해 짧은 시간에 반복한 동작은 알림 한 건으로 (초)
+ * 추천/취소를 반복하거나 댓글을 연달아 다는 경우
+ */
+export const NOTIFICATION_DEDUPE_WINDOWS: Partial<Record<NotificationType, number>> = {
+  [NotificationType.CONTENT_LIKE]: 10 * 60,
+  [NotificationType.CONTENT_COMMENT]: 60,
+  [NotificationType.USER_MENTION]: 60,
+};
+
+/**
+ * 중복 알림 억제 키 (받는 사람 + 알림 종류 + 대상 + 보낸 사람)
+ */
+export function getNotificationDedupeKey(input: {
+  recipientId: string;
+  type: NotificationType;
+  target: string;
+  actorId?: string | null;
+}) {
+  return ['notify', input.recipientId, input.type, input.target, input.actorId ?? '-'].join(':');
+}
@@ -0,0 +1,226 @@
+/**
+ * 도메인 이벤트 → 알림
+ * - 추천/댓글/답글/멘션은 글·댓글 작성자에게, 이벤트 정산/취소는 참여자에게 알림
+ * - 글이 있는 게시판을 읽을 수 없는 사람에게는 댓글/멘션 알림을 보내지 않음 (제목/내용 미리보기 노출 방지)
+ * - 자기 자신에게는 보내지 않고, 짧은 시간 안의 같은 동작은 한 번만 알림 (Redis, 연결 실패 시 메모리)
+ * - 알림 실패가 다른 받는 사람에게 영향을 주지 않도록 한 건씩 처리
+ */
+
+import { db } from '~/lib/db.server';
+import { getRedisCluster } from '~/lib/redis/cluster.server';
+import { getBoardPolicy } from '~/lib/boards/board-permission.server';
+import { evaluateBoardPermissions } from '~/lib/boards/board-permission';
+import { getNotificationManager } from '~/lib/notifications/notification.manager';
+import { NotificationType, type NotificationData } from '~/lib/notifications/notification.types';
+import {
+  NOTIFICATION_DEDUPE_WINDOWS,
+  getNotificationDedupeKey,
+  planCommentRecipients,
+  type CommentRecipient,
+  type CommentRecipientReason,
+  type DomainActor,
+  type DomainEventHandler,
+  type DomainEventName,
+  type DomainPostRef,
+} from './domain-events';
+
+const PREVIEW_LENGTH = 100;
+const MEMORY_DEDUPE_LIMIT = 10000;
+
+// Redis 연결 실패 시 사용하는 중복 억제 키 (키 → 만료 시각)
+const memoryDedupe = new Map<string, number>();
+
+/**
+ * 중복 억제 키 선점 (처음이면 true)
+ */
+async function claimDedupeKey(key: string, ttlSeconds: number): Promise<boolean> {
+  try {
+    return (await getRedisCluster().set(key, '1', 'EX', ttlSeconds, 'NX')) === 'OK';
+  } catch (error) {
+    console.error('[DomainEvents] Redis dedupe failed, using memory:', error);
+  }
+
+  const now = Date.now();
+  const expiresAt = memoryDedupe.get(key);
+  if (expiresAt && expiresAt > now) return false;
+
+  if (memoryDedupe.size >= MEMORY_DEDUPE_LIMIT) {
+    for (const [entry, expiry] of memoryDedupe) {
+      if (expiry <= now) memoryDedupe.delete(entry);
+    }
+  }
+  memoryDedupe.set(key, now + ttlSeconds * 1000);
+  return true;
+}
+
+/**
+ * 알림 한 건 생성 (억제 대상이면 건너뜀)
+ */
+async function notify(
+  recipientId: string,
+  type: NotificationType,
+  data: NotificationData,
+  dedupe?: { target: string; actorId?: string | null }
+) {
+  const window = NOTIFICATION_DEDUPE_WINDOWS[type];
+  if (dedupe && window) {
+    const key = getNotificationDedupeKey({ recipientId, type, ...dedupe });
+    if (!(await claimDedupeKey(key, window))) return;
+  }
+
+  try {
+    await getNotificationManager().createNotification(recipientId, type, data);
+  } catch (error) {
+    console.error(`[DomainEvents] Failed to send ${type} notification to ${recipientId}:`, error);
+  }
+}
+
+function preview(content: string) {
+  return content.length > PREVIEW_LENGTH ? `${content.slice(0, PREVIEW_LENGTH)}...` : content;
+}
+
+function postMetadata(post: DomainPostRef, actor: DomainActor) {
+  return { postId: post.id, postTitle: post.title, actorId: actor.id, actorName: actor.name };
+}
+
+/**
+ * 멘션된 @username 중 실제 활성 사용자 ID
+ */
+async function resolveMentions(usernames: string[]) {
+  if (usernames.length === 0) return [];
+
+  const users = await db.user.findMany({
+    where: { username: { in: usernames }, isActive: true },
+    select: { id: true },
+  });
+  return users.map((user) => user.id);
+}
+
+/**
+ * 글이 있는 게시판을 읽을 수 있는 받는 사람만 남김
+ */
+async function filterReadableRecipients(recipients: CommentRecipient[], postId: string) {
+  if (recipients.length === 0) return recipients;
+
+  const post = await db.post.findUnique({
+    where: { id: postId },
+    select: { menu: { select: { slug: true, board_id: true } } },
+  });
+  if (!post) return [];
+
+  const policy = await getBoardPolicy(post.menu);
+  const users = await db.user.findMany({
+    where: { id: { in: recipients.map((recipient) => recipient.userId) } },
+    select: { id: true, role: true },
+  });
+  const readable = new Set(
+    users.filter((user) => evaluateBoardPermissions(policy, user).canRead).map((user) => user.id)
+  );
+
+  return recipients.filter((recipient) => readable.has(recipient.userId));
+}
+
+const COMMENT_TITLES: Record<CommentRecipientReason, (actorName: string) => string> = {
+  mention: (name) => `${name}님이 회원님을 언급했습니다`,
+  reply: (name) => `${name}님이 회원님의 댓글에 답글을 남겼습니다`,
+  comment: (name) => `${name}님이 회원님의 글에 댓글을 남겼습니다`,
+};
+
+async function notifyCommentRecipients(
+  recipients: CommentRecipient[],
+  input: { comment: { id: string; content: string }; post: DomainPostRef; actor: DomainActor }
+) {
+  const { comment, post, actor } = input;
+
+  for (const recipient of await filterReadableRecipients(recipients, post.id)) {
+    await notify(
+      recipient.userId,
+      recipient.type,
+      {
+        title: COMMENT_TITLES[recipient.reason](actor.name),
+        message: preview(comment.content),
+        actionUrl: `${post.url}#comment-${comment.id}`,
+        actionLabel: '댓글 보기',
+        metadata: { ...postMetadata(post, actor), commentId: comment.id },
+        relatedEntity: { type: 'comment', id: comment.id },
+      },
+      { target: `post:${post.id}`, actorId: actor.id }
+    );
+  }
+}
+
+type NotificationSubscribers = { [K in DomainEventName]?: DomainEventHandler<K> };
+
+export const notificationSubscribers: NotificationSubscribers = {
+  'post.liked': async ({ post, actor }) => {
+    if (post.authorId === actor.id) return;
+
+    await notify(
+      post.authorId,
+      NotificationType.CONTENT_LIKE,
+      {
+        title: `${actor.name}님이 회원님의 글을 좋아합니다`,
+        message: post.title,
+        actionUrl: post.url,
+        actionLabel: '글 보기',
+        metadata: postMetadata(post, actor),
+        relatedEntity: { type: 'post', id: post.id },
+      },
+      { target: `post:${post.id}`, actorId: actor.id }
+    );
+  },
+
+  'comment.created': async ({ comment, post, actor, mentions }) => {
+    const parent = comment.parentId
+      ? await db.comment.findUnique({ where: { id: comment.parentId }, select: { authorId: true } })
+      : null;
+
+    const recipients = planCommentRecipients({
+      actorId: actor.id,
+      postAuthorId: post.authorId,
+      parentAuthorId: parent?.authorId,
+      mentionedUserIds: await resolveMentions(mentions),
+    });
+    await notifyCommentRecipients(recipients, { comment, post, actor });
+  },
+
+  'comment.updated': async ({ comment, post, actor, mentions }) => {
+    const recipients = planCommentRecipients({
+      actorId: actor.id,
+      mentionedUserIds: await resolveMentions(mentions),
+    });
+    await notifyCommentRecipients(recipients, { comment, post, actor });
+  },
+
+  'event.settled': async ({ event, round, resettled, payouts }) => {
+    for (const payout of payouts) {
+      const result = payout.isWinner
+        ? `적중! ${payout.reward.toLocaleString()}P를 받았습니다.`
+        : '아쉽게도 적중하지 못했습니다.';
+
+      await notify(payout.userId, NotificationType.SYSTEM, {
+        title: resettled ? `"${event.title}" 이벤트가 재정산되었습니다` : `"${event.title}" 이벤트 결과가 나왔습니다`,
+        message: result,
+        actionUrl: '/events/history',
+        actionLabel: '참여 내역 보기',
+        metadata: { eventId: event.id, round, isWinner: payout.isWinner, reward: payout.reward },
+        relatedEntity: { type: 'event', id: event.id },
+      });
+    }
+  },
+
+  'event.cancelled': async ({ event, refunds, reason }) => {
+    for (const refund of refunds) {
+      const refundMessage = refund.amount > 0 ? `참여 포인트 ${refund.amount.toLocaleString()}P가 환불되었습니다.` : '';
+
+      await notify(refund.userId, NotificationType.SYSTEM, {
+        title: `"${event.title}" 이벤트가 취소되었습니다`,
+        message: [reason, refundMessage].filter(Boolean).join(' ') || undefined,
+        actionUrl: '/events/history',
+        actionLabel: '참여 내역 보기',
+        metadata: { eventId: event.id, refund: refund.amount },
+        relatedEntity: { type: 'event', id: event.id },
+      });
+    }
+  },
+};
@@ -21,9 +21,29 @@ export interface EmailResult {
   error?: string;
 }
 
+// 메일 본문 링크에 쓰는 사이트 주소
+export function getSiteUrl() {
+  return env.NODE_ENV === 'production' ? 'https://your-domain.com' : 'http://localhost:3000';
+}
+
+// SMTP 설정 여부
+export function isEmailConfigured() {
+  return Boolean(env.EMAIL_SMTP_HOST && env.EMAIL_FROM);
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 // SMTP 트랜스포터 생성
+// 로컬에서는 Mailpit 같은 SMTP 캐처(localhost:1025, 인증 없음)로 받아볼 수 있음
 function createTransporter() {
-  if (!env.EMAIL_SMTP_HOST || !env.EMAIL_FROM) {
+  if (!isEmailConfigured()) {
     console.warn('이메일 설정이 누락되어 이메일 기능이 비활성화됩니다.');
     return null;
   }
@@ -45,7 +65,7 @@ export const emailTemplates = {
    * 비밀번호 재설정 이메일
    */
   passwordReset: (user: Pick<User, 'name' | 'username'>, resetToken: string): EmailTemplate => {
-    const resetUrl = `${env.NODE_ENV === 'production' ? 'https://your-domain.com' : 'http://localhost:3000'}/auth/reset-password?token=${resetToken}`;
+    const resetUrl = `${getSiteUrl()}/auth/reset-password?token=${resetToken}`;
     const userName = user.name || user.username;
     
     return {
@@ -116,7 +136,7 @@ ${resetUrl}
    */
   welcome: (user: Pick<User, 'name' | 'username' | 'email'>): EmailTemplate => {
     const userName = user.name || user.username;
-    const loginUrl = `${env.NODE_ENV === 'production' ? 'https://your-domain.com' : 'http://localhost:3000'}/auth/login`;
+    const loginUrl = `${getSiteUrl()}/auth/login`;
     
     return {
       subject: 'CodeB CMS에 오신 것을 환영합니다!',
@@ -197,7 +217,7 @@ CodeB CMS 커뮤니티에 가입해주셔서 감사합니다.
    */
   emailVerification: (user: Pick<User, 'name' | 'username'>, verificationToken: string): EmailTemplate => {
     const userName = user.name || user.username;
-    const verifyUrl = `${env.NODE_ENV === 'production' ? 'https://your-domain.com' : 'http://localhost:3000'}/auth/verify-email?token=${verificationToken}`;
+    const verifyUrl = `${getSiteUrl()}/auth/verify-email?token=${verificationToken}`;
     
     return {
       subject: 'CodeB CMS 이메일 주소 확인',
@@ -246,6 +266,151 @@ ${verifyUrl}
 
 참고: 이메일 확인을 완료하면 모든 기능을 이용하실 수 있습니다.
 
+© 2024 CodeB CMS. All rights reserved.
+      `
+    };
+  },
+
+  /**
+   * 알림 이메일 (알림 타입별 템플릿으로 렌더링한 제목/내용)
+   */
+  notification: (
+    user: Pick<User, 'name' | 'username'>,
+    content: { title: string; message: string; actionUrl?: string; actionLabel?: string }
+  ): EmailTemplate => {
+    const userName = escapeHtml(user.name || user.username);
+    const title = escapeHtml(content.title);
+    const paragraphs = content.message
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => `<p>${escapeHtml(line)}</p>`)
+      .join('');
+    const actionUrl = content.actionUrl ? escapeHtml(content.actionUrl) : '';
+    const actionLabel = escapeHtml(content.actionLabel || '자세히 보기');
+    
+    return {
+      subject: `[CodeB CMS] ${content.title}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${title}</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #f8f9fa; padding: 30px; border-radius: 10px;">
+            <h2 style="color: #2563eb; margin-bottom: 20px;">${title}</h2>
+            <p>안녕하세요, ${userName}님!</p>
+            ${paragraphs}
+            ${actionUrl ? `
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${actionUrl}" 
+                 style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+                ${actionLabel}
+              </a>
+            </div>
+            ` : ''}
+            <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; font-size: 14px; color: #64748b;">
+              <p>이 메일은 알림 수신 설정에 따라 발송되었습니다. 수신을 원하지 않으시면 알림 설정에서 이메일 알림을 꺼주세요.</p>
+            </div>
+            
+            <div style="margin-top: 20px; text-align: center; font-size: 12px; color: #94a3b8;">
+              <p>© 2024 CodeB CMS. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+안녕하세요, ${user.name || user.username}님!
+
+${content.title}
+
+${content.message}
+${content.actionUrl ? `\n${content.actionLabel || '자세히 보기'}: ${content.actionUrl}\n` : ''}
+© 2024 CodeB CMS. All rights reserved.
+      `
+    };
+  },
+
+  /**
+   * 알림 모아보기 이메일 (같은 글/종류로 묶은 알림 목록)
+   */
+  notificationDigest: (
+    user: Pick<User, 'name' | 'username'>,
+    digest: {
+      total: number;
+      groups: Array<{ title: string; message?: string; count: number; actionUrl?: string }>;
+      /** 목록에 다 싣지 못한 묶음 수 */
+      moreCount: number;
+      siteUrl: string;
+    }
+  ): EmailTemplate => {
+    const userName = escapeHtml(user.name || user.username);
+    const siteUrl = escapeHtml(digest.siteUrl);
+    const items = digest.groups
+      .map((group) => {
+        const title = escapeHtml(group.title);
+        const link = group.actionUrl
+          ? `<a href="${escapeHtml(group.actionUrl)}" style="color: #1e293b; text-decoration: none; font-weight: bold;">${title}</a>`
+          : `<strong>${title}</strong>`;
+        const count = group.count > 1
+          ? ` <span style="color: #2563eb; font-size: 12px;">${group.count}건</span>`
+          : '';
+        const message = group.message
+          ? `<div style="color: #64748b; font-size: 14px; margin-top: 4px;">${escapeHtml(group.message)}</div>`
+          : '';
+        return `<li style="padding: 12px 0; border-bottom: 1px solid #e2e8f0;">${link}${count}${message}</li>`;
+      })
+      .join('');
+
+    return {
+      subject: `[CodeB CMS] 읽지 않은 알림 ${digest.total}개`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>알림 모아보기</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #f8f9fa; padding: 30px; border-radius: 10px;">
+            <h2 style="color: #2563eb; margin-bottom: 20px;">알림 모아보기</h2>
+            <p>안녕하세요, ${userName}님! 확인하지 않은 알림 ${digest.total}개가 있습니다.</p>
+            <ul style="list-style: none; padding: 0; margin: 20px 0;">
+              ${items}
+            </ul>
+            ${digest.moreCount > 0 ? `<p style="color: #64748b;">외 ${digest.moreCount}개의 알림은 사이트에서 확인하세요.</p>` : ''}
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${siteUrl}"
+                 style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+                사이트에서 확인하기
+              </a>
+            </div>
+            <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; font-size: 14px; color: #64748b;">
+              <p>이 메일은 알림 모아보기 설정에 따라 발송되었습니다. 알림 설정에서 받는 주기를 바꿀 수 있습니다.</p>
+            </div>
+
+            <div style="margin-top: 20px; text-align: center; font-size: 12px; color: #94a3b8;">
+              <p>© 2024 CodeB CMS. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+안녕하세요, ${user.name || user.username}님!
+
+확인하지 않은 알림 ${digest.total}개가 있습니다.
+
+${digest.groups
+  .map((group) => `- ${group.title}${group.count > 1 ? ` (${group.count}건)` : ''}${group.actionUrl ? `\n  ${group.actionUrl}` : ''}`)
+  .join('\n')}
+${digest.moreCount > 0 ? `\n외 ${digest.moreCount}개의 알림은 사이트에서 확인하세요.\n` : ''}
+사이트에서 확인하기: ${digest.siteUrl}
+
 © 2024 CodeB CMS. All rights reserved.
       `
     };
@@ -39,6 +39,22 @@ const envSchema = z.object({
   // 파일 업로드
   UPLOAD_DIR: z.string().default('./uploads'),
   MAX_FILE_SIZE: z.coerce.number().default(10 * 1024 * 1024), // 10MB
+
+  // 업로드 스토리지 (local: UPLOAD_DIR, s3: S3 호환 저장소)
+  STORAGE_DRIVER: z.enum(['local', 's3']).default('local'),
+  STORAGE_SIGNING_SECRET: z.string().min(32).optional(),
+  S3_ENDPOINT: z.string().url().optional(),
+  S3_REGION: z.string().default('us-east-1'),
+  S3_BUCKET: z.string().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  S3_FORCE_PATH_STYLE: z.enum(['true', 'false']).default('true'),
+  S3_PUBLIC_URL: z.string().url().optional(),
+
+  // Web Push (npm run push:vapid-keys 로 생성)
+  VAPID_PUBLIC_KEY: z.string().optional(),
+  VAPID_PRIVATE_KEY: z.string().optional(),
+  VAPID_SUBJECT: z.string().regex(/^(mailto:|https:\/\/)/, 'VAPID_SUBJECT must be a mailto: or https: URL').optional(),
 });
 
 // 환경 변수 타입
@@ -0,0 +1,65 @@
+/**
+ * 이벤트 상태 자동 전환 규칙 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getCancelError, getManualStatusError, getScheduledStatus } from '../event-lifecycle';
+
+const startsAt = new Date('2026-10-19T01:00:00Z');
+const endsAt = new Date('2026-10-19T03:00:00Z');
+
+const before = new Date('2026-10-19T00:00:00Z');
+const during = new Date('2026-10-19T02:00:00Z');
+const after = new Date('2026-10-19T04:00:00Z');
+
+describe('getScheduledStatus', () => {
+  it('예정 이벤트는 시작 시각이 되면 OPEN 으로 전환', () => {
+    expect(getScheduledStatus({ status: 'UPCOMING', startsAt, endsAt }, before)).toBeNull();
+    expect(getScheduledStatus({ status: 'UPCOMING', startsAt, endsAt }, startsAt)).toBe('OPEN');
+    expect(getScheduledStatus({ status: 'UPCOMING', startsAt, endsAt }, during)).toBe('OPEN');
+  });
+
+  it('종료 시각이 지난 예정 이벤트는 바로 CLOSED 로 전환', () => {
+    expect(getScheduledStatus({ status: 'UPCOMING', startsAt, endsAt }, after)).toBe('CLOSED');
+  });
+
+  it('진행중 이벤트는 종료 시각이 되면 CLOSED 로 전환', () => {
+    expect(getScheduledStatus({ status: 'OPEN', startsAt, endsAt }, during)).toBeNull();
+    expect(getScheduledStatus({ status: 'OPEN', startsAt, endsAt }, endsAt)).toBe('CLOSED');
+  });
+
+  it('마감/정산/취소된 이벤트는 자동 전환하지 않음', () => {
+    for (const status of ['CLOSED', 'SETTLED', 'CANCELLED'] as const) {
+      expect(getScheduledStatus({ status, startsAt, endsAt }, after)).toBeNull();
+    }
+  });
+});
+
+describe('getManualStatusError', () => {
+  it('종료 시각이 지난 이벤트는 다시 열 수 없음', () => {
+    expect(getManualStatusError({ status: 'CLOSED', startsAt, endsAt }, 'OPEN', after)).not.toBeNull();
+    expect(getManualStatusError({ status: 'CLOSED', startsAt, endsAt }, 'OPEN', during)).toBeNull();
+  });
+
+  it('시작 시각이 지난 이벤트는 예정으로 되돌릴 수 없음', () => {
+    expect(getManualStatusError({ status: 'OPEN', startsAt, endsAt }, 'UPCOMING', during)).not.toBeNull();
+    expect(getManualStatusError({ status: 'OPEN', startsAt, endsAt }, 'UPCOMING', before)).toBeNull();
+  });
+
+  it('마감 처리는 언제든 가능', () => {
+    expect(getManualStatusError({ status: 'OPEN', startsAt, endsAt }, 'CLOSED', before)).toBeNull();
+  });
+});
+
+describe('getCancelError', () => {
+  it('정산 전 이벤트는 취소 가능', () => {
+    for (const status of ['UPCOMING', 'OPEN', 'CLOSED'] as const) {
+      expect(getCancelError(status)).toBeNull();
+    }
+  });
+
+  it('정산/취소된 이벤트는 취소할 수 없음', () => {
+    expect(getCancelError('SETTLED')).not.toBeNull();
+    expect(getCancelError('CANCELLED')).not.toBeNull();
+  });
+});
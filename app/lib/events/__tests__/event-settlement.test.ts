@@ -0,0 +1,117 @@
+/**
+ * 이벤트 정산 방식 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getRewardAdjustment,
+  getSettlementError,
+  planSettlement,
+  summarizeResults,
+  type SettlementOptions,
+} from '../event-settlement';
+
+const base: SettlementOptions = {
+  mode: 'FIXED',
+  correctAnswer: 'odd',
+  rewardMultiplier: 2,
+  predictionMultiplier: 3,
+  rewardPool: 0,
+  houseFeeRate: 0,
+  tolerance: null,
+};
+
+const choices = [
+  { id: 'p1', userId: 'u1', choice: 'odd', points: 100 },
+  { id: 'p2', userId: 'u2', choice: 'odd', points: 300 },
+  { id: 'p3', userId: 'u3', choice: 'even', points: 600 },
+];
+
+const guesses = [
+  { id: 'p1', userId: 'u1', choice: '48', points: 10 },
+  { id: 'p2', userId: 'u2', choice: '53', points: 20 },
+  { id: 'p3', userId: 'u3', choice: '60', points: 30 },
+  { id: 'p4', userId: 'u4', choice: '47', points: 40 },
+];
+
+const rewardsOf = (plan: ReturnType<typeof planSettlement>) =>
+  Object.fromEntries(plan.payouts.map((p) => [p.userId, p.reward]));
+
+describe('planSettlement', () => {
+  it('고정 배수는 정답자 베팅 포인트 × 배수를 지급', () => {
+    const plan = planSettlement(choices, base);
+    expect(rewardsOf(plan)).toEqual({ u1: 200, u2: 600, u3: 0 });
+    expect(plan.winners).toBe(2);
+    expect(plan.losers).toBe(1);
+    expect(plan.totalPayout).toBe(800);
+  });
+
+  it('배당 분배는 전체 베팅 포인트에서 수수료를 떼고 정답자 베팅 비율대로 분배', () => {
+    const plan = planSettlement(choices, { ...base, mode: 'PARIMUTUEL', rewardPool: 0, houseFeeRate: 0.1 });
+    expect(plan.houseFee).toBe(100);
+    expect(rewardsOf(plan)).toEqual({ u1: 225, u2: 675, u3: 0 });
+  });
+
+  it('배당 분배의 추가 보상 풀은 베팅 포인트에 더해 분배', () => {
+    const plan = planSettlement(choices, { ...base, mode: 'PARIMUTUEL', rewardPool: 1000 });
+    expect(plan.houseFee).toBe(0);
+    expect(rewardsOf(plan)).toEqual({ u1: 500, u2: 1500, u3: 0 });
+  });
+
+  it('배당 분배에서 정답자가 없으면 지급하지 않음', () => {
+    const plan = planSettlement(choices, { ...base, mode: 'PARIMUTUEL', correctAnswer: 'none', rewardPool: 1000 });
+    expect(plan.winners).toBe(0);
+    expect(plan.totalPayout).toBe(0);
+  });
+
+  it('근접 예측은 허용 오차가 없으면 가장 가까운 예측(동점 포함)이 정답', () => {
+    const plan = planSettlement(guesses, { ...base, mode: 'CLOSEST', correctAnswer: '50' });
+    expect(rewardsOf(plan)).toEqual({ u1: 30, u2: 0, u3: 0, u4: 0 });
+
+    const tie = planSettlement(guesses, { ...base, mode: 'CLOSEST', correctAnswer: '50.5' });
+    expect(rewardsOf(tie)).toEqual({ u1: 30, u2: 60, u3: 0, u4: 0 });
+  });
+
+  it('근접 예측은 허용 오차 이내를 모두 정답으로 처리', () => {
+    const plan = planSettlement(guesses, { ...base, mode: 'CLOSEST', correctAnswer: '50', tolerance: 3 });
+    expect(rewardsOf(plan)).toEqual({ u1: 30, u2: 60, u3: 0, u4: 120 });
+  });
+});
+
+describe('getSettlementError', () => {
+  it('근접 예측은 예측 이벤트의 숫자 정답에만 사용', () => {
+    expect(getSettlementError('ODD_EVEN', { ...base, mode: 'CLOSEST' })).not.toBeNull();
+    expect(getSettlementError('PREDICTION', { ...base, mode: 'FIXED' })).not.toBeNull();
+    expect(getSettlementError('PREDICTION', { ...base, mode: 'CLOSEST', correctAnswer: 'abc' })).not.toBeNull();
+    expect(getSettlementError('PREDICTION', { ...base, mode: 'CLOSEST', correctAnswer: '42' })).toBeNull();
+  });
+
+  it('수수료율은 0 이상 1 미만', () => {
+    expect(getSettlementError('BINARY', { ...base, mode: 'PARIMUTUEL', houseFeeRate: 1 })).not.toBeNull();
+    expect(getSettlementError('BINARY', { ...base, mode: 'PARIMUTUEL', houseFeeRate: 0.05 })).toBeNull();
+  });
+});
+
+describe('summarizeResults', () => {
+  it('승/패와 현재·최대 연승을 계산', () => {
+    expect(summarizeResults([true, true, false, true, true, true, false, true])).toEqual({
+      wins: 6,
+      losses: 2,
+      streak: 1,
+      maxStreak: 3,
+    });
+    expect(summarizeResults([])).toEqual({ wins: 0, losses: 0, streak: 0, maxStreak: 0 });
+  });
+});
+
+describe('getRewardAdjustment', () => {
+  it('새 보상이 더 크면 차액만 추가 지급', () => {
+    expect(getRewardAdjustment(100, 250, 0)).toEqual({ credit: 150, reclaim: 0, shortfall: 0 });
+    expect(getRewardAdjustment(100, 100, 0)).toEqual({ credit: 0, reclaim: 0, shortfall: 0 });
+  });
+
+  it('새 보상이 더 작으면 잔액 이내에서 회수', () => {
+    expect(getRewardAdjustment(200, 0, 500)).toEqual({ credit: 0, reclaim: 200, shortfall: 0 });
+    expect(getRewardAdjustment(200, 50, 80)).toEqual({ credit: 0, reclaim: 80, shortfall: 70 });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * 참여 이벤트 취소
+ * 상태 변경과 참여 포인트 환불(REFUND)을 한 트랜잭션으로 처리하고, 커밋 후 참여자 개인 채널과 알림으로 안내
+ */
+
+import { db } from '~/lib/db.server';
+import { centrifugo } from '~/lib/centrifugo/client.server';
+import { CHANNELS } from '~/lib/centrifugo/channels';
+import { applyPointChange } from '~/lib/points/point.server';
+import { publishDomainEvent } from '~/lib/domain-events/domain-events.server';
+import { invalidateUserPointsCache } from '~/lib/performance/qps-optimizer.server';
+import { getCancelError } from './event-lifecycle';
+import { publishStatusChange, recordStatusChange } from './event-lifecycle.server';
+
+const CANCEL_TIMEOUT = 60 * 1000; // 참여자가 많으면 환불 거래가 길어짐
+
+/**
+ * 이벤트 취소 및 참여 포인트 환불
+ * 환불액은 참여 시 차감한 금액(참여 비용 + 베팅 포인트)이며, 참여자별 idempotencyKey 로 중복 환불을 막음
+ */
+export async function cancelEvent(eventId: string, adminId: string, reason?: string) {
+  const event = await db.participationEvent.findUnique({
+    where: { id: eventId },
+    select: { id: true, title: true, status: true },
+  });
+  if (!event) {
+    return { success: false as const, message: '이벤트를 찾을 수 없습니다.' };
+  }
+
+  const error = getCancelError(event.status);
+  if (error) {
+    return { success: false as const, message: error };
+  }
+
+  const refunds = await db.$transaction(async (tx) => {
+    // 조회 이후 정산/취소된 경우 조건부 변경이 실패하므로 여기서 멈춤
+    const changed = await recordStatusChange(
+      tx,
+      eventId,
+      event.status,
+      'CANCELLED',
+      { type: 'ADMIN', userId: adminId },
+      reason || '관리자 취소'
+    );
+    if (!changed) return null;
+
+    const participations = await tx.participation.findMany({
+      where: { eventId },
+      select: { userId: true, points: true, user: { select: { userPoints: { select: { id: true } } } } },
+    });
+
+    const refunded: Array<{ userId: string; amount: number }> = [];
+    for (const participation of participations) {
+      const account = participation.user.userPoints;
+      if (participation.points > 0 && account) {
+        await applyPointChange(tx, account.id, participation.points, 'REFUND', {
+          eventId,
+          description: `${event.title} 이벤트 취소 환불`,
+          idempotencyKey: `refund:${eventId}:${participation.userId}`,
+        });
+      }
+      refunded.push({ userId: participation.userId, amount: account ? participation.points : 0 });
+    }
+
+    return refunded;
+  }, { timeout: CANCEL_TIMEOUT });
+
+  if (!refunds) {
+    return { success: false as const, message: '이벤트 상태가 이미 변경되었습니다. 새로고침 후 다시 시도하세요.' };
+  }
+
+  await publishStatusChange(eventId, event.status, 'CANCELLED');
+  await notifyParticipants(event, refunds, reason);
+  await publishDomainEvent('event.cancelled', {
+    event: { id: event.id, title: event.title },
+    refunds,
+    reason,
+  });
+
+  return {
+    success: true as const,
+    refunded: refunds.length,
+    totalAmount: refunds.reduce((sum, refund) => sum + refund.amount, 0),
+  };
+}
+
+async function notifyParticipants(
+  event: { id: string; title: string },
+  refunds: Array<{ userId: string; amount: number }>,
+  reason?: string
+) {
+  const cancelledAt = new Date().toISOString();
+
+  for (const refund of refunds) {
+    try {
+      if (refund.amount > 0) {
+        await invalidateUserPointsCache(refund.userId);
+      }
+      await centrifugo.publish(CHANNELS.personal(refund.userId), {
+        type: 'EVENT_CANCELLED',
+        eventId: event.id,
+        title: event.title,
+        refund: refund.amount,
+        reason: reason || null,
+        cancelledAt,
+      });
+    } catch (error) {
+      console.error('Failed to notify event cancellation:', error);
+    }
+  }
+}
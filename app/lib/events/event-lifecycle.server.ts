@@ -0,0 +1,215 @@
+/**
+ * 참여 이벤트 상태 전환 서버 로직
+ * - 시작/종료 시각에 맞춰 상태를 바꾸는 스케줄러
+ * - 모든 상태 변경을 EventStatusLog 에 기록하고 실시간 채널로 발행
+ */
+
+import type { EventStatus, Prisma } from '@prisma/client';
+import { db } from '~/lib/db.server';
+import { centrifugo } from '~/lib/centrifugo/client.server';
+import { CHANNELS } from '~/lib/centrifugo/channels';
+import { invalidateEventCache } from '~/lib/performance/qps-optimizer.server';
+import { getScheduledStatus } from './event-lifecycle';
+
+const SCHEDULER_INTERVAL = 30 * 1000; // 30초
+
+declare global {
+  var __eventScheduler__: NodeJS.Timeout | undefined;
+}
+
+export type EventStatusActor =
+  | { type: 'SYSTEM' }
+  | { type: 'ADMIN'; userId: string };
+
+/**
+ * 트랜잭션 안에서 상태 변경과 기록 (현재 상태가 from 일 때만 적용, 변경되었으면 true)
+ * 실시간 발행은 커밋 후 publishStatusChange 로 따로 처리
+ */
+export async function recordStatusChange(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  from: EventStatus,
+  to: EventStatus,
+  actor: EventStatusActor,
+  reason?: string
+): Promise<boolean> {
+  const result = await tx.participationEvent.updateMany({
+    where: { id: eventId, status: from },
+    data: { status: to },
+  });
+  if (result.count === 0) return false;
+
+  await tx.eventStatusLog.create({
+    data: {
+      eventId,
+      fromStatus: from,
+      toStatus: to,
+      actorType: actor.type,
+      actorId: actor.type === 'ADMIN' ? actor.userId : null,
+      reason,
+    },
+  });
+  return true;
+}
+
+/**
+ * 이벤트 상태 변경 (현재 상태가 from 일 때만 적용)
+ * 조건부 updateMany 이므로 재시작 직후나 여러 인스턴스에서 동시에 실행되어도 한 번만 전환·기록됨
+ */
+export async function changeEventStatus(
+  eventId: string,
+  from: EventStatus,
+  to: EventStatus,
+  actor: EventStatusActor,
+  reason?: string
+): Promise<boolean> {
+  const changed = await db.$transaction((tx) => recordStatusChange(tx, eventId, from, to, actor, reason));
+
+  if (changed) {
+    await publishStatusChange(eventId, from, to);
+  }
+
+  return changed;
+}
+
+/**
+ * 이벤트 생성 기록 후 시각에 맞는 상태로 바로 전환
+ */
+export async function recordEventCreated(eventId: string, adminId: string) {
+  const event = await db.participationEvent.findUniqueOrThrow({
+    where: { id: eventId },
+    select: { status: true, startsAt: true, endsAt: true },
+  });
+
+  await db.eventStatusLog.create({
+    data: {
+      eventId,
+      toStatus: event.status,
+      actorType: 'ADMIN',
+      actorId: adminId,
+      reason: '이벤트 생성',
+    },
+  });
+
+  const next = getScheduledStatus(event);
+  if (next) {
+    await changeEventStatus(eventId, event.status, next, { type: 'SYSTEM' }, scheduleReason(next));
+  }
+}
+
+function scheduleReason(status: EventStatus) {
+  return status === 'OPEN' ? '시작 시각 도달' : '종료 시각 도달';
+}
+
+/**
+ * 상태 변경을 이벤트/활성 이벤트 채널로 발행하고 캐시 무효화 (실패해도 상태 변경은 유지)
+ */
+export async function publishStatusChange(eventId: string, from: EventStatus, to: EventStatus) {
+  try {
+    const event = await db.participationEvent.findUnique({
+      where: { id: eventId },
+      select: { title: true, startsAt: true, endsAt: true },
+    });
+    const changedAt = new Date().toISOString();
+
+    await Promise.all([
+      centrifugo.publish(CHANNELS.event(eventId), {
+        type: 'STATUS_CHANGED',
+        status: to,
+        previousStatus: from,
+        changedAt,
+      }),
+      centrifugo.publish(CHANNELS.eventsActive(), {
+        type: 'EVENT_STATUS_CHANGED',
+        eventId,
+        title: event?.title,
+        status: to,
+        previousStatus: from,
+        startsAt: event?.startsAt.toISOString(),
+        endsAt: event?.endsAt.toISOString(),
+        changedAt,
+      }),
+    ]);
+  } catch (error) {
+    console.error('Failed to publish event status change:', error);
+  }
+
+  try {
+    await invalidateEventCache(eventId);
+  } catch (error) {
+    console.error('Failed to invalidate event cache:', error);
+  }
+}
+
+/**
+ * 시작/종료 시각이 지난 이벤트 상태 전환
+ * 상태와 시각만으로 판단하므로 서버가 멈춰 있던 동안 놓친 전환도 다음 실행 때 반영됨
+ */
+export async function runEventLifecycle(now: Date = new Date()): Promise<number> {
+  const candidates = await db.participationEvent.findMany({
+    where: {
+      OR: [
+        { status: 'UPCOMING', startsAt: { lte: now } },
+        { status: { in: ['UPCOMING', 'OPEN'] }, endsAt: { lte: now } },
+      ],
+    },
+    select: { id: true, status: true, startsAt: true, endsAt: true },
+  });
+
+  let transitioned = 0;
+
+  for (const event of candidates) {
+    const next = getScheduledStatus(event, now);
+    if (!next) continue;
+
+    if (await changeEventStatus(event.id, event.status, next, { type: 'SYSTEM' }, scheduleReason(next))) {
+      transitioned++;
+    }
+  }
+
+  if (transitioned > 0) {
+    console.log(`[EventScheduler] Transitioned ${transitioned} event(s)`);
+  }
+
+  return transitioned;
+}
+
+/**
+ * 이벤트 상태 스케줄러 시작 (서버 시작 시 호출, 중복 호출 무시)
+ */
+export function startEventScheduler() {
+  if (global.__eventScheduler__) return;
+
+  global.__eventScheduler__ = setInterval(async () => {
+    try {
+      await runEventLifecycle();
+    } catch (error) {
+      console.error('[EventScheduler] Event status transition failed:', error);
+    }
+  }, SCHEDULER_INTERVAL);
+
+  console.log('[EventScheduler] Started event lifecycle scheduler');
+}
+
+/**
+ * 이벤트 상태 변경 기록 (최신순, 관리자 이름 포함)
+ */
+export async function getEventStatusLogs(eventId: string, limit: number = 50) {
+  const logs = await db.eventStatusLog.findMany({
+    where: { eventId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+
+  const actorIds = [...new Set(logs.map((log) => log.actorId).filter((id): id is string => !!id))];
+  const actors = await db.user.findMany({
+    where: { id: { in: actorIds } },
+    select: { id: true, username: true, name: true },
+  });
+  const actorNames = new Map(actors.map((actor) => [actor.id, actor.name || actor.username]));
+
+  return logs.map((log) => ({
+    ...log,
+    actorName: log.actorId ? actorNames.get(log.actorId) ?? '알 수 없음' : '스케줄러',
+  }));
+}
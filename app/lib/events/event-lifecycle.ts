@@ -0,0 +1,65 @@
+/**
+ * 참여 이벤트 상태 전환 규칙
+ * 시작/종료 시각에 따라 UPCOMING → OPEN → CLOSED 로 자동 전환 (서버 로직과 분리된 순수 함수)
+ */
+
+import type { EventStatus } from '@prisma/client';
+
+export const EVENT_STATUS_LABELS: Record<EventStatus, string> = {
+  UPCOMING: '예정',
+  OPEN: '진행중',
+  CLOSED: '마감',
+  SETTLED: '정산완료',
+  CANCELLED: '취소',
+};
+
+export interface ScheduledEvent {
+  status: EventStatus;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+/**
+ * now 시점에 자동으로 전환되어야 할 상태 (전환할 필요가 없으면 null)
+ * 서버가 멈춰 있던 사이 종료 시각까지 지난 예정 이벤트는 바로 CLOSED 로 전환
+ * CLOSED/SETTLED/CANCELLED 는 관리자만 변경
+ */
+export function getScheduledStatus(event: ScheduledEvent, now: Date = new Date()): EventStatus | null {
+  if (event.status !== 'UPCOMING' && event.status !== 'OPEN') {
+    return null;
+  }
+  if (now >= event.endsAt) {
+    return 'CLOSED';
+  }
+  if (event.status === 'UPCOMING' && now >= event.startsAt) {
+    return 'OPEN';
+  }
+  return null;
+}
+
+/**
+ * 관리자가 상태를 바꿀 때 스케줄러가 곧바로 되돌리지 않는지 확인 (문제가 있으면 사유 메시지)
+ */
+export function getManualStatusError(event: ScheduledEvent, next: EventStatus, now: Date = new Date()): string | null {
+  if ((next === 'OPEN' || next === 'UPCOMING') && now >= event.endsAt) {
+    return '종료 시각이 지났습니다. 종료 시각을 먼저 연장하세요.';
+  }
+  if (next === 'UPCOMING' && now >= event.startsAt) {
+    return '시작 시각이 지났습니다. 시작 시각을 먼저 변경하세요.';
+  }
+  return null;
+}
+
+/**
+ * 이벤트 취소 가능 여부 (취소할 수 없으면 사유 메시지)
+ * 정산이 끝난 이벤트는 보상이 이미 지급되었으므로 환불 대상이 아님
+ */
+export function getCancelError(status: EventStatus): string | null {
+  if (status === 'SETTLED') {
+    return '정산이 끝난 이벤트는 취소할 수 없습니다.';
+  }
+  if (status === 'CANCELLED') {
+    return '이미 취소된 이벤트입니다.';
+  }
+  return null;
+}
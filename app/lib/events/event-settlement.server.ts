@@ -0,0 +1,393 @@
+/**
+ * 참여 이벤트 정산 서비스
+ * - 선택한 정산 방식으로 지급액을 계산해 미리보기로 보여주고, 확정 시 한 트랜잭션으로 지급
+ * - CLOSED → SETTLED 조건부 전환으로 이중 정산을 막음
+ * - 재정산은 이미 지급한 보상과의 차액만 추가 지급/회수(SETTLE_REVERSAL)하는 보정 거래로 처리
+ * - 정산 후 참여자의 승/패/연승을 전체 이력에서 다시 계산하고 리더보드 갱신, 참여자에게 결과 알림
+ */
+
+import type { Prisma } from '@prisma/client';
+import { db } from '~/lib/db.server';
+import { centrifugo } from '~/lib/centrifugo/client.server';
+import { CHANNELS } from '~/lib/centrifugo/channels';
+import { invalidateEventCache } from '~/lib/performance/qps-optimizer.server';
+import { POINT_CONFIG, applyPointChange } from '~/lib/points/point.server';
+import { refreshAllLeaderboards } from '~/lib/points/leaderboard.server';
+import { runPluginHook } from '~/lib/architecture/plugin-system.server';
+import { publishDomainEvent } from '~/lib/domain-events/domain-events.server';
+import { publishStatusChange, recordStatusChange } from './event-lifecycle.server';
+import {
+  SETTLEMENT_MODE_LABELS,
+  getRewardAdjustment,
+  getSettlementError,
+  planSettlement,
+  summarizeResults,
+  type SettlementMode,
+  type SettlementOptions,
+  type SettlementPlan,
+} from './event-settlement';
+
+const SETTLE_TIMEOUT = 60 * 1000; // 참여자가 많으면 지급 거래가 길어짐
+
+/** 이벤트 보상 지급/회수 거래 유형 (사용자별 합계가 현재까지 지급된 보상) */
+const REWARD_TYPES = ['EARN_WIN', 'EARN_PREDICTION', 'SETTLE_REVERSAL'];
+
+export interface SettlementRequest {
+  mode: SettlementMode;
+  correctAnswer: string;
+  houseFeeRate: number;
+  tolerance: number | null;
+}
+
+type SettleableEvent = NonNullable<Awaited<ReturnType<typeof loadEvent>>>;
+
+async function loadEvent(eventId: string) {
+  return db.participationEvent.findUnique({
+    where: { id: eventId },
+    select: {
+      id: true,
+      type: true,
+      title: true,
+      status: true,
+      rewardPool: true,
+      rewardMultiplier: true,
+      correctAnswer: true,
+      settlementRound: true,
+    },
+  });
+}
+
+function toOptions(event: SettleableEvent, request: SettlementRequest): SettlementOptions {
+  return {
+    ...request,
+    rewardMultiplier: event.rewardMultiplier,
+    predictionMultiplier: POINT_CONFIG.PREDICTION_MULTIPLIER,
+    rewardPool: event.rewardPool,
+  };
+}
+
+/**
+ * 목록에 보여줄 보상 풀 (참여 포인트 합계 + 추가 보상)
+ * rewardPool 에는 관리자가 넣은 추가 보상만 있으므로 이벤트별 참여 포인트 합계를 더해 돌려줌
+ */
+export async function withTotalPool<T extends { id: string; rewardPool: number }>(events: T[]): Promise<T[]> {
+  if (events.length === 0) return events;
+
+  const stakes = await db.participation.groupBy({
+    by: ['eventId'],
+    where: { eventId: { in: events.map((event) => event.id) } },
+    _sum: { points: true },
+  });
+  const stakeByEvent = new Map(stakes.map((row) => [row.eventId, row._sum.points ?? 0]));
+
+  return events.map((event) => ({
+    ...event,
+    rewardPool: event.rewardPool + (stakeByEvent.get(event.id) ?? 0),
+  }));
+}
+
+/**
+ * 정산 가능 여부 확인
+ * resettle 이 false 면 마감(CLOSED) 이벤트만, true 면 정산 완료(SETTLED) 이벤트만 허용 (생략하면 현재 상태로 판단)
+ */
+async function checkSettleable(eventId: string, request: SettlementRequest, resettle?: boolean) {
+  const event = await loadEvent(eventId);
+  if (!event) {
+    return { error: '이벤트를 찾을 수 없습니다.' } as const;
+  }
+  resettle ??= event.status === 'SETTLED';
+  if (!resettle && event.status === 'SETTLED') {
+    return { error: '이미 정산된 이벤트입니다. 정답을 바꾸려면 재정산을 사용하세요.' } as const;
+  }
+  if (event.status !== (resettle ? 'SETTLED' : 'CLOSED')) {
+    return { error: resettle ? '정산된 이벤트만 재정산할 수 있습니다.' : '마감된 이벤트만 정산할 수 있습니다.' } as const;
+  }
+
+  const options = toOptions(event, request);
+  const error = getSettlementError(event.type, options);
+  if (error) {
+    return { error } as const;
+  }
+
+  return { event, options } as const;
+}
+
+/**
+ * 사용자별 이 이벤트에서 지금까지 지급된 보상 합계
+ */
+async function loadPaidRewards(tx: Prisma.TransactionClient, eventId: string) {
+  const transactions = await tx.pointTransaction.findMany({
+    where: { eventId, type: { in: REWARD_TYPES } },
+    select: { amount: true, userPoints: { select: { userId: true } } },
+  });
+
+  const paid = new Map<string, number>();
+  for (const transaction of transactions) {
+    const userId = transaction.userPoints.userId;
+    paid.set(userId, (paid.get(userId) ?? 0) + transaction.amount);
+  }
+  return paid;
+}
+
+/**
+ * 정산된 전체 참여 이력으로 승/패/연승 다시 계산
+ */
+async function syncResultStats(tx: Prisma.TransactionClient, userIds: string[]) {
+  for (const userId of userIds) {
+    const results = await tx.participation.findMany({
+      where: { userId, isWinner: { not: null } },
+      orderBy: [{ event: { resultAt: 'asc' } }, { createdAt: 'asc' }],
+      select: { isWinner: true },
+    });
+
+    await tx.userPoints.update({
+      where: { userId },
+      data: summarizeResults(results.map((r) => r.isWinner === true)),
+    });
+  }
+}
+
+/**
+ * 지급액 계산 후 참여 기록/포인트/전적 반영 (이벤트 상태는 호출하는 쪽에서 먼저 잠금)
+ */
+async function applySettlement(
+  tx: Prisma.TransactionClient,
+  event: SettleableEvent,
+  options: SettlementOptions,
+  round: number
+) {
+  // 상태를 바꾼 뒤 읽으므로 더 이상 참여가 추가되지 않음
+  const entries = await tx.participation.findMany({
+    where: { eventId: event.id },
+    select: { id: true, userId: true, choice: true, points: true },
+  });
+  const plan = planSettlement(entries, options);
+  const paid = await loadPaidRewards(tx, event.id);
+  const rewardType = options.mode === 'CLOSEST' ? 'EARN_PREDICTION' : 'EARN_WIN';
+  const label = options.mode === 'CLOSEST' ? '예측 성공' : '승리';
+
+  for (const payout of plan.payouts) {
+    await tx.participation.update({
+      where: { id: payout.participationId },
+      data: { isWinner: payout.isWinner, reward: payout.reward },
+    });
+
+    // 빈 갱신으로 계정 행을 먼저 잠가 회수 전에 다른 요청이 잔액을 쓰지 못하게 함
+    // (잠근 뒤 읽은 잔액이므로 회수액이 잔액을 넘지 않음)
+    const account = await tx.userPoints.upsert({
+      where: { userId: payout.userId },
+      create: { userId: payout.userId },
+      update: { updatedAt: new Date() },
+      select: { id: true, balance: true },
+    });
+
+    const { credit, reclaim, shortfall } = getRewardAdjustment(paid.get(payout.userId) ?? 0, payout.reward, account.balance);
+    const idempotencyKey = `settle:${event.id}:${round}:${payout.userId}`;
+
+    if (credit > 0) {
+      await applyPointChange(tx, account.id, credit, rewardType, {
+        eventId: event.id,
+        description: round > 1 ? `${event.title} 재정산 추가 보상` : `${event.title} 이벤트 ${label} 보상`,
+        idempotencyKey,
+      });
+    }
+    if (reclaim > 0) {
+      await applyPointChange(tx, account.id, -reclaim, 'SETTLE_REVERSAL', {
+        eventId: event.id,
+        description: `${event.title} 재정산 보상 회수${shortfall > 0 ? ` (잔액 부족 ${shortfall}P 미회수)` : ''}`,
+        idempotencyKey,
+      });
+    }
+  }
+
+  await syncResultStats(tx, [...new Set(entries.map((e) => e.userId))]);
+
+  return plan;
+}
+
+async function publishSettlement(
+  event: SettleableEvent,
+  adminId: string,
+  options: SettlementOptions,
+  round: number,
+  plan: SettlementPlan,
+  resettled: boolean
+) {
+  try {
+    await centrifugo.publish(CHANNELS.event(event.id), {
+      type: 'SETTLED',
+      correctAnswer: options.correctAnswer,
+      settlementMode: options.mode,
+      round,
+      settledAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Failed to publish settlement notification:', error);
+  }
+
+  try {
+    await invalidateEventCache(event.id);
+    await refreshAllLeaderboards();
+  } catch (error) {
+    console.error('Failed to refresh leaderboard after settlement:', error);
+  }
+
+  await publishDomainEvent('event.settled', {
+    event: { id: event.id, title: event.title },
+    round,
+    resettled,
+    payouts: plan.payouts.map(({ userId, isWinner, reward }) => ({ userId, isWinner, reward })),
+  });
+
+  await runPluginHook('event.settled', {
+    eventId: event.id,
+    adminId,
+    round,
+    mode: options.mode,
+    correctAnswer: options.correctAnswer,
+    winners: plan.winners,
+    losers: plan.losers,
+    totalPayout: plan.totalPayout,
+    resettled,
+  });
+}
+
+/**
+ * 정산 미리보기 (DB 변경 없음)
+ * 정산 완료 이벤트는 재정산 미리보기로, 이전 보상과 함께 반환
+ */
+export async function previewSettlement(eventId: string, request: SettlementRequest) {
+  const checked = await checkSettleable(eventId, request);
+  if ('error' in checked) {
+    return { success: false as const, message: checked.error };
+  }
+
+  const participations = await db.participation.findMany({
+    where: { eventId },
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      userId: true,
+      choice: true,
+      points: true,
+      reward: true,
+      user: { select: { username: true, name: true } },
+    },
+  });
+  const byId = new Map(participations.map((p) => [p.id, p]));
+
+  const plan = planSettlement(participations, checked.options);
+
+  return {
+    success: true as const,
+    plan: {
+      ...plan,
+      payouts: plan.payouts.map((payout) => {
+        const participation = byId.get(payout.participationId);
+        return {
+          ...payout,
+          userName: participation ? participation.user.name || participation.user.username : '',
+          previousReward: participation?.reward ?? null,
+        };
+      }),
+    },
+  };
+}
+
+/**
+ * 정산 확정 (마감된 이벤트만, 이미 정산된 이벤트는 거부)
+ */
+export async function settleEvent(eventId: string, adminId: string, request: SettlementRequest) {
+  const checked = await checkSettleable(eventId, request, false);
+  if ('error' in checked) {
+    return { success: false as const, message: checked.error };
+  }
+  const { event, options } = checked;
+  const round = event.settlementRound + 1;
+
+  const plan = await db.$transaction(async (tx) => {
+    // 동시에 정산해도 한 요청만 전환에 성공
+    const changed = await recordStatusChange(
+      tx,
+      eventId,
+      'CLOSED',
+      'SETTLED',
+      { type: 'ADMIN', userId: adminId },
+      `정산 (${SETTLEMENT_MODE_LABELS[options.mode]})`
+    );
+    if (!changed) return null;
+
+    await tx.participationEvent.update({
+      where: { id: eventId },
+      data: {
+        correctAnswer: options.correctAnswer,
+        resultAt: new Date(),
+        settlementMode: options.mode,
+        houseFeeRate: options.mode === 'PARIMUTUEL' ? options.houseFeeRate : 0,
+        predictionTolerance: options.mode === 'CLOSEST' ? options.tolerance : null,
+        settlementRound: round,
+      },
+    });
+
+    return applySettlement(tx, event, options, round);
+  }, { timeout: SETTLE_TIMEOUT });
+
+  if (!plan) {
+    return { success: false as const, message: '이벤트 상태가 이미 변경되었습니다. 새로고침 후 다시 시도하세요.' };
+  }
+
+  await publishStatusChange(eventId, 'CLOSED', 'SETTLED');
+  await publishSettlement(event, adminId, options, round, plan, false);
+
+  return { success: true as const, plan };
+}
+
+/**
+ * 정답(또는 정산 방식)을 바로잡아 다시 정산
+ * 이전 보상과의 차액만 보정 거래로 지급/회수하며, 정산 차수로 동시 재정산을 막음
+ */
+export async function resettleEvent(eventId: string, adminId: string, request: SettlementRequest, reason?: string) {
+  const checked = await checkSettleable(eventId, request, true);
+  if ('error' in checked) {
+    return { success: false as const, message: checked.error };
+  }
+  const { event, options } = checked;
+  const round = event.settlementRound + 1;
+
+  const plan = await db.$transaction(async (tx) => {
+    const locked = await tx.participationEvent.updateMany({
+      where: { id: eventId, status: 'SETTLED', settlementRound: event.settlementRound },
+      data: {
+        correctAnswer: options.correctAnswer,
+        settlementMode: options.mode,
+        houseFeeRate: options.mode === 'PARIMUTUEL' ? options.houseFeeRate : 0,
+        predictionTolerance: options.mode === 'CLOSEST' ? options.tolerance : null,
+        settlementRound: round,
+      },
+    });
+    if (locked.count === 0) return null;
+
+    await tx.eventStatusLog.create({
+      data: {
+        eventId,
+        fromStatus: 'SETTLED',
+        toStatus: 'SETTLED',
+        actorType: 'ADMIN',
+        actorId: adminId,
+        reason: [`재정산 (정답 ${event.correctAnswer ?? '-'} → ${options.correctAnswer})`, reason]
+          .filter(Boolean)
+          .join(' · '),
+      },
+    });
+
+    return applySettlement(tx, event, options, round);
+  }, { timeout: SETTLE_TIMEOUT });
+
+  if (!plan) {
+    return { success: false as const, message: '다른 관리자가 먼저 재정산했습니다. 새로고침 후 다시 시도하세요.' };
+  }
+
+  await publishSettlement(event, adminId, options, round, plan, true);
+
+  return { success: true as const, plan };
+}
@@ -0,0 +1,224 @@
+/**
+ * 참여 이벤트 정산 방식
+ * - FIXED: 정답자에게 베팅 포인트 × 보상 배수 지급
+ * - PARIMUTUEL: 보상 풀에서 수수료를 뗀 나머지를 정답자 베팅 비율대로 분배
+ * - CLOSEST: 예측(숫자) 이벤트에서 허용 오차 이내 또는 가장 가까운 예측에 베팅 포인트 × 예측 배수 지급
+ * (서버 로직과 분리된 순수 함수, 미리보기와 실제 정산이 같은 계산을 사용)
+ */
+
+import type { EventType } from '@prisma/client';
+
+export const SETTLEMENT_MODES = ['FIXED', 'PARIMUTUEL', 'CLOSEST'] as const;
+
+export type SettlementMode = typeof SETTLEMENT_MODES[number];
+
+export const SETTLEMENT_MODE_LABELS: Record<SettlementMode, string> = {
+  FIXED: '고정 배수',
+  PARIMUTUEL: '배당 분배',
+  CLOSEST: '근접 예측',
+};
+
+export interface SettlementEntry {
+  id: string;
+  userId: string;
+  choice: string;
+  points: number;
+}
+
+export interface SettlementOptions {
+  mode: SettlementMode;
+  correctAnswer: string;
+  /** FIXED 보상 배수 */
+  rewardMultiplier: number;
+  /** CLOSEST 보상 배수 (POINT_CONFIG.PREDICTION_MULTIPLIER) */
+  predictionMultiplier: number;
+  /** PARIMUTUEL 추가 보상 풀 (참여 포인트 합계에 더해 분배, 기본 0) */
+  rewardPool: number;
+  /** PARIMUTUEL 수수료율 (0~1) */
+  houseFeeRate: number;
+  /** CLOSEST 허용 오차 (null 이면 가장 가까운 예측만 정답) */
+  tolerance: number | null;
+}
+
+export interface SettlementPayout {
+  participationId: string;
+  userId: string;
+  choice: string;
+  points: number;
+  isWinner: boolean;
+  reward: number;
+}
+
+export interface SettlementPlan {
+  mode: SettlementMode;
+  payouts: SettlementPayout[];
+  winners: number;
+  losers: number;
+  totalPayout: number;
+  /** PARIMUTUEL 수수료 (그 외 방식은 0) */
+  houseFee: number;
+}
+
+export function isSettlementMode(value: unknown): value is SettlementMode {
+  return (SETTLEMENT_MODES as readonly unknown[]).includes(value);
+}
+
+/**
+ * 이벤트 타입에 맞는 기본 정산 방식
+ */
+export function defaultSettlementMode(type: EventType): SettlementMode {
+  return type === 'PREDICTION' ? 'CLOSEST' : 'FIXED';
+}
+
+/**
+ * 숫자 예측 값 파싱 (숫자가 아니면 null)
+ */
+export function parseGuess(value: string): number | null {
+  if (value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * 정산 설정 검사 (문제가 있으면 사유 메시지)
+ */
+export function getSettlementError(type: EventType, options: SettlementOptions): string | null {
+  if (!options.correctAnswer) {
+    return '정답을 입력해주세요.';
+  }
+  if ((options.mode === 'CLOSEST') !== (type === 'PREDICTION')) {
+    return '근접 예측 정산은 예측 이벤트에서만 사용할 수 있습니다.';
+  }
+  if (options.mode === 'CLOSEST' && parseGuess(options.correctAnswer) === null) {
+    return '예측 이벤트의 정답은 숫자여야 합니다.';
+  }
+  if (options.mode === 'PARIMUTUEL' && !(options.houseFeeRate >= 0 && options.houseFeeRate < 1)) {
+    return '수수료율은 0% 이상 100% 미만이어야 합니다.';
+  }
+  if (options.tolerance !== null && !(options.tolerance >= 0)) {
+    return '허용 오차는 0 이상이어야 합니다.';
+  }
+  return null;
+}
+
+function pickWinners(entries: SettlementEntry[], options: SettlementOptions): Set<string> {
+  if (options.mode !== 'CLOSEST') {
+    return new Set(entries.filter((e) => e.choice === options.correctAnswer).map((e) => e.id));
+  }
+
+  const answer = parseGuess(options.correctAnswer);
+  if (answer === null) return new Set();
+
+  const distances = entries
+    .map((entry) => {
+      const guess = parseGuess(entry.choice);
+      return { id: entry.id, distance: guess === null ? Infinity : Math.abs(guess - answer) };
+    })
+    .filter((d) => Number.isFinite(d.distance));
+
+  const limit = options.tolerance ?? Math.min(...distances.map((d) => d.distance));
+  return new Set(distances.filter((d) => d.distance <= limit).map((d) => d.id));
+}
+
+/**
+ * 참여 목록과 정산 설정으로 지급액 계산
+ * 배당 분배는 전체 참여 포인트 + 추가 보상 풀에서 수수료를 뗀 금액을 정답자 베팅 비율대로 나눔
+ * 소수점 이하를 버리며, 버려진 포인트와 정답자가 없을 때의 풀은 지급하지 않음
+ */
+export function planSettlement(entries: SettlementEntry[], options: SettlementOptions): SettlementPlan {
+  const winnerIds = pickWinners(entries, options);
+  const rewards = new Map<string, number>();
+  let houseFee = 0;
+
+  if (options.mode === 'PARIMUTUEL') {
+    const pool = entries.reduce((sum, e) => sum + e.points, 0) + options.rewardPool;
+    houseFee = Math.floor(pool * options.houseFeeRate);
+    const distributable = pool - houseFee;
+    const winners = entries.filter((e) => winnerIds.has(e.id));
+    const winnerStake = winners.reduce((sum, e) => sum + e.points, 0);
+
+    for (const winner of winners) {
+      // 정답자가 모두 무료 참여면 균등 분배
+      const share = winnerStake > 0 ? winner.points / winnerStake : 1 / winners.length;
+      rewards.set(winner.id, Math.floor(distributable * share));
+    }
+  } else {
+    const multiplier = options.mode === 'CLOSEST' ? options.predictionMultiplier : options.rewardMultiplier;
+    for (const entry of entries) {
+      if (winnerIds.has(entry.id)) {
+        rewards.set(entry.id, Math.floor(entry.points * multiplier));
+      }
+    }
+  }
+
+  const payouts = entries.map((entry) => ({
+    participationId: entry.id,
+    userId: entry.userId,
+    choice: entry.choice,
+    points: entry.points,
+    isWinner: winnerIds.has(entry.id),
+    reward: rewards.get(entry.id) ?? 0,
+  }));
+
+  return {
+    mode: options.mode,
+    payouts,
+    winners: winnerIds.size,
+    losers: entries.length - winnerIds.size,
+    totalPayout: payouts.reduce((sum, p) => sum + p.reward, 0),
+    houseFee,
+  };
+}
+
+export interface ResultSummary {
+  wins: number;
+  losses: number;
+  /** 마지막 결과까지 이어진 연승 */
+  streak: number;
+  maxStreak: number;
+}
+
+/**
+ * 정산된 참여 결과(정산 순서대로)로 승/패/연승 집계
+ * 재정산으로 과거 결과가 바뀌어도 전체 이력에서 다시 계산하므로 항상 일관됨
+ */
+export function summarizeResults(results: boolean[]): ResultSummary {
+  let wins = 0;
+  let streak = 0;
+  let maxStreak = 0;
+
+  for (const isWinner of results) {
+    if (isWinner) {
+      wins++;
+      streak++;
+      maxStreak = Math.max(maxStreak, streak);
+    } else {
+      streak = 0;
+    }
+  }
+
+  return { wins, losses: results.length - wins, streak, maxStreak };
+}
+
+export interface RewardAdjustment {
+  /** 추가 지급액 */
+  credit: number;
+  /** 회수액 (잔액 이내) */
+  reclaim: number;
+  /** 잔액 부족으로 회수하지 못한 금액 */
+  shortfall: number;
+}
+
+/**
+ * 재정산 시 이미 지급한 보상(paid)을 새 보상(reward)에 맞추는 보정액
+ * 차액만 지급/회수하므로 같은 정답으로 다시 정산해도 포인트가 바뀌지 않음
+ */
+export function getRewardAdjustment(paid: number, reward: number, balance: number): RewardAdjustment {
+  const diff = reward - paid;
+  if (diff >= 0) {
+    return { credit: diff, reclaim: 0, shortfall: 0 };
+  }
+
+  const reclaim = Math.min(-diff, Math.max(0, balance));
+  return { credit: 0, reclaim, shortfall: -diff - reclaim };
+}
@@ -0,0 +1,53 @@
+/**
+ * 업로드 파일 참조 추출 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { collectStrings, extractUploadReferences, formatFileSize } from '../media-reference';
+
+const HASH = '0123456789abcdef0123456789abcdef';
+
+describe('extractUploadReferences', () => {
+  it('본문의 /uploads/ 경로를 중복 없이 추출', () => {
+    const html = `<p><img src="/uploads/originals/${HASH}_a.png" alt="a"></p>
+      <p><img src="/uploads/originals/${HASH}_a.png?w=300"></p>
+      <a href="https://example.com/uploads/originals/b.pdf">b</a>`;
+
+    expect(extractUploadReferences(html).paths).toEqual([
+      `/uploads/originals/${HASH}_a.png`,
+      '/uploads/originals/b.pdf',
+    ]);
+  });
+
+  it('최적화/변형 이미지 URL 에서는 원본 해시를 추출', () => {
+    const text = `![](/uploads/variants/${HASH}_medium.webp) /uploads/optimized/${HASH}_opt.webp`;
+    const refs = extractUploadReferences(text);
+    expect(refs.hashes).toEqual([HASH]);
+    expect(refs.paths).toHaveLength(2);
+  });
+
+  it('인코딩된 파일 이름은 디코딩', () => {
+    expect(extractUploadReferences('/uploads/originals/%ED%8C%8C%EC%9D%BC.png').paths).toEqual([
+      '/uploads/originals/파일.png',
+    ]);
+  });
+});
+
+describe('collectStrings', () => {
+  it('블록 설정의 중첩된 문자열을 모두 수집', () => {
+    const blocks = [
+      { id: 'b1', settings: { image: '/uploads/a.png', slides: [{ src: '/uploads/b.png', order: 1 }] } },
+      { id: 'b2', enabled: true },
+    ];
+    expect(collectStrings(blocks)).toEqual(['b1', '/uploads/a.png', '/uploads/b.png', 'b2']);
+  });
+});
+
+describe('formatFileSize', () => {
+  it('단위를 붙여 표시', () => {
+    expect(formatFileSize(0)).toBe('0 B');
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(1536)).toBe('1.5 KB');
+    expect(formatFileSize(10 * 1024 * 1024)).toBe('10 MB');
+  });
+});
@@ -5,6 +5,7 @@ import { promises as fs } from "fs";
 import path from "path";
 import crypto from "crypto";
 import { cache } from "../cache/redis-cluster.server";
+import { getStorage } from "../storage/storage.server";
 
 // 이미지 변환 옵션
 export interface ImageTransformOptions {
@@ -39,25 +40,26 @@ export class ImageOptimizer {
     await fs.mkdir(this.cacheDir, { recursive: true });
   }
   
-  // 이미지 업로드 및 최적화
+  // 이미지 업로드 및 최적화 (설정된 스토리지에 저장, 반환값은 스토리지 키)
   static async uploadAndOptimize(
     buffer: Buffer,
     filename: string,
-    options: ImageTransformOptions = {}
+    options: ImageTransformOptions = {},
+    mimeType: string = 'application/octet-stream'
   ): Promise<{
-    originalPath: string;
-    optimizedPath: string;
+    originalKey: string;
+    optimizedKey: string;
     metadata: ImageMetadata;
     variants: Record<string, string>;
   }> {
     const fileExt = path.extname(filename);
     const baseName = path.basename(filename, fileExt);
     const hash = crypto.createHash('md5').update(buffer).digest('hex');
+    const storage = getStorage();
     
     // 원본 파일 저장
-    const originalPath = path.join(this.uploadDir, 'originals', `${hash}_${filename}`);
-    await fs.mkdir(path.dirname(originalPath), { recursive: true });
-    await fs.writeFile(originalPath, buffer);
+    const originalKey = `originals/${hash}_${filename}`;
+    await storage.put(originalKey, buffer, { contentType: mimeType });
     
     // 메타데이터 추출
     const metadata = await this.extractMetadata(buffer);
@@ -69,16 +71,15 @@ export class ImageOptimizer {
       ...options
     });
     
-    const optimizedPath = path.join(this.uploadDir, 'optimized', `${hash}_opt.webp`);
-    await fs.mkdir(path.dirname(optimizedPath), { recursive: true });
-    await fs.writeFile(optimizedPath, optimizedBuffer);
+    const optimizedKey = `optimized/${hash}_opt.webp`;
+    await storage.put(optimizedKey, optimizedBuffer, { contentType: 'image/webp' });
     
     // 다양한 크기 변형 생성
     const variants = await this.generateVariants(buffer, hash, baseName);
     
     return {
-      originalPath,
-      optimizedPath,
+      originalKey,
+      optimizedKey,
       metadata,
       variants
     };
@@ -148,7 +149,7 @@ export class ImageOptimizer {
     return await image.toBuffer();
   }
   
-  // 다양한 크기 변형 생성 (반응형)
+  // 다양한 크기 변형 생성 (반응형, 반환값은 크기별 스토리지 키)
   static async generateVariants(
     buffer: Buffer,
     hash: string,
@@ -175,16 +176,10 @@ export class ImageOptimizer {
           fit: 'cover'
         });
         
-        const variantPath = path.join(
-          this.uploadDir,
-          'variants',
-          `${hash}_${size.name}.webp`
-        );
+        const variantKey = `variants/${hash}_${size.name}.webp`;
+        await getStorage().put(variantKey, variantBuffer, { contentType: 'image/webp' });
         
-        await fs.mkdir(path.dirname(variantPath), { recursive: true });
-        await fs.writeFile(variantPath, variantBuffer);
-        
-        variants[size.name] = variantPath;
+        variants[size.name] = variantKey;
       } catch (error) {
         console.error(`Failed to generate ${size.name} variant:`, error);
       }
@@ -242,24 +237,17 @@ export class ImageOptimizer {
   
   // 이미지 삭제 (모든 변형 포함)
   static async deleteImage(hash: string): Promise<void> {
-    const patterns = [
-      path.join(this.uploadDir, 'originals', `${hash}_*`),
-      path.join(this.uploadDir, 'optimized', `${hash}_*`),
-      path.join(this.uploadDir, 'variants', `${hash}_*`)
-    ];
+    const storage = getStorage();
+    const prefixes = ['originals', 'optimized', 'variants'].map((dir) => `${dir}/${hash}_`);
     
-    for (const pattern of patterns) {
+    for (const prefix of prefixes) {
       try {
-        const files = await fs.readdir(path.dirname(pattern));
-        const matchingFiles = files.filter(file => 
-          file.startsWith(path.basename(pattern).replace('*', ''))
-        );
-        
-        for (const file of matchingFiles) {
-          await fs.unlink(path.join(path.dirname(pattern), file));
+        const objects = await storage.list(prefix);
+        for (const object of objects) {
+          await storage.delete(object.key);
         }
       } catch (error) {
-        console.error(`Failed to delete files matching ${pattern}:`, error);
+        console.error(`Failed to delete files matching ${prefix}*:`, error);
       }
     }
     
@@ -275,16 +263,14 @@ export class ImageOptimizer {
     avgFileSize: number;
   }> {
     try {
-      const files = await fs.readdir(path.join(this.uploadDir, 'optimized'));
+      const files = await getStorage().list('optimized/');
       let totalSize = 0;
       const formatCounts: Record<string, number> = {};
       
       for (const file of files) {
-        const filePath = path.join(this.uploadDir, 'optimized', file);
-        const stats = await fs.stat(filePath);
-        totalSize += stats.size;
+        totalSize += file.size;
         
-        const ext = path.extname(file).slice(1);
+        const ext = path.extname(file.key).slice(1);
         formatCounts[ext] = (formatCounts[ext] || 0) + 1;
       }
       
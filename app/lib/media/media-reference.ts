@@ -0,0 +1,86 @@
+/**
+ * 업로드 파일 참조 추출
+ * 게시글 본문과 페이지 빌더 블록 설정에서 /uploads/ 경로를 찾아 사용 중인 파일을 판별 (서버 로직과 분리된 순수 함수)
+ */
+
+export const FILE_REFERENCE_SOURCES = ['POST', 'PAGE'] as const;
+
+export type FileReferenceSource = typeof FILE_REFERENCE_SOURCES[number];
+
+export interface UploadReferences {
+  /** 본문에 등장한 /uploads/ URL (쿼리 문자열 제외) */
+  paths: string[];
+  /** 최적화/변형 이미지 URL 에서 추출한 원본 해시 */
+  hashes: string[];
+}
+
+const UPLOAD_URL = /\/uploads\/[^\s"'()<>\]\\?#]+/g;
+const VARIANT_URL = /^\/uploads\/(?:optimized|variants)\/([0-9a-f]{32})_/;
+
+/**
+ * 텍스트에서 업로드 파일 참조 추출 (중복 제거)
+ */
+export function extractUploadReferences(text: string): UploadReferences {
+  const paths = new Set<string>();
+  const hashes = new Set<string>();
+
+  for (const match of text.matchAll(UPLOAD_URL)) {
+    const url = safeDecode(match[0]);
+    paths.add(url);
+
+    const variant = VARIANT_URL.exec(url);
+    if (variant) {
+      hashes.add(variant[1]);
+    }
+  }
+
+  return { paths: [...paths], hashes: [...hashes] };
+}
+
+/**
+ * JSON 값(블록 설정 등) 안의 모든 문자열 수집
+ */
+export function collectStrings(value: unknown, out: string[] = []): string[] {
+  if (typeof value === 'string') {
+    out.push(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectStrings(item, out);
+  } else if (value && typeof value === 'object') {
+    for (const item of Object.values(value)) collectStrings(item, out);
+  }
+  return out;
+}
+
+function safeDecode(url: string) {
+  try {
+    return decodeURI(url);
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * 미디어 라이브러리 유형 필터
+ */
+export const MEDIA_TYPE_FILTERS = {
+  image: { label: '이미지', prefix: 'image/' },
+  video: { label: '동영상', prefix: 'video/' },
+  audio: { label: '오디오', prefix: 'audio/' },
+  application: { label: '문서', prefix: 'application/' },
+} as const;
+
+export type MediaTypeFilter = keyof typeof MEDIA_TYPE_FILTERS;
+
+export function isMediaTypeFilter(value: unknown): value is MediaTypeFilter {
+  return typeof value === 'string' && value in MEDIA_TYPE_FILTERS;
+}
+
+/**
+ * 파일 크기 표시 (1.5 MB 형식)
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes <= 0) return '0 B';
+  const units = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  return `${Math.round((bytes / Math.pow(1024, i)) * 10) / 10} ${units[i]}`;
+}
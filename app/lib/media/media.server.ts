@@ -0,0 +1,318 @@
+/**
+ * 미디어 라이브러리 서비스
+ * - 업로드 파일을 설정된 스토리지(로컬/S3)에 저장하고 File 레코드로 관리
+ * - 비공개 파일은 private/ 아래에 두고 만료 시간이 있는 서명 URL 로만 제공
+ * - 게시글 본문/페이지 빌더 블록의 /uploads/ 참조를 FileReference 로 동기화
+ * - 에디터에서 첨부했지만 어디에서도 참조하지 않는 파일을 주기적으로 정리 (최적화/변형 파일 포함)
+ *   라이브러리에 직접 올린 파일은 로고/이벤트 이미지 등 참조를 추적하지 않는 곳에도 쓰이므로 정리하지 않음
+ */
+
+import path from 'path';
+import crypto from 'crypto';
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { db } from '~/lib/db.server';
+import { getStorage } from '~/lib/storage/storage.server';
+import { PRIVATE_PREFIX, keyFromUploadUrl, toUploadUrl } from '~/lib/storage/storage-key';
+import { ImageOptimizer } from './image-optimization.server';
+import {
+  MEDIA_TYPE_FILTERS,
+  collectStrings,
+  extractUploadReferences,
+  type FileReferenceSource,
+  type MediaTypeFilter,
+} from './media-reference';
+
+const CLEANUP_INTERVAL = 60 * 60 * 1000; // 1시간
+const ORPHAN_GRACE_PERIOD = 24 * 60 * 60 * 1000; // 업로드 후 본문 저장 전까지의 유예
+const CLEANUP_BATCH_SIZE = 200;
+const PAGE_SIZE = 48;
+const SIGNED_URL_TTL = 60 * 60; // 1시간 (초)
+
+declare global {
+  var __mediaCleanupScheduler__: NodeJS.Timeout | undefined;
+}
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+function sanitizeFilename(name: string) {
+  const ext = path.extname(name).toLowerCase().replace(/[^a-z0-9.]/g, '');
+  const base = path
+    .basename(name, path.extname(name))
+    .replace(/[^\w-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${base || 'file'}${ext}`;
+}
+
+/**
+ * 업로드 파일 저장 후 File 레코드 생성
+ * 같은 내용·이름의 파일을 다시 올리면 기존 레코드를 돌려줌
+ * editorUpload 는 에디터 첨부 업로드 (본문에 붙지 않으면 정리 대상)
+ * 공개 이미지는 최적화/변형 이미지를 함께 만들고, 비공개 파일은 원본만 저장
+ */
+export async function storeUpload(
+  file: { name: string; type: string; size: number; arrayBuffer(): Promise<ArrayBuffer> },
+  uploadedById: string,
+  options: { isPrivate?: boolean; editorUpload?: boolean } = {}
+) {
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const filename = sanitizeFilename(file.name);
+  const hash = crypto.createHash('md5').update(buffer).digest('hex');
+  const key = `${options.isPrivate ? PRIVATE_PREFIX : ''}originals/${hash}_${filename}`;
+
+  const existing = await db.file.findUnique({ where: { path: toUploadUrl(key) } });
+  if (existing) {
+    // 라이브러리에 다시 올린 파일은 더 이상 정리 대상이 아님
+    if (existing.editorUpload && !options.editorUpload) {
+      return db.file.update({ where: { id: existing.id }, data: { editorUpload: false } });
+    }
+    return existing;
+  }
+
+  const base = {
+    filename: `${hash}_${filename}`,
+    originalName: file.name,
+    mimeType: file.type,
+    size: file.size,
+    hash,
+    isPrivate: options.isPrivate ?? false,
+    editorUpload: options.editorUpload ?? false,
+    uploadedById,
+  };
+
+  if (file.type.startsWith('image/') && !options.isPrivate) {
+    const result = await ImageOptimizer.uploadAndOptimize(buffer, filename, {}, file.type);
+    return db.file.create({
+      data: {
+        ...base,
+        width: result.metadata.width || null,
+        height: result.metadata.height || null,
+        path: toUploadUrl(result.originalKey),
+        thumbnailPath: result.variants.thumbnail ? toUploadUrl(result.variants.thumbnail) : null,
+        optimizedPath: toUploadUrl(result.optimizedKey),
+      },
+    });
+  }
+
+  await getStorage().put(key, buffer, { contentType: file.type });
+
+  return db.file.create({
+    data: { ...base, path: toUploadUrl(key) },
+  });
+}
+
+/**
+ * 파일 열람 URL (비공개 파일은 만료 시간이 있는 서명 URL)
+ */
+export function getFileUrl(file: { path: string; isPrivate: boolean }, expiresIn: number = SIGNED_URL_TTL) {
+  const key = keyFromUploadUrl(file.path);
+  if (!key || !file.isPrivate) return file.path;
+  return getStorage().getSignedUrl(key, expiresIn);
+}
+
+/**
+ * 본문/블록 텍스트가 참조하는 파일로 사용처 목록 교체
+ * 원본 경로, 썸네일/최적화 경로, 변형 이미지 해시 중 하나라도 일치하면 참조로 봄
+ */
+export async function syncFileReferences(
+  client: DbClient,
+  sourceType: FileReferenceSource,
+  sourceId: string,
+  texts: string[]
+) {
+  const { paths, hashes } = extractUploadReferences(texts.join('\n'));
+
+  const files = paths.length > 0
+    ? await client.file.findMany({
+        where: {
+          OR: [
+            { path: { in: paths } },
+            { thumbnailPath: { in: paths } },
+            { optimizedPath: { in: paths } },
+            ...(hashes.length > 0 ? [{ hash: { in: hashes } }] : []),
+          ],
+        },
+        select: { id: true },
+      })
+    : [];
+  const fileIds = files.map((f) => f.id);
+
+  await client.fileReference.deleteMany({
+    where: { sourceType, sourceId, fileId: { notIn: fileIds } },
+  });
+  if (fileIds.length > 0) {
+    await client.fileReference.createMany({
+      data: fileIds.map((fileId) => ({ fileId, sourceType, sourceId })),
+      skipDuplicates: true,
+    });
+  }
+}
+
+/**
+ * 게시글 본문 참조 동기화
+ */
+export function syncPostFileReferences(client: DbClient, post: { id: string; content: string }) {
+  return syncFileReferences(client, 'POST', post.id, [post.content]);
+}
+
+/**
+ * 페이지 빌더 블록 설정 참조 동기화
+ */
+export function syncPageFileReferences(client: DbClient, pageId: string, blocks: unknown) {
+  return syncFileReferences(client, 'PAGE', pageId, collectStrings(blocks));
+}
+
+export interface MediaListFilters {
+  search?: string;
+  uploaderId?: string;
+  type?: MediaTypeFilter;
+  page?: number;
+}
+
+/**
+ * 미디어 라이브러리 목록 (최신순)
+ */
+export async function listFiles({ search, uploaderId, type, page = 1 }: MediaListFilters) {
+  const where: Prisma.FileWhereInput = {
+    ...(search ? { originalName: { contains: search, mode: 'insensitive' } } : {}),
+    ...(uploaderId ? { uploadedById: uploaderId } : {}),
+    ...(type ? { mimeType: { startsWith: MEDIA_TYPE_FILTERS[type].prefix } } : {}),
+  };
+
+  const [files, total] = await Promise.all([
+    db.file.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * PAGE_SIZE,
+      take: PAGE_SIZE,
+      include: {
+        uploadedBy: { select: { id: true, username: true, name: true } },
+        _count: { select: { references: true } },
+      },
+    }),
+    db.file.count({ where }),
+  ]);
+
+  return { files, total, page, totalPages: Math.max(1, Math.ceil(total / PAGE_SIZE)) };
+}
+
+/**
+ * 파일을 올린 적 있는 사용자 (업로더 필터용)
+ */
+export async function listUploaders() {
+  return db.user.findMany({
+    where: { uploadedFiles: { some: {} } },
+    orderBy: { username: 'asc' },
+    select: { id: true, username: true, name: true },
+  });
+}
+
+/**
+ * 파일 레코드와 스토리지 파일 삭제
+ * 이미지 변형은 같은 내용(해시)을 쓰는 다른 레코드가 없을 때만 지움
+ */
+export async function deleteFiles(ids: string[]) {
+  const files = await db.file.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, path: true, hash: true, mimeType: true },
+  });
+  if (files.length === 0) return 0;
+
+  await db.file.deleteMany({ where: { id: { in: files.map((f) => f.id) } } });
+
+  const storage = getStorage();
+  for (const file of files) {
+    try {
+      const key = keyFromUploadUrl(file.path);
+      if (key) {
+        await storage.delete(key);
+      }
+
+      if (file.hash && file.mimeType.startsWith('image/')) {
+        const shared = await db.file.count({ where: { hash: file.hash } });
+        if (shared === 0) {
+          await ImageOptimizer.deleteImage(file.hash);
+        }
+      }
+    } catch (error) {
+      console.error(`[Media] Failed to remove files for ${file.path}:`, error);
+    }
+  }
+
+  return files.length;
+}
+
+/**
+ * 사라진 게시글/페이지를 가리키는 참조 정리
+ */
+async function pruneStaleReferences() {
+  const references = await db.fileReference.findMany({
+    select: { id: true, sourceType: true, sourceId: true },
+  });
+
+  const sourceIds = (type: FileReferenceSource) =>
+    [...new Set(references.filter((r) => r.sourceType === type).map((r) => r.sourceId))];
+
+  const [posts, pages] = await Promise.all([
+    db.post.findMany({ where: { id: { in: sourceIds('POST') } }, select: { id: true } }),
+    db.pageConfig.findMany({ where: { id: { in: sourceIds('PAGE') } }, select: { id: true } }),
+  ]);
+  const alive = new Set([...posts.map((p) => `POST:${p.id}`), ...pages.map((p) => `PAGE:${p.id}`)]);
+
+  const stale = references.filter((r) => !alive.has(`${r.sourceType}:${r.sourceId}`)).map((r) => r.id);
+  if (stale.length > 0) {
+    await db.fileReference.deleteMany({ where: { id: { in: stale } } });
+  }
+  return stale.length;
+}
+
+/**
+ * 고아 파일 정리
+ * 유예 기간이 지났는데 어떤 게시글/페이지에서도 참조하지 않는 에디터 첨부 파일 삭제
+ */
+export async function runMediaCleanup(now: Date = new Date()) {
+  const prunedReferences = await pruneStaleReferences();
+
+  let deletedFiles = 0;
+  for (;;) {
+    const orphans = await db.file.findMany({
+      where: {
+        createdAt: { lt: new Date(now.getTime() - ORPHAN_GRACE_PERIOD) },
+        // 비공개 파일은 본문이 아닌 서명 URL 로만 쓰이므로 정리 대상이 아님
+        isPrivate: false,
+        // 라이브러리 업로드는 참조를 추적하지 않는 곳(로고, 이벤트 이미지, 외부 링크)에도 쓰임
+        editorUpload: true,
+        references: { none: {} },
+      },
+      select: { id: true },
+      take: CLEANUP_BATCH_SIZE,
+    });
+    if (orphans.length === 0) break;
+
+    deletedFiles += await deleteFiles(orphans.map((f) => f.id));
+    if (orphans.length < CLEANUP_BATCH_SIZE) break;
+  }
+
+  if (prunedReferences > 0 || deletedFiles > 0) {
+    console.log(`[MediaCleanup] Removed ${deletedFiles} orphaned file(s), ${prunedReferences} stale reference(s)`);
+  }
+
+  return { prunedReferences, deletedFiles };
+}
+
+/**
+ * 고아 파일 정리 스케줄러 시작 (서버 시작 시 호출, 중복 호출 무시)
+ */
+export function startMediaCleanupScheduler() {
+  if (global.__mediaCleanupScheduler__) return;
+
+  global.__mediaCleanupScheduler__ = setInterval(async () => {
+    try {
+      await runMediaCleanup();
+    } catch (error) {
+      console.error('[MediaCleanup] Cleanup failed:', error);
+    }
+  }, CLEANUP_INTERVAL);
+
+  console.log('[MediaCleanup] Started orphaned media cleanup');
+}
@@ -0,0 +1,103 @@
+/**
+ * 알림 모아보기 발송 시각 / 묶음 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getNextDigestAt, groupNotifications, isDigestPriority } from '../notification-digest';
+import {
+  DigestFrequency,
+  NotificationPreferencesSchema,
+  NotificationPriority,
+  NotificationType,
+} from '../notification.types';
+
+function like(id: string, actor: string, postId: string, createdAt: string, status = 'SENT') {
+  return {
+    id,
+    type: NotificationType.CONTENT_LIKE,
+    status,
+    createdAt,
+    data: {
+      title: `${actor}님이 회원님의 글을 좋아합니다`,
+      actionUrl: `/free/${postId}`,
+      metadata: { postId, postTitle: `글 ${postId}`, actorId: actor, actorName: actor },
+    },
+  };
+}
+
+describe('getNextDigestAt', () => {
+  // 2026-10-19 (월) 14:20 KST
+  const from = new Date('2026-10-19T05:20:00Z');
+
+  it('매시 정각', () => {
+    expect(getNextDigestAt(DigestFrequency.HOURLY, from)).toEqual(new Date('2026-10-19T06:00:00Z'));
+  });
+
+  it('매일 오전 9시 (한국 시간)', () => {
+    expect(getNextDigestAt(DigestFrequency.DAILY, from)).toEqual(new Date('2026-10-20T00:00:00Z'));
+    // 오전 8시에 생긴 알림은 같은 날 9시
+    expect(getNextDigestAt(DigestFrequency.DAILY, new Date('2026-10-18T23:00:00Z'))).toEqual(
+      new Date('2026-10-19T00:00:00Z')
+    );
+  });
+
+  it('매주 월요일 오전 9시', () => {
+    expect(getNextDigestAt(DigestFrequency.WEEKLY, from)).toEqual(new Date('2026-10-26T00:00:00Z'));
+    expect(getNextDigestAt(DigestFrequency.WEEKLY, new Date('2026-10-18T23:00:00Z'))).toEqual(
+      new Date('2026-10-19T00:00:00Z')
+    );
+  });
+
+  it('바로 받기는 모아보기 없음, 중요 알림은 대상 아님', () => {
+    expect(getNextDigestAt(DigestFrequency.IMMEDIATE, from)).toBeNull();
+    expect(isDigestPriority(NotificationPriority.NORMAL)).toBe(true);
+    expect(isDigestPriority(NotificationPriority.HIGH)).toBe(false);
+  });
+});
+
+describe('groupNotifications', () => {
+  it('같은 글의 좋아요를 하나로 묶어 요약', () => {
+    const groups = groupNotifications([
+      like('1', '민수', 'p1', '2026-10-19T01:00:00Z', 'READ'),
+      like('2', '지은', 'p1', '2026-10-19T03:00:00Z'),
+      like('3', '현우', 'p1', '2026-10-19T02:00:00Z'),
+      like('4', '지은', 'p2', '2026-10-19T00:00:00Z'),
+    ]);
+
+    expect(groups).toHaveLength(2);
+    expect(groups[0].title).toBe('지은님 외 2명이 "글 p1" 글을 좋아합니다');
+    expect(groups[0].notifications.map((n) => n.id)).toEqual(['2', '3', '1']);
+    expect(groups[0].unreadCount).toBe(2);
+    expect(groups[0].actionUrl).toBe('/free/p1');
+    // 하나뿐인 묶음은 원래 제목
+    expect(groups[1].title).toBe('지은님이 회원님의 글을 좋아합니다');
+  });
+
+  it('관련 글이 없는 알림은 묶지 않음', () => {
+    const groups = groupNotifications([
+      { id: 'a', type: NotificationType.SYSTEM, status: 'SENT', createdAt: '2026-10-19T00:00:00Z', data: { title: '점검' } },
+      { id: 'b', type: NotificationType.SYSTEM, status: 'SENT', createdAt: '2026-10-19T01:00:00Z', data: { title: '점검' } },
+    ]);
+
+    expect(groups).toHaveLength(2);
+  });
+
+  it('댓글은 개수로 요약', () => {
+    const comment = (id: string) => ({
+      id,
+      type: NotificationType.CONTENT_COMMENT,
+      status: 'SENT',
+      createdAt: `2026-10-19T0${id}:00:00Z`,
+      data: { title: '새 댓글', metadata: { postId: 'p1', postTitle: '공지' } },
+    });
+
+    expect(groupNotifications([comment('1'), comment('2'), comment('3')])[0].title).toBe('"공지" 글에 새 댓글 3개');
+  });
+});
+
+describe('NotificationPreferencesSchema', () => {
+  it('모아보기 주기는 정해진 값만 허용', () => {
+    expect(NotificationPreferencesSchema.safeParse({ digestFrequency: DigestFrequency.DAILY }).success).toBe(true);
+    expect(NotificationPreferencesSchema.safeParse({ digestFrequency: 'MONTHLY' }).success).toBe(false);
+  });
+});
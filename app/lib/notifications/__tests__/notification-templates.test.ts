@@ -0,0 +1,85 @@
+/**
+ * 알림 전송 템플릿 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  NOTIFICATION_TEMPLATES,
+  fillTemplate,
+  formatSMSContent,
+  getNotificationTemplate,
+  renderNotification,
+  toAbsoluteUrl,
+} from '../notification.templates';
+import { NotificationChannel, NotificationType } from '../notification.types';
+
+describe('NOTIFICATION_TEMPLATES', () => {
+  it('모든 알림 타입에 이메일 템플릿이 있다', () => {
+    for (const type of Object.values(NotificationType)) {
+      expect(NOTIFICATION_TEMPLATES[type].type).toBe(type);
+      expect(getNotificationTemplate(type, NotificationChannel.EMAIL)).not.toBeNull();
+    }
+  });
+
+  it('SMS/알림톡은 보안·결제 알림에만 쓴다', () => {
+    expect(getNotificationTemplate(NotificationType.SECURITY_LOGIN, NotificationChannel.SMS)).not.toBeNull();
+    expect(getNotificationTemplate(NotificationType.PAYMENT_FAILED, NotificationChannel.KAKAO)).not.toBeNull();
+    expect(getNotificationTemplate(NotificationType.CONTENT_LIKE, NotificationChannel.SMS)).toBeNull();
+  });
+
+  it('템플릿에 쓰인 변수를 variables 에 기록한다', () => {
+    expect(NOTIFICATION_TEMPLATES[NotificationType.PAYMENT_SUCCESS].variables).toEqual(['title', 'message']);
+  });
+});
+
+describe('fillTemplate', () => {
+  it('변수를 치환하고 없는 변수는 비운다', () => {
+    expect(fillTemplate('{{ name }}님 {{missing}}주문 {{orderNumber}}', { name: '홍길동', orderNumber: 'A-1' }))
+      .toBe('홍길동님 주문 A-1');
+  });
+});
+
+describe('toAbsoluteUrl', () => {
+  it('사이트 내부 경로에만 주소를 붙인다', () => {
+    expect(toAbsoluteUrl('/posts/1', 'https://example.com/')).toBe('https://example.com/posts/1');
+    expect(toAbsoluteUrl('https://other.com/a', 'https://example.com')).toBe('https://other.com/a');
+    expect(toAbsoluteUrl('//evil.com', 'https://example.com')).toBe('//evil.com');
+  });
+});
+
+describe('renderNotification', () => {
+  const notification = {
+    type: NotificationType.SECURITY_LOGIN,
+    data: {
+      title: '로그인',
+      message: '새 기기에서 로그인했습니다.',
+      actionUrl: '/settings/security',
+      metadata: { ip: '1.2.3.4', nested: { a: 1 } },
+    },
+  };
+
+  it('템플릿과 알림 데이터로 제목/내용을 만든다', () => {
+    const rendered = renderNotification(notification, NotificationChannel.SMS, 'https://example.com');
+
+    expect(rendered).toMatchObject({
+      templateId: 'CMS_SECURITY_LOGIN',
+      title: '[보안] 새 로그인 알림',
+      message: '새 기기에서 로그인했습니다.',
+      actionUrl: 'https://example.com/settings/security',
+      actionLabel: '자세히 보기',
+    });
+    expect(rendered?.variables.ip).toBe('1.2.3.4');
+    expect(rendered?.variables).not.toHaveProperty('nested');
+  });
+
+  it('채널 템플릿이 없으면 null', () => {
+    expect(renderNotification({ ...notification, type: NotificationType.USER_FOLLOW }, NotificationChannel.KAKAO)).toBeNull();
+  });
+
+  it('SMS 본문은 제목, 내용, 링크 순으로 만든다', () => {
+    const rendered = renderNotification(notification, NotificationChannel.SMS, 'https://example.com')!;
+    expect(formatSMSContent(rendered)).toBe(
+      '[CodeB CMS] [보안] 새 로그인 알림\n새 기기에서 로그인했습니다.\nhttps://example.com/settings/security'
+    );
+  });
+});
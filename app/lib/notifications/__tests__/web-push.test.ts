@@ -0,0 +1,124 @@
+/**
+ * Web Push 서명/암호화 테스트 (RFC 8291 부록 A 예제 값 사용)
+ */
+
+import crypto from 'crypto';
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_PUSH_PAYLOAD_SIZE,
+  createVapidAuthorization,
+  encryptPushPayload,
+  generateVapidKeys,
+  isAllowedPushEndpoint,
+} from '../web-push';
+
+const plaintext = 'When I grow up, I want to be a watermelon';
+const keys = {
+  p256dh: 'BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4',
+  auth: 'BTBZMqHH6r4Tts7J_aSIgg',
+};
+const receiverPrivateKey = 'q1dXpw3UpT5VOmu_cf_v6ih07Aems3njxI-JWgLcM94';
+const senderPrivateKey = 'yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw';
+const salt = 'DGv6ra1nlYgDCS1FRnbzlw';
+const expected =
+  'DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A_yl95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNWQexSgSxsj_Qulcy4a-fN';
+
+// 브라우저 쪽 복호화 (검증용)
+function decrypt(body: Buffer) {
+  const bodySalt = body.subarray(0, 16);
+  const idLength = body[20];
+  const senderPublicKey = body.subarray(21, 21 + idLength);
+  const ciphertext = body.subarray(21 + idLength);
+
+  const receiver = crypto.createECDH('prime256v1');
+  receiver.setPrivateKey(Buffer.from(receiverPrivateKey, 'base64url'));
+  const shared = receiver.computeSecret(senderPublicKey);
+  const info = Buffer.concat([Buffer.from('WebPush: info\0'), receiver.getPublicKey(), senderPublicKey]);
+  const ikm = Buffer.from(crypto.hkdfSync('sha256', shared, Buffer.from(keys.auth, 'base64url'), info, 32));
+  const key = Buffer.from(crypto.hkdfSync('sha256', ikm, bodySalt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(crypto.hkdfSync('sha256', ikm, bodySalt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', key, nonce);
+  decipher.setAuthTag(ciphertext.subarray(-16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, -16)), decipher.final()]);
+  return padded.subarray(0, padded.lastIndexOf(2)).toString();
+}
+
+describe('encryptPushPayload', () => {
+  it('RFC 8291 예제와 같은 본문 생성', () => {
+    const body = encryptPushPayload(plaintext, keys, {
+      salt: Buffer.from(salt, 'base64url'),
+      senderPrivateKey: Buffer.from(senderPrivateKey, 'base64url'),
+    });
+
+    expect(body.toString('base64url')).toBe(expected);
+  });
+
+  it('임의 키로 암호화해도 구독자 키로 복호화된다', () => {
+    const body = encryptPushPayload(JSON.stringify({ title: '새 댓글' }), keys);
+
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(JSON.parse(decrypt(body))).toEqual({ title: '새 댓글' });
+  });
+
+  it('최대 크기를 넘는 메시지는 거부', () => {
+    expect(() => encryptPushPayload('a'.repeat(MAX_PUSH_PAYLOAD_SIZE + 1), keys)).toThrow();
+  });
+});
+
+describe('createVapidAuthorization', () => {
+  it('푸시 서비스 origin 을 aud 로 하는 ES256 토큰 생성', () => {
+    const vapidKeys = generateVapidKeys();
+    const now = new Date('2026-01-01T00:00:00Z');
+    const header = createVapidAuthorization(
+      'https://fcm.googleapis.com/fcm/send/abc',
+      'mailto:admin@example.com',
+      vapidKeys,
+      now
+    );
+
+    const [, token, publicKey] = header.match(/^vapid t=([^,]+), k=(.+)$/)!;
+    expect(publicKey).toBe(vapidKeys.publicKey);
+
+    const [encodedHeader, encodedClaims, signature] = token.split('.');
+    expect(JSON.parse(Buffer.from(encodedClaims, 'base64url').toString())).toEqual({
+      aud: 'https://fcm.googleapis.com',
+      exp: now.getTime() / 1000 + 12 * 60 * 60,
+      sub: 'mailto:admin@example.com',
+    });
+
+    const raw = Buffer.from(vapidKeys.publicKey, 'base64url');
+    const verifyKey = crypto.createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: raw.subarray(1, 33).toString('base64url'),
+        y: raw.subarray(33).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    expect(
+      crypto.verify(
+        'sha256',
+        Buffer.from(`${encodedHeader}.${encodedClaims}`),
+        { key: verifyKey, dsaEncoding: 'ieee-p1363' },
+        Buffer.from(signature, 'base64url')
+      )
+    ).toBe(true);
+  });
+});
+
+describe('isAllowedPushEndpoint', () => {
+  it('알려진 푸시 서비스의 https 주소만 허용', () => {
+    expect(isAllowedPushEndpoint('https://fcm.googleapis.com/fcm/send/abc')).toBe(true);
+    expect(isAllowedPushEndpoint('https://updates.push.services.mozilla.com/wpush/v2/abc')).toBe(true);
+    expect(isAllowedPushEndpoint('https://web.push.apple.com/abc')).toBe(true);
+    expect(isAllowedPushEndpoint('https://db5p.notify.windows.com/w/?token=abc')).toBe(true);
+
+    expect(isAllowedPushEndpoint('http://fcm.googleapis.com/fcm/send/abc')).toBe(false);
+    expect(isAllowedPushEndpoint('https://fcm.googleapis.com:8443/abc')).toBe(false);
+    expect(isAllowedPushEndpoint('https://fcm.googleapis.com.evil.com/abc')).toBe(false);
+    expect(isAllowedPushEndpoint('https://evilpush.apple.com.example/abc')).toBe(false);
+    expect(isAllowedPushEndpoint('https://10.0.0.1/abc')).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * 알림 모아보기 이메일 발송
+ * - digestAt 이 지난 알림을 사용자별로 모아 한 통의 이메일로 보냄
+ * - 그 사이 읽은 알림은 빼고, 이메일 수신을 끈 사용자는 보내지 않고 처리 완료로 표시
+ * - 발송에 실패하면 다음 실행에서 다시 시도하되, 정해진 횟수를 넘긴 알림은 포기하고 처리 완료로 둠
+ */
+
+import { db } from '~/lib/db.server';
+import { emailTemplates, getSiteUrl, sendEmail } from '~/lib/email.server';
+import { getNotificationManager } from './notification.manager';
+import { groupNotifications } from './notification-digest';
+import { toAbsoluteUrl } from './notification.templates';
+import {
+  NotificationChannel,
+  NotificationStatus,
+  type NotificationData,
+  type NotificationType,
+} from './notification.types';
+
+const SCHEDULER_INTERVAL = 5 * 60 * 1000; // 5분
+const MAX_USERS_PER_RUN = 200;
+const MAX_GROUPS_PER_EMAIL = 20;
+const MAX_DIGEST_ATTEMPTS = 5;
+
+declare global {
+  var __notificationDigestScheduler__: NodeJS.Timeout | undefined;
+}
+
+/**
+ * 사용자 한 명의 모아보기 발송 (보냈으면 true)
+ */
+async function sendUserDigest(userId: string, now: Date) {
+  // 다른 인스턴스와 겹치지 않도록 먼저 발송 처리로 표시
+  const claimedAt = new Date();
+  const { count } = await db.notification.updateMany({
+    where: { userId, digestSentAt: null, digestAt: { lte: now } },
+    data: { digestSentAt: claimedAt },
+  });
+  if (count === 0) return false;
+
+  const claimed = await db.notification.findMany({
+    where: { userId, digestSentAt: claimedAt },
+    select: { id: true, type: true, status: true, data: true, createdAt: true },
+  });
+  const unread = claimed
+    .filter((record) => record.status !== NotificationStatus.READ)
+    .map((record) => ({
+      ...record,
+      type: record.type as NotificationType,
+      data: JSON.parse(record.data) as NotificationData,
+    }));
+  if (unread.length === 0) return false;
+
+  const preferences = await getNotificationManager().getUserPreferences(userId);
+  if (preferences.channels[NotificationChannel.EMAIL] === false) return false;
+
+  const user = await db.user.findFirst({
+    where: { id: userId, isActive: true },
+    select: { email: true, name: true, username: true },
+  });
+  if (!user?.email) return false;
+
+  const siteUrl = getSiteUrl();
+  const groups = groupNotifications(unread);
+  const result = await sendEmail(
+    user.email,
+    emailTemplates.notificationDigest(user, {
+      total: unread.length,
+      groups: groups.slice(0, MAX_GROUPS_PER_EMAIL).map((group) => ({
+        title: group.title,
+        message: group.message,
+        count: group.notifications.length,
+        actionUrl: group.actionUrl ? toAbsoluteUrl(group.actionUrl, siteUrl) : undefined,
+      })),
+      moreCount: Math.max(groups.length - MAX_GROUPS_PER_EMAIL, 0),
+      siteUrl,
+    })
+  );
+
+  if (!result.success) {
+    await releaseFailedDigest(userId, claimedAt);
+    throw new Error(result.error || '모아보기 이메일 발송 실패');
+  }
+  return true;
+}
+
+/**
+ * 발송 실패 기록 후 재시도 횟수가 남은 알림만 다음 실행에서 다시 시도하도록 표시 해제
+ */
+async function releaseFailedDigest(userId: string, claimedAt: Date) {
+  await db.notification.updateMany({
+    where: { userId, digestSentAt: claimedAt },
+    data: { digestAttempts: { increment: 1 } },
+  });
+  const { count } = await db.notification.updateMany({
+    where: { userId, digestSentAt: claimedAt, digestAttempts: { lt: MAX_DIGEST_ATTEMPTS } },
+    data: { digestSentAt: null },
+  });
+  if (count === 0) {
+    console.error(`[NotificationDigest] Giving up digest for ${userId} after ${MAX_DIGEST_ATTEMPTS} attempts`);
+  }
+}
+
+/**
+ * 발송 시각이 된 모아보기 처리 (보낸 이메일 수 반환)
+ */
+export async function sendDueDigests(now: Date = new Date()) {
+  const users = await db.notification.findMany({
+    where: { digestSentAt: null, digestAt: { lte: now } },
+    distinct: ['userId'],
+    select: { userId: true },
+    take: MAX_USERS_PER_RUN,
+  });
+
+  let sent = 0;
+  for (const { userId } of users) {
+    try {
+      if (await sendUserDigest(userId, now)) sent++;
+    } catch (error) {
+      console.error(`[NotificationDigest] Digest for ${userId} failed:`, error);
+    }
+  }
+
+  if (sent > 0) {
+    console.log(`[NotificationDigest] Sent ${sent} digest email(s)`);
+  }
+  return sent;
+}
+
+/**
+ * 모아보기 스케줄러 시작 (서버 시작 시 호출, 중복 호출 무시)
+ */
+export function startNotificationDigestScheduler() {
+  if (global.__notificationDigestScheduler__) return;
+
+  global.__notificationDigestScheduler__ = setInterval(async () => {
+    try {
+      await sendDueDigests();
+    } catch (error) {
+      console.error('[NotificationDigest] Digest processing failed:', error);
+    }
+  }, SCHEDULER_INTERVAL);
+
+  console.log('[NotificationDigest] Started notification digest scheduler');
+}
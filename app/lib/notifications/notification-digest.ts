@@ -0,0 +1,192 @@
+/**
+ * 알림 모아보기 (서버/클라이언트 공용)
+ * - LOW/NORMAL 알림의 외부 채널 전송을 사용자가 고른 주기로 미룸
+ * - 같은 글에 달린 같은 종류의 알림을 하나로 묶어 요약 ("5명이 회원님의 글을 좋아합니다")
+ * - 모아보기 이메일과 알림 벨이 같은 묶음 규칙을 사용
+ */
+
+import {
+  DigestFrequency,
+  NotificationChannel,
+  NotificationPriority,
+  NotificationType,
+  type NotificationData,
+} from './notification.types';
+
+/** 모아보기 대상 우선순위 (HIGH 이상은 항상 바로 전송) */
+export const DIGEST_PRIORITIES = [NotificationPriority.LOW, NotificationPriority.NORMAL];
+
+/**
+ * 모아보기 주기에서 바로 보내지 않는 채널
+ * 이메일은 모아보기 이메일로 합쳐 보내고, 푸시/SMS/알림톡은 인앱 알림으로 대신함
+ */
+export const DIGEST_DEFERRED_CHANNELS = [
+  NotificationChannel.EMAIL,
+  NotificationChannel.PUSH,
+  NotificationChannel.SMS,
+  NotificationChannel.KAKAO,
+];
+
+export const DIGEST_FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  [DigestFrequency.IMMEDIATE]: '바로 받기',
+  [DigestFrequency.HOURLY]: '1시간마다',
+  [DigestFrequency.DAILY]: '하루 한 번 (오전 9시)',
+  [DigestFrequency.WEEKLY]: '일주일에 한 번 (월요일 오전 9시)',
+};
+
+const DIGEST_HOUR = 9;
+const KST_OFFSET = 9 * 60 * 60 * 1000; // 발송 시각은 한국 시간 기준
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export function isDigestPriority(priority: NotificationPriority) {
+  return DIGEST_PRIORITIES.includes(priority);
+}
+
+/**
+ * from 이후 첫 모아보기 발송 시각 (IMMEDIATE 는 null)
+ */
+export function getNextDigestAt(frequency: DigestFrequency, from: Date): Date | null {
+  const time = from.getTime();
+
+  switch (frequency) {
+    case DigestFrequency.HOURLY:
+      return new Date(Math.floor(time / HOUR) * HOUR + HOUR);
+
+    case DigestFrequency.DAILY:
+    case DigestFrequency.WEEKLY: {
+      // 한국 시간 자정 기준으로 계산 후 UTC 로 되돌림
+      const local = time + KST_OFFSET;
+      let next = Math.floor(local / DAY) * DAY + DIGEST_HOUR * HOUR;
+      if (next <= local) next += DAY;
+
+      if (frequency === DigestFrequency.WEEKLY) {
+        const weekday = new Date(next).getUTCDay(); // 0 = 일요일
+        next += ((8 - weekday) % 7) * DAY;
+      }
+      return new Date(next - KST_OFFSET);
+    }
+
+    default:
+      return null;
+  }
+}
+
+/** 묶음 계산에 필요한 알림 정보 (서버 엔티티와 클라이언트 JSON 모두 사용) */
+export interface DigestSource {
+  id: string;
+  type: NotificationType;
+  status: string;
+  data: NotificationData;
+  createdAt: Date | string;
+}
+
+export interface NotificationGroup<T extends DigestSource = DigestSource> {
+  key: string;
+  type: NotificationType;
+  /** 최신순 */
+  notifications: T[];
+  latest: T;
+  /** 알림을 보낸 서로 다른 사용자 수 (알 수 없으면 알림 수) */
+  actorCount: number;
+  unreadCount: number;
+  title: string;
+  message?: string;
+  actionUrl?: string;
+}
+
+function getMetadata(data: NotificationData) {
+  return (data.metadata ?? {}) as Record<string, unknown>;
+}
+
+function getString(value: unknown) {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * 묶음 기준: 알림 종류 + 관련 게시글 (게시글이 없으면 관련 항목, 그것도 없으면 묶지 않음)
+ */
+function getGroupKey(notification: DigestSource) {
+  const { relatedEntity } = notification.data;
+  const postId = getString(getMetadata(notification.data).postId);
+  const target = postId
+    ? `post:${postId}`
+    : relatedEntity
+      ? `${relatedEntity.type}:${relatedEntity.id}`
+      : `notification:${notification.id}`;
+  return `${notification.type}:${target}`;
+}
+
+function getActorKey(notification: DigestSource) {
+  const metadata = getMetadata(notification.data);
+  return getString(metadata.actorId) ?? getString(metadata.authorId) ?? notification.id;
+}
+
+function getActorName(notification: DigestSource) {
+  const metadata = getMetadata(notification.data);
+  return getString(metadata.actorName) ?? getString(metadata.authorName);
+}
+
+/**
+ * 묶음 제목 (알림이 하나면 원래 제목)
+ */
+function summarizeGroup(group: Omit<NotificationGroup, 'title'>) {
+  const { latest, actorCount, notifications } = group;
+  if (notifications.length === 1) return latest.data.title;
+
+  const postTitle = getString(getMetadata(latest.data).postTitle);
+  const target = postTitle ? `"${postTitle}" 글` : '회원님의 글';
+  const actorName = getActorName(latest);
+  const actors = actorName
+    ? actorCount > 1
+      ? `${actorName}님 외 ${actorCount - 1}명`
+      : `${actorName}님`
+    : `${actorCount}명`;
+
+  switch (group.type) {
+    case NotificationType.CONTENT_LIKE:
+      return `${actors}이 ${target}을 좋아합니다`;
+    case NotificationType.CONTENT_COMMENT:
+      return `${target}에 새 댓글 ${notifications.length}개`;
+    case NotificationType.CONTENT_SHARE:
+      return `${actors}이 ${target}을 공유했습니다`;
+    case NotificationType.USER_MENTION:
+      return `${actors}이 ${postTitle ? `"${postTitle}" 글에서 ` : ''}회원님을 ${notifications.length}번 언급했습니다`;
+    case NotificationType.USER_FOLLOW:
+      return `${actors}이 회원님을 팔로우합니다`;
+    default:
+      return `${latest.data.title} 외 ${notifications.length - 1}건`;
+  }
+}
+
+/**
+ * 알림 묶기 (묶음은 가장 최근 알림 순서)
+ */
+export function groupNotifications<T extends DigestSource>(notifications: T[]): NotificationGroup<T>[] {
+  const sorted = [...notifications].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+
+  const buckets = new Map<string, T[]>();
+  for (const notification of sorted) {
+    const key = getGroupKey(notification);
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(notification);
+    else buckets.set(key, [notification]);
+  }
+
+  return [...buckets].map(([key, items]) => {
+    const latest = items[0];
+    const group = {
+      key,
+      type: latest.type,
+      notifications: items,
+      latest,
+      actorCount: new Set(items.map(getActorKey)).size,
+      unreadCount: items.filter((item) => item.status !== 'READ').length,
+      message: items.length === 1 ? latest.data.message : undefined,
+      actionUrl: latest.data.actionUrl,
+    };
+    return { ...group, title: summarizeGroup(group) };
+  });
+}
@@ -8,7 +8,16 @@ import { db } from '~/lib/db.server';
 import { getRedisCluster } from '../redis/cluster.server';
 import { centrifugo } from '../centrifugo/client.server';
 import { CHANNELS } from '../centrifugo/channels';
+import { emailTemplates, getSiteUrl, isEmailConfigured, sendEmail } from '~/lib/email.server';
+import { isAlimtalkConfigured, isSMSConfigured, sendNotificationMessage } from './sms.server';
+import { isPushConfigured, sendPushToUser, type PushUrgency } from './push.server';
+import { triggerWebhookEvent } from '~/lib/webhooks/webhook.server';
+import { formatSMSContent, renderNotification, toAbsoluteUrl } from './notification.templates';
+import { DIGEST_DEFERRED_CHANNELS, getNextDigestAt, isDigestPriority } from './notification-digest';
 import {
+  ChannelDelivery,
+  DeliveryStatus,
+  DigestFrequency,
   Notification,
   NotificationType,
   NotificationPriority,
@@ -44,6 +53,37 @@ interface NotificationManagerConfig {
   enableMetrics?: boolean;
 }
 
+/**
+ * 채널 전송 결과 (시도 횟수는 sendNotification 에서 채움)
+ */
+type DeliveryResult = Omit<ChannelDelivery, 'attempts'>;
+
+/**
+ * 외부 채널 수신자 정보
+ */
+interface Recipient {
+  email: string;
+  name: string | null;
+  username: string;
+  phone: string | null;
+  phoneVerified: Date | null;
+}
+
+// 수신자 연락처가 필요한 채널
+const CONTACT_CHANNELS = [NotificationChannel.EMAIL, NotificationChannel.SMS, NotificationChannel.KAKAO];
+
+// 비용이 드는 채널은 사용자가 설정에서 켠 경우에만 발송
+const OPT_IN_CHANNELS = [NotificationChannel.SMS, NotificationChannel.KAKAO];
+
+// 우선순위별 푸시 긴급도 (낮을수록 기기가 절전 중에는 늦게 받음)
+const PUSH_URGENCY: Record<NotificationPriority, PushUrgency> = {
+  [NotificationPriority.LOW]: 'low',
+  [NotificationPriority.NORMAL]: 'normal',
+  [NotificationPriority.HIGH]: 'high',
+  [NotificationPriority.URGENT]: 'high',
+  [NotificationPriority.CRITICAL]: 'high',
+};
+
 /**
  * 알림 매니저
  */
@@ -97,18 +137,34 @@ export class NotificationManager {
     // 사용자 설정 확인
     const preferences = await this.getUserPreferences(userId);
     
-    // 알림 채널 결정
-    const channels = options.channels || this.getDefaultChannels(type, preferences);
+    // 알림 채널 결정 (꺼진 알림 타입/채널 제외)
+    let channels = preferences.types[type]?.enabled === false
+      ? []
+      : (options.channels || this.getDefaultChannels(type, preferences)).filter((channel) =>
+          this.isChannelEnabled(preferences, channel)
+        );
     
     // DND 확인
     if (preferences.doNotDisturb) {
-      channels.splice(channels.indexOf(NotificationChannel.PUSH), 1);
-      channels.splice(channels.indexOf(NotificationChannel.SMS), 1);
+      channels = channels.filter(
+        (channel) => channel !== NotificationChannel.PUSH && channel !== NotificationChannel.SMS
+      );
     }
     
     // 조용한 시간 확인
     if (this.isQuietHours(preferences)) {
-      channels.splice(channels.indexOf(NotificationChannel.PUSH), 1);
+      channels = channels.filter((channel) => channel !== NotificationChannel.PUSH);
+    }
+    
+    // 모아보기: 외부 채널은 미루고 이메일만 다음 모아보기에 포함
+    const priority = options.priority || NotificationPriority.NORMAL;
+    const frequency = preferences.digestFrequency ?? DigestFrequency.IMMEDIATE;
+    let digestAt: Date | undefined;
+    if (frequency !== DigestFrequency.IMMEDIATE && isDigestPriority(priority)) {
+      if (channels.includes(NotificationChannel.EMAIL)) {
+        digestAt = getNextDigestAt(frequency, options.scheduledAt ?? new Date()) ?? undefined;
+      }
+      channels = channels.filter((channel) => !DIGEST_DEFERRED_CHANNELS.includes(channel));
     }
     
     // 알림 생성
@@ -116,12 +172,13 @@ export class NotificationManager {
       id: uuidv4(),
       userId,
       type,
-      priority: options.priority || NotificationPriority.NORMAL,
+      priority,
       channels,
       status: NotificationStatus.PENDING,
       data,
       createdAt: new Date(),
       expiresAt: options.expiresAt || new Date(Date.now() + this.config.notificationTTL * 1000),
+      digestAt,
     };
     
     // DB 저장
@@ -173,17 +230,62 @@ export class NotificationManager {
   
   /**
    * 알림 전송
+   * 채널별 결과를 delivery 에 기록하고, 실패한 채널만 재시도
    */
   async sendNotification(notification: Notification): Promise<void> {
     try {
+      const delivery = { ...notification.delivery };
+      const preferences = await this.getUserPreferences(notification.userId);
+      const recipient = notification.channels.some((channel) => CONTACT_CHANNELS.includes(channel))
+        ? await this.getRecipient(notification.userId)
+        : null;
+      
       // 채널별 전송
       for (const channel of notification.channels) {
-        await this.sendToChannel(notification, channel);
+        const previous = delivery[channel];
+        
+        // 재시도 시 이미 처리된 채널은 건너뜀
+        if (previous && previous.status !== DeliveryStatus.FAILED) continue;
+        
+        let result: DeliveryResult;
+        if (!this.isChannelEnabled(preferences, channel)) {
+          // 큐에 들어간 뒤 수신 설정을 끈 경우
+          result = { status: DeliveryStatus.SKIPPED, error: '수신 거부' };
+        } else {
+          try {
+            result = await this.sendToChannel(notification, channel, recipient);
+          } catch (error) {
+            result = {
+              status: DeliveryStatus.FAILED,
+              error: error instanceof Error ? error.message : String(error),
+            };
+          }
+        }
+        
+        delivery[channel] = {
+          ...result,
+          attempts: (previous?.attempts ?? 0) + 1,
+          sentAt: result.status === DeliveryStatus.SENT ? new Date().toISOString() : undefined,
+        };
+      }
+      
+      notification.delivery = delivery;
+      
+      const failedChannels = notification.channels.filter(
+        (channel) => delivery[channel]?.status === DeliveryStatus.FAILED
+      );
+      if (failedChannels.length > 0) {
+        await this.handleSendFailure(
+          notification,
+          new Error(failedChannels.map((channel) => `${channel}: ${delivery[channel]?.error}`).join(', '))
+        );
+        return;
       }
       
       // 상태 업데이트
       notification.status = NotificationStatus.SENT;
       notification.sentAt = new Date();
+      notification.error = undefined;
       await this.updateNotification(notification);
       
       // 메트릭 업데이트
@@ -210,42 +312,38 @@ export class NotificationManager {
    */
   private async sendToChannel(
     notification: Notification,
-    channel: NotificationChannel
-  ): Promise<void> {
+    channel: NotificationChannel,
+    recipient: Recipient | null
+  ): Promise<DeliveryResult> {
     switch (channel) {
       case NotificationChannel.IN_APP:
-        await this.sendInAppNotification(notification);
-        break;
+        return this.sendInAppNotification(notification);
         
       case NotificationChannel.EMAIL:
-        await this.sendEmailNotification(notification);
-        break;
+        return this.sendEmailNotification(notification, recipient);
         
       case NotificationChannel.SMS:
-        await this.sendSMSNotification(notification);
-        break;
+        return this.sendSMSNotification(notification, recipient);
         
       case NotificationChannel.PUSH:
-        await this.sendPushNotification(notification);
-        break;
+        return this.sendPushNotification(notification);
         
       case NotificationChannel.KAKAO:
-        await this.sendKakaoNotification(notification);
-        break;
+        return this.sendKakaoNotification(notification, recipient);
         
       case NotificationChannel.WEBHOOK:
-        await this.sendWebhookNotification(notification);
-        break;
+        return this.sendWebhookNotification(notification);
         
       default:
         console.warn(`지원하지 않는 채널: ${channel}`);
+        return { status: DeliveryStatus.SKIPPED, error: '지원하지 않는 채널' };
     }
   }
   
   /**
    * 인앱 알림 전송
    */
-  private async sendInAppNotification(notification: Notification): Promise<void> {
+  private async sendInAppNotification(notification: Notification): Promise<DeliveryResult> {
     // Centrifugo를 통해 실시간 전송
     try {
       await centrifugo.publish(CHANNELS.personal(notification.userId), {
@@ -262,46 +360,150 @@ export class NotificationManager {
 
     // 캐시 무효화
     await this.invalidateUserCache(notification.userId);
+    
+    // 실시간 전송에 실패해도 알림 목록(DB)에는 남아 있으므로 전송된 것으로 처리
+    return { status: DeliveryStatus.SENT };
   }
   
   /**
    * 이메일 알림 전송
    */
-  private async sendEmailNotification(notification: Notification): Promise<void> {
-    // TODO: 이메일 전송 구현
-    console.log(`이메일 알림: ${notification.id}`);
+  private async sendEmailNotification(
+    notification: Notification,
+    recipient: Recipient | null
+  ): Promise<DeliveryResult> {
+    const rendered = renderNotification(notification, NotificationChannel.EMAIL, getSiteUrl());
+    if (!rendered) {
+      return { status: DeliveryStatus.SKIPPED, error: '이메일 템플릿이 없는 알림 타입' };
+    }
+    if (!recipient?.email) {
+      return { status: DeliveryStatus.SKIPPED, error: '수신 이메일 없음' };
+    }
+    if (!isEmailConfigured()) {
+      return { status: DeliveryStatus.SKIPPED, error: '이메일 설정 없음' };
+    }
+    
+    const result = await sendEmail(recipient.email, emailTemplates.notification(recipient, rendered));
+    return result.success
+      ? { status: DeliveryStatus.SENT, messageId: result.messageId }
+      : { status: DeliveryStatus.FAILED, error: result.error };
   }
   
   /**
-   * SMS 알림 전송
+   * SMS 알림 전송 (네이버 클라우드 SENS)
    */
-  private async sendSMSNotification(notification: Notification): Promise<void> {
-    // TODO: SMS 전송 구현 (Twilio, Solapi 등)
-    console.log(`SMS 알림: ${notification.id}`);
+  private async sendSMSNotification(
+    notification: Notification,
+    recipient: Recipient | null
+  ): Promise<DeliveryResult> {
+    return this.sendTextNotification(notification, NotificationChannel.SMS, recipient);
   }
   
   /**
-   * 푸시 알림 전송
+   * 푸시 알림 전송 (Web Push, 사용자의 모든 기기)
+   * 한 기기라도 받으면 전송된 것으로 보고, 만료된 구독은 발송 중 정리됨
    */
-  private async sendPushNotification(notification: Notification): Promise<void> {
-    // TODO: FCM/APNS 푸시 전송 구현
-    console.log(`푸시 알림: ${notification.id}`);
+  private async sendPushNotification(notification: Notification): Promise<DeliveryResult> {
+    if (!isPushConfigured()) {
+      return { status: DeliveryStatus.SKIPPED, error: 'Web Push 설정 없음' };
+    }
+    
+    const result = await sendPushToUser(
+      notification.userId,
+      {
+        title: notification.data.title,
+        body: notification.data.message,
+        url: notification.data.actionUrl || '/',
+        icon: notification.data.icon,
+        tag: notification.id,
+      },
+      {
+        urgency: PUSH_URGENCY[notification.priority],
+        // 큐에서 꺼낸 알림은 날짜가 문자열이므로 Date 로 다시 변환
+        ttl: notification.expiresAt
+          ? Math.max(0, Math.floor((new Date(notification.expiresAt).getTime() - Date.now()) / 1000))
+          : undefined,
+      }
+    );
+    
+    if (result.sent > 0) {
+      return {
+        status: DeliveryStatus.SENT,
+        error: result.failed > 0 ? result.errors.join(', ') : undefined,
+      };
+    }
+    if (result.failed > 0) {
+      return { status: DeliveryStatus.FAILED, error: result.errors.join(', ') };
+    }
+    return { status: DeliveryStatus.SKIPPED, error: '푸시 구독 없음' };
   }
   
   /**
    * 카카오 알림톡 전송
    */
-  private async sendKakaoNotification(notification: Notification): Promise<void> {
-    // TODO: 카카오 알림톡 API 연동
-    console.log(`카카오 알림톡: ${notification.id}`);
+  private async sendKakaoNotification(
+    notification: Notification,
+    recipient: Recipient | null
+  ): Promise<DeliveryResult> {
+    return this.sendTextNotification(notification, NotificationChannel.KAKAO, recipient);
+  }
+  
+  /**
+   * SMS/알림톡 공통 전송 (인증된 휴대폰 번호로만 발송)
+   */
+  private async sendTextNotification(
+    notification: Notification,
+    channel: NotificationChannel.SMS | NotificationChannel.KAKAO,
+    recipient: Recipient | null
+  ): Promise<DeliveryResult> {
+    const useAlimtalk = channel === NotificationChannel.KAKAO;
+    const rendered = renderNotification(notification, channel, getSiteUrl());
+    if (!rendered) {
+      return { status: DeliveryStatus.SKIPPED, error: `${channel} 템플릿이 없는 알림 타입` };
+    }
+    if (!recipient?.phone || !recipient.phoneVerified) {
+      return { status: DeliveryStatus.SKIPPED, error: '인증된 휴대폰 번호 없음' };
+    }
+    if (useAlimtalk ? !isAlimtalkConfigured() : !isSMSConfigured()) {
+      return { status: DeliveryStatus.SKIPPED, error: `${channel} 설정 없음` };
+    }
+    
+    const result = await sendNotificationMessage(
+      recipient.phone,
+      {
+        templateId: rendered.templateId,
+        content: formatSMSContent(rendered),
+        variables: rendered.variables,
+      },
+      { useAlimtalk }
+    );
+    return result.success
+      ? { status: DeliveryStatus.SENT, messageId: result.messageId }
+      : { status: DeliveryStatus.FAILED, error: result.error };
   }
   
   /**
    * 웹훅 알림 전송
+   * notification.created 이벤트를 구독한 웹훅으로 보냄 (실제 전송/재시도는 웹훅 전송 기록에서 관리)
    */
-  private async sendWebhookNotification(notification: Notification): Promise<void> {
-    // TODO: 웹훅 전송 구현
-    console.log(`웹훅 알림: ${notification.id}`);
+  private async sendWebhookNotification(notification: Notification): Promise<DeliveryResult> {
+    const { data } = notification;
+    const queued = await triggerWebhookEvent('notification.created', {
+      notification: {
+        id: notification.id,
+        userId: notification.userId,
+        type: notification.type,
+        priority: notification.priority,
+        title: data.title,
+        message: data.message,
+        actionUrl: data.actionUrl ? toAbsoluteUrl(data.actionUrl, getSiteUrl()) : null,
+        createdAt: notification.createdAt,
+      },
+    });
+
+    return queued > 0
+      ? { status: DeliveryStatus.SENT }
+      : { status: DeliveryStatus.SKIPPED, error: '등록된 웹훅 없음' };
   }
   
   /**
@@ -455,7 +657,7 @@ export class NotificationManager {
     
     const result = preferences ? {
       ...defaultPreferences,
-      ...preferences.data as any,
+      ...JSON.parse(preferences.data),
     } : defaultPreferences;
     
     // 캐시 저장
@@ -475,10 +677,10 @@ export class NotificationManager {
       where: { userId },
       create: {
         userId,
-        data: preferences as any,
+        data: JSON.stringify(preferences),
       },
       update: {
-        data: preferences as any,
+        data: JSON.stringify(preferences),
       },
     });
     
@@ -610,13 +812,22 @@ export class NotificationManager {
     notification.error = error.message;
     
     if (notification.retryCount < this.config.maxRetries) {
-      // 재시도 큐에 추가
+      // 채널별 결과를 남기고 재시도 큐에 추가
+      await this.updateNotification(notification);
       const delay = this.config.retryDelay * notification.retryCount;
       const scheduledAt = new Date(Date.now() + delay);
       await this.queueNotification(notification, scheduledAt);
     } else {
-      // 최종 실패
-      notification.status = NotificationStatus.FAILED;
+      // 최종 실패 (일부 채널이라도 전송됐으면 SENT 로 두고 실패한 채널은 error 에 남김)
+      const partiallySent = Object.values(notification.delivery ?? {}).some(
+        (delivery) => delivery?.status === DeliveryStatus.SENT
+      );
+      if (partiallySent) {
+        notification.status = NotificationStatus.SENT;
+        notification.sentAt = new Date();
+      } else {
+        notification.status = NotificationStatus.FAILED;
+      }
       await this.updateNotification(notification);
       
       this.metrics.failed++;
@@ -651,6 +862,26 @@ export class NotificationManager {
       .map(([channel]) => channel as NotificationChannel);
   }
   
+  private isChannelEnabled(
+    preferences: NotificationPreferences,
+    channel: NotificationChannel
+  ): boolean {
+    return preferences.channels[channel] ?? !OPT_IN_CHANNELS.includes(channel);
+  }
+  
+  private async getRecipient(userId: string): Promise<Recipient | null> {
+    return db.user.findFirst({
+      where: { id: userId, isActive: true },
+      select: {
+        email: true,
+        name: true,
+        username: true,
+        phone: true,
+        phoneVerified: true,
+      },
+    });
+  }
+  
   private isQuietHours(preferences: NotificationPreferences): boolean {
     if (!preferences.quietHours?.enabled) return false;
     
@@ -679,11 +910,13 @@ export class NotificationManager {
         userId: notification.userId,
         type: notification.type,
         priority: notification.priority,
-        channels: notification.channels,
+        channels: JSON.stringify(notification.channels),
         status: notification.status,
-        data: notification.data as any,
+        data: JSON.stringify(notification.data),
         createdAt: notification.createdAt,
         expiresAt: notification.expiresAt,
+        delivery: notification.delivery ? JSON.stringify(notification.delivery) : null,
+        digestAt: notification.digestAt,
       },
     });
   }
@@ -698,7 +931,8 @@ export class NotificationManager {
         readAt: notification.readAt,
         retryCount: notification.retryCount,
         lastRetryAt: notification.lastRetryAt,
-        error: notification.error,
+        error: notification.error ?? null,
+        delivery: notification.delivery ? JSON.stringify(notification.delivery) : null,
       },
     });
   }
@@ -708,7 +942,7 @@ export class NotificationManager {
       where: { id },
     });
     
-    return notification as Notification | null;
+    return notification ? this.toNotification(notification) : null;
   }
   
   private async queryNotifications(
@@ -734,7 +968,52 @@ export class NotificationManager {
       take: 100, // 최대 100개
     });
     
-    return notifications as Notification[];
+    return notifications.map((notification) => this.toNotification(notification));
+  }
+  
+  /**
+   * DB 레코드 → 알림 엔티티 (channels/data/delivery 는 JSON 문자열로 저장됨)
+   */
+  private toNotification(record: {
+    id: string;
+    userId: string;
+    type: string;
+    priority: string;
+    channels: string;
+    status: string;
+    data: string;
+    createdAt: Date;
+    sentAt: Date | null;
+    deliveredAt: Date | null;
+    readAt: Date | null;
+    expiresAt: Date | null;
+    retryCount: number | null;
+    lastRetryAt: Date | null;
+    error: string | null;
+    delivery: string | null;
+    digestAt: Date | null;
+    digestSentAt: Date | null;
+  }): Notification {
+    return {
+      id: record.id,
+      userId: record.userId,
+      type: record.type as NotificationType,
+      priority: record.priority as NotificationPriority,
+      channels: JSON.parse(record.channels) as NotificationChannel[],
+      status: record.status as NotificationStatus,
+      data: JSON.parse(record.data) as NotificationData,
+      createdAt: record.createdAt,
+      sentAt: record.sentAt ?? undefined,
+      deliveredAt: record.deliveredAt ?? undefined,
+      readAt: record.readAt ?? undefined,
+      expiresAt: record.expiresAt ?? undefined,
+      retryCount: record.retryCount ?? undefined,
+      lastRetryAt: record.lastRetryAt ?? undefined,
+      error: record.error ?? undefined,
+      delivery: record.delivery ? JSON.parse(record.delivery) : undefined,
+      digestAt: record.digestAt ?? undefined,
+      digestSentAt: record.digestSentAt ?? undefined,
+    };
   }
   
   private async getCachedNotifications(
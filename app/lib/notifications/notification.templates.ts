@@ -0,0 +1,198 @@
+/**
+ * 알림 타입별 전송 템플릿 (EMAIL/SMS/KAKAO)
+ * - {{변수}} 는 알림 데이터의 title, message, actionUrl, actionLabel 과 metadata 값으로 채움
+ * - 알림톡은 템플릿 id 를 템플릿 코드로 쓰므로 비즈메시지 센터에 같은 코드와 문구로 등록해야 함
+ */
+
+import {
+  NotificationChannel,
+  NotificationType,
+  type NotificationData,
+  type NotificationTemplate,
+} from './notification.types';
+
+const EMAIL_ONLY = [NotificationChannel.EMAIL];
+const ALL_EXTERNAL = [NotificationChannel.EMAIL, NotificationChannel.SMS, NotificationChannel.KAKAO];
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+function extractVariables(...texts: string[]) {
+  const variables = new Set<string>();
+  for (const text of texts) {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      variables.add(match[1]);
+    }
+  }
+  return [...variables];
+}
+
+function template(
+  type: NotificationType,
+  name: string,
+  channels: NotificationChannel[],
+  title: string,
+  message: string
+): NotificationTemplate {
+  return {
+    id: `CMS_${type}`,
+    name,
+    type,
+    channels,
+    title,
+    message,
+    variables: extractVariables(title, message),
+    locale: 'ko',
+    active: true,
+  };
+}
+
+export const NOTIFICATION_TEMPLATES: Record<NotificationType, NotificationTemplate> = {
+  [NotificationType.SYSTEM]: template(NotificationType.SYSTEM, '시스템 알림', EMAIL_ONLY, '{{title}}', '{{message}}'),
+  [NotificationType.SYSTEM_MAINTENANCE]: template(
+    NotificationType.SYSTEM_MAINTENANCE,
+    '시스템 점검 안내',
+    ALL_EXTERNAL,
+    '[점검 안내] {{title}}',
+    '{{message}}'
+  ),
+  [NotificationType.SYSTEM_UPDATE]: template(
+    NotificationType.SYSTEM_UPDATE,
+    '업데이트 안내',
+    EMAIL_ONLY,
+    '[업데이트] {{title}}',
+    '{{message}}'
+  ),
+  [NotificationType.USER_MESSAGE]: template(NotificationType.USER_MESSAGE, '새 메시지', EMAIL_ONLY, '{{title}}', '{{message}}'),
+  [NotificationType.USER_MENTION]: template(NotificationType.USER_MENTION, '멘션', EMAIL_ONLY, '{{title}}', '{{message}}'),
+  [NotificationType.USER_FOLLOW]: template(NotificationType.USER_FOLLOW, '새 팔로워', EMAIL_ONLY, '{{title}}', '{{message}}'),
+  [NotificationType.CONTENT_COMMENT]: template(NotificationType.CONTENT_COMMENT, '새 댓글', EMAIL_ONLY, '{{title}}', '{{message}}'),
+  [NotificationType.CONTENT_LIKE]: template(NotificationType.CONTENT_LIKE, '좋아요', EMAIL_ONLY, '{{title}}', '{{message}}'),
+  [NotificationType.CONTENT_SHARE]: template(NotificationType.CONTENT_SHARE, '공유', EMAIL_ONLY, '{{title}}', '{{message}}'),
+  [NotificationType.CONTENT_PUBLISH]: template(NotificationType.CONTENT_PUBLISH, '새 글 발행', EMAIL_ONLY, '{{title}}', '{{message}}'),
+  [NotificationType.PAYMENT_SUCCESS]: template(
+    NotificationType.PAYMENT_SUCCESS,
+    '결제 완료',
+    ALL_EXTERNAL,
+    '[결제 완료] {{title}}',
+    '{{message}}'
+  ),
+  [NotificationType.PAYMENT_FAILED]: template(
+    NotificationType.PAYMENT_FAILED,
+    '결제 실패',
+    ALL_EXTERNAL,
+    '[결제 실패] {{title}}',
+    '{{message}}'
+  ),
+  [NotificationType.PAYMENT_REFUND]: template(
+    NotificationType.PAYMENT_REFUND,
+    '환불 완료',
+    ALL_EXTERNAL,
+    '[환불] {{title}}',
+    '{{message}}'
+  ),
+  [NotificationType.SECURITY_LOGIN]: template(
+    NotificationType.SECURITY_LOGIN,
+    '새 로그인',
+    ALL_EXTERNAL,
+    '[보안] 새 로그인 알림',
+    '{{message}}'
+  ),
+  [NotificationType.SECURITY_PASSWORD_CHANGE]: template(
+    NotificationType.SECURITY_PASSWORD_CHANGE,
+    '비밀번호 변경',
+    ALL_EXTERNAL,
+    '[보안] 비밀번호가 변경되었습니다',
+    '{{message}}'
+  ),
+  [NotificationType.SECURITY_SUSPICIOUS]: template(
+    NotificationType.SECURITY_SUSPICIOUS,
+    '의심스러운 활동',
+    ALL_EXTERNAL,
+    '[보안] 의심스러운 활동이 감지되었습니다',
+    '{{message}}'
+  ),
+};
+
+/**
+ * 알림 타입/채널에 맞는 템플릿 (없거나 비활성이면 null)
+ */
+export function getNotificationTemplate(
+  type: NotificationType,
+  channel: NotificationChannel
+): NotificationTemplate | null {
+  const found = NOTIFICATION_TEMPLATES[type];
+  if (!found?.active || !found.channels.includes(channel)) return null;
+  return found;
+}
+
+/**
+ * 템플릿 변수 값 (알림 데이터 + metadata, 문자열/숫자/불리언만)
+ */
+export function getTemplateVariables(data: NotificationData, baseUrl = ''): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(data.metadata ?? {})) {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      variables[key] = String(value);
+    }
+  }
+
+  variables.title = data.title;
+  variables.message = data.message ?? '';
+  variables.actionLabel = data.actionLabel ?? '';
+  variables.actionUrl = data.actionUrl ? toAbsoluteUrl(data.actionUrl, baseUrl) : '';
+  return variables;
+}
+
+/**
+ * 사이트 내부 경로는 baseUrl 을 붙여 외부(메일/문자)에서 열 수 있는 주소로 변환
+ */
+export function toAbsoluteUrl(url: string, baseUrl: string) {
+  if (!url.startsWith('/') || url.startsWith('//')) return url;
+  return `${baseUrl.replace(/\/+$/, '')}${url}`;
+}
+
+/**
+ * {{변수}} 치환 (값이 없는 변수는 빈 문자열)
+ */
+export function fillTemplate(text: string, variables: Record<string, string>) {
+  return text.replace(VARIABLE_PATTERN, (_, key: string) => variables[key] ?? '').trim();
+}
+
+export interface RenderedNotification {
+  templateId: string;
+  title: string;
+  message: string;
+  actionUrl: string;
+  actionLabel: string;
+  variables: Record<string, string>;
+}
+
+/**
+ * 알림을 채널 템플릿으로 렌더링 (해당 채널 템플릿이 없으면 null)
+ */
+export function renderNotification(
+  notification: { type: NotificationType; data: NotificationData },
+  channel: NotificationChannel,
+  baseUrl = ''
+): RenderedNotification | null {
+  const found = getNotificationTemplate(notification.type, channel);
+  if (!found) return null;
+
+  const variables = getTemplateVariables(notification.data, baseUrl);
+  return {
+    templateId: found.id,
+    title: fillTemplate(found.title, variables),
+    message: fillTemplate(found.message, variables),
+    actionUrl: variables.actionUrl,
+    actionLabel: variables.actionLabel || '자세히 보기',
+    variables,
+  };
+}
+
+/**
+ * SMS 본문 (제목, 내용, 링크 순)
+ */
+export function formatSMSContent(rendered: RenderedNotification) {
+  return [`[CodeB CMS] ${rendered.title}`, rendered.message, rendered.actionUrl].filter(Boolean).join('\n');
+}
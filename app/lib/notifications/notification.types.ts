@@ -70,6 +70,36 @@ export enum NotificationStatus {
   EXPIRED = 'EXPIRED',        // 만료됨
 }
 
+/**
+ * 채널별 전송 상태
+ */
+export enum DeliveryStatus {
+  SENT = 'SENT',              // 전송됨
+  FAILED = 'FAILED',          // 전송 실패 (재시도 대상)
+  SKIPPED = 'SKIPPED',        // 수신 정보/설정이 없어 건너뜀
+}
+
+/**
+ * 알림 모아보기 주기 (LOW/NORMAL 알림의 외부 채널 전송을 묶어서 보냄)
+ */
+export enum DigestFrequency {
+  IMMEDIATE = 'IMMEDIATE',    // 바로 전송
+  HOURLY = 'HOURLY',          // 매시 정각
+  DAILY = 'DAILY',            // 매일 오전 9시
+  WEEKLY = 'WEEKLY',          // 매주 월요일 오전 9시
+}
+
+/**
+ * 채널별 전송 결과
+ */
+export interface ChannelDelivery {
+  status: DeliveryStatus;
+  attempts: number;
+  sentAt?: string;
+  messageId?: string;
+  error?: string;
+}
+
 /**
  * 알림 데이터 스키마
  */
@@ -122,8 +152,31 @@ export interface NotificationPreferences {
     timezone: string;
   };
   doNotDisturb?: boolean;
+  digestFrequency?: DigestFrequency;
 }
 
+/**
+ * 알림 설정 스키마 (사용자가 보낸 설정 검증, userId 는 세션에서)
+ */
+export const NotificationPreferencesSchema = z.object({
+  channels: z.record(z.nativeEnum(NotificationChannel), z.boolean()).default({}),
+  types: z.record(
+    z.nativeEnum(NotificationType),
+    z.object({
+      enabled: z.boolean(),
+      channels: z.array(z.nativeEnum(NotificationChannel)).optional(),
+    })
+  ).default({}),
+  quietHours: z.object({
+    enabled: z.boolean(),
+    start: z.string().regex(/^\d{2}:\d{2}$/),
+    end: z.string().regex(/^\d{2}:\d{2}$/),
+    timezone: z.string(),
+  }).optional(),
+  doNotDisturb: z.boolean().optional(),
+  digestFrequency: z.nativeEnum(DigestFrequency).optional(),
+});
+
 /**
  * 알림 엔티티
  */
@@ -149,6 +202,15 @@ export interface Notification {
   
   // 에러
   error?: string;
+  
+  // 채널별 전송 결과
+  delivery?: {
+    [key in NotificationChannel]?: ChannelDelivery;
+  };
+  
+  // 모아보기 (digestAt 에 다른 알림과 함께 이메일로 전송)
+  digestAt?: Date;
+  digestSentAt?: Date;
 }
 
 /**
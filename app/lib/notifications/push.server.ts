@@ -0,0 +1,190 @@
+/**
+ * 브라우저 Web Push 구독 관리 및 발송
+ * - 구독은 기기/브라우저마다 하나씩 저장 (endpoint 기준)
+ * - 푸시 서비스가 404/410 을 돌려주면 만료된 구독으로 보고 삭제
+ * - endpoint 는 알려진 푸시 서비스 주소만 받고, 발송 전 내부 주소로 해석되는지 다시 확인 (SSRF 방지)
+ */
+
+import { z } from 'zod';
+import { db } from '~/lib/db.server';
+import { env } from '~/lib/env.server';
+import { checkOutboundUrl } from '~/lib/security/outbound-url.server';
+import {
+  MAX_PUSH_PAYLOAD_SIZE,
+  createVapidAuthorization,
+  encryptPushPayload,
+  isAllowedPushEndpoint,
+  type VapidKeys,
+} from './web-push';
+
+// 브라우저 PushSubscription.toJSON() 형식
+export const PushSubscriptionSchema = z.object({
+  endpoint: z.string().url().max(2000).refine(isAllowedPushEndpoint, '지원하지 않는 푸시 서비스입니다'),
+  keys: z.object({
+    p256dh: z.string().regex(/^[\w-]{80,100}$/),
+    auth: z.string().regex(/^[\w-]{16,32}$/),
+  }),
+});
+
+export type PushSubscriptionInput = z.infer<typeof PushSubscriptionSchema>;
+
+/** 서비스 워커 push 이벤트에서 쓰는 메시지 (public/sw.js) */
+export interface PushMessage {
+  title: string;
+  body?: string;
+  /** 클릭 시 열 주소 */
+  url?: string;
+  icon?: string;
+  /** 같은 tag 의 알림은 기기에서 하나로 합쳐짐 */
+  tag?: string;
+}
+
+export type PushUrgency = 'very-low' | 'low' | 'normal' | 'high';
+
+export interface PushSendResult {
+  sent: number;
+  failed: number;
+  removed: number;
+  errors: string[];
+}
+
+// 기기가 꺼져 있을 때 푸시 서비스가 보관하는 시간 (초)
+const DEFAULT_TTL = 24 * 60 * 60;
+
+const MAX_SUBSCRIPTIONS_PER_USER = 10;
+const REQUEST_TIMEOUT = 10 * 1000; // 응답 없는 푸시 서비스가 알림 배치를 붙잡지 않도록
+
+function getVapidKeys(): VapidKeys | null {
+  if (!env.VAPID_PUBLIC_KEY || !env.VAPID_PRIVATE_KEY || !env.VAPID_SUBJECT) return null;
+  return { publicKey: env.VAPID_PUBLIC_KEY, privateKey: env.VAPID_PRIVATE_KEY };
+}
+
+export function isPushConfigured() {
+  return getVapidKeys() !== null;
+}
+
+/**
+ * 브라우저 구독에 쓰는 VAPID 공개키 (설정이 없으면 null)
+ */
+export function getVapidPublicKey() {
+  return getVapidKeys()?.publicKey ?? null;
+}
+
+/**
+ * 구독 저장 (같은 endpoint 는 현재 사용자로 갱신)
+ * 사용자당 구독 수를 넘으면 가장 오래 쓰지 않은 구독부터 삭제
+ */
+export async function savePushSubscription(
+  userId: string,
+  subscription: PushSubscriptionInput,
+  userAgent?: string | null
+) {
+  const data = {
+    userId,
+    p256dh: subscription.keys.p256dh,
+    auth: subscription.keys.auth,
+    userAgent: userAgent?.slice(0, 500) ?? null,
+  };
+
+  await db.pushSubscription.upsert({
+    where: { endpoint: subscription.endpoint },
+    create: { endpoint: subscription.endpoint, ...data },
+    update: data,
+  });
+
+  const stale = await db.pushSubscription.findMany({
+    where: { userId },
+    orderBy: [{ lastUsedAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+    skip: MAX_SUBSCRIPTIONS_PER_USER,
+    select: { id: true },
+  });
+  if (stale.length > 0) {
+    await db.pushSubscription.deleteMany({ where: { id: { in: stale.map((item) => item.id) } } });
+  }
+}
+
+/**
+ * 구독 해제 (본인 구독만)
+ */
+export async function deletePushSubscription(userId: string, endpoint: string) {
+  await db.pushSubscription.deleteMany({ where: { userId, endpoint } });
+}
+
+/**
+ * 메시지를 푸시 크기 제한에 맞게 정리 (본문부터 줄임)
+ */
+export function serializePushMessage(message: PushMessage) {
+  let serialized = JSON.stringify(message);
+  let body = message.body ?? '';
+
+  while (body && Buffer.byteLength(serialized) > MAX_PUSH_PAYLOAD_SIZE) {
+    body = body.slice(0, Math.floor(body.length * 0.9));
+    serialized = JSON.stringify({ ...message, body: `${body}…` });
+  }
+  return serialized;
+}
+
+/**
+ * 사용자의 모든 기기로 푸시 발송
+ */
+export async function sendPushToUser(
+  userId: string,
+  message: PushMessage,
+  options: { ttl?: number; urgency?: PushUrgency } = {}
+): Promise<PushSendResult> {
+  const result: PushSendResult = { sent: 0, failed: 0, removed: 0, errors: [] };
+
+  const vapidKeys = getVapidKeys();
+  if (!vapidKeys) return result;
+
+  const subscriptions = await db.pushSubscription.findMany({ where: { userId } });
+  const payload = serializePushMessage(message);
+
+  for (const subscription of subscriptions) {
+    try {
+      // 허용 목록이 생기기 전에 저장된 구독 등 발송할 수 없는 endpoint 는 정리
+      const blocked = isAllowedPushEndpoint(subscription.endpoint)
+        ? await checkOutboundUrl(subscription.endpoint)
+        : '지원하지 않는 푸시 서비스입니다';
+      if (blocked) {
+        result.removed++;
+        await db.pushSubscription.delete({ where: { id: subscription.id } }).catch(() => undefined);
+        continue;
+      }
+
+      const response = await fetch(subscription.endpoint, {
+        method: 'POST',
+        headers: {
+          'Authorization': createVapidAuthorization(subscription.endpoint, env.VAPID_SUBJECT!, vapidKeys),
+          'Content-Encoding': 'aes128gcm',
+          'Content-Type': 'application/octet-stream',
+          'TTL': String(options.ttl ?? DEFAULT_TTL),
+          'Urgency': options.urgency ?? 'normal',
+        },
+        body: encryptPushPayload(payload, subscription),
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      });
+
+      if (response.ok) {
+        result.sent++;
+        await db.pushSubscription.update({
+          where: { id: subscription.id },
+          data: { lastUsedAt: new Date() },
+        });
+      } else if (response.status === 404 || response.status === 410) {
+        // 구독 해제/만료
+        result.removed++;
+        await db.pushSubscription.delete({ where: { id: subscription.id } }).catch(() => undefined);
+      } else {
+        result.failed++;
+        result.errors.push(`${response.status} ${(await response.text()).slice(0, 200)}`.trim());
+      }
+    } catch (error) {
+      result.failed++;
+      result.errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return result;
+}
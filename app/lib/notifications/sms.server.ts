@@ -25,16 +25,32 @@ const NAVER_SENS_CONFIG = {
   accessKey: process.env.NAVER_SENS_ACCESS_KEY!,
   secretKey: process.env.NAVER_SENS_SECRET_KEY!,
   from: process.env.SMS_FROM_NUMBER!,
-  apiUrl: 'https://sens.apigw.ntruss.com'
+  // 로컬 테스트 시 스텁 서버 주소로 바꿀 수 있음 (npm run sms:stub)
+  apiUrl: process.env.NAVER_SENS_API_URL || 'https://sens.apigw.ntruss.com'
 };
 
 // 카카오 알림톡 설정
 const KAKAO_ALIMTALK_CONFIG = {
   apiKey: process.env.KAKAO_ALIMTALK_API_KEY!,
   plusFriendId: process.env.KAKAO_PLUS_FRIEND_ID!,
-  apiUrl: 'https://alimtalk-api.bizmsg.kr'
+  apiUrl: process.env.KAKAO_ALIMTALK_API_URL || 'https://alimtalk-api.bizmsg.kr'
 };
 
+// SENS 설정 여부
+export function isSMSConfigured(): boolean {
+  return Boolean(
+    NAVER_SENS_CONFIG.serviceId &&
+    NAVER_SENS_CONFIG.accessKey &&
+    NAVER_SENS_CONFIG.secretKey &&
+    NAVER_SENS_CONFIG.from
+  );
+}
+
+// 알림톡 설정 여부
+export function isAlimtalkConfigured(): boolean {
+  return Boolean(KAKAO_ALIMTALK_CONFIG.apiKey && KAKAO_ALIMTALK_CONFIG.plusFriendId);
+}
+
 // SMS 템플릿 정의
 const SMS_TEMPLATES: Record<string, SMSTemplate> = {
   VERIFICATION: {
@@ -251,65 +267,122 @@ export async function sendSMS(
     // 메시지 렌더링
     const content = renderTemplate(template, variables);
 
-    // 발송 이력 저장
-    const smsLog = await prisma.sMSLog.create({
-      data: {
-        to: to.replace(/[^0-9]/g, ''),
-        templateId,
-        content,
-        variables,
-        provider: options.useAlimtalk ? 'kakao' : 'naver',
-        status: 'PENDING',
-        scheduledAt: options.scheduledAt
-      }
-    });
+    return await dispatchMessage(to, { templateId, content, variables }, options);
+  } catch (error) {
+    console.error('SMS 발송 실패:', error);
+    return {
+      success: false,
+      error: '시스템 오류'
+    };
+  }
+}
 
-    let result: SMSResult;
+// 알림 메시지 발송 (알림 타입별 템플릿으로 렌더링한 내용)
+// 알림톡은 템플릿 코드와 변수로 발송하고, 알림톡 설정이 없으면 SMS 로 대체하지 않음
+export async function sendNotificationMessage(
+  to: string,
+  message: {
+    templateId: string;
+    content: string;
+    variables: Record<string, string>;
+  },
+  options: { useAlimtalk?: boolean } = {}
+): Promise<SMSResult> {
+  if (!validatePhoneNumber(to)) {
+    return {
+      success: false,
+      error: '유효하지 않은 전화번호입니다'
+    };
+  }
 
-    // 예약 발송 처리
-    if (options.scheduledAt && options.scheduledAt > new Date()) {
-      await prisma.sMSLog.update({
-        where: { id: smsLog.id },
-        data: { status: 'SCHEDULED' }
-      });
-      
-      return {
-        success: true,
-        messageId: smsLog.id
-      };
-    }
+  if (options.useAlimtalk ? !isAlimtalkConfigured() : !isSMSConfigured()) {
+    return {
+      success: false,
+      error: options.useAlimtalk ? '알림톡 설정이 없습니다' : 'SMS 설정이 없습니다'
+    };
+  }
 
-    // 즉시 발송
-    if (options.useAlimtalk && KAKAO_ALIMTALK_CONFIG.apiKey) {
-      result = await sendKakaoAlimtalk(to, templateId, variables);
-    } else {
-      // SMS 길이에 따라 타입 결정
-      const type = content.length > 90 ? 'LMS' : 'SMS';
-      result = await sendNaverSMS(to, content, type);
+  try {
+    return await dispatchMessage(to, message, options);
+  } catch (error) {
+    console.error('알림 메시지 발송 실패:', error);
+    return {
+      success: false,
+      error: '시스템 오류'
+    };
+  }
+}
+
+// 발송 이력 저장 후 SMS/알림톡 발송
+async function dispatchMessage(
+  to: string,
+  message: {
+    templateId: string;
+    content: string;
+    variables: Record<string, string>;
+  },
+  options: {
+    useAlimtalk?: boolean;
+    scheduledAt?: Date;
+  }
+): Promise<SMSResult> {
+  const { templateId, content, variables } = message;
+
+  // 발송 이력 저장
+  const smsLog = await prisma.sMSLog.create({
+    data: {
+      to: to.replace(/[^0-9]/g, ''),
+      templateId,
+      content,
+      variables,
+      provider: options.useAlimtalk ? 'kakao' : 'naver',
+      status: 'PENDING',
+      scheduledAt: options.scheduledAt
     }
+  });
 
-    // 발송 결과 업데이트
+  let result: SMSResult;
+
+  // 예약 발송 처리
+  if (options.scheduledAt && options.scheduledAt > new Date()) {
     await prisma.sMSLog.update({
       where: { id: smsLog.id },
-      data: {
-        status: result.success ? 'SENT' : 'FAILED',
-        messageId: result.messageId,
-        error: result.error,
-        cost: result.cost || 0,
-        sentAt: result.success ? new Date() : null
-      }
+      data: { status: 'SCHEDULED' }
     });
-
-    return result;
-  } catch (error) {
-    console.error('SMS 발송 실패:', error);
+    
     return {
-      success: false,
-      error: '시스템 오류'
+      success: true,
+      messageId: smsLog.id
     };
   }
+
+  // 즉시 발송
+  if (options.useAlimtalk && KAKAO_ALIMTALK_CONFIG.apiKey) {
+    result = await sendKakaoAlimtalk(to, templateId, variables);
+  } else {
+    // SMS 길이에 따라 타입 결정
+    const type = content.length > 90 ? 'LMS' : 'SMS';
+    result = await sendNaverSMS(to, content, type);
+  }
+
+  // 발송 결과 업데이트
+  await prisma.sMSLog.update({
+    where: { id: smsLog.id },
+    data: {
+      status: result.success ? 'SENT' : 'FAILED',
+      messageId: result.messageId,
+      error: result.error,
+      cost: result.cost || 0,
+      sentAt: result.success ? new Date() : null
+    }
+  });
+
+  return result;
 }
 
+// 인증번호 재발송 대기 시간
+const VERIFICATION_RESEND_INTERVAL = 60 * 1000;
+
 // 인증번호 발송
 export async function sendVerificationCode(phoneNumber: string, userId?: string): Promise<{
   success: boolean;
@@ -317,8 +390,22 @@ export async function sendVerificationCode(phoneNumber: string, userId?: string)
   error?: string;
 }> {
   try {
+    // 문자 발송 남용 방지 (사용자별 1분에 한 번)
+    if (userId) {
+      const recent = await prisma.phoneVerification.findFirst({
+        where: { userId, createdAt: { gt: new Date(Date.now() - VERIFICATION_RESEND_INTERVAL) } },
+        select: { id: true },
+      });
+      if (recent) {
+        return {
+          success: false,
+          error: '잠시 후 다시 요청해주세요'
+        };
+      }
+    }
+
     // 6자리 랜덤 숫자 생성
-    const code = Math.floor(100000 + Math.random() * 900000).toString();
+    const code = crypto.randomInt(100000, 1000000).toString();
     
     // 인증번호 저장 (5분 만료)
     const verification = await prisma.phoneVerification.create({
@@ -359,10 +446,11 @@ export async function sendVerificationCode(phoneNumber: string, userId?: string)
   }
 }
 
-// 인증번호 확인
+// 인증번호 확인 (userId 를 주면 그 사용자가 요청한 인증만 확인)
 export async function verifyPhoneCode(
   verificationId: string,
-  code: string
+  code: string,
+  userId?: string
 ): Promise<{
   success: boolean;
   error?: string;
@@ -372,7 +460,7 @@ export async function verifyPhoneCode(
       where: { id: verificationId }
     });
 
-    if (!verification) {
+    if (!verification || (userId && verification.userId !== userId)) {
       return {
         success: false,
         error: '유효하지 않은 인증 요청입니다'
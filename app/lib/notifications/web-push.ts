@@ -0,0 +1,174 @@
+/**
+ * Web Push 요청 서명/암호화 (VAPID, RFC 8292 / aes128gcm, RFC 8291)
+ * 브라우저 푸시 서비스(FCM, Mozilla autopush, Apple 등)에 라이브러리 없이 요청하기 위한 순수 함수
+ */
+
+import crypto from 'crypto';
+
+export interface PushSubscriptionKeys {
+  /** 브라우저 공개키 (base64url, 비압축 P-256 65바이트) */
+  p256dh: string;
+  /** 인증 비밀값 (base64url, 16바이트) */
+  auth: string;
+}
+
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+}
+
+// 레코드 하나에 모두 담으므로 본문은 이 크기를 넘을 수 없음
+export const PUSH_RECORD_SIZE = 4096;
+
+// 헤더(86) + 구분자(1) + 인증 태그(16)를 뺀 최대 평문 크기
+export const MAX_PUSH_PAYLOAD_SIZE = PUSH_RECORD_SIZE - 86 - 1 - 16;
+
+const VAPID_EXPIRATION_SECONDS = 12 * 60 * 60;
+
+/**
+ * 구독 endpoint 로 허용하는 브라우저 푸시 서비스 호스트 (앞에 . 이 있으면 하위 도메인)
+ * 서버가 endpoint 로 직접 요청하므로 임의 주소를 받으면 내부망 요청(SSRF)에 쓰일 수 있음
+ */
+export const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com', // Chrome, Edge(Chromium), Android
+  'android.googleapis.com',
+  '.push.services.mozilla.com', // Firefox
+  '.notify.windows.com', // 예전 Edge (WNS)
+  '.push.apple.com', // Safari
+];
+
+/**
+ * 알려진 푸시 서비스의 https endpoint 인지 확인
+ */
+export function isAllowedPushEndpoint(endpoint: string) {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.port) return false;
+
+  const host = url.hostname.toLowerCase();
+  return PUSH_SERVICE_HOSTS.some((allowed) =>
+    allowed.startsWith('.') ? host.endsWith(allowed) : host === allowed
+  );
+}
+
+function fromBase64Url(value: string) {
+  return Buffer.from(value, 'base64url');
+}
+
+function hkdf(ikm: Buffer, salt: Buffer, info: Buffer, length: number) {
+  return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+}
+
+/**
+ * VAPID 키 쌍 생성 (base64url)
+ */
+export function generateVapidKeys(): VapidKeys {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: ecdh.getPublicKey().toString('base64url'),
+    privateKey: ecdh.getPrivateKey().toString('base64url'),
+  };
+}
+
+function toPrivateKeyObject(keys: VapidKeys) {
+  const publicKey = fromBase64Url(keys.publicKey);
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04) {
+    throw new Error('VAPID 공개키 형식이 올바르지 않습니다');
+  }
+
+  // 앞자리가 0 인 개인키는 32바이트보다 짧게 저장될 수 있음
+  const privateKey = fromBase64Url(keys.privateKey);
+  if (privateKey.length === 0 || privateKey.length > 32) {
+    throw new Error('VAPID 개인키 형식이 올바르지 않습니다');
+  }
+
+  return crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: Buffer.concat([Buffer.alloc(32 - privateKey.length), privateKey]).toString('base64url'),
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+}
+
+/**
+ * VAPID Authorization 헤더 값
+ * aud 는 푸시 서비스 origin, sub 는 운영자 연락처 (mailto: 또는 https:)
+ */
+export function createVapidAuthorization(
+  endpoint: string,
+  subject: string,
+  keys: VapidKeys,
+  now = new Date()
+) {
+  const header = Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })).toString('base64url');
+  const claims = Buffer.from(
+    JSON.stringify({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(now.getTime() / 1000) + VAPID_EXPIRATION_SECONDS,
+      sub: subject,
+    })
+  ).toString('base64url');
+
+  const unsigned = `${header}.${claims}`;
+  const signature = crypto
+    .sign('sha256', Buffer.from(unsigned), { key: toPrivateKeyObject(keys), dsaEncoding: 'ieee-p1363' })
+    .toString('base64url');
+
+  return `vapid t=${unsigned}.${signature}, k=${keys.publicKey}`;
+}
+
+/**
+ * 푸시 메시지 암호화 (aes128gcm 단일 레코드)
+ * salt/senderPrivateKey 는 테스트에서 결과를 고정할 때만 넘김
+ */
+export function encryptPushPayload(
+  payload: string | Buffer,
+  keys: PushSubscriptionKeys,
+  options: { salt?: Buffer; senderPrivateKey?: Buffer } = {}
+) {
+  const plaintext = typeof payload === 'string' ? Buffer.from(payload) : payload;
+  if (plaintext.length > MAX_PUSH_PAYLOAD_SIZE) {
+    throw new Error(`푸시 메시지가 너무 큽니다 (${plaintext.length}바이트)`);
+  }
+
+  const receiverPublicKey = fromBase64Url(keys.p256dh);
+  const authSecret = fromBase64Url(keys.auth);
+  const salt = options.salt ?? crypto.randomBytes(16);
+
+  const sender = crypto.createECDH('prime256v1');
+  if (options.senderPrivateKey) {
+    sender.setPrivateKey(options.senderPrivateKey);
+  } else {
+    sender.generateKeys();
+  }
+  const senderPublicKey = sender.getPublicKey();
+  const sharedSecret = sender.computeSecret(receiverPublicKey);
+
+  // 공유 비밀 + 인증 비밀 → 입력 키 (RFC 8291 3.3)
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), receiverPublicKey, senderPublicKey]);
+  const ikm = hkdf(sharedSecret, authSecret, keyInfo, 32);
+
+  // 콘텐츠 암호화 키와 nonce (RFC 8188 2.2, 2.3)
+  const contentKey = hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 마지막 레코드 구분자 0x02
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.update(Buffer.from([2])), cipher.final()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(PUSH_RECORD_SIZE, 16);
+  header.writeUInt8(senderPublicKey.length, 20);
+
+  return Buffer.concat([header, senderPublicKey, encrypted, cipher.getAuthTag()]);
+}
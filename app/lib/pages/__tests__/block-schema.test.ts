@@ -0,0 +1,86 @@
+/**
+ * 페이지 빌더 블록 설정 스키마 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BUILTIN_BLOCK_TYPES,
+  getDefaultBlockSettings,
+  getVideoEmbed,
+  isSafeLink,
+  validatePageBlocks,
+} from '../block-schema';
+
+const block = (type: string, settings: Record<string, any>) => ({ id: `block-${type}`, type, order: 0, settings, isActive: true });
+
+describe('getDefaultBlockSettings', () => {
+  it('모든 기본 블록의 기본값은 스키마를 통과', () => {
+    const blocks = BUILTIN_BLOCK_TYPES.map((type) => block(type, getDefaultBlockSettings(type)));
+    expect(validatePageBlocks(blocks).success).toBe(true);
+  });
+
+  it('배열 기본값을 블록끼리 공유하지 않음', () => {
+    expect(getDefaultBlockSettings('faq').items).not.toBe(getDefaultBlockSettings('faq').items);
+  });
+});
+
+describe('validatePageBlocks', () => {
+  it('빠진 설정은 기본값으로 채우고 모르는 키는 버림', () => {
+    const result = validatePageBlocks([block('leaderboard', { period: 'monthly', unknown: 1 })]);
+    expect(result.success && result.blocks[0].settings).toEqual({
+      title: '포인트 랭킹',
+      period: 'monthly',
+      count: 10,
+      showWinRate: false,
+    });
+  });
+
+  it('잘못된 값은 블록 위치와 설정 이름을 알려줌', () => {
+    const result = validatePageBlocks([
+      block('hero', {}),
+      block('image-gallery', { images: [{ url: 'javascript:alert(1)', alt: '', caption: '' }] }),
+    ]);
+    expect(result).toEqual({
+      success: false,
+      message: '2번째 블록(이미지 갤러리)의 설정 "images.0.url" 값이 올바르지 않습니다.',
+    });
+  });
+
+  it('범위를 벗어난 숫자와 선택지에 없는 값을 거부', () => {
+    expect(validatePageBlocks([block('recent-posts', { count: 50 })]).success).toBe(false);
+    expect(validatePageBlocks([block('events', { status: 'CLOSED' })]).success).toBe(false);
+    expect(validatePageBlocks([block('banner', { backgroundColor: 'red' })]).success).toBe(false);
+  });
+
+  it('플러그인 블록은 통과시키고 알 수 없는 타입은 거부', () => {
+    expect(validatePageBlocks([block('example-plugin/notice', { message: 'hi' })]).success).toBe(true);
+    expect(validatePageBlocks([block('unknown', {})]).success).toBe(false);
+  });
+});
+
+describe('getVideoEmbed', () => {
+  it('YouTube/Vimeo 주소를 임베드 주소로 변환', () => {
+    expect(getVideoEmbed('https://www.youtube.com/watch?v=dQw4w9WgXcQ')).toEqual({
+      kind: 'iframe',
+      src: 'https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ',
+    });
+    expect(getVideoEmbed('https://youtu.be/dQw4w9WgXcQ')?.src).toBe('https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ');
+    expect(getVideoEmbed('https://vimeo.com/76979871')?.src).toBe('https://player.vimeo.com/video/76979871');
+  });
+
+  it('동영상 파일은 video, 그 외 주소는 null', () => {
+    expect(getVideoEmbed('https://cdn.example.com/intro.mp4')?.kind).toBe('video');
+    expect(getVideoEmbed('https://example.com/page')).toBeNull();
+    expect(getVideoEmbed('javascript:alert(1)')).toBeNull();
+  });
+});
+
+describe('isSafeLink', () => {
+  it('빈 값, 내부 경로, http(s) URL 만 허용', () => {
+    expect(isSafeLink('')).toBe(true);
+    expect(isSafeLink('/events')).toBe(true);
+    expect(isSafeLink('https://example.com')).toBe(true);
+    expect(isSafeLink('//example.com')).toBe(false);
+    expect(isSafeLink('javascript:alert(1)')).toBe(false);
+  });
+});
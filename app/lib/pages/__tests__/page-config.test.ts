@@ -0,0 +1,48 @@
+/**
+ * 페이지 빌더 페이지 공용 로직 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getPageStatus, normalizePageSlug, parsePageBlocks } from '../page-config';
+
+describe('normalizePageSlug', () => {
+  it('소문자로 바꾸고 공백을 -로 바꿈', () => {
+    expect(normalizePageSlug('  About Us ')).toBe('about-us');
+  });
+
+  it('/로 구분한 하위 경로를 정리', () => {
+    expect(normalizePageSlug('/Company//History/')).toBe('company/history');
+  });
+
+  it('허용하지 않는 문자나 빈 값은 null', () => {
+    expect(normalizePageSlug('회사소개')).toBeNull();
+    expect(normalizePageSlug('../admin')).toBeNull();
+    expect(normalizePageSlug('a--b')).toBeNull();
+    expect(normalizePageSlug(' / ')).toBeNull();
+    expect(normalizePageSlug('a'.repeat(101))).toBeNull();
+  });
+});
+
+describe('parsePageBlocks', () => {
+  it('블록 배열 JSON 파싱', () => {
+    const blocks = [{ id: 'block-1', type: 'hero', order: 0, settings: {}, isActive: true }];
+    expect(parsePageBlocks(JSON.stringify(blocks))).toEqual(blocks);
+  });
+
+  it('형식이 잘못되었으면 빈 배열', () => {
+    expect(parsePageBlocks('{')).toEqual([]);
+    expect(parsePageBlocks('{"a":1}')).toEqual([]);
+    expect(parsePageBlocks(null)).toEqual([]);
+  });
+});
+
+describe('getPageStatus', () => {
+  it('발행본이 없으면 DRAFT', () => {
+    expect(getPageStatus({ config: '[]', publishedConfig: null })).toBe('DRAFT');
+  });
+
+  it('임시저장본과 발행본이 같으면 PUBLISHED, 다르면 CHANGED', () => {
+    expect(getPageStatus({ config: '[]', publishedConfig: '[]' })).toBe('PUBLISHED');
+    expect(getPageStatus({ config: '[{"id":"a"}]', publishedConfig: '[]' })).toBe('CHANGED');
+  });
+});
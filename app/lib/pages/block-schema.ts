@@ -0,0 +1,232 @@
+/**
+ * 페이지 빌더 기본 블록 설정 스키마 (서버/클라이언트 공용)
+ * - 블록 타입별 설정 타입과 기본값을 한곳에서 정의
+ * - 저장할 때 설정 값 검증 (플러그인 블록은 plugin-extensions 의 스키마로 따로 정리)
+ */
+
+import { z } from 'zod';
+import type { LeaderboardPeriod } from '~/lib/points/leaderboard';
+import { isPluginBlockType } from '~/lib/plugins/plugin-extensions';
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/** 빈 값, 사이트 내부 경로, http(s) URL 만 허용 */
+export function isSafeLink(value: string) {
+  if (!value) return true;
+  if (value.startsWith('/')) return !value.startsWith('//');
+  return /^https?:\/\//i.test(value);
+}
+
+const text = (max: number, defaultValue: string) => z.string().max(max).default(defaultValue);
+const link = z.string().max(2000).refine(isSafeLink).default('');
+const color = (defaultValue: string) => z.string().regex(HEX_COLOR).default(defaultValue);
+const count = (min: number, max: number, defaultValue: number) => z.number().int().min(min).max(max).default(defaultValue);
+
+/**
+ * 동영상 주소를 임베드 주소로 변환
+ * YouTube/Vimeo 는 iframe, mp4/webm 파일은 video 태그, 그 외는 null
+ */
+export function getVideoEmbed(url: string): { kind: 'iframe' | 'video'; src: string } | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null;
+
+  const host = parsed.hostname.replace(/^www\.|^m\./, '');
+  const youtubeId =
+    host === 'youtu.be'
+      ? parsed.pathname.slice(1)
+      : host === 'youtube.com'
+        ? parsed.searchParams.get('v') ?? parsed.pathname.match(/^\/(?:embed|shorts)\/([^/]+)/)?.[1]
+        : null;
+  if (youtubeId && /^[\w-]{6,20}$/.test(youtubeId)) {
+    return { kind: 'iframe', src: `https://www.youtube-nocookie.com/embed/${youtubeId}` };
+  }
+
+  const vimeoId = host === 'vimeo.com' ? parsed.pathname.match(/^\/(\d+)/)?.[1] : null;
+  if (vimeoId) {
+    return { kind: 'iframe', src: `https://player.vimeo.com/video/${vimeoId}` };
+  }
+
+  if (/\.(mp4|webm)$/i.test(parsed.pathname)) {
+    return { kind: 'video', src: parsed.toString() };
+  }
+  return null;
+}
+
+const LEADERBOARD_PERIOD_VALUES: [LeaderboardPeriod, ...LeaderboardPeriod[]] = ['all_time', 'monthly', 'weekly', 'daily'];
+
+export const BLOCK_SCHEMAS = {
+  'hero': z.object({
+    title: text(200, '환영합니다'),
+    subtitle: text(500, 'CodeB CMS와 함께 시작하세요'),
+    backgroundImage: link,
+    height: z.enum(['200px', '300px', '400px', '500px', '600px', '70vh', '100vh']).default('400px'),
+    textAlign: z.enum(['left', 'center', 'right']).default('center'),
+  }),
+  'recent-posts': z.object({
+    title: text(200, '최근 게시물'),
+    count: count(1, 12, 6),
+    columns: count(2, 4, 3),
+    showThumbnail: z.boolean().default(true),
+    showExcerpt: z.boolean().default(true),
+    showDate: z.boolean().default(true),
+    showAuthor: z.boolean().default(true),
+  }),
+  'category-grid': z.object({
+    title: text(200, '카테고리'),
+    columns: count(3, 6, 4),
+    showPostCount: z.boolean().default(true),
+    showIcon: z.boolean().default(true),
+  }),
+  'popular-posts': z.object({
+    title: text(200, '인기 게시물'),
+    count: count(1, 10, 5),
+    period: z.enum(['week', 'month', 'all']).default('week'),
+    showThumbnail: z.boolean().default(true),
+    showViewCount: z.boolean().default(true),
+  }),
+  'banner': z.object({
+    content: text(10000, ''),
+    backgroundColor: color('#f3f4f6'),
+    textColor: color('#1f2937'),
+    padding: z.enum(['0.5rem 1rem', '1rem 1.5rem', '1rem', '2rem', '3rem', '4rem']).default('2rem'),
+    link,
+  }),
+  'rich-text': z.object({
+    content: text(50000, '<p>내용을 입력하세요</p>'),
+    width: z.enum(['narrow', 'normal', 'wide']).default('normal'),
+  }),
+  'image-gallery': z.object({
+    title: text(200, ''),
+    images: z
+      .array(
+        z.object({
+          url: z.string().min(1).max(2000).refine(isSafeLink),
+          alt: text(200, ''),
+          caption: text(300, ''),
+        })
+      )
+      .max(30)
+      .default([]),
+    layout: z.enum(['grid', 'carousel']).default('grid'),
+    columns: count(2, 4, 3),
+    autoplay: z.boolean().default(false),
+    interval: count(2, 30, 5), // 초
+  }),
+  'video': z.object({
+    title: text(200, ''),
+    url: z.string().max(2000).refine((value) => !value || getVideoEmbed(value) !== null).default(''),
+    aspectRatio: z.enum(['16:9', '4:3', '1:1']).default('16:9'),
+  }),
+  'vote': z.object({
+    // 비우면 진행 중인 최신 투표
+    topicId: text(50, ''),
+  }),
+  'events': z.object({
+    title: text(200, '진행 중인 이벤트'),
+    status: z.enum(['OPEN', 'UPCOMING', 'ALL']).default('OPEN'),
+    count: count(1, 12, 4),
+    showReward: z.boolean().default(true),
+  }),
+  'leaderboard': z.object({
+    title: text(200, '포인트 랭킹'),
+    period: z.enum(LEADERBOARD_PERIOD_VALUES).default('weekly'),
+    count: count(3, 20, 10),
+    showWinRate: z.boolean().default(false),
+  }),
+  'faq': z.object({
+    title: text(200, '자주 묻는 질문'),
+    items: z
+      .array(
+        z.object({
+          question: z.string().min(1).max(300),
+          answer: z.string().max(5000),
+        })
+      )
+      .max(50)
+      .default([{ question: '질문을 입력하세요', answer: '답변을 입력하세요' }]),
+    allowMultiple: z.boolean().default(false),
+  }),
+  'custom-html': z.object({
+    html: text(50000, ''),
+  }),
+};
+
+export type BuiltinBlockType = keyof typeof BLOCK_SCHEMAS;
+
+export type BlockSettings<T extends BuiltinBlockType> = z.infer<typeof BLOCK_SCHEMAS[T]>;
+
+export const BUILTIN_BLOCK_TYPES = Object.keys(BLOCK_SCHEMAS) as BuiltinBlockType[];
+
+export const BLOCK_LABELS: Record<BuiltinBlockType, string> = {
+  'hero': '히어로 섹션',
+  'recent-posts': '최근 게시물',
+  'category-grid': '카테고리 그리드',
+  'popular-posts': '인기 게시물',
+  'banner': '배너',
+  'rich-text': '텍스트',
+  'image-gallery': '이미지 갤러리',
+  'video': '동영상',
+  'vote': '투표',
+  'events': '이벤트 목록',
+  'leaderboard': '리더보드',
+  'faq': 'FAQ',
+  'custom-html': 'HTML',
+};
+
+export function isBuiltinBlockType(type: string): type is BuiltinBlockType {
+  return Object.prototype.hasOwnProperty.call(BLOCK_SCHEMAS, type);
+}
+
+export function getDefaultBlockSettings<T extends BuiltinBlockType>(type: T): BlockSettings<T> {
+  // 배열 기본값을 블록끼리 공유하지 않도록 복사
+  return structuredClone(BLOCK_SCHEMAS[type].parse({})) as BlockSettings<T>;
+}
+
+/**
+ * 기본 블록 설정 검증
+ * 빠진 설정은 기본값으로 채우고, 스키마에 없는 키는 버림
+ */
+export function validateBlockSettings(type: BuiltinBlockType, settings: unknown) {
+  const result = BLOCK_SCHEMAS[type].safeParse(settings ?? {});
+  if (result.success) {
+    return { success: true as const, settings: result.data as Record<string, unknown> };
+  }
+
+  const path = result.error.issues[0]?.path.join('.') ?? '';
+  return { success: false as const, path };
+}
+
+/**
+ * 페이지 블록 전체 검증
+ * 기본 블록은 스키마로 검증하고, "{플러그인 ID}/{이름}" 형식의 플러그인 블록은 그대로 통과
+ */
+export function validatePageBlocks<T extends { type: string; settings: Record<string, any> }>(blocks: T[]) {
+  const validated: T[] = [];
+
+  for (const [index, block] of blocks.entries()) {
+    if (!isBuiltinBlockType(block.type)) {
+      if (isPluginBlockType(block.type)) {
+        validated.push(block);
+        continue;
+      }
+      return { success: false as const, message: `${index + 1}번째 블록의 타입 "${block.type}"을 알 수 없습니다.` };
+    }
+
+    const result = validateBlockSettings(block.type, block.settings);
+    if (!result.success) {
+      const field = result.path ? ` 설정 "${result.path}"` : ' 설정';
+      return {
+        success: false as const,
+        message: `${index + 1}번째 블록(${BLOCK_LABELS[block.type]})의${field} 값이 올바르지 않습니다.`,
+      };
+    }
+    validated.push({ ...block, settings: result.settings });
+  }
+
+  return { success: true as const, blocks: validated };
+}
@@ -0,0 +1,61 @@
+/**
+ * 페이지 빌더 페이지 공용 로직 (서버/클라이언트 공용)
+ * - 슬러그 정규화, 공개 주소
+ * - 저장된 블록 JSON 파싱
+ * - 임시저장/발행 상태 판정
+ */
+
+import type { BlockConfig } from '~/stores/page-builder.store';
+
+/** 발행된 페이지의 공개 주소 접두사 (/pages/{slug}) */
+export const PAGE_URL_PREFIX = '/pages/';
+
+export const PAGE_SLUG_MAX_LENGTH = 100;
+
+const SEGMENT_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/** DRAFT: 발행 전, PUBLISHED: 발행됨, CHANGED: 발행 후 임시저장된 변경사항 있음 */
+export type PageStatus = 'DRAFT' | 'PUBLISHED' | 'CHANGED';
+
+/**
+ * 슬러그 정규화
+ * 소문자로 바꾸고 공백은 -로 바꿈. "company/about" 처럼 /로 구분한 하위 경로 허용
+ * 영문 소문자, 숫자, - 이외의 문자가 있으면 null
+ */
+export function normalizePageSlug(input: string): string | null {
+  const segments = input
+    .trim()
+    .toLowerCase()
+    .split('/')
+    .map((segment) => segment.trim().replace(/\s+/g, '-'))
+    .filter(Boolean);
+
+  if (segments.length === 0 || !segments.every((segment) => SEGMENT_PATTERN.test(segment))) {
+    return null;
+  }
+
+  const slug = segments.join('/');
+  return slug.length <= PAGE_SLUG_MAX_LENGTH ? slug : null;
+}
+
+export function getPageUrl(slug: string) {
+  return `${PAGE_URL_PREFIX}${slug}`;
+}
+
+/**
+ * 저장된 블록 설정 JSON 파싱 (형식이 잘못되었으면 빈 페이지)
+ */
+export function parsePageBlocks(value: unknown): BlockConfig[] {
+  if (typeof value !== 'string') return [];
+  try {
+    const blocks = JSON.parse(value);
+    return Array.isArray(blocks) ? blocks : [];
+  } catch {
+    return [];
+  }
+}
+
+export function getPageStatus(page: { config: string; publishedConfig: string | null }): PageStatus {
+  if (page.publishedConfig === null) return 'DRAFT';
+  return page.publishedConfig === page.config ? 'PUBLISHED' : 'CHANGED';
+}
@@ -0,0 +1,405 @@
+/**
+ * 페이지 빌더 페이지 서버 로직
+ * - 페이지 생성/설정 변경/삭제
+ * - 레이아웃 임시저장과 발행 (발행 전까지 공개 페이지는 이전 발행본 유지)
+ * - 서명 링크로 임시저장본 미리보기
+ */
+
+import { Prisma } from '@prisma/client';
+import { db } from '~/lib/db.server';
+import { syncPageFileReferences } from '~/lib/media/media.server';
+import { withTotalPool } from '~/lib/events/event-settlement.server';
+import { getSigningSecret } from '~/lib/storage/storage.server';
+import { createUrlSignature, verifyUrlSignature } from '~/lib/storage/storage-key';
+import { ensurePluginsLoaded, getPluginManager } from '~/lib/architecture/plugin-system.server';
+import { isPluginBlockType, normalizeBlockSettings } from '~/lib/plugins/plugin-extensions';
+import { sanitizeCustomHTML, sanitizeHTML } from '~/lib/security/validation.server';
+import { LEADERBOARD_PERIODS, type LeaderboardPeriod } from '~/lib/points/leaderboard';
+import type { BlockConfig } from '~/stores/page-builder.store';
+import { getPageUrl, normalizePageSlug, parsePageBlocks } from './page-config';
+import { validatePageBlocks } from './block-schema';
+
+const PREVIEW_TTL = 60 * 60; // 1시간
+
+export interface PageSettingsInput {
+  title: string;
+  slug: string;
+  seoTitle?: string | null;
+  seoDescription?: string | null;
+}
+
+function isSlugConflict(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+function checkSettings(input: PageSettingsInput) {
+  const title = input.title.trim();
+  if (!title) {
+    return { error: '페이지 제목을 입력하세요.' } as const;
+  }
+
+  const slug = normalizePageSlug(input.slug);
+  if (!slug) {
+    return { error: '주소는 영문 소문자, 숫자, -와 /만 사용할 수 있습니다.' } as const;
+  }
+
+  return {
+    data: {
+      title,
+      slug,
+      seoTitle: input.seoTitle?.trim() || null,
+      seoDescription: input.seoDescription?.trim() || null,
+    },
+  } as const;
+}
+
+export async function listPages() {
+  return db.pageConfig.findMany({
+    orderBy: { updatedAt: 'desc' },
+  });
+}
+
+export async function getPage(id: string) {
+  return db.pageConfig.findUnique({ where: { id } });
+}
+
+export async function createPage(input: PageSettingsInput) {
+  const checked = checkSettings(input);
+  if ('error' in checked) {
+    return { success: false as const, message: checked.error };
+  }
+
+  try {
+    const page = await db.pageConfig.create({
+      data: { ...checked.data, config: '[]' },
+    });
+    return { success: true as const, page };
+  } catch (error) {
+    if (isSlugConflict(error)) {
+      return { success: false as const, message: '이미 사용 중인 주소입니다.' };
+    }
+    throw error;
+  }
+}
+
+/**
+ * 제목/주소/SEO 설정 변경 (바로 반영)
+ */
+export async function updatePageSettings(id: string, input: PageSettingsInput) {
+  const checked = checkSettings(input);
+  if ('error' in checked) {
+    return { success: false as const, message: checked.error };
+  }
+
+  try {
+    const page = await db.pageConfig.update({ where: { id }, data: checked.data });
+    return { success: true as const, page };
+  } catch (error) {
+    if (isSlugConflict(error)) {
+      return { success: false as const, message: '이미 사용 중인 주소입니다.' };
+    }
+    throw error;
+  }
+}
+
+/**
+ * 플러그인 블록 설정을 등록된 스키마에 맞게 정리 (비활성 플러그인의 블록은 그대로 보관)
+ */
+async function normalizePluginBlocks(blocks: BlockConfig[]): Promise<BlockConfig[]> {
+  await ensurePluginsLoaded();
+  const pluginBlocks = getPluginManager().getBlockTypes();
+
+  return blocks.map((block) => {
+    if (!isPluginBlockType(block.type)) return block;
+    const definition = pluginBlocks.find((pluginBlock) => pluginBlock.type === block.type);
+    if (!definition) return block;
+    return { ...block, settings: normalizeBlockSettings(definition.settings, block.settings) };
+  });
+}
+
+/**
+ * HTML 설정 정화 (텍스트 블록은 게시글과 같은 규칙, 배너/HTML 블록은 레이아웃 태그 허용)
+ */
+function sanitizeBlock(block: BlockConfig): BlockConfig {
+  switch (block.type) {
+    case 'rich-text':
+      return { ...block, settings: { ...block.settings, content: sanitizeHTML(block.settings.content) } };
+    case 'banner':
+      return { ...block, settings: { ...block.settings, content: sanitizeCustomHTML(block.settings.content) } };
+    case 'custom-html':
+      return { ...block, settings: { ...block.settings, html: sanitizeCustomHTML(block.settings.html) } };
+    default:
+      return block;
+  }
+}
+
+/**
+ * 레이아웃 임시저장 (공개 페이지에는 발행할 때 반영)
+ * 기본 블록 설정은 스키마로 검증하고, 잘못된 값이 있으면 저장하지 않음
+ */
+export async function savePageDraft(id: string, blocks: BlockConfig[]) {
+  const validated = validatePageBlocks(blocks);
+  if (!validated.success) {
+    return { success: false as const, message: validated.message };
+  }
+
+  const config = JSON.stringify(await normalizePluginBlocks(validated.blocks.map(sanitizeBlock)));
+
+  const page = await db.$transaction(async (tx) => {
+    const updated = await tx.pageConfig.update({ where: { id }, data: { config } });
+
+    // 임시저장본과 발행본 양쪽의 이미지 URL 을 미디어 사용처로 기록
+    await syncPageFileReferences(tx, updated.id, [
+      parsePageBlocks(updated.config),
+      parsePageBlocks(updated.publishedConfig),
+    ]);
+    return updated;
+  });
+
+  return { success: true as const, page };
+}
+
+/**
+ * 임시저장된 레이아웃 발행
+ */
+export async function publishPage(id: string) {
+  const page = await db.pageConfig.findUnique({ where: { id }, select: { config: true } });
+  if (!page) {
+    return { success: false as const, message: '페이지를 찾을 수 없습니다.' };
+  }
+
+  const published = await db.$transaction(async (tx) => {
+    const updated = await tx.pageConfig.update({
+      where: { id },
+      data: { publishedConfig: page.config, publishedAt: new Date() },
+    });
+    await syncPageFileReferences(tx, updated.id, parsePageBlocks(updated.config));
+    return updated;
+  });
+
+  return { success: true as const, page: published };
+}
+
+/**
+ * 발행 취소 (임시저장본은 유지)
+ */
+export async function unpublishPage(id: string) {
+  return db.$transaction(async (tx) => {
+    const page = await tx.pageConfig.update({
+      where: { id },
+      data: { publishedConfig: null, publishedAt: null },
+    });
+    await syncPageFileReferences(tx, page.id, parsePageBlocks(page.config));
+    return page;
+  });
+}
+
+export async function deletePage(id: string) {
+  await db.$transaction([
+    db.fileReference.deleteMany({ where: { sourceType: 'PAGE', sourceId: id } }),
+    db.pageConfig.delete({ where: { id } }),
+  ]);
+}
+
+function previewKey(pageId: string) {
+  return `page-preview:${pageId}`;
+}
+
+/**
+ * 임시저장본 미리보기 서명 링크 (로그인하지 않은 사람에게도 공유 가능)
+ */
+export function createPreviewUrl(page: { id: string; slug: string }, now: Date = new Date()) {
+  const expires = Math.floor(now.getTime() / 1000) + PREVIEW_TTL;
+  const signature = createUrlSignature(getSigningSecret(), previewKey(page.id), expires);
+  return `${getPageUrl(page.slug)}?preview=1&expires=${expires}&signature=${signature}`;
+}
+
+/**
+ * 공개 페이지 조회
+ * 서명이 올바른 미리보기 요청이면 임시저장본, 아니면 발행본 (발행되지 않았으면 null)
+ */
+export async function getPublicPage(slug: string, searchParams: URLSearchParams) {
+  const page = await db.pageConfig.findUnique({ where: { slug } });
+  if (!page) return null;
+
+  const isPreview =
+    searchParams.has('preview') &&
+    verifyUrlSignature(
+      getSigningSecret(),
+      previewKey(page.id),
+      searchParams.get('expires'),
+      searchParams.get('signature')
+    );
+
+  if (isPreview) {
+    return { page, blocks: parsePageBlocks(page.config), isPreview: true };
+  }
+  if (page.publishedConfig === null) return null;
+
+  return { page, blocks: parsePageBlocks(page.publishedConfig), isPreview: false };
+}
+
+/**
+ * 진행 중인 투표 주제와 찬반 집계
+ */
+async function getActiveVoteTopics() {
+  const now = new Date();
+  const topics = await db.voteTopic.findMany({
+    where: {
+      isActive: true,
+      startDate: { lte: now },
+      OR: [{ endDate: null }, { endDate: { gte: now } }],
+    },
+    orderBy: { createdAt: 'desc' },
+    take: 20,
+  });
+
+  return Promise.all(
+    topics.map(async (topic) => {
+      const [likeCount, dislikeCount] = await Promise.all([
+        db.vote.count({ where: { topicId: topic.id, voteType: 'LIKE' } }),
+        db.vote.count({ where: { topicId: topic.id, voteType: 'DISLIKE' } }),
+      ]);
+      return { topicId: topic.id, title: topic.title, description: topic.description, likeCount, dislikeCount };
+    })
+  );
+}
+
+/**
+ * 진행중/예정 이벤트 (마감 임박 순)
+ */
+async function getActiveEvents() {
+  const events = await db.participationEvent.findMany({
+    where: { isPublished: true, status: { in: ['OPEN', 'UPCOMING'] } },
+    orderBy: [{ status: 'desc' }, { endsAt: 'asc' }], // 진행중(OPEN) 먼저
+    take: 24,
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      startsAt: true,
+      endsAt: true,
+      pointCost: true,
+      rewardPool: true,
+      totalParticipants: true,
+      imageUrl: true,
+    },
+  });
+
+  return (await withTotalPool(events)).map((event) => ({
+    ...event,
+    startsAt: event.startsAt.toISOString(),
+    endsAt: event.endsAt.toISOString(),
+  }));
+}
+
+/**
+ * 기간별 리더보드 상위 20명
+ */
+async function getLeaderboards(periods: LeaderboardPeriod[]) {
+  const entries = await Promise.all(
+    periods.map((period) =>
+      db.leaderboardEntry.findMany({
+        where: { period },
+        orderBy: { rank: 'asc' },
+        take: 20,
+        select: {
+          rank: true,
+          points: true,
+          wins: true,
+          winRate: true,
+          user: { select: { username: true, name: true } },
+        },
+      })
+    )
+  );
+
+  return Object.fromEntries(periods.map((period, index) => [period, entries[index]])) as Partial<
+    Record<LeaderboardPeriod, (typeof entries)[number]>
+  >;
+}
+
+/**
+ * 블록 렌더링에 필요한 데이터
+ * 블록 목록을 넘기면 해당 블록이 쓰는 투표/이벤트/리더보드만 조회 (편집기는 전체 조회)
+ */
+export async function getPageBlockData(blocks?: BlockConfig[]) {
+  const uses = (type: BlockConfig['type']) => !blocks || blocks.some((block) => block.isActive && block.type === type);
+  const leaderboardPeriods = blocks
+    ? LEADERBOARD_PERIODS.filter((period) =>
+        blocks.some((block) => block.isActive && block.type === 'leaderboard' && block.settings.period === period)
+      )
+    : LEADERBOARD_PERIODS;
+
+  const [voteTopics, events, leaderboards] = await Promise.all([
+    uses('vote') ? getActiveVoteTopics() : [],
+    uses('events') ? getActiveEvents() : [],
+    leaderboardPeriods.length > 0 ? getLeaderboards(leaderboardPeriods) : {},
+  ]);
+
+  const [posts, categories, popularPosts] = await Promise.all([
+    db.post.findMany({
+      take: 10,
+      orderBy: { publishedAt: 'desc' },
+      where: { isPublished: true },
+      include: {
+        author: true,
+        menu: true,
+      },
+    }),
+    db.menu.findMany({
+      where: { isActive: true },
+      include: {
+        _count: {
+          select: { posts: true },
+        },
+      },
+    }),
+    db.post.findMany({
+      take: 10,
+      orderBy: { views: 'desc' },
+      where: { isPublished: true },
+      include: {
+        author: true,
+      },
+    }),
+  ]);
+
+  return {
+    posts: posts.map(post => ({
+      id: post.id,
+      title: post.title,
+      slug: post.slug,
+      excerpt: post.excerpt,
+      thumbnail: undefined, // thumbnail 필드가 없으므로
+      publishedAt: post.publishedAt?.toISOString(),
+      viewCount: post.views,
+      author: {
+        name: post.author.name || post.author.email,
+      },
+      category: post.menu ? {
+        name: post.menu.name,
+        slug: post.menu.slug,
+      } : undefined,
+    })),
+    categories: categories.map(cat => ({
+      id: cat.id,
+      name: cat.name,
+      slug: cat.slug,
+      description: cat.description,
+      icon: cat.icon,
+      postCount: cat._count.posts,
+    })),
+    popularPosts: popularPosts.map(post => ({
+      id: post.id,
+      title: post.title,
+      slug: post.slug,
+      thumbnail: undefined,
+      viewCount: post.views,
+      publishedAt: post.publishedAt?.toISOString(),
+    })),
+    voteTopics,
+    events,
+    leaderboards,
+  };
+}
@@ -3,6 +3,7 @@
 import crypto from 'crypto';
 import { prisma } from '../db.server';
 import { sendSMS } from '../notifications/sms.server';
+import { triggerWebhookEvent } from '../webhooks/webhook.server';
 
 // TossPayments 설정
 const TOSS_CONFIG = {
@@ -234,6 +235,19 @@ async function handlePaymentApproved(event: TossWebhookEvent): Promise<void> {
       }
     }
 
+    // 외부 웹훅 전송 (실패해도 결제 처리는 계속)
+    await triggerWebhookEvent('payment.approved', {
+      payment: {
+        paymentKey: data.paymentKey,
+        orderId: data.orderId,
+        orderName: data.orderName,
+        method: data.method,
+        totalAmount: data.totalAmount,
+        approvedAt: data.approvedAt ?? new Date().toISOString(),
+        userId: payment.order.user.id,
+      },
+    }).catch((error) => console.error('결제 승인 웹훅 전송 실패:', error));
+
     // 결제 완료 알림 발송
     if (payment.order.user.phone) {
       await sendSMS(
@@ -361,6 +361,7 @@ export async function invalidateUserPointsCache(userId: string) {
 export async function invalidateLeaderboardCache() {
   const periods = ['all_time', 'monthly', 'weekly', 'daily'];
   await cache.invalidate(periods.map(p => CACHE_KEYS.LEADERBOARD(p)));
+  await cache.invalidatePattern('userrank:*');
 }
 
 // ============================================
@@ -0,0 +1,130 @@
+/**
+ * 플러그인 확장 지점 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  matchRoutePath,
+  normalizeRoutePath,
+  isAllowedMenuHref,
+  isPluginBlockType,
+  getBlockDefinitionError,
+  normalizeBlockSettings,
+} from '../plugin-extensions';
+import type { PluginBlockSetting } from '../plugin-extensions';
+
+const settings: PluginBlockSetting[] = [
+  { key: 'message', label: '메시지', type: 'text', default: '안녕하세요' },
+  { key: 'count', label: '개수', type: 'number', default: 5, min: 1, max: 10 },
+  { key: 'visible', label: '표시', type: 'boolean', default: true },
+  { key: 'color', label: '색상', type: 'color', default: '#ffffff' },
+  {
+    key: 'tone',
+    label: '스타일',
+    type: 'select',
+    default: 'info',
+    options: [
+      { value: 'info', label: '안내' },
+      { value: 'warning', label: '주의' },
+    ],
+  },
+];
+
+describe('plugin-extensions', () => {
+  describe('matchRoutePath', () => {
+    it('정적 경로는 정확히 일치해야 함', () => {
+      expect(matchRoutePath('/stats', '/stats')).toEqual({});
+      expect(matchRoutePath('/stats', '/stats/')).toEqual({});
+      expect(matchRoutePath('/stats', '/stats/daily')).toBeNull();
+      expect(matchRoutePath('/stats', '/other')).toBeNull();
+    });
+
+    it(':name 파라미터를 추출해야 함', () => {
+      expect(matchRoutePath('/posts/:id', '/posts/%ED%95%9C')).toEqual({ id: '한' });
+      expect(matchRoutePath('/posts/:id', '/posts')).toBeNull();
+    });
+
+    it('마지막 * 는 나머지 경로 전체와 일치해야 함', () => {
+      expect(matchRoutePath('/files/*', '/files/a/b/c')).toEqual({ '*': 'a/b/c' });
+      expect(matchRoutePath('/files/*', '/files')).toEqual({ '*': '' });
+    });
+
+    it('경로를 정규화해야 함', () => {
+      expect(normalizeRoutePath('stats//daily/')).toBe('/stats/daily');
+      expect(normalizeRoutePath('')).toBe('/');
+    });
+  });
+
+  describe('isAllowedMenuHref', () => {
+    it('내부 경로와 http(s) URL 만 허용해야 함', () => {
+      expect(isAllowedMenuHref('/api/plugins/example-plugin/stats')).toBe(true);
+      expect(isAllowedMenuHref('https://example.com')).toBe(true);
+      expect(isAllowedMenuHref('//evil.example.com')).toBe(false);
+      expect(isAllowedMenuHref('javascript:alert(1)')).toBe(false);
+    });
+  });
+
+  describe('isPluginBlockType', () => {
+    it('"{플러그인 ID}/{이름}" 형식만 플러그인 블록으로 판단해야 함', () => {
+      expect(isPluginBlockType('example-plugin/notice')).toBe(true);
+      expect(isPluginBlockType('banner')).toBe(false);
+      expect(isPluginBlockType('a/b/c')).toBe(false);
+    });
+  });
+
+  describe('getBlockDefinitionError', () => {
+    it('올바른 정의는 null 을 반환해야 함', () => {
+      expect(getBlockDefinitionError({ name: 'notice', label: '알림', settings })).toBeNull();
+    });
+
+    it('잘못된 이름, 중복 키, 선택지에 없는 기본값을 거부해야 함', () => {
+      expect(getBlockDefinitionError({ name: 'Notice', label: '알림', settings: [] })).not.toBeNull();
+      expect(
+        getBlockDefinitionError({ name: 'notice', label: '알림', settings: [settings[0], settings[0]] })
+      ).not.toBeNull();
+      expect(
+        getBlockDefinitionError({
+          name: 'notice',
+          label: '알림',
+          settings: [{ ...settings[4], default: 'danger' }],
+        })
+      ).not.toBeNull();
+    });
+  });
+
+  describe('normalizeBlockSettings', () => {
+    it('값이 없으면 기본값을 사용해야 함', () => {
+      expect(normalizeBlockSettings(settings, undefined)).toEqual({
+        message: '안녕하세요',
+        count: 5,
+        visible: true,
+        color: '#ffffff',
+        tone: 'info',
+      });
+    });
+
+    it('타입이 맞지 않는 값은 기본값으로, 범위를 벗어난 숫자는 경계값으로 바꿔야 함', () => {
+      const result = normalizeBlockSettings(settings, {
+        message: 123,
+        count: '50',
+        visible: 'yes',
+        color: 'red',
+        tone: 'danger',
+        extra: 'ignored',
+      });
+
+      expect(result).toEqual({
+        message: '안녕하세요',
+        count: 10,
+        visible: true,
+        color: '#ffffff',
+        tone: 'info',
+      });
+    });
+
+    it('올바른 값은 유지해야 함', () => {
+      const raw = { message: '공지', count: 3, visible: false, color: '#112233', tone: 'warning' };
+      expect(normalizeBlockSettings(settings, raw)).toEqual(raw);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * 플러그인 확장 지점 (서버/클라이언트 공용)
+ * - 라우트: /api/plugins/{플러그인 ID}/{경로} 아래에 마운트되는 API 엔드포인트
+ * - 관리자 메뉴: 관리자 사이드바의 "플러그인" 영역에 추가되는 링크
+ * - 페이지 빌더 블록: "{플러그인 ID}/{이름}" 타입의 블록과 설정 스키마
+ */
+
+export const PLUGIN_ROUTE_PREFIX = '/api/plugins/';
+
+export const PLUGIN_ROUTE_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+export type PluginRouteMethod = typeof PLUGIN_ROUTE_METHODS[number];
+
+/** public: 누구나, user: 로그인 사용자, admin: 관리자 (기본값) */
+export type PluginRouteAccess = 'public' | 'user' | 'admin';
+
+export interface PluginAdminMenuItem {
+  title: string;
+  /** 사이트 내부 경로(/로 시작) 또는 http(s) URL */
+  href: string;
+  description?: string;
+}
+
+export type PluginBlockSettingType = 'text' | 'textarea' | 'number' | 'boolean' | 'color' | 'select';
+
+export interface PluginBlockSetting {
+  key: string;
+  label: string;
+  type: PluginBlockSettingType;
+  default: string | number | boolean;
+  /** select 타입의 선택지 */
+  options?: { value: string; label: string }[];
+  min?: number;
+  max?: number;
+}
+
+export interface PluginBlockDefinition {
+  /** 플러그인 안에서의 블록 이름 (영문 소문자, 숫자, -) */
+  name: string;
+  label: string;
+  description?: string;
+  settings: PluginBlockSetting[];
+}
+
+export type PluginBlockSettings = Record<string, string | number | boolean>;
+
+/**
+ * 플러그인 블록 렌더러 props
+ * 렌더러는 app/plugins/{플러그인 ID}/blocks.tsx 에서 blocks 객체로 내보냄 ({ [블록 이름]: 컴포넌트 })
+ */
+export interface PluginBlockRendererProps {
+  settings: PluginBlockSettings;
+  isEditing: boolean;
+}
+
+/** 페이지 빌더에 전달되는 플러그인 블록 (type 은 "{플러그인 ID}/{이름}") */
+export interface PluginBlockType extends PluginBlockDefinition {
+  type: `${string}/${string}`;
+  pluginId: string;
+}
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+export function isPluginBlockType(type: string): type is `${string}/${string}` {
+  const [pluginId, name, ...rest] = type.split('/');
+  return rest.length === 0 && !!pluginId && !!name && NAME_PATTERN.test(name);
+}
+
+/**
+ * 라우트 경로 정규화 (앞뒤 / 정리, 빈 경로는 /)
+ */
+export function normalizeRoutePath(path: string) {
+  const trimmed = path.split('/').filter(Boolean).join('/');
+  return `/${trimmed}`;
+}
+
+/**
+ * 라우트 패턴 매칭
+ * :name 은 한 세그먼트, 마지막 * 는 나머지 경로 전체(params['*'])
+ * 일치하지 않으면 null
+ */
+export function matchRoutePath(pattern: string, path: string): Record<string, string> | null {
+  const patternSegments = normalizeRoutePath(pattern).split('/').filter(Boolean);
+  const pathSegments = normalizeRoutePath(path).split('/').filter(Boolean);
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const segment = patternSegments[i];
+
+    if (segment === '*' && i === patternSegments.length - 1) {
+      params['*'] = pathSegments.slice(i).join('/');
+      return params;
+    }
+
+    const value = pathSegments[i];
+    if (value === undefined) return null;
+
+    if (segment.startsWith(':')) {
+      params[segment.slice(1)] = decodeURIComponent(value);
+    } else if (segment !== value) {
+      return null;
+    }
+  }
+
+  return patternSegments.length === pathSegments.length ? params : null;
+}
+
+/**
+ * 관리자 메뉴 링크 검증 (사이트 내부 경로 또는 http(s) URL 만 허용)
+ */
+export function isAllowedMenuHref(href: string) {
+  if (href.startsWith('/')) return !href.startsWith('//');
+  return /^https?:\/\//i.test(href);
+}
+
+/**
+ * 블록 정의 검증 (잘못되면 오류 메시지, 정상이면 null)
+ */
+export function getBlockDefinitionError(definition: PluginBlockDefinition): string | null {
+  if (!NAME_PATTERN.test(definition.name)) {
+    return `블록 이름 "${definition.name}"은 영문 소문자, 숫자, -만 사용할 수 있습니다`;
+  }
+
+  const keys = new Set<string>();
+  for (const setting of definition.settings) {
+    if (keys.has(setting.key)) {
+      return `블록 "${definition.name}"의 설정 키 "${setting.key}"가 중복되었습니다`;
+    }
+    keys.add(setting.key);
+
+    if (setting.type === 'select' && !setting.options?.some((option) => option.value === setting.default)) {
+      return `블록 "${definition.name}"의 설정 "${setting.key}" 기본값이 선택지에 없습니다`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 스키마 기본값으로 블록 설정 생성
+ */
+export function getDefaultBlockSettings(settings: PluginBlockSetting[]): PluginBlockSettings {
+  return Object.fromEntries(settings.map((setting) => [setting.key, setting.default]));
+}
+
+/**
+ * 저장된 블록 설정을 스키마에 맞게 정리
+ * 스키마에 없는 키는 버리고, 타입이 맞지 않거나 범위를 벗어난 값은 기본값/경계값으로 바꿈
+ */
+export function normalizeBlockSettings(
+  settings: PluginBlockSetting[],
+  raw: Record<string, unknown> | null | undefined
+): PluginBlockSettings {
+  const result: PluginBlockSettings = {};
+
+  for (const setting of settings) {
+    const value = raw?.[setting.key];
+
+    switch (setting.type) {
+      case 'number': {
+        const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+        if (!Number.isFinite(number)) {
+          result[setting.key] = setting.default;
+          break;
+        }
+        result[setting.key] = Math.min(setting.max ?? Infinity, Math.max(setting.min ?? -Infinity, number));
+        break;
+      }
+      case 'boolean':
+        result[setting.key] = typeof value === 'boolean' ? value : setting.default;
+        break;
+      case 'select':
+        result[setting.key] = setting.options?.some((option) => option.value === value)
+          ? (value as string)
+          : setting.default;
+        break;
+      case 'color':
+        result[setting.key] = typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value : setting.default;
+        break;
+      default:
+        result[setting.key] = typeof value === 'string' ? value : setting.default;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,91 @@
+/**
+ * 리더보드 집계 규칙 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatPeriodLabel,
+  getClosedWindows,
+  getPeriodWindow,
+  getPreviousWindow,
+  getWindowByKey,
+  rankStandings,
+} from '../leaderboard';
+
+// 2026-10-19 (월) KST 00:30
+const now = new Date('2026-10-18T15:30:00Z');
+
+describe('getPeriodWindow', () => {
+  it('일간 구간은 KST 자정 기준이어야 함', () => {
+    const window = getPeriodWindow('daily', now);
+    expect(window.key).toBe('2026-10-19');
+    expect(window.start?.toISOString()).toBe('2026-10-18T15:00:00.000Z');
+    expect(window.end?.toISOString()).toBe('2026-10-19T15:00:00.000Z');
+  });
+
+  it('주간 구간은 월요일에 시작해야 함', () => {
+    expect(getPeriodWindow('weekly', now).key).toBe('2026-10-19');
+    // 2026-10-18 (일) KST 23:00 은 지난주
+    expect(getPeriodWindow('weekly', new Date('2026-10-18T14:00:00Z')).key).toBe('2026-10-12');
+  });
+
+  it('월간 구간은 KST 1일 0시부터 다음 달 1일 0시까지여야 함', () => {
+    const window = getPeriodWindow('monthly', new Date('2026-09-30T15:30:00Z'));
+    expect(window.key).toBe('2026-10');
+    expect(window.start?.toISOString()).toBe('2026-09-30T15:00:00.000Z');
+    expect(window.end?.toISOString()).toBe('2026-10-31T15:00:00.000Z');
+  });
+
+  it('전체 기간은 경계가 없어야 함', () => {
+    expect(getPeriodWindow('all_time', now)).toEqual({ period: 'all_time', key: 'all', start: null, end: null });
+  });
+});
+
+describe('getPreviousWindow / getWindowByKey', () => {
+  it('직전 구간을 반환해야 함', () => {
+    expect(getPreviousWindow('daily', now).key).toBe('2026-10-18');
+    expect(getPreviousWindow('weekly', now).key).toBe('2026-10-12');
+    expect(getPreviousWindow('monthly', now).key).toBe('2026-09');
+  });
+
+  it('since 이후 마감된 구간을 모두 반환해야 함', () => {
+    // 2026-10-15 (목) KST 낮
+    const since = new Date('2026-10-15T03:00:00Z');
+    expect(getClosedWindows('daily', since, now).map((w) => w.key)).toEqual([
+      '2026-10-18',
+      '2026-10-17',
+      '2026-10-16',
+      '2026-10-15',
+    ]);
+    expect(getClosedWindows('weekly', since, now).map((w) => w.key)).toEqual(['2026-10-12']);
+    // 기록이 직전 구간 이후에만 있어도 직전 구간은 포함
+    expect(getClosedWindows('monthly', now, now).map((w) => w.key)).toEqual(['2026-09']);
+  });
+
+  it('키로 구간을 복원하고 잘못된 키는 거부해야 함', () => {
+    expect(getWindowByKey('weekly', '2026-10-12')?.start?.toISOString()).toBe('2026-10-11T15:00:00.000Z');
+    expect(getWindowByKey('weekly', '2026-10-13')).toBeNull(); // 월요일이 아님
+    expect(getWindowByKey('monthly', '2026-13')).toBeNull();
+    expect(getWindowByKey('daily', 'abc')).toBeNull();
+  });
+
+  it('구간 라벨을 만들어야 함', () => {
+    expect(formatPeriodLabel(getPeriodWindow('monthly', now))).toBe('2026년 10월');
+    expect(formatPeriodLabel(getPeriodWindow('weekly', now))).toBe('2026년 10월 19일 주간');
+  });
+});
+
+describe('rankStandings', () => {
+  it('포인트, 승리 수 순으로 순위를 매기고 0 포인트는 제외해야 함', () => {
+    const standings = rankStandings([
+      { userId: 'a', points: 100, wins: 1, losses: 1 },
+      { userId: 'b', points: 300, wins: 0, losses: 0 },
+      { userId: 'c', points: 100, wins: 3, losses: 1 },
+      { userId: 'd', points: 0, wins: 2, losses: 0 },
+    ]);
+
+    expect(standings.map((s) => [s.userId, s.rank])).toEqual([['b', 1], ['c', 2], ['a', 3]]);
+    expect(standings[1].winRate).toBe(75);
+    expect(standings[0].winRate).toBe(0);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * 포인트 원장 대사 규칙 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { countsTowardLifetime, reconcileLedger, type LedgerEntry } from '../point-ledger';
+
+const account = { id: 'up1', userId: 'u1', balance: 120, lifetime: 110 };
+
+const entries: LedgerEntry[] = [
+  { id: 't1', type: 'EARN_SIGNUP', amount: 100, balance: 100 },
+  { id: 't2', type: 'EARN_CHECKIN', amount: 10, balance: 110 },
+  { id: 't3', type: 'TRANSFER_IN', amount: 30, balance: 140 },
+  { id: 't4', type: 'SPEND_EVENT', amount: -20, balance: 120 },
+];
+
+describe('countsTowardLifetime', () => {
+  it('획득 거래만 누적에 포함해야 함', () => {
+    expect(countsTowardLifetime('EARN_WIN', 50)).toBe(true);
+    expect(countsTowardLifetime('TRANSFER_IN', 50)).toBe(false);
+    expect(countsTowardLifetime('REFUND', 50)).toBe(false);
+    expect(countsTowardLifetime('SPEND_EVENT', -50)).toBe(false);
+  });
+
+  it('획득 회수 거래는 누적에서 차감해야 함', () => {
+    expect(countsTowardLifetime('SETTLE_REVERSAL', -50)).toBe(true);
+    expect(countsTowardLifetime('ADMIN_REVOKE', -50)).toBe(true);
+  });
+});
+
+describe('reconcileLedger', () => {
+  it('일치하면 null 을 반환해야 함', () => {
+    expect(reconcileLedger(account, entries)).toBeNull();
+  });
+
+  it('잔액 불일치를 보고해야 함', () => {
+    const drift = reconcileLedger({ ...account, balance: 150 }, entries);
+    expect(drift).toMatchObject({ balance: 150, ledgerBalance: 120, mismatches: [] });
+  });
+
+  it('누적 포인트 불일치를 보고해야 함', () => {
+    const drift = reconcileLedger({ ...account, lifetime: 140 }, entries);
+    expect(drift).toMatchObject({ lifetime: 140, ledgerLifetime: 110 });
+  });
+
+  it('거래 후 잔액이 잘못 기록된 거래 ID 를 보고해야 함', () => {
+    const broken = entries.map((e) => (e.id === 't2' ? { ...e, balance: 120 } : e));
+    const drift = reconcileLedger(account, broken);
+    expect(drift?.mismatches).toEqual([{ transactionId: 't2', expected: 110, stored: 120 }]);
+  });
+
+  it('조정 거래 이전의 불일치는 보고하지 않아야 함', () => {
+    const broken = entries.map((e) => (e.id === 't2' ? { ...e, balance: 120 } : e));
+    const adjusted = [...broken, { id: 't5', type: 'ADJUST', amount: 10, balance: 130 }];
+    expect(reconcileLedger({ ...account, balance: 130 }, adjusted)).toBeNull();
+  });
+});
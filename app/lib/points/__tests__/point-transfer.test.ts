@@ -0,0 +1,58 @@
+/**
+ * 포인트 선물 규칙 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { startOfKstDay, validateTransfer, type TransferCheck } from '../point-transfer';
+
+const limits = { minAmount: 10, dailyLimit: 1000, minAccountAgeDays: 7 };
+const now = new Date('2026-10-19T03:00:00Z'); // KST 12:00
+
+function check(overrides: Partial<TransferCheck> = {}): TransferCheck {
+  return {
+    senderId: 'sender',
+    recipientId: 'recipient',
+    amount: 100,
+    senderBalance: 500,
+    sentToday: 0,
+    senderCreatedAt: new Date('2026-09-01T00:00:00Z'),
+    now,
+    ...overrides,
+  };
+}
+
+describe('startOfKstDay', () => {
+  it('KST 자정을 UTC 로 반환해야 함', () => {
+    expect(startOfKstDay(now).toISOString()).toBe('2026-10-18T15:00:00.000Z');
+    // UTC 16:00 은 KST 다음날 01:00
+    expect(startOfKstDay(new Date('2026-10-19T16:00:00Z')).toISOString()).toBe('2026-10-19T15:00:00.000Z');
+  });
+});
+
+describe('validateTransfer', () => {
+  it('조건을 만족하면 통과해야 함', () => {
+    expect(validateTransfer(check(), limits)).toBeNull();
+  });
+
+  it('자기 자신에게 보낼 수 없어야 함', () => {
+    expect(validateTransfer(check({ recipientId: 'sender' }), limits)).toContain('자기 자신');
+  });
+
+  it('최소 금액 미만과 정수가 아닌 금액을 거부해야 함', () => {
+    expect(validateTransfer(check({ amount: 5 }), limits)).toContain('최소');
+    expect(validateTransfer(check({ amount: 10.5 }), limits)).toContain('최소');
+  });
+
+  it('가입 기간이 짧으면 거부해야 함', () => {
+    const recent = check({ senderCreatedAt: new Date('2026-10-15T00:00:00Z') });
+    expect(validateTransfer(recent, limits)).toContain('7일');
+  });
+
+  it('일일 한도를 넘으면 남은 한도를 알려야 함', () => {
+    expect(validateTransfer(check({ sentToday: 950 }), limits)).toContain('남은 한도: 50P');
+  });
+
+  it('잔액이 부족하면 거부해야 함', () => {
+    expect(validateTransfer(check({ senderBalance: 50 }), limits)).toBe('포인트가 부족합니다.');
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * 리더보드 서버 로직
+ * - 기간별 순위를 해당 기간(KST)의 포인트 거래 내역으로 집계
+ * - 기간이 바뀌면 마감된 기간의 최종 순위를 스냅샷으로 보관
+ */
+
+import { Prisma } from '@prisma/client';
+import { db } from '~/lib/db.server';
+import { invalidateLeaderboardCache } from '~/lib/performance/qps-optimizer.server';
+import { NON_EARNING_TYPES, REVERSAL_TYPES } from './point-ledger';
+import {
+  LEADERBOARD_PERIODS,
+  ROLLING_PERIODS,
+  getClosedWindows,
+  getPeriodWindow,
+  getWindowByKey,
+  rankStandings,
+  type LeaderboardPeriod,
+  type PeriodWindow,
+  type RollingPeriod,
+  type StandingInput,
+} from './leaderboard';
+
+const SCHEDULER_INTERVAL = 5 * 60 * 1000; // 5분
+const SNAPSHOT_SIZE = 100; // 스냅샷에 보관할 상위 순위 수
+const MAX_ARCHIVES_PER_RUN = 50; // 한 번에 보관할 최대 구간 수 (밀린 구간은 다음 실행에서 이어서)
+
+declare global {
+  var __leaderboardScheduler__: NodeJS.Timeout | undefined;
+}
+
+const userSelect = {
+  id: true,
+  username: true,
+  name: true,
+  profileImage: true,
+} as const;
+
+/**
+ * 구간 내 사용자별 획득 포인트와 승패 집계
+ * 획득 포인트는 누적 포인트(lifetime)와 같은 기준 (선물/환불/조정 제외, 재정산/관리자 회수 차감)
+ */
+async function collectStandings(window: PeriodWindow, userId?: string) {
+  const range = window.start ? { gte: window.start, lt: window.end! } : undefined;
+
+  const [earned, results] = await Promise.all([
+    db.pointTransaction.groupBy({
+      by: ['userPointId'],
+      where: {
+        OR: [
+          { amount: { gt: 0 }, type: { notIn: [...NON_EARNING_TYPES] } },
+          { type: { in: [...REVERSAL_TYPES] } },
+        ],
+        ...(range && { createdAt: range }),
+        ...(userId && { userPoints: { userId } }),
+      },
+      _sum: { amount: true },
+    }),
+    db.participation.groupBy({
+      by: ['userId', 'isWinner'],
+      where: {
+        isWinner: { not: null },
+        ...(range && { event: { resultAt: range } }),
+        ...(userId && { userId }),
+      },
+      _count: true,
+    }),
+  ]);
+
+  const accounts = await db.userPoints.findMany({
+    where: { id: { in: earned.map((row) => row.userPointId) } },
+    select: { id: true, userId: true },
+  });
+  const userIdByAccount = new Map(accounts.map((account) => [account.id, account.userId]));
+
+  const inputs = new Map<string, StandingInput>();
+  const inputFor = (id: string) => {
+    let input = inputs.get(id);
+    if (!input) {
+      input = { userId: id, points: 0, wins: 0, losses: 0 };
+      inputs.set(id, input);
+    }
+    return input;
+  };
+
+  for (const row of earned) {
+    const id = userIdByAccount.get(row.userPointId);
+    if (id) inputFor(id).points += row._sum.amount ?? 0;
+  }
+  for (const row of results) {
+    const input = inputFor(row.userId);
+    if (row.isWinner) input.wins += row._count;
+    else input.losses += row._count;
+  }
+
+  return rankStandings([...inputs.values()]);
+}
+
+/**
+ * 현재 구간 기준으로 기간 리더보드 재계산
+ * 구간이 바뀐 직후에는 새 구간 거래만 집계되므로 자연스럽게 초기화됨
+ */
+export async function refreshLeaderboard(period: LeaderboardPeriod, now: Date = new Date()) {
+  const standings = await collectStandings(getPeriodWindow(period, now));
+
+  await db.$transaction([
+    db.leaderboardEntry.deleteMany({ where: { period } }),
+    db.leaderboardEntry.createMany({
+      data: standings.map((standing) => ({ ...standing, period })),
+    }),
+  ]);
+
+  return standings.length;
+}
+
+/**
+ * 한 사용자의 기간별 리더보드 값만 갱신 (순위는 다음 전체 재계산 때 반영)
+ */
+export async function refreshUserLeaderboard(userId: string, now: Date = new Date()) {
+  for (const period of LEADERBOARD_PERIODS) {
+    const [standing] = await collectStandings(getPeriodWindow(period, now), userId);
+
+    if (!standing) {
+      await db.leaderboardEntry.deleteMany({ where: { userId, period } });
+      continue;
+    }
+
+    const { points, wins, winRate } = standing;
+    await db.leaderboardEntry.upsert({
+      where: { userId_period: { userId, period } },
+      create: { userId, period, points, wins, winRate, rank: 0 },
+      update: { points, wins, winRate },
+    });
+  }
+}
+
+/**
+ * 마감된 기간의 최종 순위 보관
+ * 서버가 멈춰 있던 동안 지나간 구간까지 첫 거래 이후 보관되지 않은 구간을 모두 최신순으로 보관
+ */
+export async function archiveClosedPeriods(now: Date = new Date()) {
+  const first = await db.pointTransaction.findFirst({
+    orderBy: { createdAt: 'asc' },
+    select: { createdAt: true },
+  });
+  const since = first?.createdAt ?? now;
+  let archived = 0;
+
+  for (const period of ROLLING_PERIODS) {
+    const snapshots = await db.leaderboardSnapshot.findMany({
+      where: { period },
+      select: { periodKey: true },
+    });
+    const archivedKeys = new Set(snapshots.map((snapshot) => snapshot.periodKey));
+
+    for (const window of getClosedWindows(period, since, now)) {
+      if (archived >= MAX_ARCHIVES_PER_RUN) return archived;
+      if (archivedKeys.has(window.key)) continue;
+
+      const standings = (await collectStandings(window)).slice(0, SNAPSHOT_SIZE);
+
+      try {
+        await db.leaderboardSnapshot.create({
+          data: {
+            period,
+            periodKey: window.key,
+            startsAt: window.start!,
+            endsAt: window.end!,
+            entries: { createMany: { data: standings } },
+          },
+        });
+        archived++;
+      } catch (error) {
+        // 다른 인스턴스가 먼저 보관함
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  return archived;
+}
+
+/**
+ * 모든 기간 리더보드 재계산 후 캐시 무효화 (이벤트 정산 등 순위가 크게 바뀔 때)
+ */
+export async function refreshAllLeaderboards(now: Date = new Date()) {
+  for (const period of LEADERBOARD_PERIODS) {
+    await refreshLeaderboard(period, now);
+  }
+
+  await invalidateLeaderboardCache();
+}
+
+/**
+ * 전체 기간 리더보드 갱신 (마감 기간 보관 → 현재 기간 재계산 → 캐시 무효화)
+ */
+export async function runLeaderboardJob(now: Date = new Date()) {
+  const archived = await archiveClosedPeriods(now);
+
+  await refreshAllLeaderboards(now);
+
+  if (archived > 0) {
+    console.log(`[LeaderboardScheduler] Archived ${archived} closed period(s)`);
+  }
+}
+
+/**
+ * 리더보드 스케줄러 시작 (서버 시작 시 호출, 중복 호출 무시)
+ */
+export function startLeaderboardScheduler() {
+  if (global.__leaderboardScheduler__) return;
+
+  global.__leaderboardScheduler__ = setInterval(async () => {
+    try {
+      await runLeaderboardJob();
+    } catch (error) {
+      console.error('[LeaderboardScheduler] Leaderboard refresh failed:', error);
+    }
+  }, SCHEDULER_INTERVAL);
+
+  console.log('[LeaderboardScheduler] Started leaderboard scheduler');
+}
+
+/**
+ * 보관된 지난 기간 목록 (최신순)
+ */
+export async function getLeaderboardSnapshots(period: RollingPeriod, limit: number = 30) {
+  return db.leaderboardSnapshot.findMany({
+    where: { period },
+    orderBy: { startsAt: 'desc' },
+    take: limit,
+    select: { id: true, period: true, periodKey: true, startsAt: true, endsAt: true },
+  });
+}
+
+/**
+ * 지난 기간 최종 순위 조회 (키가 잘못되었거나 보관되지 않았으면 null)
+ */
+export async function getLeaderboardSnapshot(period: RollingPeriod, periodKey: string, limit: number = SNAPSHOT_SIZE) {
+  if (!getWindowByKey(period, periodKey)) return null;
+
+  return db.leaderboardSnapshot.findUnique({
+    where: { period_periodKey: { period, periodKey } },
+    include: {
+      entries: {
+        orderBy: { rank: 'asc' },
+        take: limit,
+        include: { user: { select: userSelect } },
+      },
+    },
+  });
+}
@@ -0,0 +1,168 @@
+/**
+ * 리더보드 집계 규칙
+ * 일간/주간(월요일 시작)/월간 구간을 KST 기준으로 계산하고 순위를 매김 (서버 로직과 분리된 순수 함수)
+ */
+
+import { startOfKstDay } from './point-transfer';
+
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'monthly' | 'all_time';
+export type RollingPeriod = Exclude<LeaderboardPeriod, 'all_time'>;
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['all_time', 'monthly', 'weekly', 'daily'];
+export const ROLLING_PERIODS: RollingPeriod[] = ['monthly', 'weekly', 'daily'];
+
+export const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  all_time: '전체',
+  monthly: '이번 달',
+  weekly: '이번 주',
+  daily: '오늘',
+};
+
+export interface PeriodWindow {
+  period: LeaderboardPeriod;
+  /** 기간 식별 키 (daily/weekly: 시작일 YYYY-MM-DD, monthly: YYYY-MM, all_time: 'all') */
+  key: string;
+  /** 구간 시작 (포함, UTC). all_time 은 null */
+  start: Date | null;
+  /** 구간 끝 (미포함, UTC). all_time 은 null */
+  end: Date | null;
+}
+
+const KST_OFFSET = 9 * 60 * 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+
+function kstDateString(date: Date) {
+  return new Date(date.getTime() + KST_OFFSET).toISOString().slice(0, 10);
+}
+
+function kstMonthStart(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 1) - KST_OFFSET);
+}
+
+export function isLeaderboardPeriod(value: unknown): value is LeaderboardPeriod {
+  return typeof value === 'string' && (LEADERBOARD_PERIODS as string[]).includes(value);
+}
+
+export function isRollingPeriod(value: unknown): value is RollingPeriod {
+  return typeof value === 'string' && (ROLLING_PERIODS as string[]).includes(value);
+}
+
+/**
+ * now 가 속한 집계 구간
+ */
+export function getPeriodWindow(period: LeaderboardPeriod, now: Date = new Date()): PeriodWindow {
+  switch (period) {
+    case 'daily': {
+      const start = startOfKstDay(now);
+      return { period, key: kstDateString(start), start, end: new Date(start.getTime() + DAY) };
+    }
+    case 'weekly': {
+      const today = startOfKstDay(now);
+      const dayOfWeek = new Date(today.getTime() + KST_OFFSET).getUTCDay();
+      const start = new Date(today.getTime() - ((dayOfWeek + 6) % 7) * DAY);
+      return { period, key: kstDateString(start), start, end: new Date(start.getTime() + 7 * DAY) };
+    }
+    case 'monthly': {
+      const kst = new Date(now.getTime() + KST_OFFSET);
+      const year = kst.getUTCFullYear();
+      const month = kst.getUTCMonth();
+      return {
+        period,
+        key: `${year}-${String(month + 1).padStart(2, '0')}`,
+        start: kstMonthStart(year, month),
+        end: kstMonthStart(year, month + 1),
+      };
+    }
+    default:
+      return { period: 'all_time', key: 'all', start: null, end: null };
+  }
+}
+
+/**
+ * now 가 속한 구간의 바로 앞 구간 (마감된 구간)
+ */
+export function getPreviousWindow(period: RollingPeriod, now: Date = new Date()): PeriodWindow {
+  const current = getPeriodWindow(period, now);
+  return getPeriodWindow(period, new Date(current.start!.getTime() - 1));
+}
+
+/**
+ * since 가 속한 구간부터 직전 구간까지 마감된 구간 목록 (최신순, 직전 구간은 항상 포함)
+ */
+export function getClosedWindows(period: RollingPeriod, since: Date, now: Date = new Date()): PeriodWindow[] {
+  const windows = [getPreviousWindow(period, now)];
+  for (;;) {
+    const oldest = windows[windows.length - 1];
+    if (oldest.start!.getTime() <= since.getTime()) break;
+    windows.push(getPreviousWindow(period, oldest.start!));
+  }
+  return windows;
+}
+
+/**
+ * 기간 키로 구간 복원 (형식이 맞지 않거나 해당 구간의 키가 아니면 null)
+ */
+export function getWindowByKey(period: RollingPeriod, key: string): PeriodWindow | null {
+  const match = period === 'monthly'
+    ? /^(\d{4})-(\d{2})$/.exec(key)
+    : /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  if (!match) return null;
+
+  const [, year, month, day = '01'] = match;
+  const start = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)) - KST_OFFSET);
+  if (Number.isNaN(start.getTime())) return null;
+
+  const window = getPeriodWindow(period, start);
+  return window.key === key ? window : null;
+}
+
+/**
+ * 구간 표시용 라벨
+ */
+export function formatPeriodLabel(window: PeriodWindow) {
+  if (!window.start) return '전체';
+
+  const [year, month, day] = window.key.split('-').map(Number);
+  switch (window.period) {
+    case 'monthly':
+      return `${year}년 ${month}월`;
+    case 'weekly':
+      return `${year}년 ${month}월 ${day}일 주간`;
+    default:
+      return `${year}년 ${month}월 ${day}일`;
+  }
+}
+
+export interface StandingInput {
+  userId: string;
+  points: number;
+  wins: number;
+  losses: number;
+}
+
+export interface Standing {
+  userId: string;
+  rank: number;
+  points: number;
+  wins: number;
+  winRate: number;
+}
+
+/**
+ * 순위 계산 (포인트 → 승리 수 → userId 순으로 정렬, 0 포인트는 제외)
+ */
+export function rankStandings(inputs: StandingInput[]): Standing[] {
+  return inputs
+    .filter((input) => input.points > 0)
+    .sort((a, b) => b.points - a.points || b.wins - a.wins || a.userId.localeCompare(b.userId))
+    .map((input, index) => {
+      const games = input.wins + input.losses;
+      return {
+        userId: input.userId,
+        rank: index + 1,
+        points: input.points,
+        wins: input.wins,
+        winRate: games > 0 ? (input.wins / games) * 100 : 0,
+      };
+    });
+}
@@ -0,0 +1,162 @@
+/**
+ * 포인트 원장 대사 서비스
+ * 전체 계정을 훑어 잔액/누적 포인트와 거래 내역의 불일치를 찾고, 관리자 확인 후 ADJUST 거래로 보정
+ * 전체 검사는 무거우므로 관리자가 실행할 때만 돌리고 마지막 결과를 설정(Setting)에 저장
+ */
+
+import { Prisma } from '@prisma/client';
+import { db } from '~/lib/db.server';
+import { reconcileLedger, type LedgerDrift } from './point-ledger';
+
+const SCAN_BATCH_SIZE = 200;
+const LAST_SCAN_SETTING_KEY = 'points.ledgerScan';
+
+export interface LedgerDriftReport extends LedgerDrift {
+  username: string;
+}
+
+export interface LedgerScanResult {
+  scanned: number;
+  drifts: LedgerDriftReport[];
+  scannedAt: string;
+}
+
+async function loadDrift(
+  client: Prisma.TransactionClient,
+  account: { id: string; userId: string; balance: number; lifetime: number }
+) {
+  const entries = await client.pointTransaction.findMany({
+    where: { userPointId: account.id },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    select: { id: true, type: true, amount: true, balance: true },
+  });
+
+  return reconcileLedger(account, entries);
+}
+
+/**
+ * 전체 계정 원장 검사 (불일치 계정만 반환)
+ */
+export async function scanLedger() {
+  const drifts: LedgerDriftReport[] = [];
+  let scanned = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const accounts = await db.userPoints.findMany({
+      take: SCAN_BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      orderBy: { id: 'asc' },
+      select: {
+        id: true,
+        userId: true,
+        balance: true,
+        lifetime: true,
+        user: { select: { username: true } },
+      },
+    });
+    if (accounts.length === 0) break;
+
+    for (const account of accounts) {
+      const drift = await loadDrift(db, account);
+      if (drift) {
+        drifts.push({ ...drift, username: account.user.username });
+      }
+    }
+
+    scanned += accounts.length;
+    cursor = accounts[accounts.length - 1].id;
+  }
+
+  return { scanned, drifts, scannedAt: new Date() };
+}
+
+async function saveLedgerScan(result: LedgerScanResult) {
+  const value = JSON.stringify(result);
+  await db.setting.upsert({
+    where: { key: LAST_SCAN_SETTING_KEY },
+    update: { value },
+    create: { key: LAST_SCAN_SETTING_KEY, value, type: 'json', category: 'system' },
+  });
+}
+
+/**
+ * 마지막 검사 결과 (검사한 적이 없으면 null)
+ */
+export async function getLastLedgerScan(): Promise<LedgerScanResult | null> {
+  const setting = await db.setting.findUnique({ where: { key: LAST_SCAN_SETTING_KEY } });
+  return setting ? (JSON.parse(setting.value) as LedgerScanResult) : null;
+}
+
+/**
+ * 전체 검사 후 결과 저장
+ */
+export async function runLedgerScan(): Promise<LedgerScanResult> {
+  const { scannedAt, ...rest } = await scanLedger();
+  const result = { ...rest, scannedAt: scannedAt.toISOString() };
+  await saveLedgerScan(result);
+  return result;
+}
+
+/**
+ * 불일치 보정
+ * 현재 잔액을 기준으로 차액만큼 ADJUST 거래를 추가하고, 누적 포인트는 거래 내역 합계로 맞춤
+ * 보정 직전에 다시 검사하므로 그 사이 정상화된 계정은 건너뜀
+ */
+export async function fixLedgerDrift(adminId: string, userPointIds: string[]) {
+  let fixed = 0;
+
+  for (const userPointId of userPointIds) {
+    const done = await db.$transaction(async (tx) => {
+      const account = await tx.userPoints.findUnique({
+        where: { id: userPointId },
+        select: { id: true, userId: true, balance: true, lifetime: true },
+      });
+      if (!account) return false;
+
+      const drift = await loadDrift(tx, account);
+      if (!drift) return false;
+
+      const notes = [];
+      if (drift.balance !== drift.ledgerBalance) {
+        notes.push(`잔액 ${drift.ledgerBalance}→${drift.balance}`);
+      }
+      if (drift.lifetime !== drift.ledgerLifetime) {
+        notes.push(`누적 ${drift.lifetime}→${drift.ledgerLifetime}`);
+        await tx.userPoints.update({
+          where: { id: account.id },
+          data: { lifetime: drift.ledgerLifetime },
+        });
+      }
+      if (drift.mismatches.length > 0) {
+        notes.push(`거래 후 잔액 불일치 ${drift.mismatches.length}건 확인`);
+      }
+
+      await tx.pointTransaction.create({
+        data: {
+          userPointId: account.id,
+          type: 'ADJUST',
+          amount: drift.balance - drift.ledgerBalance,
+          balance: drift.balance,
+          counterpartyId: adminId,
+          description: `원장 대사 보정: ${notes.join(', ')}`,
+        },
+      });
+
+      return true;
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if (done) fixed++;
+  }
+
+  // 보정했거나 그 사이 정상화된 계정은 마지막 검사 결과에서 제외
+  const last = await getLastLedgerScan();
+  if (last) {
+    await saveLedgerScan({
+      ...last,
+      drifts: last.drifts.filter((drift) => !userPointIds.includes(drift.userPointId)),
+    });
+  }
+
+  return { fixed };
+}
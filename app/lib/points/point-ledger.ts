@@ -0,0 +1,92 @@
+/**
+ * 포인트 원장 대사(reconciliation) 규칙
+ * UserPoints 의 잔액/누적 포인트가 거래 내역과 일치하는지 검사 (서버 로직과 분리된 순수 함수)
+ */
+
+/** 누적 획득(lifetime)에 포함되지 않는 거래 유형 (이체/환불/조정은 획득이 아님) */
+export const NON_EARNING_TYPES: readonly string[] = ['TRANSFER_IN', 'REFUND', 'ADJUST'];
+
+/** 이미 지급한 획득 포인트를 되돌리는 거래 유형 (음수 금액만큼 누적 획득에서도 차감) */
+export const REVERSAL_TYPES: readonly string[] = ['SETTLE_REVERSAL', 'ADMIN_REVOKE'];
+
+export interface LedgerAccount {
+  id: string;
+  userId: string;
+  balance: number;
+  lifetime: number;
+}
+
+export interface LedgerEntry {
+  id: string;
+  type: string;
+  amount: number;
+  /** 거래 후 잔액으로 저장된 값 */
+  balance: number;
+}
+
+export interface RunningBalanceMismatch {
+  transactionId: string;
+  expected: number;
+  stored: number;
+}
+
+export interface LedgerDrift {
+  userPointId: string;
+  userId: string;
+  balance: number;
+  ledgerBalance: number;
+  lifetime: number;
+  ledgerLifetime: number;
+  /** 저장된 거래 후 잔액이 누적 합계와 다른 거래 */
+  mismatches: RunningBalanceMismatch[];
+}
+
+/**
+ * 거래 금액이 누적 획득 포인트에 반영되는지 여부 (양수 획득 거래와 획득 회수 거래)
+ */
+export function countsTowardLifetime(type: string, amount: number) {
+  if (REVERSAL_TYPES.includes(type)) {
+    return true;
+  }
+  return amount > 0 && !NON_EARNING_TYPES.includes(type);
+}
+
+/**
+ * 한 계정의 원장 검사 (entries 는 생성 순서대로 정렬되어 있어야 함)
+ * 어긋난 곳이 없으면 null
+ */
+export function reconcileLedger(account: LedgerAccount, entries: LedgerEntry[]): LedgerDrift | null {
+  let running = 0;
+  let lifetime = 0;
+  const mismatches: RunningBalanceMismatch[] = [];
+
+  for (const entry of entries) {
+    // 조정 거래는 그 이전 내역을 검토/보정했다는 기록이므로 앞선 불일치는 더 보고하지 않음
+    if (entry.type === 'ADJUST') {
+      mismatches.length = 0;
+    }
+    running += entry.amount;
+    if (countsTowardLifetime(entry.type, entry.amount)) {
+      lifetime += entry.amount;
+    }
+    if (entry.balance !== running) {
+      mismatches.push({ transactionId: entry.id, expected: running, stored: entry.balance });
+    }
+  }
+
+  const ledgerBalance = running;
+
+  if (ledgerBalance === account.balance && lifetime === account.lifetime && mismatches.length === 0) {
+    return null;
+  }
+
+  return {
+    userPointId: account.id,
+    userId: account.userId,
+    balance: account.balance,
+    ledgerBalance,
+    lifetime: account.lifetime,
+    ledgerLifetime: lifetime,
+    mismatches,
+  };
+}
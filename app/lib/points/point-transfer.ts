@@ -0,0 +1,58 @@
+/**
+ * 포인트 선물(이체) 규칙
+ * 금액/잔액/일일 한도/가입 기간 검증 (서버 로직과 분리된 순수 함수)
+ */
+
+export interface TransferLimits {
+  minAmount: number;
+  dailyLimit: number;
+  minAccountAgeDays: number;
+}
+
+export interface TransferCheck {
+  senderId: string;
+  recipientId: string;
+  amount: number;
+  senderBalance: number;
+  /** 오늘(KST) 이미 보낸 총액 */
+  sentToday: number;
+  senderCreatedAt: Date;
+  now?: Date;
+}
+
+const KST_OFFSET = 9 * 60 * 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * KST 기준 오늘 0시 (UTC Date)
+ */
+export function startOfKstDay(now: Date = new Date()): Date {
+  const kst = now.getTime() + KST_OFFSET;
+  return new Date(kst - (kst % DAY) - KST_OFFSET);
+}
+
+/**
+ * 이체 가능 여부 검사 (불가하면 사유 메시지)
+ */
+export function validateTransfer(check: TransferCheck, limits: TransferLimits): string | null {
+  const now = check.now ?? new Date();
+
+  if (check.senderId === check.recipientId) {
+    return '자기 자신에게는 선물할 수 없습니다.';
+  }
+  if (!Number.isInteger(check.amount) || check.amount < limits.minAmount) {
+    return `최소 ${limits.minAmount}P 이상 선물할 수 있습니다.`;
+  }
+  if (now.getTime() - check.senderCreatedAt.getTime() < limits.minAccountAgeDays * DAY) {
+    return `가입 후 ${limits.minAccountAgeDays}일이 지나야 선물할 수 있습니다.`;
+  }
+  if (check.sentToday + check.amount > limits.dailyLimit) {
+    const remaining = Math.max(0, limits.dailyLimit - check.sentToday);
+    return `하루 선물 한도(${limits.dailyLimit}P)를 초과합니다. 오늘 남은 한도: ${remaining}P`;
+  }
+  if (check.senderBalance < check.amount) {
+    return '포인트가 부족합니다.';
+  }
+
+  return null;
+}
@@ -2,7 +2,14 @@
  * 포인트 시스템 서버 로직
  */
 
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
 import { db } from '~/lib/db.server';
+import { getNotificationManager } from '~/lib/notifications/notification.manager';
+import { NotificationType } from '~/lib/notifications/notification.types';
+import { startOfKstDay, validateTransfer } from './point-transfer';
+import { countsTowardLifetime } from './point-ledger';
+import { refreshUserLeaderboard } from './leaderboard.server';
 
 // 포인트 설정값
 export const POINT_CONFIG = {
@@ -11,18 +18,27 @@ export const POINT_CONFIG = {
   WIN_MULTIPLIER: 2,        // 승리 보상 배수
   PREDICTION_MULTIPLIER: 3, // 예측 정답 배수
   REFERRAL_BONUS: 50,       // 추천인 보너스
+  TRANSFER_MIN_AMOUNT: 10,          // 선물 최소 금액
+  TRANSFER_DAILY_LIMIT: 1000,       // 하루 선물 한도 (KST 기준)
+  TRANSFER_MIN_ACCOUNT_AGE_DAYS: 7, // 선물 가능한 최소 가입 기간
 };
 
 export type PointTransactionType =
   | 'EARN_SIGNUP'      // 가입 보너스
   | 'EARN_CHECKIN'     // 일일 출석
   | 'EARN_WIN'         // 이벤트 승리
+  | 'EARN_PREDICTION'  // 예측 성공
   | 'EARN_REFERRAL'    // 추천인 보너스
   | 'EARN_BONUS'       // 관리자 지급
   | 'SPEND_EVENT'      // 이벤트 참여
   | 'SPEND_PURCHASE'   // 아이템 구매
   | 'REFUND'           // 환불
-  | 'ADJUST';          // 조정
+  | 'ADJUST'           // 조정
+  | 'SETTLE_REVERSAL'  // 재정산 보상 회수
+  | 'TRANSFER_OUT'     // 선물 보냄
+  | 'TRANSFER_IN'      // 선물 받음
+  | 'ADMIN_GRANT'      // 관리자 지급
+  | 'ADMIN_REVOKE';    // 관리자 회수
 
 /**
  * 사용자 포인트 조회 (없으면 생성)
@@ -65,127 +81,351 @@ export async function getUserPoints(userId: string) {
   return userPoints;
 }
 
+export interface PointChangeOptions {
+  eventId?: string;
+  description?: string;
+  /** 같은 키로 다시 요청되면 새로 반영하지 않고 기존 거래를 돌려줌 */
+  idempotencyKey?: string;
+}
+
 /**
- * 포인트 추가
+ * 잔액 변경과 거래 기록을 같은 트랜잭션에서 반영
+ * 차감은 잔액 조건부 업데이트로 처리해 동시 요청에도 잔액이 음수가 되지 않음
+ * (다른 트랜잭션 안에서 포인트를 함께 처리할 때 사용)
  */
-export async function addPoints(
-  userId: string,
+export async function applyPointChange(
+  tx: Prisma.TransactionClient,
+  userPointId: string,
   amount: number,
   type: PointTransactionType,
-  options?: {
-    eventId?: string;
-    description?: string;
-  }
+  options?: PointChangeOptions
 ) {
-  if (amount <= 0) {
-    throw new Error('Amount must be positive');
+  if (options?.idempotencyKey) {
+    const existing = await tx.pointTransaction.findUnique({
+      where: { idempotencyKey: options.idempotencyKey },
+    });
+    if (existing) {
+      return { transaction: existing, replayed: true };
+    }
   }
 
-  const userPoints = await getUserPoints(userId);
-
-  const updated = await db.userPoints.update({
-    where: { id: userPoints.id },
+  const changed = await tx.userPoints.updateMany({
+    where: { id: userPointId, ...(amount < 0 ? { balance: { gte: -amount } } : {}) },
     data: {
       balance: { increment: amount },
-      lifetime: { increment: amount },
+      ...(countsTowardLifetime(type, amount) && { lifetime: { increment: amount } }),
     },
   });
+  if (changed.count === 0) {
+    throw new Error('Insufficient points');
+  }
 
-  await db.pointTransaction.create({
+  // 갱신한 행은 커밋 전까지 잠겨 있으므로 이 시점의 잔액이 곧 거래 후 잔액
+  const updated = await tx.userPoints.findUniqueOrThrow({
+    where: { id: userPointId },
+    select: { balance: true },
+  });
+
+  const transaction = await tx.pointTransaction.create({
     data: {
-      userPointId: userPoints.id,
+      userPointId,
       type,
       amount,
       balance: updated.balance,
       eventId: options?.eventId,
       description: options?.description,
+      idempotencyKey: options?.idempotencyKey,
     },
   });
 
-  return updated;
+  return { transaction, replayed: false };
 }
 
 /**
- * 포인트 차감
+ * 같은 idempotencyKey 로 동시에 들어온 요청이 unique 제약에 걸렸는지 여부
  */
-export async function deductPoints(
+export function isIdempotencyConflict(error: unknown) {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === 'P2002' &&
+    String(error.meta?.target ?? '').includes('idempotency')
+  );
+}
+
+async function changePoints(
   userId: string,
   amount: number,
   type: PointTransactionType,
-  options?: {
-    eventId?: string;
-    description?: string;
+  options?: PointChangeOptions
+) {
+  const userPoints = await getUserPoints(userId);
+
+  try {
+    return await db.$transaction((tx) => applyPointChange(tx, userPoints.id, amount, type, options));
+  } catch (error) {
+    // 먼저 커밋된 요청의 거래를 그대로 돌려줌
+    if (options?.idempotencyKey && isIdempotencyConflict(error)) {
+      const transaction = await db.pointTransaction.findUniqueOrThrow({
+        where: { idempotencyKey: options.idempotencyKey },
+      });
+      return { transaction, replayed: true };
+    }
+    throw error;
   }
+}
+
+/**
+ * 포인트 추가
+ */
+export async function addPoints(
+  userId: string,
+  amount: number,
+  type: PointTransactionType,
+  options?: PointChangeOptions
 ) {
   if (amount <= 0) {
     throw new Error('Amount must be positive');
   }
 
-  const userPoints = await getUserPoints(userId);
+  return changePoints(userId, amount, type, options);
+}
 
-  if (userPoints.balance < amount) {
-    throw new Error('Insufficient points');
+/**
+ * 포인트 차감 (잔액이 부족하면 'Insufficient points' 에러)
+ */
+export async function deductPoints(
+  userId: string,
+  amount: number,
+  type: PointTransactionType,
+  options?: PointChangeOptions
+) {
+  if (amount <= 0) {
+    throw new Error('Amount must be positive');
   }
 
-  const updated = await db.userPoints.update({
-    where: { id: userPoints.id },
-    data: {
-      balance: { decrement: amount },
-    },
+  return changePoints(userId, -amount, type, options);
+}
+
+/**
+ * 포인트 선물 (회원 간 이체)
+ * 보낸 쪽 TRANSFER_OUT / 받은 쪽 TRANSFER_IN 을 같은 transferId 로 한 트랜잭션에 기록
+ * 일일 한도 검사와 차감이 동시에 요청돼도 초과되지 않도록 Serializable 로 실행
+ */
+export async function transferPoints(
+  senderId: string,
+  recipientUsername: string,
+  amount: number,
+  message?: string
+) {
+  const recipient = await db.user.findUnique({
+    where: { username: recipientUsername },
+    select: { id: true, username: true, name: true, isActive: true },
   });
 
-  await db.pointTransaction.create({
-    data: {
-      userPointId: userPoints.id,
-      type,
-      amount: -amount,
-      balance: updated.balance,
-      eventId: options?.eventId,
-      description: options?.description,
-    },
+  if (!recipient || !recipient.isActive) {
+    return { success: false as const, message: '받는 사람을 찾을 수 없습니다.' };
+  }
+
+  const sender = await db.user.findUniqueOrThrow({
+    where: { id: senderId },
+    select: { id: true, username: true, name: true, createdAt: true },
   });
 
-  return updated;
+  // 포인트 계정이 없으면 미리 생성 (트랜잭션 밖에서 가입 보너스 지급)
+  const [senderPoints, recipientPoints] = await Promise.all([
+    getUserPoints(senderId),
+    getUserPoints(recipient.id),
+  ]);
+
+  const transferId = randomUUID();
+  const note = message?.trim().slice(0, 100) || undefined;
+
+  try {
+    const result = await db.$transaction(async (tx) => {
+      const sent = await tx.pointTransaction.aggregate({
+        where: {
+          userPointId: senderPoints.id,
+          type: 'TRANSFER_OUT',
+          createdAt: { gte: startOfKstDay() },
+        },
+        _sum: { amount: true },
+      });
+      const current = await tx.userPoints.findUniqueOrThrow({
+        where: { id: senderPoints.id },
+        select: { balance: true },
+      });
+
+      const error = validateTransfer(
+        {
+          senderId,
+          recipientId: recipient.id,
+          amount,
+          senderBalance: current.balance,
+          sentToday: Math.abs(sent._sum.amount ?? 0),
+          senderCreatedAt: sender.createdAt,
+        },
+        {
+          minAmount: POINT_CONFIG.TRANSFER_MIN_AMOUNT,
+          dailyLimit: POINT_CONFIG.TRANSFER_DAILY_LIMIT,
+          minAccountAgeDays: POINT_CONFIG.TRANSFER_MIN_ACCOUNT_AGE_DAYS,
+        }
+      );
+      if (error) {
+        return { success: false as const, message: error };
+      }
+
+      // 선물은 획득이 아니므로 lifetime(누적 획득)은 변경하지 않음
+      const from = await tx.userPoints.update({
+        where: { id: senderPoints.id },
+        data: { balance: { decrement: amount } },
+      });
+      const to = await tx.userPoints.update({
+        where: { id: recipientPoints.id },
+        data: { balance: { increment: amount } },
+      });
+
+      await tx.pointTransaction.createMany({
+        data: [
+          {
+            userPointId: senderPoints.id,
+            type: 'TRANSFER_OUT',
+            amount: -amount,
+            balance: from.balance,
+            transferId,
+            counterpartyId: recipient.id,
+            description: note ? `${recipient.username}님에게 선물: ${note}` : `${recipient.username}님에게 선물`,
+          },
+          {
+            userPointId: recipientPoints.id,
+            type: 'TRANSFER_IN',
+            amount,
+            balance: to.balance,
+            transferId,
+            counterpartyId: senderId,
+            description: note ? `${sender.username}님의 선물: ${note}` : `${sender.username}님의 선물`,
+          },
+        ],
+      });
+
+      return { success: true as const, transferId, newBalance: from.balance };
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if (result.success) {
+      await notifyTransfer(recipient.id, sender.name || sender.username, amount, note);
+    }
+
+    return result;
+  } catch (error) {
+    // 동시 이체로 인한 직렬화 충돌
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+      return { success: false as const, message: '다른 요청을 처리 중입니다. 잠시 후 다시 시도하세요.' };
+    }
+    throw error;
+  }
+}
+
+async function notifyTransfer(recipientId: string, senderName: string, amount: number, note?: string) {
+  try {
+    await getNotificationManager().createNotification(recipientId, NotificationType.SYSTEM, {
+      title: `${senderName}님이 ${amount.toLocaleString()}P를 선물했습니다`,
+      message: note || '포인트 내역에서 확인하세요.',
+      actionUrl: '/points/history',
+      actionLabel: '내역 보기',
+      metadata: { amount },
+    });
+  } catch (error) {
+    console.error('Failed to send transfer notification:', error);
+  }
+}
+
+/**
+ * 관리자 포인트 지급/회수
+ * 양수면 ADMIN_GRANT, 음수면 ADMIN_REVOKE (누적 포인트도 함께 차감). 사유는 필수이며 처리한 관리자를 counterpartyId 로 기록
+ */
+export async function adminAdjustPoints(
+  adminId: string,
+  userId: string,
+  amount: number,
+  reason: string
+) {
+  if (!Number.isInteger(amount) || amount === 0) {
+    return { success: false as const, message: '0이 아닌 정수 금액을 입력하세요.' };
+  }
+  if (!reason.trim()) {
+    return { success: false as const, message: '사유를 입력하세요.' };
+  }
+
+  const userPoints = await getUserPoints(userId);
+  const isGrant = amount > 0;
+
+  return db.$transaction(async (tx) => {
+    // 회수는 잔액 이상 차감하지 않음 (조건부 업데이트)
+    const changed = await tx.userPoints.updateMany({
+      where: { id: userPoints.id, ...(isGrant ? {} : { balance: { gte: -amount } }) },
+      data: isGrant
+        ? { balance: { increment: amount }, lifetime: { increment: amount } }
+        : { balance: { decrement: -amount }, lifetime: { decrement: -amount } },
+    });
+    if (changed.count === 0) {
+      return { success: false as const, message: '회수할 금액이 현재 잔액보다 많습니다.' };
+    }
+
+    const updated = await tx.userPoints.findUniqueOrThrow({ where: { id: userPoints.id } });
+
+    const transaction = await tx.pointTransaction.create({
+      data: {
+        userPointId: userPoints.id,
+        type: isGrant ? 'ADMIN_GRANT' : 'ADMIN_REVOKE',
+        amount,
+        balance: updated.balance,
+        counterpartyId: adminId,
+        description: reason.trim().slice(0, 200),
+      },
+    });
+
+    return { success: true as const, transaction, newBalance: updated.balance };
+  });
 }
 
 /**
  * 일일 출석 체크
+ * KST 날짜별 idempotencyKey 로 기록해 동시/재시도 요청에도 하루 한 번만 지급
  */
 export async function dailyCheckIn(userId: string) {
   const userPoints = await getUserPoints(userId);
+  const today = startOfKstDay();
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  if (userPoints.lastCheckIn && userPoints.lastCheckIn >= today) {
+    return { success: false, message: '오늘 이미 출석체크를 했습니다' };
+  }
 
-  if (userPoints.lastCheckIn) {
-    const lastCheckIn = new Date(userPoints.lastCheckIn);
-    lastCheckIn.setHours(0, 0, 0, 0);
+  const idempotencyKey = `checkin:${userId}:${today.toISOString().slice(0, 10)}`;
+
+  try {
+    const result = await db.$transaction(async (tx) => {
+      const change = await applyPointChange(tx, userPoints.id, POINT_CONFIG.DAILY_CHECKIN, 'EARN_CHECKIN', {
+        description: '일일 출석 보너스',
+        idempotencyKey,
+      });
+      if (!change.replayed) {
+        await tx.userPoints.update({
+          where: { id: userPoints.id },
+          data: { lastCheckIn: new Date() },
+        });
+      }
+      return change;
+    });
 
-    if (lastCheckIn.getTime() === today.getTime()) {
+    if (result.replayed) {
+      return { success: false, message: '오늘 이미 출석체크를 했습니다' };
+    }
+    return { success: true, points: POINT_CONFIG.DAILY_CHECKIN, newBalance: result.transaction.balance };
+  } catch (error) {
+    if (isIdempotencyConflict(error)) {
       return { success: false, message: '오늘 이미 출석체크를 했습니다' };
     }
+    throw error;
   }
-
-  const updated = await db.userPoints.update({
-    where: { id: userPoints.id },
-    data: {
-      balance: { increment: POINT_CONFIG.DAILY_CHECKIN },
-      lifetime: { increment: POINT_CONFIG.DAILY_CHECKIN },
-      lastCheckIn: new Date(),
-    },
-  });
-
-  await db.pointTransaction.create({
-    data: {
-      userPointId: userPoints.id,
-      type: 'EARN_CHECKIN',
-      amount: POINT_CONFIG.DAILY_CHECKIN,
-      balance: updated.balance,
-      description: '일일 출석 보너스',
-    },
-  });
-
-  return { success: true, points: POINT_CONFIG.DAILY_CHECKIN, newBalance: updated.balance };
 }
 
 /**
@@ -226,41 +466,10 @@ export async function getPointHistory(
 }
 
 /**
- * 리더보드 업데이트
+ * 리더보드 업데이트 (기간별 값은 해당 기간의 거래 내역으로 집계)
  */
 export async function updateLeaderboard(userId: string) {
-  const userPoints = await db.userPoints.findUnique({
-    where: { userId },
-    select: { lifetime: true, wins: true, losses: true },
-  });
-
-  if (!userPoints) return;
-
-  const totalGames = userPoints.wins + userPoints.losses;
-  const winRate = totalGames > 0 ? (userPoints.wins / totalGames) * 100 : 0;
-
-  const periods = ['daily', 'weekly', 'monthly', 'all_time'];
-
-  for (const period of periods) {
-    await db.leaderboardEntry.upsert({
-      where: {
-        userId_period: { userId, period },
-      },
-      create: {
-        userId,
-        period,
-        points: userPoints.lifetime,
-        wins: userPoints.wins,
-        winRate,
-        rank: 0, // 별도 계산 필요
-      },
-      update: {
-        points: userPoints.lifetime,
-        wins: userPoints.wins,
-        winRate,
-      },
-    });
-  }
+  await refreshUserLeaderboard(userId);
 }
 
 /**
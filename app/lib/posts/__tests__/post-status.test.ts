@@ -0,0 +1,54 @@
+/**
+ * 게시글 발행 상태 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePublishIntent, resolvePublishState } from '../post-status';
+
+const now = new Date('2026-10-19T00:00:00Z');
+
+describe('parsePublishIntent', () => {
+  it('알 수 없는 값은 즉시 발행으로 처리해야 함', () => {
+    expect(parsePublishIntent(null)).toBe('publish');
+    expect(parsePublishIntent('unknown')).toBe('publish');
+    expect(parsePublishIntent('schedule')).toBe('schedule');
+  });
+});
+
+describe('resolvePublishState', () => {
+  it('즉시 발행은 기존 발행 시각을 유지해야 함', () => {
+    const previous = new Date('2026-10-01T00:00:00Z');
+    expect(resolvePublishState('publish', { previousPublishedAt: previous, now })).toEqual({
+      status: 'PUBLISHED',
+      isPublished: true,
+      publishedAt: previous,
+    });
+    expect(resolvePublishState('publish', { now })).toMatchObject({ publishedAt: now });
+  });
+
+  it('예약 글을 즉시 발행하면 미래 시각 대신 현재 시각을 써야 함', () => {
+    const future = new Date('2026-10-20T00:00:00Z');
+    expect(resolvePublishState('publish', { previousPublishedAt: future, now })).toMatchObject({
+      publishedAt: now,
+    });
+  });
+
+  it('임시저장은 비공개 상태여야 함', () => {
+    expect(resolvePublishState('draft', { now })).toEqual({
+      status: 'DRAFT',
+      isPublished: false,
+      publishedAt: null,
+    });
+  });
+
+  it('예약 발행은 미래 시각만 허용해야 함', () => {
+    const future = new Date('2026-10-20T09:00:00Z');
+    expect(resolvePublishState('schedule', { scheduledAt: future, now })).toEqual({
+      status: 'SCHEDULED',
+      isPublished: false,
+      publishedAt: future,
+    });
+    expect(resolvePublishState('schedule', { scheduledAt: now, now })).toHaveProperty('error');
+    expect(resolvePublishState('schedule', { scheduledAt: null, now })).toHaveProperty('error');
+  });
+});
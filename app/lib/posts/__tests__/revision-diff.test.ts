@@ -0,0 +1,61 @@
+/**
+ * 게시글 리비전 비교 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { htmlToText, diffLines, toSideBySide, compareRevisions } from '../revision-diff';
+
+describe('htmlToText', () => {
+  it('블록 태그를 줄바꿈으로 바꾸고 태그를 제거해야 함', () => {
+    expect(htmlToText('<p>첫 줄</p><p><strong>둘째</strong> 줄</p>')).toBe('첫 줄\n둘째 줄');
+  });
+
+  it('HTML 엔티티를 복원해야 함', () => {
+    expect(htmlToText('<p>a &lt; b &amp;&amp; c</p>')).toBe('a < b && c');
+  });
+});
+
+describe('diffLines', () => {
+  it('추가/삭제/유지 줄을 구분해야 함', () => {
+    expect(diffLines(['a', 'b', 'c'], ['a', 'c', 'd'])).toEqual([
+      { type: 'equal', line: 'a' },
+      { type: 'removed', line: 'b' },
+      { type: 'equal', line: 'c' },
+      { type: 'added', line: 'd' },
+    ]);
+  });
+});
+
+describe('toSideBySide', () => {
+  it('연속된 삭제/추가를 같은 행의 변경으로 묶어야 함', () => {
+    const rows = toSideBySide(diffLines(['a', 'old'], ['a', 'new', 'extra']));
+
+    expect(rows).toEqual([
+      { type: 'equal', left: 'a', right: 'a' },
+      { type: 'changed', left: 'old', right: 'new' },
+      { type: 'added', left: null, right: 'extra' },
+    ]);
+  });
+});
+
+describe('compareRevisions', () => {
+  it('제목 변경 여부와 변경 통계를 반환해야 함', () => {
+    const result = compareRevisions(
+      { title: '이전 제목', content: '<p>유지</p><p>삭제</p>' },
+      { title: '새 제목', content: '<p>유지</p><p>추가</p>' }
+    );
+
+    expect(result.titleChanged).toBe(true);
+    expect(result.stats).toEqual({ added: 1, removed: 1 });
+  });
+
+  it('HTML 모드에서는 태그 단위로 비교해야 함', () => {
+    const result = compareRevisions(
+      { title: 't', content: '<p>같음</p>' },
+      { title: 't', content: '<p><em>같음</em></p>' },
+      'html'
+    );
+
+    expect(result.stats.added).toBeGreaterThan(0);
+  });
+});
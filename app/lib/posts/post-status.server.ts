@@ -0,0 +1,92 @@
+/**
+ * 게시글 발행 상태 서버 로직
+ * - 예약 발행 게시글을 publishedAt 도달 시 PUBLISHED 로 전환하는 배치 작업 (이때 post.created 훅 실행)
+ * - 사용자별 임시저장/예약 게시글 조회
+ */
+
+import { db } from '~/lib/db.server';
+import { runPluginHook, toPluginPost } from '~/lib/architecture/plugin-system.server';
+
+const SCHEDULER_INTERVAL = 60 * 1000; // 1분
+
+declare global {
+  var __postScheduler__: NodeJS.Timeout | undefined;
+}
+
+/**
+ * 발행 시각이 지난 예약 게시글 발행
+ * 글마다 조건부 updateMany 로 전환하므로 여러 인스턴스에서 동시에 실행되어도 한 곳에서만 발행/훅 실행
+ */
+export async function publishDueScheduledPosts(now: Date = new Date()): Promise<number> {
+  const due = await db.post.findMany({
+    where: {
+      status: 'SCHEDULED',
+      publishedAt: { lte: now },
+    },
+    select: { id: true },
+  });
+
+  let published = 0;
+  for (const { id } of due) {
+    const result = await db.post.updateMany({
+      where: { id, status: 'SCHEDULED' },
+      data: {
+        status: 'PUBLISHED',
+        isPublished: true,
+      },
+    });
+    if (result.count === 0) continue;
+
+    published++;
+    const post = await db.post.findUnique({ where: { id } });
+    if (post) {
+      await runPluginHook('post.created', { post: toPluginPost(post) });
+    }
+  }
+
+  if (published > 0) {
+    console.log(`[PostScheduler] Published ${published} scheduled post(s)`);
+  }
+
+  return published;
+}
+
+/**
+ * 예약 발행 스케줄러 시작 (서버 시작 시 호출, 중복 호출 무시)
+ */
+export function startPostScheduler() {
+  if (global.__postScheduler__) return;
+
+  global.__postScheduler__ = setInterval(async () => {
+    try {
+      await publishDueScheduledPosts();
+    } catch (error) {
+      console.error('[PostScheduler] Scheduled publish failed:', error);
+    }
+  }, SCHEDULER_INTERVAL);
+
+  console.log('[PostScheduler] Started scheduled post publisher');
+}
+
+/**
+ * 사용자의 임시저장 / 예약 게시글 목록
+ */
+export async function getUserDrafts(userId: string) {
+  return db.post.findMany({
+    where: {
+      authorId: userId,
+      status: { in: ['DRAFT', 'SCHEDULED'] },
+    },
+    select: {
+      id: true,
+      title: true,
+      slug: true,
+      excerpt: true,
+      status: true,
+      publishedAt: true,
+      updatedAt: true,
+      menu: { select: { name: true, slug: true } },
+    },
+    orderBy: { updatedAt: 'desc' },
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * 게시글 발행 상태 유틸리티
+ * 에디터 폼의 발행 의도(publish/draft/schedule)를 PostStatus 로 변환
+ */
+
+import type { PostStatus } from '@prisma/client';
+
+export type PublishIntent = 'publish' | 'draft' | 'schedule';
+
+export const POST_STATUS_LABELS: Record<PostStatus, string> = {
+  DRAFT: '임시저장',
+  SCHEDULED: '예약됨',
+  PUBLISHED: '공개',
+  ARCHIVED: '보관됨',
+};
+
+export interface PublishState {
+  status: PostStatus;
+  isPublished: boolean;
+  publishedAt: Date | null;
+}
+
+export function parsePublishIntent(value: FormDataEntryValue | null): PublishIntent {
+  return value === 'draft' || value === 'schedule' ? value : 'publish';
+}
+
+/**
+ * 발행 의도 → 저장할 상태 필드
+ * - publish: 즉시 발행 (이미 발행된 적 있으면 기존 발행 시각 유지)
+ * - draft: 임시저장 (기존 발행 시각 유지)
+ * - schedule: 미래 시각에 예약, 과거 시각이면 에러
+ */
+export function resolvePublishState(
+  intent: PublishIntent,
+  options: {
+    scheduledAt?: Date | null;
+    previousPublishedAt?: Date | null;
+    now?: Date;
+  } = {}
+): PublishState | { error: string } {
+  const now = options.now ?? new Date();
+  // 예약 상태였던 글의 미래 발행 시각은 이어받지 않음
+  const previous = options.previousPublishedAt && options.previousPublishedAt <= now
+    ? options.previousPublishedAt
+    : null;
+
+  switch (intent) {
+    case 'draft':
+      return { status: 'DRAFT', isPublished: false, publishedAt: previous };
+
+    case 'schedule': {
+      const scheduledAt = options.scheduledAt;
+      if (!scheduledAt || isNaN(scheduledAt.getTime())) {
+        return { error: '예약 발행 시각을 입력하세요.' };
+      }
+      if (scheduledAt <= now) {
+        return { error: '예약 발행 시각은 현재 이후여야 합니다.' };
+      }
+      return { status: 'SCHEDULED', isPublished: false, publishedAt: scheduledAt };
+    }
+
+    case 'publish':
+    default:
+      return { status: 'PUBLISHED', isPublished: true, publishedAt: previous ?? now };
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * 게시글 리비전 비교 유틸리티
+ * LCS 기반 줄 단위 diff → 좌우 비교(side-by-side) 행으로 변환
+ */
+
+export type DiffMode = 'text' | 'html';
+
+export type DiffOp =
+  | { type: 'equal'; line: string }
+  | { type: 'removed'; line: string }
+  | { type: 'added'; line: string };
+
+export interface SideBySideRow {
+  type: 'equal' | 'removed' | 'added' | 'changed';
+  left: string | null;
+  right: string | null;
+}
+
+const BLOCK_TAG_PATTERN = /<\/?(p|div|h[1-6]|li|ul|ol|blockquote|pre|tr|table|hr)[^>]*>|<br\s*\/?>/gi;
+
+const ENTITY_MAP: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&amp;': '&',
+};
+
+/**
+ * HTML → 줄 단위 텍스트 (블록 태그를 줄바꿈으로 치환)
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(BLOCK_TAG_PATTERN, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(nbsp|lt|gt|quot|#39|amp);/g, (entity) => ENTITY_MAP[entity] ?? entity)
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .join('\n');
+}
+
+/**
+ * HTML 원문을 태그 경계 기준으로 줄 분리 (HTML 모드 비교용)
+ */
+function splitHtml(html: string): string[] {
+  return html
+    .replace(/>\s*</g, '>\n<')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+function toLines(value: string, mode: DiffMode): string[] {
+  if (mode === 'html') return splitHtml(value);
+  const text = htmlToText(value);
+  return text.length > 0 ? text.split('\n') : [];
+}
+
+/**
+ * 줄 단위 diff (최장 공통 부분열)
+ */
+export function diffLines(before: string[], after: string[]): DiffOp[] {
+  const n = before.length;
+  const m = after.length;
+
+  // lcs[i][j] = before[i..], after[j..] 의 LCS 길이
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      ops.push({ type: 'equal', line: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'removed', line: before[i++] });
+    } else {
+      ops.push({ type: 'added', line: after[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: 'removed', line: before[i++] });
+  while (j < m) ops.push({ type: 'added', line: after[j++] });
+
+  return ops;
+}
+
+/**
+ * diff 결과를 좌우 비교 행으로 변환
+ * 연속된 삭제/추가 구간은 같은 행에 짝지어 'changed' 로 표시
+ */
+export function toSideBySide(ops: DiffOp[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    const length = Math.max(removed.length, added.length);
+    for (let k = 0; k < length; k++) {
+      const left = removed[k] ?? null;
+      const right = added[k] ?? null;
+      rows.push({
+        type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added',
+        left,
+        right,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      flush();
+      rows.push({ type: 'equal', left: op.line, right: op.line });
+    } else if (op.type === 'removed') {
+      removed.push(op.line);
+    } else {
+      added.push(op.line);
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+/**
+ * 두 리비전 비교
+ */
+export function compareRevisions(
+  before: { title: string; content: string },
+  after: { title: string; content: string },
+  mode: DiffMode = 'text'
+) {
+  const rows = toSideBySide(diffLines(toLines(before.content, mode), toLines(after.content, mode)));
+
+  return {
+    titleChanged: before.title !== after.title,
+    rows,
+    stats: {
+      added: rows.filter((row) => row.right !== null && row.type !== 'equal').length,
+      removed: rows.filter((row) => row.left !== null && row.type !== 'equal').length,
+    },
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * 게시글 리비전(수정 이력) 서버 로직
+ * - 저장할 때마다 제목/본문/요약 스냅샷 기록
+ * - 관리자 복원은 기존 이력을 지우지 않고 새 리비전으로 추가
+ */
+
+import type { Prisma } from '@prisma/client';
+import { db } from '~/lib/db.server';
+import { syncPostFileReferences } from '~/lib/media/media.server';
+import { runPluginHook, toPluginPost } from '~/lib/architecture/plugin-system.server';
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+interface RevisionSnapshot {
+  title: string;
+  content: string;
+  excerpt: string | null;
+}
+
+const revisionAuthorSelect = {
+  select: { id: true, username: true, name: true },
+} as const;
+
+/**
+ * 리비전 기록 (게시글별 번호 자동 증가)
+ */
+export async function recordRevision(
+  client: DbClient,
+  input: RevisionSnapshot & {
+    postId: string;
+    authorId: string;
+    restoredFromId?: string;
+    createdAt?: Date;
+  }
+) {
+  const latest = await client.postRevision.findFirst({
+    where: { postId: input.postId },
+    orderBy: { revision: 'desc' },
+    select: { revision: true },
+  });
+
+  return client.postRevision.create({
+    data: {
+      postId: input.postId,
+      authorId: input.authorId,
+      revision: (latest?.revision ?? 0) + 1,
+      title: input.title,
+      content: input.content,
+      excerpt: input.excerpt,
+      restoredFromId: input.restoredFromId,
+      createdAt: input.createdAt,
+    },
+  });
+}
+
+/**
+ * 리비전 기능 도입 이전 게시글은 현재 상태를 1번 리비전으로 보존
+ */
+async function ensureBaseRevision(client: DbClient, postId: string) {
+  const count = await client.postRevision.count({ where: { postId } });
+  if (count > 0) return;
+
+  const post = await client.post.findUnique({
+    where: { id: postId },
+    select: { title: true, content: true, excerpt: true, authorId: true, updatedAt: true },
+  });
+  if (!post) return;
+
+  await recordRevision(client, {
+    postId,
+    authorId: post.authorId,
+    title: post.title,
+    content: post.content,
+    excerpt: post.excerpt,
+    createdAt: post.updatedAt,
+  });
+}
+
+/**
+ * 게시글 수정 + 리비전 기록 (단일 트랜잭션)
+ */
+export async function updatePostWithRevision(
+  postId: string,
+  editorId: string,
+  data: Prisma.PostUncheckedUpdateInput & RevisionSnapshot
+) {
+  const updated = await db.$transaction(async (tx) => {
+    await ensureBaseRevision(tx, postId);
+
+    const post = await tx.post.update({
+      where: { id: postId },
+      data,
+    });
+
+    await recordRevision(tx, {
+      postId,
+      authorId: editorId,
+      title: post.title,
+      content: post.content,
+      excerpt: post.excerpt,
+    });
+    await syncPostFileReferences(tx, post);
+
+    return post;
+  });
+
+  await runPluginHook('post.updated', { post: toPluginPost(updated), actorId: editorId });
+  return updated;
+}
+
+/**
+ * 게시글 리비전 목록 (최신순)
+ */
+export async function getPostRevisions(postId: string) {
+  return db.postRevision.findMany({
+    where: { postId },
+    orderBy: { revision: 'desc' },
+    select: {
+      id: true,
+      revision: true,
+      title: true,
+      restoredFromId: true,
+      createdAt: true,
+      author: revisionAuthorSelect,
+    },
+  });
+}
+
+/**
+ * 단일 리비전 조회
+ */
+export async function getRevision(revisionId: string) {
+  return db.postRevision.findUnique({
+    where: { id: revisionId },
+    include: { author: revisionAuthorSelect },
+  });
+}
+
+/**
+ * 리비전 복원 (관리자)
+ * 게시글 내용을 해당 리비전으로 되돌리고 복원 기록을 새 리비전으로 남김
+ */
+export async function restoreRevision(revisionId: string, adminId: string) {
+  const restored = await db.$transaction(async (tx) => {
+    const revision = await tx.postRevision.findUnique({
+      where: { id: revisionId },
+    });
+
+    if (!revision) {
+      throw new Error('리비전을 찾을 수 없습니다.');
+    }
+
+    await ensureBaseRevision(tx, revision.postId);
+
+    const post = await tx.post.update({
+      where: { id: revision.postId },
+      data: {
+        title: revision.title,
+        content: revision.content,
+        excerpt: revision.excerpt,
+      },
+    });
+
+    await recordRevision(tx, {
+      postId: revision.postId,
+      authorId: adminId,
+      title: revision.title,
+      content: revision.content,
+      excerpt: revision.excerpt,
+      restoredFromId: revision.id,
+    });
+    await syncPostFileReferences(tx, post);
+
+    return post;
+  });
+
+  await runPluginHook('post.updated', { post: toPluginPost(restored), actorId: adminId });
+  return restored;
+}
@@ -0,0 +1,61 @@
+/**
+ * 검색어/필터 파싱 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  parseSearchParams,
+  splitHighlights,
+  toLikePattern,
+  toPrefixTsQuery,
+  tokenizeQuery,
+} from '../search-query';
+
+describe('tokenizeQuery / toPrefixTsQuery', () => {
+  it('기호를 구분자로 처리하고 접두사 AND 쿼리를 만들어야 함', () => {
+    const terms = tokenizeQuery("게시판 & 'Remix' | (검색):*");
+    expect(terms).toEqual(['게시판', 'remix', '검색']);
+    expect(toPrefixTsQuery(terms)).toBe('게시판:* & remix:* & 검색:*');
+  });
+
+  it('중복 단어를 제거하고 빈 검색어는 빈 배열이어야 함', () => {
+    expect(tokenizeQuery('이벤트 이벤트')).toEqual(['이벤트']);
+    expect(tokenizeQuery('  !!  ')).toEqual([]);
+  });
+});
+
+describe('toLikePattern', () => {
+  it('ILIKE 와일드카드를 이스케이프해야 함', () => {
+    expect(toLikePattern('100%_완료')).toBe('%100\\%\\_완료%');
+  });
+});
+
+describe('parseSearchParams', () => {
+  it('필터와 페이지를 파싱해야 함', () => {
+    const params = parseSearchParams(
+      new URLSearchParams('q=공지&scope=comments&board=free&author=admin&from=2026-10-01&to=2026-10-19&page=3')
+    );
+    expect(params).toMatchObject({ query: '공지', scope: 'comments', board: 'free', author: 'admin', page: 3 });
+    expect(params.from?.toISOString()).toBe('2026-09-30T15:00:00.000Z');
+    expect(params.to?.toISOString()).toBe('2026-10-19T14:59:59.999Z');
+  });
+
+  it('잘못된 값은 기본값으로 처리해야 함', () => {
+    const params = parseSearchParams(new URLSearchParams('scope=all&page=-1&from=yesterday'));
+    expect(params).toMatchObject({ query: '', scope: 'posts', page: 1, from: undefined });
+  });
+});
+
+describe('splitHighlights', () => {
+  it('하이라이트 구간을 분리하고 엔티티를 복원해야 함', () => {
+    const snippet = `a &lt; b ${HIGHLIGHT_START}검색${HIGHLIGHT_END} 결과 ${HIGHLIGHT_START}키워드${HIGHLIGHT_END}`;
+    expect(splitHighlights(snippet)).toEqual([
+      { text: 'a < b ', highlighted: false },
+      { text: '검색', highlighted: true },
+      { text: ' 결과 ', highlighted: false },
+      { text: '키워드', highlighted: true },
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * 검색어/필터 파싱 유틸리티
+ * - 검색어 → 접두사 tsquery (조사가 붙은 한글 어절도 매칭: "게시판" → 게시판:*)
+ * - URL 파라미터 → 검색 옵션
+ * - ts_headline 하이라이트 구분자 분리
+ */
+
+export type SearchScope = 'posts' | 'comments';
+
+export interface SearchFilters {
+  board?: string;
+  author?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface SearchParams extends SearchFilters {
+  query: string;
+  scope: SearchScope;
+  page: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export const SEARCH_PAGE_SIZE = 20;
+export const MAX_QUERY_LENGTH = 100;
+const MAX_TERMS = 8;
+
+/** ts_headline StartSel/StopSel (본문에 나타나지 않는 제어 문자) */
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+const ENTITY_MAP: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&amp;': '&',
+};
+
+/**
+ * 검색어 → 단어 목록 (문자/숫자 외 기호는 구분자로 취급해 tsquery 문법 오류 방지)
+ */
+export function tokenizeQuery(query: string): string[] {
+  const terms = query
+    .slice(0, MAX_QUERY_LENGTH)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}_]+/gu, ' ')
+    .split(/\s+/)
+    .filter((term) => term.length > 0);
+
+  return [...new Set(terms)].slice(0, MAX_TERMS);
+}
+
+/**
+ * 단어 목록 → 접두사 AND tsquery 문자열 (to_tsquery('simple', ...) 입력)
+ */
+export function toPrefixTsQuery(terms: string[]): string {
+  return terms.map((term) => `${term}:*`).join(' & ');
+}
+
+/**
+ * ILIKE 패턴 이스케이프 (% _ \)
+ */
+export function toLikePattern(query: string): string {
+  return `%${query.trim().replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+function parseDate(value: string | null, endOfDay = false): Date | undefined {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const date = new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}+09:00`);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * URL 파라미터 → 검색 옵션
+ * q, scope(posts|comments), board(메뉴 slug), author(아이디), from/to(YYYY-MM-DD, KST), page
+ */
+export function parseSearchParams(params: URLSearchParams): SearchParams {
+  const page = Number(params.get('page'));
+
+  return {
+    query: (params.get('q') || '').trim().slice(0, MAX_QUERY_LENGTH),
+    scope: params.get('scope') === 'comments' ? 'comments' : 'posts',
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+    board: params.get('board') || undefined,
+    author: params.get('author') || undefined,
+    from: parseDate(params.get('from')),
+    to: parseDate(params.get('to'), true),
+  };
+}
+
+/**
+ * 스니펫 → 하이라이트 구간 (HTML 엔티티 복원, React 로 안전하게 렌더링)
+ */
+export function splitHighlights(snippet: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  const decode = (text: string) =>
+    text.replace(/&(nbsp|lt|gt|quot|#39|amp);/g, (entity) => ENTITY_MAP[entity] ?? entity);
+
+  for (const [index, part] of snippet.split(HIGHLIGHT_START).entries()) {
+    if (index === 0) {
+      if (part) segments.push({ text: decode(part), highlighted: false });
+      continue;
+    }
+    const [marked, ...rest] = part.split(HIGHLIGHT_END);
+    if (marked) segments.push({ text: decode(marked), highlighted: true });
+    const tail = rest.join('');
+    if (tail) segments.push({ text: decode(tail), highlighted: false });
+  }
+
+  return segments;
+}
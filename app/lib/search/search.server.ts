@@ -0,0 +1,276 @@
+/**
+ * 게시글/댓글 전문 검색
+ * - posts.search_vector / comments.search_vector (generated tsvector, GIN) 접두사 매칭
+ * - pg_trgm 인덱스를 쓰는 ILIKE 로 한글 부분 일치 보완
+ * - ts_rank_cd + 제목 유사도로 정렬, ts_headline 으로 스니펫 생성
+ * - 공개(PUBLISHED) 게시글과 읽기 권한이 있는 게시판만 대상
+ */
+
+import { Prisma } from '@prisma/client';
+import { db } from '~/lib/db.server';
+import { getUnreadableMenuIds } from '~/lib/boards/board-permission.server';
+import type { BoardViewer } from '~/lib/boards/board-permission';
+import {
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  SEARCH_PAGE_SIZE,
+  toLikePattern,
+  toPrefixTsQuery,
+  tokenizeQuery,
+  type SearchFilters,
+  type SearchParams,
+} from './search-query';
+
+export interface PostSearchHit {
+  id: string;
+  title: string;
+  slug: string;
+  snippet: string;
+  rank: number;
+  views: number;
+  createdAt: Date;
+  menuSlug: string;
+  menuName: string;
+  authorUsername: string;
+  authorName: string | null;
+  commentCount: number;
+}
+
+export interface CommentSearchHit {
+  id: string;
+  snippet: string;
+  rank: number;
+  createdAt: Date;
+  postTitle: string;
+  postSlug: string;
+  menuSlug: string;
+  menuName: string;
+  authorUsername: string;
+  authorName: string | null;
+}
+
+export interface SearchResults {
+  query: string;
+  scope: SearchParams['scope'];
+  page: number;
+  totalPages: number;
+  counts: { posts: number; comments: number };
+  posts: PostSearchHit[];
+  comments: CommentSearchHit[];
+}
+
+const HEADLINE_OPTIONS =
+  `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// 인덱스(posts_content_text_trgm_idx)와 동일한 표현식이어야 함
+const POST_TEXT = Prisma.sql`regexp_replace(p.content, '<[^>]*>', ' ', 'g')`;
+
+interface PreparedQuery {
+  tsQuery: string;
+  like: string;
+  raw: string;
+}
+
+function prepareQuery(query: string): PreparedQuery | null {
+  const terms = tokenizeQuery(query);
+  if (terms.length === 0) return null;
+  return { tsQuery: toPrefixTsQuery(terms), like: toLikePattern(query), raw: query.trim() };
+}
+
+/**
+ * 게시판/작성자/기간/권한 조건 (p = posts, a = 작성자, m = menus)
+ */
+function buildFilterSql(filters: SearchFilters, hiddenMenuIds: string[], createdAtColumn: Prisma.Sql) {
+  const conditions: Prisma.Sql[] = [Prisma.sql`p.status = 'PUBLISHED'`];
+
+  if (hiddenMenuIds.length > 0) {
+    conditions.push(Prisma.sql`p.menu_id NOT IN (${Prisma.join(hiddenMenuIds)})`);
+  }
+  if (filters.board) {
+    conditions.push(Prisma.sql`m.slug = ${filters.board}`);
+  }
+  if (filters.author) {
+    conditions.push(Prisma.sql`a.username = ${filters.author}`);
+  }
+  if (filters.from) {
+    conditions.push(Prisma.sql`${createdAtColumn} >= ${filters.from}`);
+  }
+  if (filters.to) {
+    conditions.push(Prisma.sql`${createdAtColumn} <= ${filters.to}`);
+  }
+
+  return Prisma.join(conditions, ' AND ');
+}
+
+function postMatchSql(q: PreparedQuery) {
+  return Prisma.sql`(
+    p.search_vector @@ to_tsquery('simple', ${q.tsQuery})
+    OR p.title ILIKE ${q.like}
+    OR ${POST_TEXT} ILIKE ${q.like}
+  )`;
+}
+
+function commentMatchSql(q: PreparedQuery) {
+  return Prisma.sql`(
+    c.search_vector @@ to_tsquery('simple', ${q.tsQuery})
+    OR c.content ILIKE ${q.like}
+  )`;
+}
+
+async function countPosts(q: PreparedQuery, where: Prisma.Sql): Promise<number> {
+  const [row] = await db.$queryRaw<Array<{ count: bigint }>>`
+    SELECT count(*) AS count
+    FROM posts p
+    JOIN menus m ON m.id = p.menu_id
+    JOIN users a ON a.id = p.author_id
+    WHERE ${where} AND ${postMatchSql(q)}
+  `;
+  return Number(row?.count ?? 0);
+}
+
+async function countComments(q: PreparedQuery, where: Prisma.Sql): Promise<number> {
+  const [row] = await db.$queryRaw<Array<{ count: bigint }>>`
+    SELECT count(*) AS count
+    FROM comments c
+    JOIN posts p ON p.id = c.post_id
+    JOIN menus m ON m.id = p.menu_id
+    JOIN users a ON a.id = c.author_id
+    WHERE ${where} AND ${commentMatchSql(q)}
+  `;
+  return Number(row?.count ?? 0);
+}
+
+/**
+ * 게시글 검색 (랭킹 상위 페이지만 스니펫 생성)
+ */
+async function searchPosts(q: PreparedQuery, where: Prisma.Sql, limit: number, offset: number) {
+  const rows = await db.$queryRaw<Array<Omit<PostSearchHit, 'commentCount'> & { commentCount: bigint }>>`
+    SELECT
+      hit.id, hit.title, hit.slug, hit.rank, hit.views,
+      hit.created_at AS "createdAt",
+      hit.menu_slug AS "menuSlug", hit.menu_name AS "menuName",
+      hit.author_username AS "authorUsername", hit.author_name AS "authorName",
+      ts_headline('simple', regexp_replace(hit.content, '<[^>]*>', ' ', 'g'),
+        to_tsquery('simple', ${q.tsQuery}), ${HEADLINE_OPTIONS}) AS snippet,
+      (SELECT count(*) FROM comments c WHERE c.post_id = hit.id) AS "commentCount"
+    FROM (
+      SELECT
+        p.id, p.title, p.slug, p.content, p.views, p.created_at,
+        m.slug AS menu_slug, m.name AS menu_name,
+        a.username AS author_username, a.name AS author_name,
+        ts_rank_cd(p.search_vector, to_tsquery('simple', ${q.tsQuery}), 32)
+          + similarity(p.title, ${q.raw}) AS rank
+      FROM posts p
+      JOIN menus m ON m.id = p.menu_id
+      JOIN users a ON a.id = p.author_id
+      WHERE ${where} AND ${postMatchSql(q)}
+      ORDER BY rank DESC, p.created_at DESC
+      LIMIT ${limit} OFFSET ${offset}
+    ) hit
+    ORDER BY hit.rank DESC, hit.created_at DESC
+  `;
+
+  return rows.map((row) => ({ ...row, rank: Number(row.rank), commentCount: Number(row.commentCount) }));
+}
+
+/**
+ * 댓글 검색
+ */
+async function searchComments(q: PreparedQuery, where: Prisma.Sql, limit: number, offset: number) {
+  const rows = await db.$queryRaw<CommentSearchHit[]>`
+    SELECT
+      hit.id, hit.rank,
+      hit.created_at AS "createdAt",
+      hit.post_title AS "postTitle", hit.post_slug AS "postSlug",
+      hit.menu_slug AS "menuSlug", hit.menu_name AS "menuName",
+      hit.author_username AS "authorUsername", hit.author_name AS "authorName",
+      ts_headline('simple', hit.content, to_tsquery('simple', ${q.tsQuery}), ${HEADLINE_OPTIONS}) AS snippet
+    FROM (
+      SELECT
+        c.id, c.content, c.created_at,
+        p.title AS post_title, p.slug AS post_slug,
+        m.slug AS menu_slug, m.name AS menu_name,
+        a.username AS author_username, a.name AS author_name,
+        ts_rank_cd(c.search_vector, to_tsquery('simple', ${q.tsQuery}), 32) AS rank
+      FROM comments c
+      JOIN posts p ON p.id = c.post_id
+      JOIN menus m ON m.id = p.menu_id
+      JOIN users a ON a.id = c.author_id
+      WHERE ${where} AND ${commentMatchSql(q)}
+      ORDER BY rank DESC, c.created_at DESC
+      LIMIT ${limit} OFFSET ${offset}
+    ) hit
+    ORDER BY hit.rank DESC, hit.created_at DESC
+  `;
+
+  return rows.map((row) => ({ ...row, rank: Number(row.rank) }));
+}
+
+/**
+ * 통합 검색: 선택한 범위(scope)는 페이지 단위 결과, 나머지는 건수만 조회
+ */
+export async function searchContent(
+  params: SearchParams,
+  viewer: BoardViewer | null,
+  pageSize: number = SEARCH_PAGE_SIZE
+): Promise<SearchResults> {
+  const empty: SearchResults = {
+    query: params.query,
+    scope: params.scope,
+    page: params.page,
+    totalPages: 0,
+    counts: { posts: 0, comments: 0 },
+    posts: [],
+    comments: [],
+  };
+
+  const q = prepareQuery(params.query);
+  if (!q) return empty;
+
+  const hiddenMenuIds = await getUnreadableMenuIds(viewer);
+  const postWhere = buildFilterSql(params, hiddenMenuIds, Prisma.sql`p.created_at`);
+  const commentWhere = buildFilterSql(params, hiddenMenuIds, Prisma.sql`c.created_at`);
+  const offset = (params.page - 1) * pageSize;
+
+  const [postCount, commentCount] = await Promise.all([
+    countPosts(q, postWhere),
+    countComments(q, commentWhere),
+  ]);
+
+  const [posts, comments] = await Promise.all([
+    params.scope === 'posts' && postCount > offset ? searchPosts(q, postWhere, pageSize, offset) : [],
+    params.scope === 'comments' && commentCount > offset ? searchComments(q, commentWhere, pageSize, offset) : [],
+  ]);
+
+  const activeCount = params.scope === 'posts' ? postCount : commentCount;
+
+  return {
+    ...empty,
+    totalPages: Math.ceil(activeCount / pageSize),
+    counts: { posts: postCount, comments: commentCount },
+    posts,
+    comments,
+  };
+}
+
+/**
+ * 게시판 목록 검색용: 검색어와 일치하는 게시글 ID (관련도순, 최대 limit 개)
+ */
+export async function findMatchingPostIds(
+  query: string,
+  menuId: string,
+  limit: number = 1000
+): Promise<string[]> {
+  const q = prepareQuery(query);
+  if (!q) return [];
+
+  const rows = await db.$queryRaw<Array<{ id: string }>>`
+    SELECT p.id
+    FROM posts p
+    WHERE p.menu_id = ${menuId} AND p.status = 'PUBLISHED' AND ${postMatchSql(q)}
+    ORDER BY ts_rank_cd(p.search_vector, to_tsquery('simple', ${q.tsQuery}), 32) DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => row.id);
+}
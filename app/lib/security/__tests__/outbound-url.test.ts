@@ -0,0 +1,39 @@
+/**
+ * 외부 요청 주소 검사 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkOutboundUrl, isPrivateAddress } from '../outbound-url.server';
+
+describe('isPrivateAddress', () => {
+  it('루프백/사설망/링크 로컬 주소', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.0.10', '169.254.169.254', '0.0.0.0', '100.64.0.1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ['::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  it('공인 주소', () => {
+    expect(isPrivateAddress('8.8.8.8')).toBe(false);
+    expect(isPrivateAddress('172.32.0.1')).toBe(false);
+    expect(isPrivateAddress('2001:4860:4860::8888')).toBe(false);
+    expect(isPrivateAddress('::ffff:8.8.8.8')).toBe(false);
+  });
+});
+
+describe('checkOutboundUrl', () => {
+  it('내부 주소와 http(s) 가 아닌 주소는 거부', async () => {
+    expect(await checkOutboundUrl('http://127.0.0.1:8080/admin')).not.toBeNull();
+    expect(await checkOutboundUrl('http://[::1]/')).not.toBeNull();
+    expect(await checkOutboundUrl('http://[::ffff:127.0.0.1]/')).not.toBeNull();
+    expect(await checkOutboundUrl('http://localhost:3000/')).not.toBeNull();
+    expect(await checkOutboundUrl('file:///etc/passwd')).not.toBeNull();
+    expect(await checkOutboundUrl('not a url')).not.toBeNull();
+  });
+
+  it('공인 IP 주소는 허용', async () => {
+    expect(await checkOutboundUrl('https://8.8.8.8/hook')).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * 서버가 요청을 보내는 외부 주소 검사 (SSRF 방지)
+ * - 사용자/관리자가 입력한 주소로 서버가 직접 요청하는 기능(웹훅, 웹 푸시)에서 사용
+ * - 루프백/사설망/링크 로컬 등 내부 주소와, 그런 주소로 해석되는 호스트 이름을 거부
+ */
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+function parseIPv4(address: string) {
+  return address.split('.').map(Number);
+}
+
+function isPrivateIPv4(address: string) {
+  const [a, b, c] = parseIPv4(address);
+  return (
+    a === 0 || // 현재 네트워크
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // CGNAT
+    (a === 169 && b === 254) || // 링크 로컬 (클라우드 메타데이터 포함)
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && c === 0) || // IETF 프로토콜 할당
+    (a === 198 && (b === 18 || b === 19)) || // 벤치마크
+    a >= 224 // 멀티캐스트/예약
+  );
+}
+
+function isPrivateIPv6(address: string) {
+  const normalized = address.toLowerCase();
+
+  // IPv4 매핑 주소 (::ffff:127.0.0.1, URL 파서는 ::ffff:7f00:1 로 바꿈)
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIPv4(mapped[1]);
+  const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = mappedHex.slice(1).map((part) => parseInt(part, 16));
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  return (
+    normalized === '::' ||
+    normalized === '::1' ||
+    /^f[cd][0-9a-f]{2}:/.test(normalized) || // 고유 로컬 fc00::/7
+    /^fe[89ab][0-9a-f]:/.test(normalized) || // 링크 로컬 fe80::/10
+    normalized.startsWith('ff') // 멀티캐스트
+  );
+}
+
+/**
+ * 내부망/예약 주소 여부 (IP 형식이 아니면 false)
+ */
+export function isPrivateAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4:
+      return isPrivateIPv4(address);
+    case 6:
+      return isPrivateIPv6(address);
+    default:
+      return false;
+  }
+}
+
+/**
+ * 외부로 요청해도 되는 주소인지 검사 (문제가 있으면 사유 메시지, 없으면 null)
+ * 호스트 이름은 DNS 로 해석한 모든 주소를 확인
+ */
+export async function checkOutboundUrl(value: string | URL): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return '올바른 URL 이 아닙니다.';
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return 'http 또는 https 주소만 사용할 수 있습니다.';
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) {
+    return '내부 주소로는 요청할 수 없습니다.';
+  }
+
+  if (isIP(host)) {
+    return isPrivateAddress(host) ? '내부 주소로는 요청할 수 없습니다.' : null;
+  }
+
+  try {
+    const addresses = await lookup(host, { all: true });
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return '내부 주소로는 요청할 수 없습니다.';
+    }
+  } catch {
+    return '주소를 찾을 수 없습니다.';
+  }
+  return null;
+}
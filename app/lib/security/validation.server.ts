@@ -21,6 +21,15 @@ export function sanitizeHTML(html: string): string {
   });
 }
 
+// 페이지 빌더 사용자 정의 HTML 정화
+// 레이아웃용 태그와 class/style 은 허용하고, 스크립트/이벤트 속성/iframe/폼 요소는 제거
+export function sanitizeCustomHTML(html: string): string {
+  return DOMPurify.sanitize(html, {
+    USE_PROFILES: { html: true },
+    FORBID_TAGS: ['script', 'style', 'iframe', 'object', 'embed', 'base', 'link', 'meta', 'form', 'input', 'button', 'textarea', 'select'],
+  });
+}
+
 // SQL 인젝션 방지를 위한 입력 검증
 export function validateSQLInput(input: string): boolean {
   // 위험한 SQL 키워드 패턴 검사
@@ -0,0 +1,41 @@
+/**
+ * 스토리지 키 / 로컬 서명 URL 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createUrlSignature, keyFromUploadUrl, normalizeStorageKey, verifyUrlSignature } from '../storage-key';
+
+describe('normalizeStorageKey', () => {
+  it('상위 경로 이동과 빈 세그먼트를 거부', () => {
+    expect(normalizeStorageKey('originals/a.png')).toBe('originals/a.png');
+    expect(normalizeStorageKey('/originals/a.png')).toBe('originals/a.png');
+    expect(normalizeStorageKey('originals/../../etc/passwd')).toBeNull();
+    expect(normalizeStorageKey('originals//a.png')).toBeNull();
+    expect(normalizeStorageKey('..\\secret')).toBeNull();
+    expect(normalizeStorageKey('')).toBeNull();
+  });
+
+  it('공개 URL 에서 키 추출', () => {
+    expect(keyFromUploadUrl('/uploads/variants/abc_small.webp?v=1')).toBe('variants/abc_small.webp');
+    expect(keyFromUploadUrl('/static/a.png')).toBeNull();
+  });
+});
+
+describe('verifyUrlSignature', () => {
+  const secret = 'test-secret';
+  const now = new Date('2026-01-01T00:00:00Z');
+  const expires = Math.floor(now.getTime() / 1000) + 60;
+  const signature = createUrlSignature(secret, 'private/a.pdf', expires);
+
+  it('만료 전의 올바른 서명만 허용', () => {
+    expect(verifyUrlSignature(secret, 'private/a.pdf', String(expires), signature, now)).toBe(true);
+    expect(verifyUrlSignature(secret, 'private/b.pdf', String(expires), signature, now)).toBe(false);
+    expect(verifyUrlSignature(secret, 'private/a.pdf', String(expires + 1), signature, now)).toBe(false);
+    expect(verifyUrlSignature(secret, 'private/a.pdf', null, signature, now)).toBe(false);
+  });
+
+  it('만료된 서명은 거부', () => {
+    const later = new Date(now.getTime() + 61 * 1000);
+    expect(verifyUrlSignature(secret, 'private/a.pdf', String(expires), signature, later)).toBe(false);
+  });
+});
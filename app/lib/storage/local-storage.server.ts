@@ -0,0 +1,88 @@
+/**
+ * 로컬 디스크 스토리지
+ * 업로드 루트 아래에 키 경로 그대로 저장하며, 파일은 /uploads 라우트가 전달
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import type { StorageAdapter, StoredObject, StoredObjectInfo } from './storage.server';
+import { createUrlSignature, normalizeStorageKey, toUploadUrl } from './storage-key';
+
+export class LocalStorage implements StorageAdapter {
+  readonly driver = 'local' as const;
+  readonly root: string;
+
+  constructor(root: string, private readonly signingSecret: () => string) {
+    this.root = path.resolve(root);
+  }
+
+  /**
+   * 키를 업로드 루트 안의 실제 경로로 변환 (루트 밖을 가리키면 예외)
+   */
+  resolve(key: string) {
+    const normalized = normalizeStorageKey(key);
+    const resolved = normalized ? path.resolve(this.root, normalized) : null;
+    if (!resolved || !resolved.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, body: Buffer) {
+    const target = this.resolve(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, body);
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const body = await fs.readFile(this.resolve(key)).catch(() => null);
+    return body ? { body, contentType: null, size: body.length } : null;
+  }
+
+  async exists(key: string) {
+    return fs
+      .access(this.resolve(key))
+      .then(() => true)
+      .catch(() => false);
+  }
+
+  async delete(key: string) {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  async list(prefix: string): Promise<StoredObjectInfo[]> {
+    // prefix 가 디렉터리 중간에서 끝날 수 있으므로 상위 디렉터리를 훑고 이름으로 거름
+    const slash = prefix.lastIndexOf('/');
+    const dir = slash >= 0 ? prefix.slice(0, slash) : '';
+    const start = dir ? this.resolve(dir) : this.root;
+
+    const objects: StoredObjectInfo[] = [];
+    const walk = async (current: string) => {
+      const entries = await fs.readdir(current, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        const full = path.join(current, entry.name);
+        if (entry.isDirectory()) {
+          await walk(full);
+        } else if (entry.isFile()) {
+          const key = path.relative(this.root, full).split(path.sep).join('/');
+          if (key.startsWith(prefix)) {
+            objects.push({ key, size: (await fs.stat(full)).size });
+          }
+        }
+      }
+    };
+    await walk(start);
+
+    return objects;
+  }
+
+  getPublicUrl() {
+    return null;
+  }
+
+  getSignedUrl(key: string, expiresIn: number) {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const signature = createUrlSignature(this.signingSecret(), key, expires);
+    return `${toUploadUrl(key)}?expires=${expires}&signature=${signature}`;
+  }
+}
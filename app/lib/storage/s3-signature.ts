@@ -0,0 +1,158 @@
+/**
+ * S3 호환 스토리지 요청 서명 (AWS Signature Version 4)
+ * AWS S3, MinIO, Cloudflare R2 등 SigV4 를 지원하는 저장소에 SDK 없이 요청하기 위한 순수 함수
+ */
+
+import crypto from 'crypto';
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+}
+
+export const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+
+function sha256(data: string | Buffer) {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: crypto.BinaryLike, data: string) {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function encodeRfc3986(value: string) {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * 객체 키를 URL 경로로 인코딩 (슬래시는 유지)
+ */
+export function encodeS3Key(key: string) {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+/**
+ * 20130524T000000Z 형식 시각
+ */
+export function toAmzDate(date: Date) {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+}
+
+export function hashPayload(body: Buffer | string) {
+  return sha256(body);
+}
+
+function canonicalQuery(params: URLSearchParams) {
+  return [...params.entries()]
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+function signature(
+  credentials: S3Credentials,
+  amzDate: string,
+  method: string,
+  url: URL,
+  headers: Record<string, string>,
+  payloadHash: string
+) {
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${credentials.region}/s3/aws4_request`;
+
+  const normalized = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, ' ')] as const)
+    .sort(([a], [b]) => (a < b ? -1 : 1));
+  const signedHeaders = normalized.map(([name]) => name).join(';');
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery(url.searchParams),
+    normalized.map(([name, value]) => `${name}:${value}\n`).join(''),
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const stringToSign = [ALGORITHM, amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  const kDate = hmac(`AWS4${credentials.secretAccessKey}`, dateStamp);
+  const kRegion = hmac(kDate, credentials.region);
+  const kService = hmac(kRegion, 's3');
+  const kSigning = hmac(kService, 'aws4_request');
+
+  return {
+    scope,
+    signedHeaders,
+    signature: crypto.createHmac('sha256', kSigning).update(stringToSign).digest('hex'),
+  };
+}
+
+/**
+ * 요청 헤더 서명 (Authorization 헤더 방식)
+ * 반환한 헤더를 그대로 fetch 에 넘기면 됨 (host 는 fetch 가 채우므로 제외)
+ */
+export function signS3Request(options: {
+  method: string;
+  url: URL;
+  credentials: S3Credentials;
+  headers?: Record<string, string>;
+  payloadHash?: string;
+  date?: Date;
+}): Record<string, string> {
+  const amzDate = toAmzDate(options.date ?? new Date());
+  const payloadHash = options.payloadHash ?? EMPTY_PAYLOAD_HASH;
+  const headers: Record<string, string> = {
+    ...options.headers,
+    host: options.url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+
+  const signed = signature(options.credentials, amzDate, options.method, options.url, headers, payloadHash);
+  delete headers.host;
+
+  return {
+    ...headers,
+    authorization: `${ALGORITHM} Credential=${options.credentials.accessKeyId}/${signed.scope}, SignedHeaders=${signed.signedHeaders}, Signature=${signed.signature}`,
+  };
+}
+
+/**
+ * 만료 시간이 있는 서명 URL (쿼리 문자열 방식)
+ */
+export function presignS3Url(options: {
+  method?: string;
+  url: URL;
+  credentials: S3Credentials;
+  /** 초 단위 (최대 7일) */
+  expiresIn: number;
+  date?: Date;
+}): string {
+  const amzDate = toAmzDate(options.date ?? new Date());
+  const url = new URL(options.url);
+  const scope = `${amzDate.slice(0, 8)}/${options.credentials.region}/s3/aws4_request`;
+
+  url.searchParams.set('X-Amz-Algorithm', ALGORITHM);
+  url.searchParams.set('X-Amz-Credential', `${options.credentials.accessKeyId}/${scope}`);
+  url.searchParams.set('X-Amz-Date', amzDate);
+  url.searchParams.set('X-Amz-Expires', String(Math.min(Math.max(1, Math.floor(options.expiresIn)), 604800)));
+  url.searchParams.set('X-Amz-SignedHeaders', 'host');
+
+  const signed = signature(
+    options.credentials,
+    amzDate,
+    options.method ?? 'GET',
+    url,
+    { host: url.host },
+    UNSIGNED_PAYLOAD
+  );
+  url.searchParams.set('X-Amz-Signature', signed.signature);
+
+  return url.toString();
+}
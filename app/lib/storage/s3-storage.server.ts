@@ -0,0 +1,132 @@
+/**
+ * S3 호환 스토리지 (AWS S3, MinIO, R2 등)
+ * SDK 없이 fetch + SigV4 서명으로 요청
+ */
+
+import type { StorageAdapter, StoredObject, StoredObjectInfo } from './storage.server';
+import { encodeS3Key, hashPayload, presignS3Url, signS3Request, type S3Credentials } from './s3-signature';
+
+export interface S3StorageOptions {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+  /** 버킷을 공개로 열어 CDN 등으로 직접 제공할 때의 기준 URL */
+  publicUrl: string | null;
+}
+
+const LIST_PAGE_SIZE = 1000;
+
+export class S3Storage implements StorageAdapter {
+  readonly driver = 's3' as const;
+  private readonly credentials: S3Credentials;
+
+  constructor(private readonly options: S3StorageOptions) {
+    this.credentials = {
+      accessKeyId: options.accessKeyId,
+      secretAccessKey: options.secretAccessKey,
+      region: options.region,
+    };
+  }
+
+  private objectUrl(key = '') {
+    const endpoint = new URL(this.options.endpoint);
+    const base = endpoint.pathname.replace(/\/+$/, '');
+
+    if (this.options.forcePathStyle) {
+      return new URL(`${endpoint.origin}${base}/${this.options.bucket}/${encodeS3Key(key)}`);
+    }
+    return new URL(`${endpoint.protocol}//${this.options.bucket}.${endpoint.host}${base}/${encodeS3Key(key)}`);
+  }
+
+  private async request(method: string, url: URL, body?: Buffer, headers: Record<string, string> = {}) {
+    const signed = signS3Request({
+      method,
+      url,
+      credentials: this.credentials,
+      headers,
+      payloadHash: body ? hashPayload(body) : undefined,
+    });
+
+    return fetch(url, { method, headers: signed, body: body ? new Uint8Array(body) : undefined });
+  }
+
+  private async fail(action: string, key: string, response: Response): Promise<never> {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`S3 ${action} failed for ${key}: ${response.status} ${detail.slice(0, 200)}`);
+  }
+
+  async put(key: string, body: Buffer, { contentType }: { contentType: string }) {
+    const response = await this.request('PUT', this.objectUrl(key), body, { 'content-type': contentType });
+    if (!response.ok) await this.fail('PUT', key, response);
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const response = await this.request('GET', this.objectUrl(key));
+    if (response.status === 404) return null;
+    if (!response.ok) await this.fail('GET', key, response);
+
+    const body = Buffer.from(await response.arrayBuffer());
+    return { body, contentType: response.headers.get('content-type'), size: body.length };
+  }
+
+  async exists(key: string) {
+    const response = await this.request('HEAD', this.objectUrl(key));
+    if (response.status === 404) return false;
+    if (!response.ok) await this.fail('HEAD', key, response);
+    return true;
+  }
+
+  async delete(key: string) {
+    const response = await this.request('DELETE', this.objectUrl(key));
+    if (!response.ok && response.status !== 404) await this.fail('DELETE', key, response);
+  }
+
+  async list(prefix: string): Promise<StoredObjectInfo[]> {
+    const objects: StoredObjectInfo[] = [];
+    let continuationToken: string | null = null;
+
+    do {
+      const url = this.objectUrl();
+      url.searchParams.set('list-type', '2');
+      url.searchParams.set('prefix', prefix);
+      url.searchParams.set('max-keys', String(LIST_PAGE_SIZE));
+      if (continuationToken) url.searchParams.set('continuation-token', continuationToken);
+
+      const response = await this.request('GET', url);
+      if (!response.ok) await this.fail('LIST', prefix, response);
+      const xml = await response.text();
+
+      for (const match of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        const key = /<Key>([\s\S]*?)<\/Key>/.exec(match[1])?.[1];
+        const size = /<Size>(\d+)<\/Size>/.exec(match[1])?.[1];
+        if (key) objects.push({ key: decodeXml(key), size: Number(size ?? 0) });
+      }
+
+      continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml)
+        ? decodeXml(/<NextContinuationToken>([\s\S]*?)<\/NextContinuationToken>/.exec(xml)?.[1] ?? '') || null
+        : null;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  getPublicUrl(key: string) {
+    return this.options.publicUrl ? `${this.options.publicUrl.replace(/\/+$/, '')}/${encodeS3Key(key)}` : null;
+  }
+
+  getSignedUrl(key: string, expiresIn: number) {
+    return presignS3Url({ url: this.objectUrl(key), credentials: this.credentials, expiresIn });
+  }
+}
+
+function decodeXml(value: string) {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,88 @@
+/**
+ * 스토리지 객체 키와 서명 URL 검증
+ * 키는 업로드 루트 기준 상대 경로(originals/abc_photo.png)이며 공개 URL 은 /uploads/{key}
+ * private/ 아래 파일은 만료 시간이 있는 서명 URL 로만 열람 가능
+ */
+
+import crypto from 'crypto';
+
+export const UPLOAD_URL_PREFIX = '/uploads/';
+export const PRIVATE_PREFIX = 'private/';
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  mp4: 'video/mp4',
+  mp3: 'audio/mpeg',
+};
+
+/**
+ * 안전한 객체 키로 정규화 (상위 경로 이동, 빈 세그먼트, 제어 문자가 있으면 null)
+ */
+export function normalizeStorageKey(raw: string): string | null {
+  const key = raw.replace(/\\/g, '/').replace(/^\/+/, '');
+  if (!key || [...key].some((char) => char.charCodeAt(0) < 0x20)) return null;
+
+  const segments = key.split('/');
+  if (segments.some((segment) => segment === '' || segment === '.' || segment === '..')) {
+    return null;
+  }
+  return segments.join('/');
+}
+
+export function isPrivateKey(key: string) {
+  return key.startsWith(PRIVATE_PREFIX);
+}
+
+export function toUploadUrl(key: string) {
+  return `${UPLOAD_URL_PREFIX}${key}`;
+}
+
+/**
+ * 확장자로 추정한 Content-Type (모르면 null)
+ */
+export function contentTypeForKey(key: string): string | null {
+  const ext = /\.([a-z0-9]+)$/i.exec(key)?.[1]?.toLowerCase();
+  return (ext && CONTENT_TYPES[ext]) || null;
+}
+
+/**
+ * 공개 URL(/uploads/...)에서 객체 키 추출
+ */
+export function keyFromUploadUrl(url: string): string | null {
+  if (!url.startsWith(UPLOAD_URL_PREFIX)) return null;
+  return normalizeStorageKey(url.slice(UPLOAD_URL_PREFIX.length).split(/[?#]/)[0]);
+}
+
+/**
+ * 로컬 서명 URL 의 서명값 (키와 만료 시각을 함께 서명)
+ */
+export function createUrlSignature(secret: string, key: string, expires: number) {
+  return crypto.createHmac('sha256', secret).update(`${key}\n${expires}`).digest('base64url');
+}
+
+/**
+ * 서명 URL 검증 (만료되었거나 서명이 다르면 false)
+ */
+export function verifyUrlSignature(
+  secret: string,
+  key: string,
+  expires: string | null,
+  signature: string | null,
+  now: Date = new Date()
+) {
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt * 1000 < now.getTime()) {
+    return false;
+  }
+
+  const expected = Buffer.from(createUrlSignature(secret, key, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
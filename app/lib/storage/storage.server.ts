@@ -0,0 +1,90 @@
+/**
+ * 업로드 파일 스토리지
+ * - STORAGE_DRIVER 로 로컬 디스크(local) / S3 호환 저장소(s3) 선택
+ * - 여러 인스턴스로 운영할 때는 모든 인스턴스가 같은 저장소를 보도록 s3 사용
+ * - 마이그레이션 스크립트에서도 쓰므로 ~ 경로 별칭 없이 작성
+ */
+
+import { LocalStorage } from './local-storage.server';
+import { S3Storage } from './s3-storage.server';
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string | null;
+  size: number;
+}
+
+export interface StoredObjectInfo {
+  key: string;
+  size: number;
+}
+
+export interface StorageAdapter {
+  readonly driver: 'local' | 's3';
+  put(key: string, body: Buffer, options: { contentType: string }): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  /** prefix 로 시작하는 객체 목록 */
+  list(prefix: string): Promise<StoredObjectInfo[]>;
+  /** 저장소가 직접 제공하는 공개 URL (없으면 /uploads 라우트가 대신 전달) */
+  getPublicUrl(key: string): string | null;
+  /** 만료 시간이 있는 열람 URL (초 단위) */
+  getSignedUrl(key: string, expiresIn: number): string;
+}
+
+declare global {
+  var __storage__: StorageAdapter | undefined;
+}
+
+/**
+ * 서명 URL 비밀키 (별도 설정이 없으면 세션 비밀키 사용)
+ */
+export function getSigningSecret() {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('STORAGE_SIGNING_SECRET 또는 SESSION_SECRET 이 설정되어 있지 않습니다.');
+  }
+  return secret;
+}
+
+/**
+ * 환경 변수로 스토리지 생성
+ */
+export function createStorage(env: NodeJS.ProcessEnv = process.env): StorageAdapter {
+  const driver = env.STORAGE_DRIVER || 'local';
+
+  if (driver === 'local') {
+    return new LocalStorage(env.UPLOAD_DIR || './uploads', getSigningSecret);
+  }
+
+  if (driver === 's3') {
+    const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = env;
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('S3 스토리지에는 S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY 가 필요합니다.');
+    }
+
+    return new S3Storage({
+      endpoint: S3_ENDPOINT,
+      bucket: S3_BUCKET,
+      region: env.S3_REGION || 'us-east-1',
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      // MinIO 등 가상 호스트 방식을 지원하지 않는 저장소는 경로 방식 사용
+      forcePathStyle: env.S3_FORCE_PATH_STYLE !== 'false',
+      publicUrl: env.S3_PUBLIC_URL || null,
+    });
+  }
+
+  throw new Error(`지원하지 않는 STORAGE_DRIVER 입니다: ${driver}`);
+}
+
+/**
+ * 설정된 스토리지 (프로세스당 하나)
+ */
+export function getStorage(): StorageAdapter {
+  if (!global.__storage__) {
+    global.__storage__ = createStorage();
+  }
+  return global.__storage__;
+}
@@ -0,0 +1,71 @@
+/**
+ * 웹훅 서명 / 재시도 간격 / 요약 테스트
+ */
+
+import crypto from 'crypto';
+import { describe, it, expect } from 'vitest';
+import { generateWebhookSecret, signWebhookPayload, verifyWebhookSignature } from '../webhook-signature';
+import { getRetryDelay, isWebhookEvent, summarizeWebhookEvent } from '../webhook-events';
+
+const secret = 'whsec_test';
+const body = JSON.stringify({ event: 'post.created', data: { post: { title: '공지' } } });
+const now = new Date('2026-10-19T12:00:00Z');
+const timestamp = now.getTime() / 1000;
+
+describe('signWebhookPayload', () => {
+  it('타임스탬프와 본문을 함께 HMAC-SHA256 으로 서명', () => {
+    const expected = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+    expect(signWebhookPayload(secret, timestamp, body)).toBe(`sha256=${expected}`);
+  });
+
+  it('비밀값은 매번 새로 생성', () => {
+    const a = generateWebhookSecret();
+    expect(a).toMatch(/^whsec_[\w-]{32}$/);
+    expect(generateWebhookSecret()).not.toBe(a);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  const signature = signWebhookPayload(secret, timestamp, body);
+
+  it('같은 비밀값/본문이면 통과', () => {
+    expect(verifyWebhookSignature(secret, timestamp, body, signature, { now })).toBe(true);
+  });
+
+  it('본문이나 비밀값이 다르면 거부', () => {
+    expect(verifyWebhookSignature(secret, timestamp, `${body} `, signature, { now })).toBe(false);
+    expect(verifyWebhookSignature('whsec_other', timestamp, body, signature, { now })).toBe(false);
+    expect(verifyWebhookSignature(secret, timestamp, body, 'sha256=abc', { now })).toBe(false);
+  });
+
+  it('허용 시간이 지난 요청은 거부', () => {
+    const later = new Date(now.getTime() + 10 * 60 * 1000);
+    expect(verifyWebhookSignature(secret, timestamp, body, signature, { now: later })).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('30초부터 두 배씩 늘리고 6시간에서 멈춤', () => {
+    expect(getRetryDelay(1)).toBe(30 * 1000);
+    expect(getRetryDelay(2)).toBe(60 * 1000);
+    expect(getRetryDelay(4)).toBe(4 * 60 * 1000);
+    expect(getRetryDelay(20)).toBe(6 * 60 * 60 * 1000);
+  });
+});
+
+describe('summarizeWebhookEvent', () => {
+  it('이벤트 이름과 제목으로 한 줄 요약', () => {
+    expect(summarizeWebhookEvent('post.created', { post: { title: '공지' } })).toBe('[CodeB CMS] 게시글 작성: 공지');
+    expect(summarizeWebhookEvent('comment.created', { comment: { content: 'a'.repeat(120) } })).toBe(
+      `[CodeB CMS] 댓글 작성: ${'a'.repeat(100)}…`
+    );
+    expect(summarizeWebhookEvent('event.settled', { eventId: 'e1' })).toBe('[CodeB CMS] 이벤트 정산');
+  });
+
+  it('구독 가능한 이벤트만 허용 (page.render 제외)', () => {
+    expect(isWebhookEvent('comment.created')).toBe(true);
+    expect(isWebhookEvent('page.render')).toBe(false);
+    expect(isWebhookEvent('toString')).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * 외부 웹훅 공통 정의 (서버/클라이언트 공용)
+ * - 구독 가능한 이벤트 목록
+ * - 재시도 간격 (지수 백오프)
+ */
+
+export const WEBHOOK_EVENTS = {
+  'post.created': '게시글 작성',
+  'post.updated': '게시글 수정',
+  'post.deleted': '게시글 삭제',
+  'comment.created': '댓글 작성',
+  'user.registered': '회원 가입',
+  'event.settled': '이벤트 정산',
+  'payment.approved': '결제 승인',
+  'notification.created': '알림 (웹훅 채널)',
+} as const;
+
+export type WebhookEvent = keyof typeof WEBHOOK_EVENTS;
+
+/** 연결 확인용 이벤트 (구독 여부와 상관없이 테스트 전송에만 사용) */
+export const WEBHOOK_PING_EVENT = 'webhook.ping';
+
+export type WebhookDeliveryStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED';
+
+/** 전송 1건당 최대 시도 횟수 */
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+/** 연속으로 이만큼 실패하면 웹훅을 자동으로 비활성화 */
+export const AUTO_DISABLE_THRESHOLD = 20;
+
+const RETRY_BASE_DELAY = 30 * 1000; // 30초
+const RETRY_MAX_DELAY = 6 * 60 * 60 * 1000; // 6시간
+
+export function isWebhookEvent(value: string): value is WebhookEvent {
+  return Object.prototype.hasOwnProperty.call(WEBHOOK_EVENTS, value);
+}
+
+function pickTitle(data: unknown): string | null {
+  if (!data || typeof data !== 'object') return null;
+  const record = data as Record<string, unknown>;
+
+  for (const key of ['post', 'notification', 'comment', 'payment']) {
+    const nested = record[key];
+    if (!nested || typeof nested !== 'object') continue;
+
+    const fields = nested as Record<string, unknown>;
+    const text = [fields.title, fields.orderName, fields.content].find((value) => typeof value === 'string');
+    if (typeof text === 'string' && text) {
+      return text.length > 100 ? `${text.slice(0, 100)}…` : text;
+    }
+  }
+  return null;
+}
+
+/**
+ * 사람이 읽는 한 줄 요약
+ * Slack(text)/Discord(content) 수신 웹훅에 그대로 연결해도 메시지가 보이도록 페이로드에 함께 넣음
+ */
+export function summarizeWebhookEvent(event: string, data: unknown) {
+  const label = isWebhookEvent(event) ? WEBHOOK_EVENTS[event] : event === WEBHOOK_PING_EVENT ? '연결 테스트' : event;
+  const title = pickTitle(data);
+  return title ? `[CodeB CMS] ${label}: ${title}` : `[CodeB CMS] ${label}`;
+}
+
+/**
+ * attempt 번째 시도가 실패한 뒤 다음 시도까지 기다릴 시간 (ms)
+ * 30초, 1분, 2분, 4분 … 최대 6시간
+ */
+export function getRetryDelay(attempt: number) {
+  return Math.min(RETRY_BASE_DELAY * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_DELAY);
+}
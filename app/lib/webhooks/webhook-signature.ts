@@ -0,0 +1,45 @@
+/**
+ * 웹훅 페이로드 서명 (HMAC-SHA256)
+ * 수신 측은 같은 방식으로 서명을 계산해 X-Webhook-Signature 와 비교
+ */
+
+import crypto from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+/**
+ * 새 서명 비밀값
+ */
+export function generateWebhookSecret() {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * 페이로드 서명 값 (`sha256=<hex>`)
+ * 재전송 공격을 막기 위해 타임스탬프를 함께 서명: HMAC(secret, `${timestamp}.${body}`)
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string) {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * 수신 측 서명 검증 (타임스탬프가 tolerance 초 이상 지났으면 거부)
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  options: { tolerance?: number; now?: Date } = {}
+) {
+  const { tolerance = 5 * 60, now = new Date() } = options;
+  if (!Number.isFinite(timestamp) || Math.abs(now.getTime() / 1000 - timestamp) > tolerance) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
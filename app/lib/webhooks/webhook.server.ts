@@ -0,0 +1,413 @@
+/**
+ * 외부 웹훅 서버 로직
+ * - 관리자가 등록한 URL 로 구독 이벤트를 서명해서 전송 (runPluginHook 에서 호출)
+ * - 전송마다 WebhookDelivery 를 남기고, 실패하면 지수 백오프로 재시도
+ * - 연속 실패가 쌓이면 웹훅을 자동 비활성화
+ * - 내부망 주소는 등록/전송 모두 거부 (응답 본문이 전송 기록에 남으므로 내부 서비스 탐색 방지)
+ */
+
+import crypto from 'crypto';
+import { db } from '~/lib/db.server';
+import { checkOutboundUrl } from '~/lib/security/outbound-url.server';
+import {
+  AUTO_DISABLE_THRESHOLD,
+  MAX_DELIVERY_ATTEMPTS,
+  WEBHOOK_PING_EVENT,
+  getRetryDelay,
+  isWebhookEvent,
+  summarizeWebhookEvent,
+  type WebhookDeliveryStatus,
+  type WebhookEvent,
+} from './webhook-events';
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  generateWebhookSecret,
+  signWebhookPayload,
+} from './webhook-signature';
+
+const SCHEDULER_INTERVAL = 30 * 1000; // 30초
+const REQUEST_TIMEOUT = 10 * 1000;
+const CLAIM_TIMEOUT = 60 * 1000; // 전송 중인 건을 다른 처리기가 다시 잡지 않도록 미뤄두는 시간
+const DELIVERY_BATCH_SIZE = 50;
+const DELIVERY_RETENTION = 30 * 24 * 60 * 60 * 1000; // 30일
+const MAX_RESPONSE_LENGTH = 2000;
+const DELIVERY_PAGE_SIZE = 50;
+
+declare global {
+  var __webhookScheduler__: NodeJS.Timeout | undefined;
+}
+
+export interface WebhookInput {
+  name: string;
+  url: string;
+  events: string[];
+}
+
+async function checkInput(input: WebhookInput) {
+  const name = input.name.trim();
+  if (!name) {
+    return { error: '웹훅 이름을 입력하세요.' } as const;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(input.url.trim());
+  } catch {
+    return { error: '올바른 URL 을 입력하세요.' } as const;
+  }
+  const blocked = await checkOutboundUrl(url);
+  if (blocked) {
+    return { error: blocked } as const;
+  }
+
+  const events = [...new Set(input.events)].filter(isWebhookEvent);
+  if (events.length === 0) {
+    return { error: '전송할 이벤트를 하나 이상 선택하세요.' } as const;
+  }
+
+  return { data: { name, url: url.toString(), events } } as const;
+}
+
+export async function listWebhooks() {
+  return db.webhook.findMany({ orderBy: { createdAt: 'desc' } });
+}
+
+export async function getWebhook(id: string) {
+  return db.webhook.findUnique({ where: { id } });
+}
+
+export async function createWebhook(input: WebhookInput, adminId: string) {
+  const checked = await checkInput(input);
+  if ('error' in checked) {
+    return { success: false as const, message: checked.error };
+  }
+
+  const webhook = await db.webhook.create({
+    data: { ...checked.data, secret: generateWebhookSecret(), createdById: adminId },
+  });
+  return { success: true as const, webhook };
+}
+
+export async function updateWebhook(id: string, input: WebhookInput) {
+  const checked = await checkInput(input);
+  if ('error' in checked) {
+    return { success: false as const, message: checked.error };
+  }
+
+  const webhook = await db.webhook.update({ where: { id }, data: checked.data });
+  return { success: true as const, webhook };
+}
+
+export async function deleteWebhook(id: string) {
+  await db.webhook.delete({ where: { id } });
+}
+
+/**
+ * 서명 비밀값 교체 (이후 전송부터 새 비밀값으로 서명)
+ */
+export async function rotateWebhookSecret(id: string) {
+  return db.webhook.update({
+    where: { id },
+    data: { secret: generateWebhookSecret() },
+  });
+}
+
+/**
+ * 활성화/비활성화 (다시 켜면 연속 실패 횟수 초기화)
+ */
+export async function setWebhookActive(id: string, isActive: boolean) {
+  return db.webhook.update({
+    where: { id },
+    data: isActive
+      ? { isActive, consecutiveFailures: 0, disabledAt: null }
+      : { isActive },
+  });
+}
+
+/**
+ * 웹훅 전송 기록 (최신순)
+ */
+export async function listWebhookDeliveries(
+  webhookId: string,
+  options: { status?: WebhookDeliveryStatus; page?: number } = {}
+) {
+  const page = Math.max(options.page ?? 1, 1);
+  const where = { webhookId, ...(options.status && { status: options.status }) };
+
+  const [deliveries, total] = await Promise.all([
+    db.webhookDelivery.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * DELIVERY_PAGE_SIZE,
+      take: DELIVERY_PAGE_SIZE,
+    }),
+    db.webhookDelivery.count({ where }),
+  ]);
+
+  return { deliveries, total, page, totalPages: Math.max(Math.ceil(total / DELIVERY_PAGE_SIZE), 1) };
+}
+
+function buildPayload(event: string, data: unknown) {
+  const summary = summarizeWebhookEvent(event, data);
+  return JSON.stringify({
+    id: crypto.randomUUID(),
+    event,
+    createdAt: new Date().toISOString(),
+    text: summary,
+    content: summary,
+    data,
+  });
+}
+
+async function queueDeliveries(webhookIds: string[], event: string, payload: string) {
+  const now = new Date();
+  const deliveries = await db.$transaction(
+    webhookIds.map((webhookId) =>
+      db.webhookDelivery.create({
+        data: { webhookId, event, payload, nextAttemptAt: now },
+        select: { id: true },
+      })
+    )
+  );
+  return deliveries.map((delivery) => delivery.id);
+}
+
+/**
+ * 요청 처리를 기다리게 하지 않도록 첫 시도는 백그라운드에서 실행
+ * 서버가 그 사이 내려가도 스케줄러가 다시 보냄
+ */
+function deliverInBackground(deliveryIds: string[]) {
+  for (const id of deliveryIds) {
+    attemptDelivery(id).catch((error) => {
+      console.error(`[Webhook] Delivery ${id} failed:`, error);
+    });
+  }
+}
+
+/**
+ * 이벤트를 구독 중인 활성 웹훅으로 전송 (전송 대기열에 넣은 웹훅 수 반환)
+ */
+export async function triggerWebhookEvent(event: WebhookEvent, data: unknown) {
+  const webhooks = await db.webhook.findMany({
+    where: { isActive: true, events: { has: event } },
+    select: { id: true },
+  });
+  if (webhooks.length === 0) return 0;
+
+  const deliveryIds = await queueDeliveries(
+    webhooks.map((webhook) => webhook.id),
+    event,
+    buildPayload(event, data)
+  );
+  deliverInBackground(deliveryIds);
+  return deliveryIds.length;
+}
+
+/**
+ * 연결 테스트 (비활성 웹훅도 전송, 재시도 없음)
+ */
+export async function sendTestWebhook(id: string) {
+  const payload = buildPayload(WEBHOOK_PING_EVENT, { webhookId: id });
+  const [deliveryId] = await queueDeliveries([id], WEBHOOK_PING_EVENT, payload);
+  return attemptDelivery(deliveryId);
+}
+
+/**
+ * 같은 본문을 새 전송 건으로 다시 보냄 (페이로드 id 가 같으므로 수신 측에서 중복 처리 가능)
+ */
+export async function redeliverWebhook(deliveryId: string) {
+  const delivery = await db.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { webhook: { select: { id: true, isActive: true } } },
+  });
+  if (!delivery) {
+    return { success: false as const, message: '전송 기록을 찾을 수 없습니다.' };
+  }
+  if (!delivery.webhook.isActive && delivery.event !== WEBHOOK_PING_EVENT) {
+    return { success: false as const, message: '비활성화된 웹훅입니다. 먼저 활성화하세요.' };
+  }
+
+  const [id] = await queueDeliveries([delivery.webhookId], delivery.event, delivery.payload);
+  const result = await attemptDelivery(id);
+  return { success: true as const, delivery: result };
+}
+
+/**
+ * 전송 건 선점 (대기 중이고 시도 시각이 된 건만)
+ */
+async function claimDelivery(id: string) {
+  const now = new Date();
+  const { count } = await db.webhookDelivery.updateMany({
+    where: { id, status: 'PENDING', nextAttemptAt: { lte: now } },
+    data: { nextAttemptAt: new Date(now.getTime() + CLAIM_TIMEOUT) },
+  });
+  return count > 0;
+}
+
+async function postWebhook(url: string, secret: string, delivery: { id: string; event: string; payload: string }) {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+
+  // 등록 후 DNS 가 내부 주소로 바뀐 경우도 막음
+  const blocked = await checkOutboundUrl(url);
+  if (blocked) {
+    return { ok: false, responseStatus: null, responseBody: null, error: blocked, duration: 0 };
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'CodeB-CMS-Webhook/1.0',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        [TIMESTAMP_HEADER]: String(timestamp),
+        [SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    });
+    const body = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_LENGTH);
+
+    return {
+      ok: response.ok,
+      responseStatus: response.status,
+      responseBody: body || null,
+      error: response.ok ? null : `HTTP ${response.status}`,
+      duration: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      responseStatus: null,
+      responseBody: null,
+      error: error instanceof Error ? error.message : String(error),
+      duration: Date.now() - startedAt,
+    };
+  }
+}
+
+/**
+ * 웹훅 실패 기록 (연속 실패가 기준을 넘으면 비활성화)
+ */
+async function recordWebhookFailure(webhookId: string) {
+  const webhook = await db.webhook.update({
+    where: { id: webhookId },
+    data: { consecutiveFailures: { increment: 1 }, lastFailureAt: new Date() },
+  });
+
+  if (webhook.isActive && webhook.consecutiveFailures >= AUTO_DISABLE_THRESHOLD) {
+    await db.webhook.update({
+      where: { id: webhookId },
+      data: { isActive: false, disabledAt: new Date() },
+    });
+    console.warn(`[Webhook] Disabled ${webhook.name} after ${webhook.consecutiveFailures} consecutive failures`);
+  }
+}
+
+/**
+ * 전송 1회 시도 (다른 처리기가 이미 잡았으면 null)
+ */
+export async function attemptDelivery(id: string) {
+  if (!(await claimDelivery(id))) return null;
+
+  const delivery = await db.webhookDelivery.findUnique({
+    where: { id },
+    include: { webhook: true },
+  });
+  if (!delivery) return null;
+
+  const { webhook } = delivery;
+  const isPing = delivery.event === WEBHOOK_PING_EVENT;
+
+  // 대기 중에 비활성화된 웹훅은 더 보내지 않음
+  if (!webhook.isActive && !isPing) {
+    return db.webhookDelivery.update({
+      where: { id },
+      data: { status: 'FAILED', nextAttemptAt: null, error: '비활성화된 웹훅' },
+    });
+  }
+
+  const result = await postWebhook(webhook.url, webhook.secret, delivery);
+  const attempts = delivery.attempts + 1;
+  const attempt = {
+    attempts,
+    responseStatus: result.responseStatus,
+    responseBody: result.responseBody,
+    error: result.error,
+    duration: result.duration,
+  };
+
+  if (result.ok) {
+    if (!isPing) {
+      await db.webhook.update({
+        where: { id: webhook.id },
+        data: { consecutiveFailures: 0, lastSuccessAt: new Date() },
+      });
+    }
+    return db.webhookDelivery.update({
+      where: { id },
+      data: { ...attempt, status: 'SUCCEEDED', nextAttemptAt: null, deliveredAt: new Date() },
+    });
+  }
+
+  const isFinal = isPing || attempts >= MAX_DELIVERY_ATTEMPTS;
+  if (!isPing) {
+    await recordWebhookFailure(webhook.id);
+  }
+
+  return db.webhookDelivery.update({
+    where: { id },
+    data: {
+      ...attempt,
+      status: isFinal ? 'FAILED' : 'PENDING',
+      nextAttemptAt: isFinal ? null : new Date(Date.now() + getRetryDelay(attempts)),
+    },
+  });
+}
+
+/**
+ * 재시도 시각이 된 전송 처리와 오래된 기록 정리
+ */
+export async function processWebhookDeliveries() {
+  const due = await db.webhookDelivery.findMany({
+    where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: DELIVERY_BATCH_SIZE,
+    select: { id: true },
+  });
+
+  let processed = 0;
+  for (const { id } of due) {
+    if (await attemptDelivery(id)) processed++;
+  }
+
+  await db.webhookDelivery.deleteMany({
+    where: { createdAt: { lt: new Date(Date.now() - DELIVERY_RETENTION) }, status: { not: 'PENDING' } },
+  });
+
+  if (processed > 0) {
+    console.log(`[WebhookScheduler] Processed ${processed} delivery(ies)`);
+  }
+  return processed;
+}
+
+/**
+ * 웹훅 재시도 스케줄러 시작 (서버 시작 시 호출, 중복 호출 무시)
+ */
+export function startWebhookScheduler() {
+  if (global.__webhookScheduler__) return;
+
+  global.__webhookScheduler__ = setInterval(async () => {
+    try {
+      await processWebhookDeliveries();
+    } catch (error) {
+      console.error('[WebhookScheduler] Delivery processing failed:', error);
+    }
+  }, SCHEDULER_INTERVAL);
+
+  console.log('[WebhookScheduler] Started webhook delivery scheduler');
+}
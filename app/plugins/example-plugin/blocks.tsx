@@ -0,0 +1,30 @@
+/**
+ * 예제 플러그인 페이지 빌더 블록 렌더러
+ * index.ts 에서 addBlock 으로 등록한 블록 이름을 키로 내보냄
+ */
+
+import { Info, AlertTriangle } from 'lucide-react';
+import type { PluginBlockRendererProps } from '~/lib/plugins/plugin-extensions';
+
+const TONE_STYLES = {
+  info: 'bg-blue-50 border-blue-200 text-blue-800',
+  warning: 'bg-yellow-50 border-yellow-200 text-yellow-800',
+};
+
+function NoticeBlock({ settings }: PluginBlockRendererProps) {
+  const tone = settings.tone === 'warning' ? 'warning' : 'info';
+  const Icon = tone === 'warning' ? AlertTriangle : Info;
+
+  return (
+    <div className="container mx-auto px-4 py-4">
+      <div className={`flex items-center gap-3 rounded-lg border px-4 py-3 ${TONE_STYLES[tone]}`}>
+        {settings.showIcon && <Icon className="h-5 w-5 flex-shrink-0" />}
+        <p className="text-sm font-medium">{String(settings.message ?? '')}</p>
+      </div>
+    </div>
+  );
+}
+
+export const blocks = {
+  notice: NoticeBlock,
+};
@@ -1,9 +1,19 @@
 import { redirect, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
 import { useLoaderData } from "@remix-run/react";
 import { PostEditor } from "~/components/editor/PostEditor";
+import {
+  PostRevisionHistory,
+  type RevisionComparison,
+  type RevisionListItem,
+} from "~/components/post/PostRevisionHistory";
 import { db } from "~/lib/db.server";
 import { requireUserId } from "~/lib/auth.server";
 import { sanitizeHTML, postTitleSchema } from "~/lib/security/validation.server";
+import { parsePublishIntent, resolvePublishState } from "~/lib/posts/post-status";
+import { filterWritableMenus, requireBoardPermission } from "~/lib/boards/board-permission.server";
+import { getPostRevisions, getRevision, updatePostWithRevision } from "~/lib/posts/revision.server";
+import { runPluginHook, toPluginPost } from "~/lib/architecture/plugin-system.server";
+import { compareRevisions } from "~/lib/posts/revision-diff";
 
 export async function loader({ request, params }: LoaderFunctionArgs) {
   const userId = await requireUserId(request);
@@ -51,11 +61,40 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
     throw new Response("수정 권한이 없습니다.", { status: 403 });
   }
 
-  // 모든 메뉴(카테고리) 가져오기
-  const categories = await db.menu.findMany({
-    where: { isActive: true },
-    orderBy: { order: "asc" },
-  });
+  // 게시판 쓰기 권한
+  await requireBoardPermission(post.menu, user, "write");
+
+  // 글쓰기 가능한 메뉴(카테고리) 가져오기
+  const categories = await filterWritableMenus(
+    await db.menu.findMany({
+      where: { isActive: true },
+      orderBy: { order: "asc" },
+    }),
+    user
+  );
+
+  // 수정 이력 및 비교 (?revision=<id>&against=<id>&mode=text|html)
+  const revisions = await getPostRevisions(post.id);
+  const url = new URL(request.url);
+  const mode = url.searchParams.get("mode") === "html" ? "html" : "text";
+  const selectedId = url.searchParams.get("revision");
+  const againstId = url.searchParams.get("against");
+
+  let comparison: RevisionComparison | null = null;
+  const selected = selectedId ? await getRevision(selectedId) : null;
+  if (selected && selected.postId === post.id) {
+    const against = againstId ? await getRevision(againstId) : null;
+    const right = against && against.postId === post.id
+      ? { id: against.id, label: `#${against.revision}`, title: against.title, content: against.content }
+      : { id: null, label: "현재 게시글", title: post.title, content: post.content };
+
+    comparison = {
+      mode,
+      left: { id: selected.id, label: `#${selected.revision}`, title: selected.title },
+      right: { id: right.id, label: right.label, title: right.title },
+      ...compareRevisions(selected, right, mode),
+    };
+  }
 
   return {
     post: {
@@ -75,6 +114,11 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
       updatedAt: cat.updatedAt.toISOString(),
     })),
     isAdmin,
+    revisions: revisions.map(revision => ({
+      ...revision,
+      createdAt: revision.createdAt.toISOString(),
+    })),
+    comparison,
   };
 }
 
@@ -128,7 +172,8 @@ export async function action({ request, params }: ActionFunctionArgs) {
   const rawContent = formData.get("content") as string;
   const categoryId = formData.get("categoryId") as string;
   const isPinned = formData.get("isPinned") === "on";
-  const isDraft = formData.get("isDraft") === "true";
+  const publishIntent = parsePublishIntent(formData.get("publishIntent"));
+  const rawScheduledAt = formData.get("scheduledAt") as string | null;
 
   // 유효성 검사
   if (!rawTitle || !rawContent || !categoryId) {
@@ -151,6 +196,18 @@ export async function action({ request, params }: ActionFunctionArgs) {
   const title = titleResult.data;
   const content = sanitizeHTML(rawContent);
 
+  // 발행 상태 결정 (즉시 발행 / 임시저장 / 예약 발행)
+  const publishState = resolvePublishState(publishIntent, {
+    scheduledAt: rawScheduledAt ? new Date(rawScheduledAt) : null,
+    previousPublishedAt: existingPost.publishedAt,
+  });
+  if ("error" in publishState) {
+    return Response.json(
+      { error: publishState.error },
+      { status: 400 }
+    );
+  }
+
   // 메뉴(카테고리) 확인
   const menu = await db.menu.findUnique({
     where: { id: categoryId },
@@ -163,24 +220,28 @@ export async function action({ request, params }: ActionFunctionArgs) {
     );
   }
 
+  // 옮겨갈 게시판의 쓰기 권한
+  await requireBoardPermission(menu, user, "write");
+
   try {
-    // 게시글 수정
-    const updatedPost = await db.post.update({
-      where: { id: existingPost.id },
-      data: {
-        title,
-        content,
-        excerpt: content.slice(0, 200),
-        menuId: categoryId,
-        isNotice: isAdmin ? isPinned : existingPost.isNotice,
-        isPublished: !isDraft,
-        publishedAt: !isDraft && !existingPost.publishedAt ? new Date() : existingPost.publishedAt,
-      },
+    // 게시글 수정 (리비전 스냅샷 함께 기록)
+    const updatedPost = await updatePostWithRevision(existingPost.id, userId, {
+      title,
+      content,
+      excerpt: content.slice(0, 200),
+      menuId: categoryId,
+      isNotice: isAdmin ? isPinned : existingPost.isNotice,
+      ...publishState,
     });
 
-    // 임시저장이면 목록으로, 아니면 상세 페이지로 이동
-    if (isDraft) {
-      return redirect(`/${menu.slug}?message=draft_saved`);
+    // 임시저장/예약 글을 바로 발행하면 이때 처음 공개됨
+    if (existingPost.status !== "PUBLISHED" && updatedPost.status === "PUBLISHED") {
+      await runPluginHook("post.created", { post: toPluginPost(updatedPost) });
+    }
+
+    // 임시저장/예약이면 내 임시글 목록으로, 아니면 상세 페이지로 이동
+    if (publishState.status !== "PUBLISHED") {
+      return redirect(`/posts/drafts?message=${publishState.status === "SCHEDULED" ? "scheduled" : "draft_saved"}`);
     } else {
       return redirect(`/${menu.slug}/${updatedPost.slug}`);
     }
@@ -201,6 +262,8 @@ interface LoaderData {
     menuId: string;
     isNotice: boolean;
     isPublished: boolean;
+    status: "DRAFT" | "SCHEDULED" | "PUBLISHED" | "ARCHIVED";
+    publishedAt: string | null;
     menu: {
       id: string;
       name: string;
@@ -213,10 +276,12 @@ interface LoaderData {
     slug: string;
   }[];
   isAdmin: boolean;
+  revisions: RevisionListItem[];
+  comparison: RevisionComparison | null;
 }
 
 export default function BoardEditPage() {
-  const { post, categories, isAdmin } = useLoaderData<LoaderData>();
+  const { post, categories, isAdmin, revisions, comparison } = useLoaderData<LoaderData>();
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
@@ -224,11 +289,18 @@ export default function BoardEditPage() {
         <h1 className="text-3xl font-bold mb-8 text-gray-900 dark:text-gray-100">글 수정</h1>
 
         <PostEditor
+          key={revisions[0]?.id ?? post.id}
           post={post}
           categories={categories}
           isAdmin={isAdmin}
           mode="edit"
         />
+
+        <PostRevisionHistory
+          revisions={revisions}
+          comparison={comparison}
+          isAdmin={isAdmin}
+        />
       </div>
     </div>
   );
@@ -7,8 +7,7 @@
  */
 
 import { json, redirect, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
-import { useLoaderData, Form, useSubmit, useNavigate, Link, useFetcher } from "@remix-run/react";
-import { useState } from "react";
+import { useLoaderData, Form, useSubmit, useNavigate, Link } from "@remix-run/react";
 import { db } from "~/lib/db.server";
 import { getUser } from "~/lib/auth.server";
 import { Button } from "~/components/ui/button";
@@ -28,6 +27,7 @@ import {
   User
 } from "lucide-react";
 import { ShareBookmark } from "~/components/post/ShareBookmark";
+import { CommentThread } from "~/components/post/CommentThread";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -37,6 +37,11 @@ import {
 import { cn } from "~/lib/utils";
 import { incrementViewCount } from "~/lib/performance/qps-optimizer.server";
 import { getClientIP } from "~/lib/middleware/rate-limiter.server";
+import { createComment, updateComment } from "~/lib/comments/comment.server";
+import { buildCommentTree } from "~/lib/comments/mentions";
+import { requireBoardPermission } from "~/lib/boards/board-permission.server";
+import { runPluginHook, toPluginPost } from "~/lib/architecture/plugin-system.server";
+import { publishDomainEvent } from "~/lib/domain-events/domain-events.server";
 
 export async function loader({ request, params }: LoaderFunctionArgs) {
   const { categorySlug, postId } = params;
@@ -89,6 +94,15 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
     throw new Response("잘못된 카테고리입니다", { status: 404 });
   }
 
+  // 임시저장/예약 게시글은 작성자와 관리자만 열람
+  if ((post.status === "DRAFT" || post.status === "SCHEDULED") &&
+      user?.id !== post.authorId && user?.role !== "ADMIN") {
+    throw new Response("게시글을 찾을 수 없습니다", { status: 404 });
+  }
+
+  // 게시판 읽기 권한
+  const permissions = await requireBoardPermission(post.menu, user, "read");
+
   // QPS 10K 최적화: Redis 카운터로 조회수 관리 (배치로 DB 업데이트)
   const viewKey = `view_${post.id}_${user?.id || clientIP}`;
   const cookieHeader = request.headers.get("Cookie") || "";
@@ -129,10 +143,13 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
       ...post,
       views: updatedViews,
     },
+    commentTree: buildCommentTree(post.comments),
     user,
     isAuthor: user?.id === post.authorId,
     isAdmin: user?.role === "ADMIN",
     hasLiked,
+    canComment: permissions.canComment,
+    commentsDisabled: permissions.commentsDisabled,
   });
 
   // 조회 쿠키 설정 (24시간 유효)
@@ -160,23 +177,35 @@ export async function action({ request, params }: ActionFunctionArgs) {
         { slug: postId }
       ]
     },
-    select: { id: true, authorId: true, likes: true, menu: { select: { slug: true } } }
+    select: { id: true, slug: true, title: true, authorId: true, likes: true, menu: { select: { slug: true, board_id: true } } }
   });
 
   if (!post) {
     throw new Response("게시글을 찾을 수 없습니다", { status: 404 });
   }
 
+  // 읽을 수 없는 게시판의 글에는 어떤 동작도 허용하지 않음
+  await requireBoardPermission(post.menu, user, "read");
+
+  const postRef = {
+    id: post.id,
+    title: post.title,
+    url: `/${post.menu.slug}/${post.slug}`,
+    authorId: post.authorId,
+  };
+
   switch (actionType) {
-    case "delete":
+    case "delete": {
       if (!user) {
         return redirect("/auth/login");
       }
       if (user.id !== post.authorId && user.role !== "ADMIN") {
         throw new Response("권한이 없습니다", { status: 403 });
       }
-      await db.post.delete({ where: { id: post.id } });
+      const deleted = await db.post.delete({ where: { id: post.id } });
+      await runPluginHook("post.deleted", { post: toPluginPost(deleted), actorId: user.id });
       return redirect(`/${post.menu.slug}`);
+    }
 
     case "like": {
       // PostVote를 활용한 중복 추천 방지
@@ -214,6 +243,13 @@ export async function action({ request, params }: ActionFunctionArgs) {
             data: { likes: { increment: 1 } },
           }),
         ]);
+        // 비회원 추천은 보낸 사람을 알 수 없으므로 알림 없음
+        if (user) {
+          await publishDomainEvent("post.liked", {
+            post: postRef,
+            actor: { id: user.id, name: user.name || user.username },
+          });
+        }
         return json({ success: true, liked: true, likes: post.likes + 1 });
       }
     }
@@ -222,17 +258,18 @@ export async function action({ request, params }: ActionFunctionArgs) {
       if (!user) {
         return redirect("/auth/login");
       }
+      await requireBoardPermission(post.menu, user, "comment");
       const content = formData.get("content") as string;
+      const parentId = formData.get("parentId") as string | null;
       if (!content || content.trim().length === 0) {
         return json({ error: "댓글 내용을 입력하세요" }, { status: 400 });
       }
 
-      await db.comment.create({
-        data: {
-          content: content.trim(),
-          postId: post.id,
-          authorId: user.id,
-        },
+      await createComment({
+        post: postRef,
+        author: user,
+        content: content.trim(),
+        parentId: parentId || null,
       });
       return json({ success: true });
     }
@@ -241,6 +278,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
       if (!user) {
         return redirect("/auth/login");
       }
+      await requireBoardPermission(post.menu, user, "comment");
       const commentId = formData.get("commentId") as string;
       const content = formData.get("content") as string;
 
@@ -250,7 +288,11 @@ export async function action({ request, params }: ActionFunctionArgs) {
 
       const comment = await db.comment.findUnique({
         where: { id: commentId },
-        select: { authorId: true },
+        select: {
+          authorId: true,
+          content: true,
+          author: { select: { id: true, username: true, name: true } },
+        },
       });
 
       if (!comment) {
@@ -261,9 +303,12 @@ export async function action({ request, params }: ActionFunctionArgs) {
         return json({ error: "수정 권한이 없습니다" }, { status: 403 });
       }
 
-      await db.comment.update({
-        where: { id: commentId },
-        data: { content: content.trim() },
+      await updateComment({
+        commentId,
+        previousContent: comment.content,
+        content: content.trim(),
+        post: postRef,
+        author: comment.author,
       });
       return json({ success: true });
     }
@@ -301,12 +346,9 @@ export async function action({ request, params }: ActionFunctionArgs) {
 }
 
 export default function PostDetail() {
-  const { post, user, isAuthor, isAdmin, hasLiked } = useLoaderData<typeof loader>();
+  const { post, commentTree, user, isAuthor, isAdmin, hasLiked, canComment, commentsDisabled } = useLoaderData<typeof loader>();
   const submit = useSubmit();
   const navigate = useNavigate();
-  const fetcher = useFetcher();
-  const [editingCommentId, setEditingCommentId] = useState<string | null>(null);
-  const [editContent, setEditContent] = useState("");
 
   const handleLike = () => {
     submit({ _action: "like" }, { method: "post", replace: true });
@@ -318,34 +360,6 @@ export default function PostDetail() {
     }
   };
 
-  const handleEditComment = (commentId: string, currentContent: string) => {
-    setEditingCommentId(commentId);
-    setEditContent(currentContent);
-  };
-
-  const handleCancelEdit = () => {
-    setEditingCommentId(null);
-    setEditContent("");
-  };
-
-  const handleSaveEdit = (commentId: string) => {
-    fetcher.submit(
-      { _action: "editComment", commentId, content: editContent },
-      { method: "post" }
-    );
-    setEditingCommentId(null);
-    setEditContent("");
-  };
-
-  const handleDeleteComment = (commentId: string) => {
-    if (confirm("댓글을 삭제하시겠습니까?")) {
-      fetcher.submit(
-        { _action: "deleteComment", commentId },
-        { method: "post" }
-      );
-    }
-  };
-
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
       {/* 서브 히어로 섹션 */}
@@ -459,12 +473,16 @@ export default function PostDetail() {
           </div>
 
           {/* 댓글 작성 */}
-          {user ? (
+          {commentsDisabled ? (
+            <div className="p-6 border-b border-gray-200 dark:border-gray-800 text-center text-gray-500 dark:text-gray-400">
+              댓글을 사용하지 않는 게시판입니다.
+            </div>
+          ) : canComment ? (
             <Form method="post" className="p-6 border-b border-gray-200 dark:border-gray-800">
               <input type="hidden" name="_action" value="comment" />
               <Textarea
                 name="content"
-                placeholder="댓글을 작성하세요..."
+                placeholder="댓글을 작성하세요... (@아이디 로 멘션할 수 있습니다)"
                 className="w-full mb-4"
                 rows={3}
               />
@@ -472,6 +490,10 @@ export default function PostDetail() {
                 <Button type="submit">댓글 작성</Button>
               </div>
             </Form>
+          ) : user ? (
+            <div className="p-6 border-b border-gray-200 dark:border-gray-800 text-center text-gray-500 dark:text-gray-400">
+              이 게시판에 댓글을 쓸 권한이 없습니다.
+            </div>
           ) : (
             <div className="p-6 border-b border-gray-200 dark:border-gray-800 text-center">
               <p className="text-gray-500 dark:text-gray-400 mb-4">댓글을 작성하려면 로그인이 필요합니다.</p>
@@ -483,83 +505,16 @@ export default function PostDetail() {
 
           {/* 댓글 목록 */}
           <div className="divide-y divide-gray-200 dark:divide-gray-800">
-            {post.comments.length > 0 ? (
-              post.comments.map((comment) => {
-                const isCommentAuthor = user?.id === comment.author.id;
-                const canModify = isCommentAuthor || isAdmin;
-
-                return (
-                  <div key={comment.id} className="p-6">
-                    <div className="flex items-start gap-3">
-                      <div className="w-10 h-10 bg-gray-200 dark:bg-gray-700 rounded-full flex items-center justify-center">
-                        <User className="h-5 w-5 text-gray-400 dark:text-gray-500" />
-                      </div>
-                      <div className="flex-1">
-                        <div className="flex items-center justify-between mb-1">
-                          <div className="flex items-center gap-2">
-                            <span className="font-medium text-gray-900 dark:text-gray-100">
-                              {comment.author.name || comment.author.username || comment.author.email.split('@')[0]}
-                            </span>
-                            <span className="text-sm text-gray-500 dark:text-gray-400">
-                              {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true, locale: ko })}
-                            </span>
-                          </div>
-                          {canModify && editingCommentId !== comment.id && (
-                            <div className="flex items-center gap-1">
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => handleEditComment(comment.id, comment.content)}
-                                className="h-7 px-2 text-xs"
-                              >
-                                <Edit className="h-3 w-3 mr-1" />
-                                수정
-                              </Button>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => handleDeleteComment(comment.id)}
-                                className="h-7 px-2 text-xs text-red-600 hover:text-red-700"
-                              >
-                                <Trash2 className="h-3 w-3 mr-1" />
-                                삭제
-                              </Button>
-                            </div>
-                          )}
-                        </div>
-                        {editingCommentId === comment.id ? (
-                          <div className="space-y-2">
-                            <Textarea
-                              value={editContent}
-                              onChange={(e) => setEditContent(e.target.value)}
-                              className="w-full"
-                              rows={3}
-                            />
-                            <div className="flex justify-end gap-2">
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={handleCancelEdit}
-                              >
-                                취소
-                              </Button>
-                              <Button
-                                size="sm"
-                                onClick={() => handleSaveEdit(comment.id)}
-                                disabled={!editContent.trim()}
-                              >
-                                저장
-                              </Button>
-                            </div>
-                          </div>
-                        ) : (
-                          <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{comment.content}</p>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                );
-              })
+            {commentTree.length > 0 ? (
+              commentTree.map((comment) => (
+                <CommentThread
+                  key={comment.id}
+                  comment={comment}
+                  currentUserId={user?.id}
+                  isAdmin={isAdmin}
+                  canReply={canComment}
+                />
+              ))
             ) : (
               <div className="p-6 text-center text-gray-500 dark:text-gray-400">
                 아직 댓글이 없습니다. 첫 번째 댓글을 작성해보세요!
@@ -3,8 +3,10 @@ import { useLoaderData, Link } from "@remix-run/react";
 import { KoreanBoard } from "~/components/board/KoreanBoard";
 import { db } from "~/lib/db.server";
 import { getUser } from "~/lib/auth.server";
+import { requireBoardPermission } from "~/lib/boards/board-permission.server";
+import { findMatchingPostIds } from "~/lib/search/search.server";
 import { Button } from "~/components/ui/button";
-import { PenSquare } from "lucide-react";
+import { PenSquare, FileText } from "lucide-react";
 
 export async function loader({ params, request }: LoaderFunctionArgs) {
   const { categorySlug } = params;
@@ -30,14 +32,12 @@ export async function loader({ params, request }: LoaderFunctionArgs) {
     throw new Response("메뉴를 찾을 수 없습니다", { status: 404 });
   }
 
-  // 검색 조건
+  // 게시판 읽기 권한
+  const permissions = await requireBoardPermission(menu, user, "read");
+
+  // 검색 조건 (전문 검색 인덱스로 일치하는 게시글 ID 조회)
   const searchCondition = search
-    ? {
-        OR: [
-          { title: { contains: search } },
-          { content: { contains: search } },
-        ],
-      }
+    ? { id: { in: await findMatchingPostIds(search, menu.id) } }
     : {};
 
   // 정렬 조건
@@ -51,7 +51,7 @@ export async function loader({ params, request }: LoaderFunctionArgs) {
     where: {
       menuId: menu.id,
       isNotice: true,
-      isPublished: true,
+      status: "PUBLISHED",
     },
     include: {
       author: { select: { username: true, name: true, email: true } },
@@ -66,7 +66,7 @@ export async function loader({ params, request }: LoaderFunctionArgs) {
       where: {
         menuId: menu.id,
         isNotice: false,
-        isPublished: true,
+        status: "PUBLISHED",
         ...searchCondition,
       },
       include: {
@@ -81,7 +81,7 @@ export async function loader({ params, request }: LoaderFunctionArgs) {
       where: {
         menuId: menu.id,
         isNotice: false,
-        isPublished: true,
+        status: "PUBLISHED",
         ...searchCondition,
       },
     }),
@@ -128,11 +128,12 @@ export async function loader({ params, request }: LoaderFunctionArgs) {
     sort,
     search,
     user,
+    canWrite: permissions.canWrite,
   });
 }
 
 export default function CategoryPage() {
-  const { menu, posts, currentPage, totalPages, totalPosts, sort, search, user } = useLoaderData<typeof loader>();
+  const { menu, posts, currentPage, totalPages, totalPosts, sort, search, user, canWrite } = useLoaderData<typeof loader>();
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
@@ -142,12 +143,22 @@ export default function CategoryPage() {
           <div className="flex items-center justify-between mb-4">
             <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">{menu.name}</h1>
             {user && (
-              <Link to={`/${menu.slug}/write`}>
-                <Button>
-                  <PenSquare className="h-4 w-4 mr-2" />
-                  글쓰기
-                </Button>
-              </Link>
+              <div className="flex items-center gap-2">
+                <Link to="/posts/drafts">
+                  <Button variant="outline">
+                    <FileText className="h-4 w-4 mr-2" />
+                    내 임시글
+                  </Button>
+                </Link>
+                {canWrite && (
+                  <Link to={`/${menu.slug}/write`}>
+                    <Button>
+                      <PenSquare className="h-4 w-4 mr-2" />
+                      글쓰기
+                    </Button>
+                  </Link>
+                )}
+              </div>
             )}
           </div>
           {menu.description && (
@@ -163,6 +174,7 @@ export default function CategoryPage() {
           categorySlug={menu.slug}
           categoryName={menu.name}
           isLoggedIn={!!user}
+          canWrite={canWrite}
         />
       </div>
     </div>
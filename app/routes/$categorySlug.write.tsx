@@ -4,6 +4,11 @@ import { PostEditor } from "~/components/editor/PostEditor";
 import { db } from "~/lib/db.server";
 import { requireUserId } from "~/lib/auth.server";
 import { sanitizeHTML, postTitleSchema } from "~/lib/security/validation.server";
+import { parsePublishIntent, resolvePublishState } from "~/lib/posts/post-status";
+import { filterWritableMenus, requireBoardPermission } from "~/lib/boards/board-permission.server";
+import { recordRevision } from "~/lib/posts/revision.server";
+import { syncPostFileReferences } from "~/lib/media/media.server";
+import { runPluginHook, toPluginPost } from "~/lib/architecture/plugin-system.server";
 
 export async function loader({ request, params }: LoaderFunctionArgs) {
   const userId = await requireUserId(request);
@@ -18,18 +23,24 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
     throw new Response("카테고리를 찾을 수 없습니다.", { status: 404 });
   }
 
-  // 모든 메뉴(카테고리) 가져오기 (카테고리 선택용)
-  const categories = await db.menu.findMany({
-    where: { isActive: true },
-    orderBy: { order: "asc" },
-  });
-
   // 사용자 정보 가져오기 (관리자 여부 확인)
   const user = await db.user.findUnique({
     where: { id: userId },
     select: { role: true },
   });
 
+  // 게시판 쓰기 권한
+  await requireBoardPermission(category, user, "write");
+
+  // 글쓰기 가능한 메뉴(카테고리) 가져오기 (카테고리 선택용)
+  const categories = await filterWritableMenus(
+    await db.menu.findMany({
+      where: { isActive: true },
+      orderBy: { order: "asc" },
+    }),
+    user
+  );
+
   return json({
     category,
     categories,
@@ -46,7 +57,8 @@ export async function action({ request, params }: ActionFunctionArgs) {
   const rawContent = formData.get("content") as string;
   const categoryId = formData.get("categoryId") as string;
   const isPinned = formData.get("isPinned") === "on";
-  const isDraft = formData.get("isDraft") === "true";
+  const publishIntent = parsePublishIntent(formData.get("publishIntent"));
+  const rawScheduledAt = formData.get("scheduledAt") as string | null;
 
   // 유효성 검사
   if (!rawTitle || !rawContent || !categoryId) {
@@ -69,6 +81,17 @@ export async function action({ request, params }: ActionFunctionArgs) {
   const title = titleResult.data;
   const content = sanitizeHTML(rawContent);
 
+  // 발행 상태 결정 (즉시 발행 / 임시저장 / 예약 발행)
+  const publishState = resolvePublishState(publishIntent, {
+    scheduledAt: rawScheduledAt ? new Date(rawScheduledAt) : null,
+  });
+  if ("error" in publishState) {
+    return json(
+      { error: publishState.error },
+      { status: 400 }
+    );
+  }
+
   // 메뉴(카테고리) 확인
   const category = await db.menu.findUnique({
     where: { id: categoryId },
@@ -87,6 +110,9 @@ export async function action({ request, params }: ActionFunctionArgs) {
     select: { role: true },
   });
 
+  // 게시판 쓰기 권한
+  await requireBoardPermission(category, user, "write");
+
   const canSetPinned = user?.role === "ADMIN";
 
   try {
@@ -95,26 +121,43 @@ export async function action({ request, params }: ActionFunctionArgs) {
     const randomStr = Math.random().toString(36).substring(2, 8);
     const uniqueSlug = `post-${timestamp}-${randomStr}`;
 
-    // 게시글 생성 (스키마에 맞게 수정)
-    const post = await db.post.create({
-      data: {
-        title,
-        content,
-        slug: uniqueSlug,
-        excerpt: content.slice(0, 200),
-        menuId: categoryId,
+    // 게시글 생성 + 최초 리비전 기록
+    const post = await db.$transaction(async (tx) => {
+      const created = await tx.post.create({
+        data: {
+          title,
+          content,
+          slug: uniqueSlug,
+          excerpt: content.slice(0, 200),
+          menuId: categoryId,
+          authorId: userId,
+          isNotice: canSetPinned && isPinned,
+          ...publishState,
+          views: 0,
+          likes: 0,
+        },
+      });
+
+      await recordRevision(tx, {
+        postId: created.id,
         authorId: userId,
-        isNotice: canSetPinned && isPinned,
-        isPublished: !isDraft,
-        publishedAt: !isDraft ? new Date() : null,
-        views: 0,
-        likes: 0,
-      },
+        title: created.title,
+        content: created.content,
+        excerpt: created.excerpt,
+      });
+      await syncPostFileReferences(tx, created);
+
+      return created;
     });
 
-    // 임시저장이면 목록으로, 아니면 상세 페이지로 이동
-    if (isDraft) {
-      return redirect(`/${category.slug}?message=draft_saved`);
+    // 임시저장/예약 글은 공개되지 않았으므로 발행될 때 알림 (예약 글은 스케줄러에서)
+    if (post.status === "PUBLISHED") {
+      await runPluginHook("post.created", { post: toPluginPost(post) });
+    }
+
+    // 임시저장/예약이면 내 임시글 목록으로, 아니면 상세 페이지로 이동
+    if (publishState.status !== "PUBLISHED") {
+      return redirect(`/posts/drafts?message=${publishState.status === "SCHEDULED" ? "scheduled" : "draft_saved"}`);
     } else {
       return redirect(`/${category.slug}/${post.id}`);
     }
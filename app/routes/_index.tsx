@@ -3,6 +3,8 @@ import { json } from "@remix-run/node";
 import { useLoaderData, Link } from "@remix-run/react";
 import { db } from "~/lib/db.server";
 import { getUser } from "~/lib/auth.server";
+import { getUnreadableMenuIds } from "~/lib/boards/board-permission.server";
+import { runPluginHook } from "~/lib/architecture/plugin-system.server";
 import { CategorySection } from "~/components/home/CategorySection";
 import { VoteBox } from "~/components/home/VoteBox";
 import { MemberRanking } from "~/components/home/MemberRanking";
@@ -20,10 +22,14 @@ export const meta: MetaFunction = () => {
 export async function loader({ request }: LoaderFunctionArgs) {
   const user = await getUser(request);
 
+  // 읽기 권한이 없는 게시판은 메인 페이지 목록에서 제외
+  const hiddenMenuIds = await getUnreadableMenuIds(user);
+
   // Menu 테이블에서 메인 페이지에 표시할 카테고리 가져오기
   const menus = await db.menu.findMany({
     where: {
       isActive: true,
+      id: { notIn: hiddenMenuIds },
     },
     orderBy: { order: "asc" },
     take: 8,
@@ -123,6 +129,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
   const dailyPopularPosts = await db.post.findMany({
     where: {
       isPublished: true,
+      menuId: { notIn: hiddenMenuIds },
       publishedAt: {
         gte: oneDayAgo,
         lte: now,
@@ -137,6 +144,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
   const weeklyPopularPosts = await db.post.findMany({
     where: {
       isPublished: true,
+      menuId: { notIn: hiddenMenuIds },
       publishedAt: {
         gte: oneWeekAgo,
         lte: now,
@@ -151,6 +159,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
   const monthlyPopularPosts = await db.post.findMany({
     where: {
       isPublished: true,
+      menuId: { notIn: hiddenMenuIds },
       publishedAt: {
         gte: oneMonthAgo,
         lte: now,
@@ -165,6 +174,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
   const popularPosts = await db.post.findMany({
     where: {
       isPublished: true,
+      menuId: { notIn: hiddenMenuIds },
       publishedAt: {
         lte: new Date(),
       },
@@ -249,6 +259,9 @@ export async function loader({ request }: LoaderFunctionArgs) {
 
   // 최근 댓글
   const recentComments = await db.comment.findMany({
+    where: {
+      post: { menuId: { notIn: hiddenMenuIds } },
+    },
     select: {
       id: true,
       content: true,
@@ -285,7 +298,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
     category: post.menu ? { slug: post.menu.slug, name: post.menu.name } : undefined,
   });
 
-  return json({
+  const data = {
     user,
     voteStatsArray,
     categoryPosts,
@@ -320,7 +333,12 @@ export async function loader({ request }: LoaderFunctionArgs) {
         category: comment.post.menu ? { slug: comment.post.menu.slug } : undefined,
       },
     })),
-  });
+  };
+
+  // 플러그인이 페이지 데이터를 가공할 수 있음 (page.render 필터 훅)
+  const rendered = await runPluginHook("page.render", { path: "/", userId: user?.id ?? null, data });
+
+  return json(rendered.data as typeof data);
 }
 
 export default function Index() {
@@ -7,6 +7,7 @@ import { json, type LoaderFunctionArgs } from '@remix-run/node';
 import { useLoaderData, useSearchParams } from '@remix-run/react';
 import { db } from '~/lib/db.server';
 import { requireAdmin } from '~/lib/auth.server';
+import { withTotalPool } from '~/lib/events/event-settlement.server';
 import { Button } from '~/components/ui/button';
 import {
   BarChart3,
@@ -172,7 +173,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
     },
     typeStats,
     dailyData,
-    topEvents,
+    topEvents: await withTotalPool(topEvents),
   });
 }
 
@@ -3,15 +3,23 @@
  */
 
 import { json, redirect, type LoaderFunctionArgs, type ActionFunctionArgs } from '@remix-run/node';
-import { useLoaderData, Form, useNavigation, Link } from '@remix-run/react';
+import { useLoaderData, useActionData, Form, useNavigation, Link } from '@remix-run/react';
+import { useState } from 'react';
 import { db } from '~/lib/db.server';
 import { requireAdmin } from '~/lib/auth.server';
 import { Button } from '~/components/ui/button';
-import { ArrowLeft, CheckCircle, Trophy, Users, Coins, AlertTriangle } from 'lucide-react';
+import { ArrowLeft, CheckCircle, Trophy, Users, Coins, AlertTriangle, Eye } from 'lucide-react';
 import { format } from 'date-fns';
 import { ko } from 'date-fns/locale';
-import { centrifugo } from '~/lib/centrifugo/client.server';
-import { CHANNELS } from '~/lib/centrifugo/channels';
+import { POINT_CONFIG } from '~/lib/points/point.server';
+import { previewSettlement, resettleEvent, settleEvent } from '~/lib/events/event-settlement.server';
+import {
+  SETTLEMENT_MODES,
+  SETTLEMENT_MODE_LABELS,
+  defaultSettlementMode,
+  isSettlementMode,
+  type SettlementMode,
+} from '~/lib/events/event-settlement';
 
 interface EventOption {
   id: string;
@@ -35,7 +43,8 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
     throw new Response('이벤트를 찾을 수 없습니다', { status: 404 });
   }
 
-  if (event.status !== 'CLOSED') {
+  // 정산 완료 이벤트는 정답을 바로잡는 재정산
+  if (event.status !== 'CLOSED' && event.status !== 'SETTLED') {
     throw new Response('마감된 이벤트만 정산할 수 있습니다', { status: 400 });
   }
 
@@ -60,136 +69,72 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
     };
   });
 
-  return json({ event, optionStats });
+  // 예측 이벤트는 선택지가 없으므로 선택지별 통계가 아닌 전체 참여 기록에서 합산
+  const totalStake = stats.reduce((sum, s) => sum + (s._sum.points ?? 0), 0);
+
+  return json({ event, optionStats, totalStake, predictionMultiplier: POINT_CONFIG.PREDICTION_MULTIPLIER });
 }
 
 export async function action({ request, params }: ActionFunctionArgs) {
-  await requireAdmin(request);
+  const admin = await requireAdmin(request);
 
   const { id } = params;
   const formData = await request.formData();
-  const correctAnswer = formData.get('correctAnswer') as string;
-
-  if (!correctAnswer) {
-    return json({ error: '정답을 선택해주세요' }, { status: 400 });
-  }
-
-  const event = await db.participationEvent.findUnique({
-    where: { id },
-    include: {
-      participations: {
-        include: {
-          user: { select: { id: true, username: true } },
-        },
-      },
-    },
-  });
+  const mode = formData.get('mode');
 
-  if (!event) {
-    return json({ error: '이벤트를 찾을 수 없습니다' }, { status: 404 });
+  if (!isSettlementMode(mode)) {
+    return json({ success: false, error: '정산 방식을 선택해주세요', plan: null }, { status: 400 });
   }
 
-  // 트랜잭션으로 정산 처리
-  await db.$transaction(async (tx) => {
-    const winners: string[] = [];
-    const losers: string[] = [];
-
-    for (const participation of event.participations) {
-      const isWinner = participation.choice === correctAnswer;
-      const reward = isWinner
-        ? Math.floor(participation.points * event.rewardMultiplier)
-        : 0;
-
-      // 참여 기록 업데이트
-      await tx.participation.update({
-        where: { id: participation.id },
-        data: {
-          isWinner,
-          reward,
-        },
-      });
-
-      // 사용자 포인트 업데이트
-      const userPoints = await tx.userPoints.upsert({
-        where: { userId: participation.userId },
-        create: {
-          userId: participation.userId,
-          balance: isWinner ? reward : 0,
-          lifetime: isWinner ? reward : 0,
-          wins: isWinner ? 1 : 0,
-          losses: isWinner ? 0 : 1,
-          streak: isWinner ? 1 : 0,
-          maxStreak: isWinner ? 1 : 0,
-        },
-        update: {
-          balance: { increment: isWinner ? reward : 0 },
-          lifetime: { increment: isWinner ? reward : 0 },
-          wins: { increment: isWinner ? 1 : 0 },
-          losses: { increment: isWinner ? 0 : 1 },
-          streak: isWinner ? { increment: 1 } : 0, // 패배 시 연승 초기화
-          maxStreak: isWinner
-            ? { increment: 0 } // 별도 처리 필요
-            : undefined,
-        },
-      });
-
-      // 포인트 거래 내역 생성
-      if (isWinner && reward > 0) {
-        await tx.pointTransaction.create({
-          data: {
-            userPointId: userPoints.id,
-            type: 'EARN_WIN',
-            amount: reward,
-            balance: userPoints.balance + reward,
-            eventId: event.id,
-            description: `${event.title} 이벤트 승리 보상`,
-          },
-        });
-      }
-
-      if (isWinner) {
-        winners.push(participation.userId);
-      } else {
-        losers.push(participation.userId);
-      }
+  const toleranceValue = (formData.get('tolerance') as string | null)?.trim();
+  const settlement = {
+    mode,
+    correctAnswer: ((formData.get('correctAnswer') as string | null) ?? '').trim(),
+    houseFeeRate: (parseFloat(formData.get('houseFeePercent') as string) || 0) / 100,
+    tolerance: toleranceValue ? parseFloat(toleranceValue) : null,
+  };
+
+  if (formData.get('_action') === 'preview') {
+    const result = await previewSettlement(id!, settlement);
+    if (!result.success) {
+      return json({ success: false, error: result.message, plan: null }, { status: 400 });
     }
+    return json({ success: true, error: null, plan: result.plan });
+  }
 
-    // 이벤트 상태 업데이트
-    await tx.participationEvent.update({
-      where: { id },
-      data: {
-        status: 'SETTLED',
-        correctAnswer,
-        resultAt: new Date(),
-      },
-    });
-
-    // 리더보드 업데이트 (간단 버전)
-    // TODO: 더 정교한 리더보드 계산 로직 필요
-
-    return { winners: winners.length, losers: losers.length };
-  });
-
-  // 실시간 알림 발송
-  try {
-    await centrifugo.publish(CHANNELS.event(id!), {
-      type: 'SETTLED',
-      correctAnswer,
-      settledAt: new Date().toISOString(),
-    });
-  } catch (e) {
-    console.error('Failed to publish settlement notification:', e);
+  const reason = (formData.get('reason') as string | null)?.trim();
+  const result = formData.get('_action') === 'resettle'
+    ? await resettleEvent(id!, admin.id, settlement, reason || undefined)
+    : await settleEvent(id!, admin.id, settlement);
+  if (!result.success) {
+    return json({ success: false, error: result.message, plan: null }, { status: 400 });
   }
 
   return redirect(`/admin/events/${id}?settled=true`);
 }
 
+const MAX_PREVIEW_ROWS = 50;
+
 export default function AdminEventResult() {
-  const { event, optionStats } = useLoaderData<typeof loader>();
+  const { event, optionStats, totalStake, predictionMultiplier } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const isSubmitting = navigation.state === 'submitting';
+  const submittingAction = navigation.formData?.get('_action');
 
-  const totalPoints = optionStats.reduce((sum, o) => sum + o.totalPoints, 0);
+  const isPrediction = event.type === 'PREDICTION';
+  const isResettle = event.status === 'SETTLED';
+  const modes = SETTLEMENT_MODES.filter((m) => (m === 'CLOSEST') === isPrediction);
+  const [mode, setMode] = useState<SettlementMode>(
+    isResettle && isSettlementMode(event.settlementMode) ? event.settlementMode : defaultSettlementMode(event.type)
+  );
+  const [houseFeePercent, setHouseFeePercent] = useState(isResettle ? event.houseFeeRate * 100 : 0);
+
+  const pool = totalStake + event.rewardPool;
+  const distributable = pool - Math.floor(pool * (houseFeePercent / 100));
+  const plan = actionData?.plan;
+  // 재정산은 보상이 바뀌는 참여자만, 첫 정산은 정답자만 표시
+  const listed = plan?.payouts.filter((p) => (isResettle ? p.reward !== (p.previousReward ?? 0) : p.isWinner)) ?? [];
 
   return (
     <div className="max-w-2xl mx-auto space-y-6">
@@ -201,7 +146,9 @@ export default function AdminEventResult() {
           </Button>
         </Link>
         <div>
-          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">결과 입력</h1>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            {isResettle ? '재정산' : '결과 입력'}
+          </h1>
           <p className="text-gray-500 dark:text-gray-400 mt-1">
             {event.title}
           </p>
@@ -214,11 +161,19 @@ export default function AdminEventResult() {
         <div>
           <div className="font-medium text-yellow-800 dark:text-yellow-200">정산 주의사항</div>
           <p className="text-sm text-yellow-700 dark:text-yellow-300 mt-1">
-            정답을 선택하면 자동으로 포인트가 정산됩니다. 정산 후에는 되돌릴 수 없으니 신중하게 선택해주세요.
+            {isResettle
+              ? `현재 정답은 "${event.correctAnswer}" 입니다. 재정산하면 이전 보상과의 차액만큼 포인트를 추가 지급하거나 회수합니다.`
+              : '정산하면 계산된 포인트가 바로 지급됩니다. 먼저 미리보기로 지급 내역을 확인한 뒤 정산해주세요.'}
           </p>
         </div>
       </div>
 
+      {actionData?.error && (
+        <div className="p-4 rounded-lg bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-400">
+          {actionData.error}
+        </div>
+      )}
+
       {/* 통계 요약 */}
       <div className="grid grid-cols-3 gap-4">
         <div className="bg-white dark:bg-gray-800 rounded-lg p-4 text-center">
@@ -228,60 +183,218 @@ export default function AdminEventResult() {
         </div>
         <div className="bg-white dark:bg-gray-800 rounded-lg p-4 text-center">
           <Coins className="w-6 h-6 mx-auto mb-2 text-yellow-500" />
-          <div className="text-2xl font-bold">{totalPoints.toLocaleString()}</div>
-          <div className="text-sm text-gray-500">베팅 포인트</div>
+          <div className="text-2xl font-bold">{pool.toLocaleString()}</div>
+          <div className="text-sm text-gray-500">보상 풀</div>
         </div>
         <div className="bg-white dark:bg-gray-800 rounded-lg p-4 text-center">
           <Trophy className="w-6 h-6 mx-auto mb-2 text-purple-500" />
-          <div className="text-2xl font-bold">x{event.rewardMultiplier}</div>
-          <div className="text-sm text-gray-500">보상 배수</div>
+          <div className="text-2xl font-bold">
+            {mode === 'PARIMUTUEL' ? '배당' : `x${mode === 'CLOSEST' ? predictionMultiplier : event.rewardMultiplier}`}
+          </div>
+          <div className="text-sm text-gray-500">보상 방식</div>
         </div>
       </div>
 
-      {/* 정답 선택 */}
       <Form method="post" className="bg-white dark:bg-gray-800 rounded-lg p-6 space-y-6">
-        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">정답 선택</h2>
-
+        {/* 정산 방식 */}
         <div className="space-y-3">
-          {optionStats.map((option) => {
-            const estimatedReward = Math.floor(option.totalPoints * event.rewardMultiplier);
-
-            return (
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">정산 방식</h2>
+          <div className="grid grid-cols-2 gap-3">
+            {modes.map((m) => (
               <label
-                key={option.id}
-                className="flex items-center gap-4 p-4 border-2 rounded-lg cursor-pointer hover:border-blue-300 dark:hover:border-blue-600 transition-colors has-[:checked]:border-blue-500 has-[:checked]:bg-blue-50 dark:has-[:checked]:bg-blue-900/20"
+                key={m}
+                className="flex items-center gap-3 p-3 border-2 rounded-lg cursor-pointer has-[:checked]:border-blue-500 has-[:checked]:bg-blue-50 dark:has-[:checked]:bg-blue-900/20"
               >
                 <input
                   type="radio"
+                  name="mode"
+                  value={m}
+                  checked={mode === m}
+                  onChange={() => setMode(m)}
+                  className="w-4 h-4 text-blue-600"
+                />
+                <span className="font-medium">{SETTLEMENT_MODE_LABELS[m]}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {mode === 'FIXED' && `정답자에게 베팅 포인트의 ${event.rewardMultiplier}배를 지급합니다.`}
+            {mode === 'PARIMUTUEL' && '보상 풀에서 수수료를 뗀 나머지를 정답자의 베팅 비율대로 나눕니다.'}
+            {mode === 'CLOSEST' &&
+              `허용 오차 이내(비우면 정답에 가장 가까운) 예측에 베팅 포인트의 ${predictionMultiplier}배를 지급합니다.`}
+          </p>
+
+          {mode === 'PARIMUTUEL' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                수수료 (%)
+              </label>
+              <input
+                type="number"
+                name="houseFeePercent"
+                value={houseFeePercent}
+                onChange={(e) => setHouseFeePercent(parseFloat(e.target.value) || 0)}
+                min={0}
+                max={99}
+                step={0.5}
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600"
+              />
+            </div>
+          )}
+        </div>
+
+        {/* 정답 */}
+        <div className="space-y-3">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">정답</h2>
+
+          {isPrediction ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  결과 값
+                </label>
+                <input
+                  type="number"
                   name="correctAnswer"
-                  value={option.id}
-                  className="w-5 h-5 text-blue-600"
+                  step="any"
+                  required
+                  defaultValue={event.correctAnswer ?? undefined}
+                  className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  허용 오차 (선택)
+                </label>
+                <input
+                  type="number"
+                  name="tolerance"
+                  step="any"
+                  min={0}
+                  defaultValue={event.predictionTolerance ?? undefined}
+                  placeholder="가장 가까운 예측"
+                  className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600"
                 />
-                <div
-                  className="w-10 h-10 rounded-lg flex items-center justify-center text-white font-bold"
-                  style={{ backgroundColor: option.color }}
+              </div>
+            </div>
+          ) : (
+            optionStats.map((option) => {
+              const estimatedReward = mode === 'PARIMUTUEL'
+                ? (option.count > 0 ? distributable : 0)
+                : Math.floor(option.totalPoints * event.rewardMultiplier);
+
+              return (
+                <label
+                  key={option.id}
+                  className="flex items-center gap-4 p-4 border-2 rounded-lg cursor-pointer hover:border-blue-300 dark:hover:border-blue-600 transition-colors has-[:checked]:border-blue-500 has-[:checked]:bg-blue-50 dark:has-[:checked]:bg-blue-900/20"
                 >
-                  {option.label.charAt(0)}
-                </div>
-                <div className="flex-1">
-                  <div className="font-medium text-gray-900 dark:text-gray-100">
-                    {option.label}
+                  <input
+                    type="radio"
+                    name="correctAnswer"
+                    value={option.id}
+                    defaultChecked={event.correctAnswer === option.id}
+                    className="w-5 h-5 text-blue-600"
+                  />
+                  <div
+                    className="w-10 h-10 rounded-lg flex items-center justify-center text-white font-bold"
+                    style={{ backgroundColor: option.color }}
+                  >
+                    {option.label.charAt(0)}
                   </div>
-                  <div className="text-sm text-gray-500 dark:text-gray-400">
-                    {option.count}명 참여 ({option.percentage}%) · {option.totalPoints.toLocaleString()}P 베팅
+                  <div className="flex-1">
+                    <div className="font-medium text-gray-900 dark:text-gray-100">
+                      {option.label}
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      {option.count}명 참여 ({option.percentage}%) · {option.totalPoints.toLocaleString()}P 베팅
+                    </div>
                   </div>
-                </div>
-                <div className="text-right">
-                  <div className="text-sm text-gray-500">예상 지급</div>
-                  <div className="font-bold text-green-600">
-                    {estimatedReward.toLocaleString()}P
+                  <div className="text-right">
+                    <div className="text-sm text-gray-500">예상 지급</div>
+                    <div className="font-bold text-green-600">
+                      {estimatedReward.toLocaleString()}P
+                    </div>
                   </div>
-                </div>
-              </label>
-            );
-          })}
+                </label>
+              );
+            })
+          )}
+
+          {isPrediction && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {event._count.participations}명 예측 · {totalStake.toLocaleString()}P 베팅
+            </p>
+          )}
         </div>
 
+        {/* 미리보기 결과 */}
+        {plan && (
+          <div className="space-y-3 pt-4 border-t">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              지급 미리보기 ({SETTLEMENT_MODE_LABELS[plan.mode]})
+            </h2>
+            <div className="grid grid-cols-4 gap-3 text-center text-sm">
+              <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <div className="text-lg font-bold text-green-600">{plan.winners}</div>
+                <div className="text-gray-500">정답자</div>
+              </div>
+              <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <div className="text-lg font-bold">{plan.losers}</div>
+                <div className="text-gray-500">오답자</div>
+              </div>
+              <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <div className="text-lg font-bold">{plan.totalPayout.toLocaleString()}P</div>
+                <div className="text-gray-500">총 지급</div>
+              </div>
+              <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <div className="text-lg font-bold">{plan.houseFee.toLocaleString()}P</div>
+                <div className="text-gray-500">수수료</div>
+              </div>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+              {listed.slice(0, MAX_PREVIEW_ROWS).map((payout) => (
+                <div key={payout.participationId} className="flex items-center justify-between py-2 text-sm">
+                  <span className="truncate">{payout.userName}</span>
+                  <span className="text-gray-500">
+                    {isPrediction && `${payout.choice} · `}
+                    {payout.points.toLocaleString()}P 베팅
+                  </span>
+                  {isResettle ? (
+                    <span className={payout.reward >= (payout.previousReward ?? 0) ? 'font-bold text-green-600' : 'font-bold text-red-600'}>
+                      {(payout.previousReward ?? 0).toLocaleString()}P → {payout.reward.toLocaleString()}P
+                    </span>
+                  ) : (
+                    <span className="font-bold text-green-600">+{payout.reward.toLocaleString()}P</span>
+                  )}
+                </div>
+              ))}
+              {listed.length === 0 && (
+                <p className="text-center text-gray-500 py-4">
+                  {isResettle ? '보상이 바뀌는 참여자가 없습니다' : '정답자가 없습니다'}
+                </p>
+              )}
+              {listed.length > MAX_PREVIEW_ROWS && (
+                <p className="text-center text-gray-500 py-2">외 {listed.length - MAX_PREVIEW_ROWS}명</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {isResettle && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              재정산 사유
+            </label>
+            <input
+              type="text"
+              name="reason"
+              placeholder="예: 정답 입력 오류 정정"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600"
+            />
+          </div>
+        )}
+
         <div className="flex justify-end gap-3 pt-4 border-t">
           <Link to={`/admin/events/${event.id}`}>
             <Button type="button" variant="outline">
@@ -290,11 +403,33 @@ export default function AdminEventResult() {
           </Link>
           <Button
             type="submit"
+            name="_action"
+            value="preview"
+            variant="outline"
+            disabled={isSubmitting}
+          >
+            <Eye className="w-4 h-4 mr-2" />
+            {submittingAction === 'preview' ? '계산 중...' : '미리보기'}
+          </Button>
+          <Button
+            type="submit"
+            name="_action"
+            value={isResettle ? 'resettle' : 'settle'}
             disabled={isSubmitting}
             className="bg-green-600 hover:bg-green-700"
+            onClick={(e) => {
+              const message = isResettle
+                ? '재정산하시겠습니까? 이전 보상과의 차액이 지급/회수됩니다.'
+                : '정산하시겠습니까? 정산 후에는 되돌릴 수 없습니다.';
+              if (!confirm(message)) {
+                e.preventDefault();
+              }
+            }}
           >
             <CheckCircle className="w-4 h-4 mr-2" />
-            {isSubmitting ? '정산 중...' : '정산하기'}
+            {submittingAction === 'settle' || submittingAction === 'resettle'
+              ? '정산 중...'
+              : isResettle ? '재정산하기' : '정산하기'}
           </Button>
         </div>
       </Form>
@@ -3,9 +3,12 @@
  */
 
 import { json, redirect, type LoaderFunctionArgs, type ActionFunctionArgs } from '@remix-run/node';
-import { useLoaderData, Form, useNavigation, Link } from '@remix-run/react';
+import { useLoaderData, useActionData, Form, useNavigation, Link } from '@remix-run/react';
 import { db } from '~/lib/db.server';
 import { requireAdmin } from '~/lib/auth.server';
+import { changeEventStatus, getEventStatusLogs } from '~/lib/events/event-lifecycle.server';
+import { cancelEvent } from '~/lib/events/event-cancellation.server';
+import { EVENT_STATUS_LABELS, getCancelError, getManualStatusError } from '~/lib/events/event-lifecycle';
 import { Button } from '~/components/ui/button';
 import { ArrowLeft, Save, Trash2, Users, Trophy, Clock, CheckCircle, Play, Pause, XCircle } from 'lucide-react';
 import { useState } from 'react';
@@ -63,11 +66,15 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
     };
   });
 
-  return json({ event, optionStats });
+  const statusLogs = await getEventStatusLogs(id!);
+  // 예측 이벤트는 선택지가 아닌 값으로 참여하므로 전체 합계는 따로 계산
+  const totalStake = stats.reduce((sum, stat) => sum + (stat._sum?.points || 0), 0);
+
+  return json({ event, optionStats, statusLogs, totalStake });
 }
 
 export async function action({ request, params }: ActionFunctionArgs) {
-  await requireAdmin(request);
+  const admin = await requireAdmin(request);
 
   const { id } = params;
   const formData = await request.formData();
@@ -78,13 +85,39 @@ export async function action({ request, params }: ActionFunctionArgs) {
     return redirect('/admin/events');
   }
 
+  if (action === 'cancel') {
+    const reason = (formData.get('reason') as string | null)?.trim();
+    const result = await cancelEvent(id!, admin.id, reason || undefined);
+    if (!result.success) {
+      return json({ success: false, error: result.message }, { status: 400 });
+    }
+    return json({ success: true, error: null });
+  }
+
   if (action === 'updateStatus') {
     const status = formData.get('status') as EventStatus;
-    await db.participationEvent.update({
+    const event = await db.participationEvent.findUnique({
       where: { id },
-      data: { status },
+      select: { status: true, startsAt: true, endsAt: true },
     });
-    return json({ success: true });
+    if (!event) {
+      throw new Response('이벤트를 찾을 수 없습니다', { status: 404 });
+    }
+
+    if (!STATUS_ACTIONS[event.status].some((a) => a.next === status)) {
+      return json({ success: false, error: '변경할 수 없는 상태입니다.' }, { status: 400 });
+    }
+    // 스케줄러가 곧바로 되돌릴 변경은 막음
+    const error = getManualStatusError(event, status);
+    if (error) {
+      return json({ success: false, error }, { status: 400 });
+    }
+
+    const changed = await changeEventStatus(id!, event.status, status, { type: 'ADMIN', userId: admin.id });
+    if (!changed) {
+      return json({ success: false, error: '이벤트 상태가 이미 변경되었습니다. 새로고침 후 다시 시도하세요.' }, { status: 409 });
+    }
+    return json({ success: true, error: null });
   }
 
   // 이벤트 업데이트
@@ -113,7 +146,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
     },
   });
 
-  return json({ success: true });
+  return json({ success: true, error: null });
 }
 
 const STATUS_ACTIONS: Record<EventStatus, { next: EventStatus; label: string; icon: typeof Play }[]> = {
@@ -121,11 +154,13 @@ const STATUS_ACTIONS: Record<EventStatus, { next: EventStatus; label: string; ic
   OPEN: [{ next: 'CLOSED', label: '마감하기', icon: Pause }],
   CLOSED: [{ next: 'OPEN', label: '다시 시작', icon: Play }],
   SETTLED: [],
-  CANCELLED: [{ next: 'UPCOMING', label: '복원', icon: Play }],
+  // 취소 시 참여 포인트를 환불하므로 복원하지 않음
+  CANCELLED: [],
 };
 
 export default function AdminEventDetail() {
-  const { event, optionStats } = useLoaderData<typeof loader>();
+  const { event, optionStats, statusLogs, totalStake } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const isSubmitting = navigation.state === 'submitting';
 
@@ -174,9 +209,24 @@ export default function AdminEventDetail() {
               </Button>
             </Link>
           )}
+
+          {event.status === 'SETTLED' && (
+            <Link to={`/admin/events/${event.id}/result`}>
+              <Button variant="outline">
+                <CheckCircle className="w-4 h-4 mr-2" />
+                재정산
+              </Button>
+            </Link>
+          )}
         </div>
       </div>
 
+      {actionData?.error && (
+        <div className="p-4 rounded-lg bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-400">
+          {actionData.error}
+        </div>
+      )}
+
       <div className="grid grid-cols-3 gap-6">
         {/* 메인 폼 */}
         <div className="col-span-2 space-y-6">
@@ -353,7 +403,7 @@ export default function AdminEventDetail() {
               </div>
               <div className="text-center p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
                 <Trophy className="w-6 h-6 mx-auto mb-2 text-yellow-500" />
-                <div className="text-2xl font-bold">{event.rewardPool.toLocaleString()}</div>
+                <div className="text-2xl font-bold">{(totalStake + event.rewardPool).toLocaleString()}</div>
                 <div className="text-sm text-gray-500">보상 풀</div>
               </div>
             </div>
@@ -416,6 +466,70 @@ export default function AdminEventDetail() {
               )}
             </div>
           </div>
+
+          {/* 이벤트 취소 */}
+          {!getCancelError(event.status) && (
+            <div className="bg-white dark:bg-gray-800 rounded-lg p-6 space-y-4">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">이벤트 취소</h2>
+              <p className="text-sm text-gray-500">
+                참여자 {event._count.participations}명에게 참여 포인트를 환불하고 알림을 보냅니다. 취소한 이벤트는 되돌릴 수 없습니다.
+              </p>
+              <Form method="post" className="space-y-3">
+                <input type="hidden" name="_action" value="cancel" />
+                <input
+                  type="text"
+                  name="reason"
+                  placeholder="취소 사유 (선택)"
+                  className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600"
+                />
+                <Button
+                  type="submit"
+                  variant="outline"
+                  disabled={isSubmitting}
+                  className="w-full text-red-600 border-red-600 hover:bg-red-50"
+                  onClick={(e) => {
+                    if (!confirm('이벤트를 취소하고 참여 포인트를 환불하시겠습니까?')) {
+                      e.preventDefault();
+                    }
+                  }}
+                >
+                  <XCircle className="w-4 h-4 mr-2" />
+                  취소 및 환불
+                </Button>
+              </Form>
+            </div>
+          )}
+
+          {/* 상태 변경 기록 */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">상태 변경 기록</h2>
+
+            <div className="space-y-3 max-h-64 overflow-y-auto">
+              {statusLogs.map((log) => (
+                <div key={log.id} className="text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="text-gray-500">
+                      {log.fromStatus ? EVENT_STATUS_LABELS[log.fromStatus] : '생성'}
+                    </span>
+                    <span className="text-gray-400">→</span>
+                    <span className="font-medium text-gray-900 dark:text-gray-100">
+                      {EVENT_STATUS_LABELS[log.toStatus]}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {log.actorName}
+                    {log.reason && ` · ${log.reason}`}
+                    {' · '}
+                    {format(new Date(log.createdAt), 'MM/dd HH:mm:ss', { locale: ko })}
+                  </p>
+                </div>
+              ))}
+
+              {statusLogs.length === 0 && (
+                <p className="text-gray-500 text-center py-4">변경 기록이 없습니다</p>
+              )}
+            </div>
+          </div>
         </div>
       </div>
     </div>
@@ -6,6 +6,7 @@ import { json, type LoaderFunctionArgs } from '@remix-run/node';
 import { useLoaderData, Link, useSearchParams } from '@remix-run/react';
 import { db } from '~/lib/db.server';
 import { requireAdmin } from '~/lib/auth.server';
+import { withTotalPool } from '~/lib/events/event-settlement.server';
 import { Button } from '~/components/ui/button';
 import {
   Plus,
@@ -79,7 +80,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
   });
 
   return json({
-    events,
+    events: await withTotalPool(events),
     pagination: {
       page,
       perPage,
@@ -6,6 +6,7 @@ import { json, redirect, type ActionFunctionArgs } from '@remix-run/node';
 import { Form, useActionData, useNavigation } from '@remix-run/react';
 import { db } from '~/lib/db.server';
 import { requireAdmin } from '~/lib/auth.server';
+import { recordEventCreated } from '~/lib/events/event-lifecycle.server';
 import { Button } from '~/components/ui/button';
 import { ArrowLeft, Plus, Trash2, Save } from 'lucide-react';
 import { Link } from '@remix-run/react';
@@ -39,7 +40,7 @@ const DEFAULT_OPTIONS: Record<EventType, EventOption[]> = {
 };
 
 export async function action({ request }: ActionFunctionArgs) {
-  await requireAdmin(request);
+  const admin = await requireAdmin(request);
 
   const formData = await request.formData();
 
@@ -83,10 +84,13 @@ export async function action({ request }: ActionFunctionArgs) {
       rewardMultiplier,
       isPublished,
       options,
-      status: new Date() >= startsAt ? 'OPEN' : 'UPCOMING',
+      status: 'UPCOMING',
     },
   });
 
+  // 생성 기록 후 시작 시각이 이미 지났으면 바로 OPEN 으로 전환
+  await recordEventCreated(event.id, admin.id);
+
   return redirect(`/admin/events/${event.id}`);
 }
 
@@ -0,0 +1,305 @@
+/**
+ * 어드민 미디어 라이브러리
+ * 업로드 파일을 검색/필터하고, 사용처를 확인해 일괄 삭제
+ * 비공개 파일은 만료 시간이 있는 서명 링크로만 열람
+ */
+
+import {
+  json,
+  unstable_createMemoryUploadHandler,
+  unstable_parseMultipartFormData,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+} from '@remix-run/node';
+import { useFetcher, useLoaderData, useSearchParams } from '@remix-run/react';
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { Copy, File as FileIcon, Link2, Lock, Search, Trash2, Upload } from 'lucide-react';
+import { requireAdmin } from '~/lib/auth.server';
+import { validateFileUpload } from '~/lib/security/validation.server';
+import { deleteFiles, getFileUrl, listFiles, listUploaders, storeUpload } from '~/lib/media/media.server';
+import { MEDIA_TYPE_FILTERS, formatFileSize, isMediaTypeFilter } from '~/lib/media/media-reference';
+import { Button } from '~/components/ui/button';
+import { Checkbox } from '~/components/ui/checkbox';
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAdmin(request);
+
+  const url = new URL(request.url);
+  const page = Math.max(1, parseInt(url.searchParams.get('page') || '1'));
+  const search = url.searchParams.get('search') || '';
+  const uploaderId = url.searchParams.get('uploader') || '';
+  const type = url.searchParams.get('type');
+
+  const [result, uploaders] = await Promise.all([
+    listFiles({
+      search: search || undefined,
+      uploaderId: uploaderId || undefined,
+      type: isMediaTypeFilter(type) ? type : undefined,
+      page,
+    }),
+    listUploaders(),
+  ]);
+
+  return json({
+    ...result,
+    // 비공개 파일은 미리보기/링크 복사용 서명 URL 로 바꿔서 전달
+    files: result.files.map((file) => ({ ...file, url: getFileUrl(file) })),
+    uploaders,
+    filters: { search, uploader: uploaderId, type: isMediaTypeFilter(type) ? type : '' },
+  });
+}
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+export async function action({ request }: ActionFunctionArgs) {
+  const admin = await requireAdmin(request);
+
+  const formData = request.headers.get('Content-Type')?.startsWith('multipart/form-data')
+    ? await unstable_parseMultipartFormData(request, unstable_createMemoryUploadHandler({ maxPartSize: MAX_FILE_SIZE }))
+    : await request.formData();
+  const intent = formData.get('intent');
+
+  if (intent === 'upload') {
+    const file = formData.get('file');
+    if (!(file instanceof File) || !file.size) {
+      return json({ error: '파일이 선택되지 않았습니다.' }, { status: 400 });
+    }
+    // 허용된 이미지/문서 형식만 (저장된 Content-Type 으로 그대로 제공되므로)
+    const validation = validateFileUpload(file);
+    if (!validation.isValid) {
+      return json({ error: validation.error }, { status: 400 });
+    }
+    await storeUpload(file, admin.id, { isPrivate: formData.get('isPrivate') === 'on' });
+    return json({ success: true });
+  }
+
+  const fileIds = formData.getAll('fileIds').filter((id): id is string => typeof id === 'string');
+  if (intent !== 'bulkDelete' || fileIds.length === 0) {
+    return json({ error: '삭제할 파일을 선택해주세요.' }, { status: 400 });
+  }
+
+  const deleted = await deleteFiles(fileIds);
+  return json({ success: true, deleted });
+}
+
+export default function AdminMedia() {
+  const { files, total, page, totalPages, uploaders, filters } = useLoaderData<typeof loader>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const fetcher = useFetcher<typeof action>();
+  const uploadFetcher = useFetcher<typeof action>();
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const updateFilter = (key: string, value: string | null) => {
+    const newParams = new URLSearchParams(searchParams);
+    if (value) {
+      newParams.set(key, value);
+    } else {
+      newParams.delete(key);
+    }
+    newParams.delete('page');
+    setSearchParams(newParams);
+    setSelected([]);
+  };
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected(checked ? [...selected, id] : selected.filter((s) => s !== id));
+  };
+
+  const copyLink = (url: string) => {
+    navigator.clipboard.writeText(new URL(url, window.location.origin).toString());
+  };
+
+  const handleBulkDelete = () => {
+    const inUse = files.filter((f) => selected.includes(f.id) && f._count.references > 0).length;
+    const message = inUse > 0
+      ? `선택한 ${selected.length}개 중 ${inUse}개는 게시글/페이지에서 사용 중입니다. 삭제하면 해당 이미지가 깨집니다. 계속하시겠습니까?`
+      : `선택한 ${selected.length}개 파일을 삭제하시겠습니까?`;
+    if (!confirm(message)) return;
+
+    const formData = new FormData();
+    formData.set('intent', 'bulkDelete');
+    selected.forEach((id) => formData.append('fileIds', id));
+    fetcher.submit(formData, { method: 'post' });
+    setSelected([]);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* 헤더 */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">미디어 라이브러리</h1>
+          <p className="text-gray-500 dark:text-gray-400 mt-1">
+            업로드된 파일 {total}개 · 글쓰기에서 첨부했다가 사용하지 않은 파일은 하루 뒤 자동으로 정리됩니다
+          </p>
+        </div>
+
+        <uploadFetcher.Form method="post" encType="multipart/form-data" className="flex items-center gap-3">
+          <input type="hidden" name="intent" value="upload" />
+          <input type="file" name="file" required className="text-sm" />
+          <label className="flex items-center gap-1 text-sm whitespace-nowrap">
+            <input type="checkbox" name="isPrivate" />
+            비공개
+          </label>
+          <Button type="submit" size="sm" disabled={uploadFetcher.state !== 'idle'}>
+            <Upload className="w-4 h-4 mr-1" />
+            {uploadFetcher.state !== 'idle' ? '업로드 중...' : '업로드'}
+          </Button>
+        </uploadFetcher.Form>
+      </div>
+      {uploadFetcher.data && 'error' in uploadFetcher.data && <p className="text-sm text-red-600">{uploadFetcher.data.error}</p>}
+
+      {/* 필터 및 검색 */}
+      <div className="flex gap-4 items-center bg-white dark:bg-gray-800 p-4 rounded-lg">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            placeholder="파일 이름 검색..."
+            defaultValue={filters.search}
+            onChange={(e) => updateFilter('search', e.target.value || null)}
+            className="w-full pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600"
+          />
+        </div>
+
+        <select
+          value={filters.uploader}
+          onChange={(e) => updateFilter('uploader', e.target.value || null)}
+          className="px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600"
+        >
+          <option value="">모든 업로더</option>
+          {uploaders.map((uploader) => (
+            <option key={uploader.id} value={uploader.id}>
+              {uploader.name || uploader.username}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={filters.type}
+          onChange={(e) => updateFilter('type', e.target.value || null)}
+          className="px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600"
+        >
+          <option value="">모든 유형</option>
+          {Object.entries(MEDIA_TYPE_FILTERS).map(([type, config]) => (
+            <option key={type} value={type}>
+              {config.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* 일괄 작업 */}
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={selected.length === files.length && files.length > 0}
+            onCheckedChange={(checked) => setSelected(checked ? files.map((f) => f.id) : [])}
+          />
+          전체 선택
+        </label>
+        {selected.length > 0 && (
+          <>
+            <span className="text-sm text-gray-500">{selected.length}개 선택됨</span>
+            <Button size="sm" variant="destructive" onClick={handleBulkDelete} disabled={fetcher.state !== 'idle'}>
+              <Trash2 className="w-4 h-4 mr-1" />
+              일괄 삭제
+            </Button>
+          </>
+        )}
+      </div>
+
+      {/* 파일 그리드 */}
+      {files.length === 0 ? (
+        <div className="py-16 text-center text-gray-500 bg-white dark:bg-gray-800 rounded-lg">
+          조건에 맞는 파일이 없습니다
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4">
+          {files.map((file) => {
+            const isSelected = selected.includes(file.id);
+            const preview = file.thumbnailPath ?? (file.mimeType.startsWith('image/') ? file.url : null);
+
+            return (
+              <div
+                key={file.id}
+                className={`relative rounded-lg border-2 bg-white dark:bg-gray-800 overflow-hidden ${
+                  isSelected ? 'border-blue-500' : 'border-transparent'
+                }`}
+              >
+                <div className="absolute top-2 left-2 z-10 rounded bg-white/90 p-0.5">
+                  <Checkbox checked={isSelected} onCheckedChange={(checked) => toggle(file.id, checked === true)} />
+                </div>
+
+                <a href={file.url} target="_blank" rel="noreferrer" className="block aspect-square bg-gray-100 dark:bg-gray-700">
+                  {preview ? (
+                    <img src={preview} alt={file.originalName} loading="lazy" className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="flex h-full items-center justify-center">
+                      <FileIcon className="w-10 h-10 text-gray-400" />
+                    </div>
+                  )}
+                </a>
+
+                <div className="p-2 space-y-1 text-xs">
+                  <p className="flex items-center gap-1 font-medium" title={file.originalName}>
+                    {file.isPrivate && <Lock className="w-3 h-3 shrink-0 text-gray-500" />}
+                    <span className="truncate">{file.originalName}</span>
+                  </p>
+                  <p className="text-gray-500">
+                    {formatFileSize(file.size)}
+                    {file.width && file.height ? ` · ${file.width}×${file.height}` : ''}
+                  </p>
+                  <p className="text-gray-500 truncate">
+                    {file.uploadedBy ? file.uploadedBy.name || file.uploadedBy.username : '탈퇴한 사용자'} ·{' '}
+                    {format(new Date(file.createdAt), 'yyyy-MM-dd', { locale: ko })}
+                  </p>
+                  <p className={`flex items-center gap-1 ${file.isPrivate || file._count.references > 0 ? 'text-green-600' : 'text-orange-600'}`}>
+                    <Link2 className="w-3 h-3" />
+                    {file.isPrivate
+                      ? '비공개'
+                      : file._count.references > 0 ? `${file._count.references}곳에서 사용 중` : '사용하지 않음'}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => copyLink(file.url)}
+                    className="flex items-center gap-1 text-blue-600 hover:underline"
+                  >
+                    <Copy className="w-3 h-3" />
+                    {file.isPrivate ? '서명 링크 복사 (1시간)' : '링크 복사'}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* 페이지네이션 */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2">
+          {Array.from({ length: totalPages }, (_, i) => i + 1).map((p) => (
+            <button
+              key={p}
+              onClick={() => {
+                const newParams = new URLSearchParams(searchParams);
+                newParams.set('page', p.toString());
+                setSearchParams(newParams);
+                setSelected([]);
+              }}
+              className={`px-4 py-2 rounded-lg ${
+                p === page
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-800 hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+            >
+              {p}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+import { useEffect, useState } from 'react';
+import { json } from '@remix-run/node';
+import { Link, useLoaderData, useFetcher } from '@remix-run/react';
+import type { LoaderFunctionArgs, ActionFunctionArgs } from '@remix-run/node';
+import { PageBuilder } from '~/components/page-builder/PageBuilder';
+import { usePageBuilderStore } from '~/stores/page-builder.store';
+import { requireAdmin } from '~/lib/auth.server';
+import { ensurePluginsLoaded, getPluginManager } from '~/lib/architecture/plugin-system.server';
+import {
+  createPreviewUrl,
+  getPage,
+  getPageBlockData,
+  publishPage,
+  savePageDraft,
+  unpublishPage,
+  updatePageSettings,
+} from '~/lib/pages/page.server';
+import { getPageStatus, getPageUrl, parsePageBlocks } from '~/lib/pages/page-config';
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  await requireAdmin(request);
+  await ensurePluginsLoaded();
+
+  const page = await getPage(params.pageId!);
+  if (!page) {
+    throw new Response('페이지를 찾을 수 없습니다', { status: 404 });
+  }
+
+  return json({
+    page: {
+      id: page.id,
+      title: page.title,
+      slug: page.slug,
+      seoTitle: page.seoTitle,
+      seoDescription: page.seoDescription,
+      status: getPageStatus(page),
+      publishedAt: page.publishedAt,
+    },
+    blocks: parsePageBlocks(page.config),
+    previewUrl: createPreviewUrl(page),
+    pluginBlocks: getPluginManager().getBlockTypes(),
+    data: await getPageBlockData(),
+  });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  await requireAdmin(request);
+  const pageId = params.pageId!;
+
+  const formData = await request.formData();
+  const intent = formData.get('intent');
+
+  switch (intent) {
+    case 'settings': {
+      const result = await updatePageSettings(pageId, {
+        title: String(formData.get('title') || ''),
+        slug: String(formData.get('slug') || ''),
+        seoTitle: String(formData.get('seoTitle') || ''),
+        seoDescription: String(formData.get('seoDescription') || ''),
+      });
+      if (!result.success) {
+        return json({ error: result.message }, { status: 400 });
+      }
+      return json({ success: true });
+    }
+
+    case 'save':
+    case 'publish': {
+      // 발행은 현재 편집 중인 레이아웃을 임시저장한 뒤 발행
+      const saved = await savePageDraft(pageId, parsePageBlocks(formData.get('blocks')));
+      if (!saved.success) {
+        return json({ error: saved.message }, { status: 400 });
+      }
+      if (intent === 'publish') {
+        const result = await publishPage(pageId);
+        if (!result.success) {
+          return json({ error: result.message }, { status: 400 });
+        }
+      }
+      return json({ success: true });
+    }
+
+    case 'unpublish':
+      await unpublishPage(pageId);
+      return json({ success: true });
+
+    default:
+      return json({ error: '잘못된 요청입니다.' }, { status: 400 });
+  }
+}
+
+const STATUS_LABELS = {
+  DRAFT: '발행 전',
+  PUBLISHED: '발행됨',
+  CHANGED: '발행 후 변경사항 있음',
+};
+
+export default function AdminPageBuilder() {
+  const { page, blocks: initialBlocks, previewUrl, pluginBlocks, data } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const settingsFetcher = useFetcher<typeof action>();
+  const { blocks, setBlocks } = usePageBuilderStore();
+  const [hasChanges, setHasChanges] = useState(false);
+  const isSaving = fetcher.state !== 'idle';
+
+  useEffect(() => {
+    setBlocks(initialBlocks);
+  }, [initialBlocks, setBlocks]);
+
+  useEffect(() => {
+    setHasChanges(JSON.stringify(blocks) !== JSON.stringify(initialBlocks));
+  }, [blocks, initialBlocks]);
+
+  const submitBlocks = (intent: 'save' | 'publish') => {
+    const formData = new FormData();
+    formData.append('intent', intent);
+    formData.append('blocks', JSON.stringify(blocks));
+
+    fetcher.submit(formData, {
+      method: 'post',
+    });
+  };
+
+  const handleUnpublish = () => {
+    if (!confirm('발행을 취소하면 공개 페이지가 더 이상 보이지 않습니다. 계속하시겠습니까?')) return;
+    fetcher.submit({ intent: 'unpublish' }, { method: 'post' });
+  };
+
+  // 미리보기는 저장된 임시저장본을 보여주므로 저장되지 않은 변경사항이 있으면 먼저 저장
+  const handlePreview = () => {
+    if (hasChanges) {
+      alert('저장되지 않은 변경사항이 있습니다. 임시저장 후 미리보기하세요.');
+      return;
+    }
+    window.open(previewUrl, '_blank');
+  };
+
+  const errorMessage = [fetcher.data, settingsFetcher.data]
+    .map((result) => (result && 'error' in result ? result.error : null))
+    .find(Boolean);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* 상단 툴바 */}
+      <div className="sticky top-0 z-50 bg-white shadow-sm border-b">
+        <div className="container mx-auto px-4">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-3">
+              <Link to="/admin/page-builder" className="text-sm text-gray-500 hover:text-gray-700">
+                ← 페이지 목록
+              </Link>
+              <h1 className="text-xl font-semibold">{page.title || page.slug}</h1>
+              <span className="text-sm text-gray-500">{STATUS_LABELS[page.status]}</span>
+            </div>
+
+            <div className="flex items-center space-x-4">
+              {hasChanges && (
+                <span className="text-sm text-orange-600">
+                  저장되지 않은 변경사항이 있습니다
+                </span>
+              )}
+
+              <button
+                onClick={handlePreview}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+              >
+                미리보기
+              </button>
+
+              {page.status !== 'DRAFT' && (
+                <button
+                  onClick={handleUnpublish}
+                  disabled={isSaving}
+                  className="px-4 py-2 text-red-600 bg-red-50 rounded hover:bg-red-100"
+                >
+                  발행 취소
+                </button>
+              )}
+
+              <button
+                onClick={() => submitBlocks('save')}
+                disabled={!hasChanges || isSaving}
+                className={`px-4 py-2 rounded ${
+                  hasChanges && !isSaving
+                    ? 'bg-gray-700 text-white hover:bg-gray-800'
+                    : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                }`}
+              >
+                {isSaving ? '저장 중...' : '임시저장'}
+              </button>
+
+              <button
+                onClick={() => submitBlocks('publish')}
+                disabled={isSaving || (!hasChanges && page.status === 'PUBLISHED')}
+                className={`px-4 py-2 rounded ${
+                  !isSaving && (hasChanges || page.status !== 'PUBLISHED')
+                    ? 'bg-blue-600 text-white hover:bg-blue-700'
+                    : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                }`}
+              >
+                발행
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="container mx-auto px-4 pt-4">
+          <p className="text-sm text-red-600">{errorMessage}</p>
+        </div>
+      )}
+
+      {/* 페이지 설정 */}
+      <div className="container mx-auto px-4 pt-8">
+        <settingsFetcher.Form method="post" className="bg-white p-6 rounded-lg shadow grid gap-4 md:grid-cols-2">
+          <input type="hidden" name="intent" value="settings" />
+          <div>
+            <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-1">제목</label>
+            <input
+              id="title"
+              name="title"
+              defaultValue={page.title}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div>
+            <label htmlFor="slug" className="block text-sm font-medium text-gray-700 mb-1">
+              주소 ({getPageUrl(page.slug)})
+            </label>
+            <input
+              id="slug"
+              name="slug"
+              defaultValue={page.slug}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div>
+            <label htmlFor="seoTitle" className="block text-sm font-medium text-gray-700 mb-1">
+              SEO 제목 (비우면 페이지 제목)
+            </label>
+            <input
+              id="seoTitle"
+              name="seoTitle"
+              defaultValue={page.seoTitle ?? ''}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div>
+            <label htmlFor="seoDescription" className="block text-sm font-medium text-gray-700 mb-1">
+              SEO 설명
+            </label>
+            <textarea
+              id="seoDescription"
+              name="seoDescription"
+              defaultValue={page.seoDescription ?? ''}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div className="md:col-span-2 flex justify-end">
+            <button
+              type="submit"
+              disabled={settingsFetcher.state !== 'idle'}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+            >
+              설정 저장
+            </button>
+          </div>
+        </settingsFetcher.Form>
+      </div>
+
+      {/* 페이지 빌더 */}
+      <PageBuilder isEditing={true} data={data} pluginBlocks={pluginBlocks} />
+
+      {/* 하단 정보 */}
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <h3 className="font-semibold text-blue-900 mb-2">사용 방법</h3>
+          <ul className="text-sm text-blue-800 space-y-1">
+            <li>• 상단 버튼을 클릭하여 새 블록을 추가하세요</li>
+            <li>• 블록을 드래그하여 순서를 변경할 수 있습니다</li>
+            <li>• 각 블록의 설정을 수정하여 내용을 커스터마이징하세요</li>
+            <li>• 블록을 활성/비활성화하여 표시 여부를 제어할 수 있습니다</li>
+            <li>• 임시저장한 변경사항은 발행해야 공개 페이지에 반영됩니다</li>
+            <li>• 미리보기 링크는 1시간 동안 로그인 없이 열 수 있어 검토 요청에 공유할 수 있습니다</li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+/**
+ * 어드민 페이지 목록
+ * 페이지 빌더로 만든 페이지를 생성/삭제하고 발행 상태를 확인
+ */
+
+import { json, redirect, type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/node';
+import { Form, Link, useActionData, useLoaderData, useNavigation } from '@remix-run/react';
+import { format } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { Edit, ExternalLink, Plus, Trash2 } from 'lucide-react';
+import { requireAdmin } from '~/lib/auth.server';
+import { createPage, deletePage, listPages } from '~/lib/pages/page.server';
+import { getPageStatus, getPageUrl, type PageStatus } from '~/lib/pages/page-config';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAdmin(request);
+
+  const pages = await listPages();
+
+  return json({
+    pages: pages.map((page) => ({
+      id: page.id,
+      title: page.title,
+      slug: page.slug,
+      status: getPageStatus(page),
+      publishedAt: page.publishedAt,
+      updatedAt: page.updatedAt,
+    })),
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  await requireAdmin(request);
+
+  const formData = await request.formData();
+  const intent = formData.get('intent');
+
+  if (intent === 'delete') {
+    const pageId = formData.get('pageId');
+    if (typeof pageId !== 'string') {
+      return json({ error: '삭제할 페이지를 선택해주세요.' }, { status: 400 });
+    }
+    await deletePage(pageId);
+    return json({ success: true });
+  }
+
+  const result = await createPage({
+    title: String(formData.get('title') || ''),
+    slug: String(formData.get('slug') || ''),
+  });
+  if (!result.success) {
+    return json({ error: result.message }, { status: 400 });
+  }
+
+  return redirect(`/admin/page-builder/${result.page.id}`);
+}
+
+const STATUS_CONFIG: Record<PageStatus, { label: string; color: string }> = {
+  DRAFT: { label: '임시저장', color: 'bg-gray-100 text-gray-800' },
+  PUBLISHED: { label: '발행됨', color: 'bg-green-100 text-green-800' },
+  CHANGED: { label: '변경사항 있음', color: 'bg-orange-100 text-orange-800' },
+};
+
+export default function AdminPageBuilderIndex() {
+  const { pages } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === 'submitting';
+
+  return (
+    <div className="space-y-6">
+      {/* 헤더 */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">페이지 빌더</h1>
+        <p className="text-gray-500 dark:text-gray-400 mt-1">
+          블록으로 페이지를 만들고, 발행한 페이지는 /pages/주소 에서 볼 수 있습니다
+        </p>
+      </div>
+
+      {/* 새 페이지 */}
+      <Form method="post" className="flex flex-wrap items-end gap-3 bg-white dark:bg-gray-800 p-4 rounded-lg shadow">
+        <input type="hidden" name="intent" value="create" />
+        <div className="flex-1 min-w-[200px]">
+          <label htmlFor="title" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            제목
+          </label>
+          <Input id="title" name="title" required placeholder="회사 소개" />
+        </div>
+        <div className="flex-1 min-w-[200px]">
+          <label htmlFor="slug" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            주소
+          </label>
+          <Input id="slug" name="slug" required placeholder="company/about" />
+        </div>
+        <Button type="submit" disabled={isSubmitting}>
+          <Plus className="w-4 h-4 mr-2" />
+          새 페이지
+        </Button>
+      </Form>
+
+      {actionData && 'error' in actionData && (
+        <p className="text-sm text-red-600">{actionData.error}</p>
+      )}
+
+      {/* 페이지 목록 */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-900">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">제목</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">주소</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">상태</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">수정일</th>
+              <th className="px-6 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {pages.map((page) => (
+              <tr key={page.id}>
+                <td className="px-6 py-4 font-medium">
+                  <Link to={`/admin/page-builder/${page.id}`} className="hover:underline">
+                    {page.title || page.slug}
+                  </Link>
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">{getPageUrl(page.slug)}</td>
+                <td className="px-6 py-4">
+                  <span className={`px-2 py-1 text-xs rounded-full ${STATUS_CONFIG[page.status].color}`}>
+                    {STATUS_CONFIG[page.status].label}
+                  </span>
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {format(new Date(page.updatedAt), 'yyyy.MM.dd HH:mm', { locale: ko })}
+                </td>
+                <td className="px-6 py-4">
+                  <div className="flex items-center justify-end gap-2">
+                    {page.status !== 'DRAFT' && (
+                      <a href={getPageUrl(page.slug)} target="_blank" rel="noreferrer" title="공개 페이지 보기">
+                        <Button variant="ghost" size="sm">
+                          <ExternalLink className="w-4 h-4" />
+                        </Button>
+                      </a>
+                    )}
+                    <Link to={`/admin/page-builder/${page.id}`} title="편집">
+                      <Button variant="ghost" size="sm">
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                    </Link>
+                    <Form
+                      method="post"
+                      onSubmit={(e) => {
+                        if (!confirm(`"${page.title || page.slug}" 페이지를 삭제하시겠습니까?`)) e.preventDefault();
+                      }}
+                    >
+                      <input type="hidden" name="intent" value="delete" />
+                      <input type="hidden" name="pageId" value={page.id} />
+                      <Button type="submit" variant="ghost" size="sm" title="삭제">
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </Button>
+                    </Form>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {pages.length === 0 && (
+          <div className="text-center py-12 text-gray-500">아직 만든 페이지가 없습니다.</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -19,17 +19,21 @@ import {
   SelectTrigger,
   SelectValue,
 } from "~/components/ui/select";
-import { Eye, Edit, Trash2 } from "lucide-react";
+import { Eye, Edit, Trash2, History } from "lucide-react";
 import { db } from "~/lib/db.server";
-import { requireUser } from "~/lib/auth.server";
+import { requireUser, requireAdmin } from "~/lib/auth.server";
+import { restoreRevision } from "~/lib/posts/revision.server";
+import { runPluginHook, toPluginPost } from "~/lib/architecture/plugin-system.server";
+import { POST_STATUS_LABELS } from "~/lib/posts/post-status";
 import { format } from "date-fns";
 import { ko } from "date-fns/locale";
 import { useState } from "react";
 import { z } from "zod";
 
 const actionSchema = z.object({
-  intent: z.enum(['delete', 'publish', 'unpublish', 'bulkDelete', 'bulkPublish', 'bulkUnpublish']),
+  intent: z.enum(['delete', 'publish', 'unpublish', 'archive', 'bulkDelete', 'bulkPublish', 'bulkUnpublish', 'bulkArchive', 'restoreRevision']),
   postId: z.string().optional(),
+  revisionId: z.string().optional(),
   postIds: z.array(z.string()).optional(),
 });
 
@@ -42,6 +46,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
       title: true,
       slug: true,
       isPublished: true,
+      status: true,
       views: true,
       createdAt: true,
       author: {
@@ -51,7 +56,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
         select: { id: true, name: true, slug: true },
       },
       _count: {
-        select: { comments: true },
+        select: { comments: true, revisions: true },
       },
     },
     orderBy: { createdAt: 'desc' },
@@ -68,48 +73,74 @@ export async function loader({ request }: LoaderFunctionArgs) {
 }
 
 export async function action({ request }: ActionFunctionArgs) {
-  await requireUser(request);
+  const user = await requireUser(request);
 
   const formData = await request.formData();
   const intent = formData.get('intent');
   
   try {
-    if (intent === 'delete') {
+    if (intent === 'restoreRevision') {
+      // 리비전 복원은 관리자만 가능 (게시글 수정 화면에서도 호출)
+      const admin = await requireAdmin(request);
+      const revisionId = formData.get('revisionId') as string;
+      if (!revisionId) {
+        return json({ error: '리비전 ID가 필요합니다.' }, { status: 400 });
+      }
+      await restoreRevision(revisionId, admin.id);
+    } else if (intent === 'delete') {
       const postId = formData.get('postId') as string;
-      await db.post.delete({ where: { id: postId } });
+      const deleted = await db.post.delete({ where: { id: postId } });
+      await runPluginHook('post.deleted', { post: toPluginPost(deleted), actorId: user.id });
     } else if (intent === 'publish') {
       const postId = formData.get('postId') as string;
       await db.post.update({
         where: { id: postId },
-        data: { isPublished: true },
+        data: { status: 'PUBLISHED', isPublished: true },
       });
     } else if (intent === 'unpublish') {
       const postId = formData.get('postId') as string;
       await db.post.update({
         where: { id: postId },
-        data: { isPublished: false },
+        data: { status: 'DRAFT', isPublished: false },
+      });
+    } else if (intent === 'archive') {
+      const postId = formData.get('postId') as string;
+      await db.post.update({
+        where: { id: postId },
+        data: { status: 'ARCHIVED', isPublished: false },
+      });
+    } else if (intent === 'bulkArchive') {
+      const postIds = formData.getAll('postIds') as string[];
+      await db.post.updateMany({
+        where: { id: { in: postIds } },
+        data: { status: 'ARCHIVED', isPublished: false },
       });
     } else if (intent === 'bulkDelete') {
       const postIds = formData.getAll('postIds') as string[];
+      const posts = await db.post.findMany({ where: { id: { in: postIds } } });
       await db.post.deleteMany({
-        where: { id: { in: postIds } },
+        where: { id: { in: posts.map((post) => post.id) } },
       });
+      for (const post of posts) {
+        await runPluginHook('post.deleted', { post: toPluginPost(post), actorId: user.id });
+      }
     } else if (intent === 'bulkPublish') {
       const postIds = formData.getAll('postIds') as string[];
       await db.post.updateMany({
         where: { id: { in: postIds } },
-        data: { isPublished: true },
+        data: { status: 'PUBLISHED', isPublished: true },
       });
     } else if (intent === 'bulkUnpublish') {
       const postIds = formData.getAll('postIds') as string[];
       await db.post.updateMany({
         where: { id: { in: postIds } },
-        data: { isPublished: false },
+        data: { status: 'DRAFT', isPublished: false },
       });
     }
 
     return json({ success: true });
   } catch (error) {
+    if (error instanceof Response) throw error;
     return json({ error: '작업 중 오류가 발생했습니다.' }, { status: 400 });
   }
 }
@@ -200,6 +231,13 @@ export default function AdminPosts() {
               >
                 일괄 비공개
               </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleBulkAction('bulkArchive')}
+              >
+                일괄 보관
+              </Button>
               <Button
                 size="sm"
                 variant="destructive"
@@ -265,8 +303,8 @@ export default function AdminPosts() {
                       )}
                     </TableCell>
                     <TableCell>
-                      <Badge variant={post.isPublished ? 'default' : 'secondary'}>
-                        {post.isPublished ? '공개' : '비공개'}
+                      <Badge variant={post.status === 'PUBLISHED' ? 'default' : post.status === 'SCHEDULED' ? 'outline' : 'secondary'}>
+                        {POST_STATUS_LABELS[post.status]}
                       </Badge>
                     </TableCell>
                     <TableCell>{post.views}</TableCell>
@@ -286,6 +324,13 @@ export default function AdminPosts() {
                             <Edit className="h-4 w-4" />
                           </Link>
                         </Button>
+                        {post._count.revisions > 1 && (
+                          <Button size="icon" variant="ghost" asChild title={`수정 이력 ${post._count.revisions}개`}>
+                            <Link to={post.menu ? `/${post.menu.slug}/${post.slug}/edit#revisions` : "#"}>
+                              <History className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                        )}
                         <fetcher.Form method="post" className="inline">
                           <input type="hidden" name="intent" value="delete" />
                           <input type="hidden" name="postId" value={post.id} />
@@ -2,15 +2,15 @@
 
 import type { LoaderFunctionArgs, ActionFunctionArgs } from '@remix-run/node';
 import { json, redirect } from '@remix-run/node';
-import { useLoaderData, useActionData, Form } from '@remix-run/react';
+import { useLoaderData, useActionData, Form, Link } from '@remix-run/react';
 import { requireUser } from '~/lib/auth.server';
 import { db } from '~/lib/db.server';
-import { pluginRegistry } from '~/lib/plugins/plugin-registry.server';
+import { ensurePluginsLoaded, getPluginManager } from '~/lib/architecture/plugin-system.server';
 import { centrifugo } from '~/lib/centrifugo/client.server';
 import { checkRedisHealth } from '~/lib/cache/redis-cluster.server';
 import { getConnectionPoolStatus } from '~/lib/database/db-read-replica.server';
 import { sendAdminAnnouncement } from '~/lib/realtime/notification-system.server';
-import { Settings, Database, Cpu, HardDrive, Wifi, Users, Zap } from 'lucide-react';
+import { Settings, Database, Cpu, HardDrive, Wifi, Users, Zap, Scale } from 'lucide-react';
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const user = await requireUser(request);
@@ -25,6 +25,9 @@ export async function loader({ request }: LoaderFunctionArgs) {
     throw redirect('/');
   }
 
+  await ensurePluginsLoaded();
+  const pluginManager = getPluginManager();
+
   // 시스템 상태 수집
   const [
     databaseStatus,
@@ -68,7 +71,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
     }),
 
     // 플러그인 상태
-    pluginRegistry.getStats(),
+    pluginManager.getPluginStatus(),
 
     // Centrifugo 상태
     Promise.resolve().then(async () => {
@@ -115,7 +118,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
     pluginStats,
     socketStatus,
     systemMetrics,
-    plugins: pluginRegistry.getAllPlugins(),
+    plugins: pluginManager.getPluginList(),
   });
 }
 
@@ -141,15 +144,25 @@ export async function action({ request }: ActionFunctionArgs) {
         const pluginId = formData.get('pluginId') as string;
         const enable = formData.get('enable') === 'true';
 
-        const success = enable ? 
-          await pluginRegistry.enablePlugin(pluginId) :
-          await pluginRegistry.disablePlugin(pluginId);
+        await ensurePluginsLoaded();
+        const pluginManager = getPluginManager();
+
+        try {
+          if (enable) {
+            await pluginManager.activatePlugin(pluginId);
+          } else {
+            await pluginManager.deactivatePlugin(pluginId);
+          }
+        } catch (error) {
+          return json({
+            success: false,
+            error: error instanceof Error ? error.message : '플러그인 상태 변경에 실패했습니다.'
+          });
+        }
 
         return json({ 
-          success, 
-          message: success ? 
-            `플러그인이 ${enable ? '활성화' : '비활성화'}되었습니다.` :
-            '플러그인 상태 변경에 실패했습니다.'
+          success: true, 
+          message: `플러그인이 ${enable ? '활성화' : '비활성화'}되었습니다.`
         });
       }
 
@@ -316,7 +329,7 @@ export default function AdminSystem() {
             </div>
           </div>
           <div className="mt-4 text-sm text-gray-600 dark:text-gray-400">
-            <p>오류: {pluginStats.errors}개</p>
+            <p>오류: {pluginStats.error}개</p>
           </div>
         </div>
       </div>
@@ -391,6 +404,14 @@ export default function AdminSystem() {
                 서비스 재시작
               </button>
             </Form>
+
+            <Link
+              to="/admin/system/ledger"
+              className="flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-sm"
+            >
+              <Scale className="h-4 w-4" />
+              포인트 원장 대사
+            </Link>
           </div>
         </div>
       </div>
@@ -407,17 +428,18 @@ export default function AdminSystem() {
           ) : (
             <div className="space-y-4">
               {plugins.map((plugin) => (
-                <div key={plugin.id} className="flex items-center justify-between p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+                <div key={plugin.name} className="flex items-center justify-between p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
                   <div className="flex-1">
-                    <h3 className="font-medium dark:text-gray-100">{plugin.metadata.name}</h3>
-                    <p className="text-sm text-gray-600 dark:text-gray-400">{plugin.metadata.description}</p>
+                    <h3 className="font-medium dark:text-gray-100">{plugin.displayName}</h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">{plugin.description}</p>
                     <div className="flex items-center gap-4 mt-2 text-xs text-gray-500 dark:text-gray-500">
-                      <span>v{plugin.metadata.version}</span>
-                      <span>by {plugin.metadata.author}</span>
+                      <span>v{plugin.version}</span>
+                      {plugin.author && <span>by {plugin.author}</span>}
+                      <span>{plugin.source === 'builtin' ? '내장' : '패키지'}</span>
+                      {plugin.status === 'active' && <span>훅 {plugin.hooks}개</span>}
                       <span className={`px-2 py-1 rounded ${getStatusColor(plugin.status)}`}>
                         {plugin.status === 'active' ? '활성' :
-                         plugin.status === 'error' ? '오류' :
-                         plugin.status === 'disabled' ? '비활성' : '대기'}
+                         plugin.status === 'error' ? '오류' : '비활성'}
                       </span>
                     </div>
                     {plugin.error && (
@@ -427,7 +449,7 @@ export default function AdminSystem() {
 
                   <Form method="post" className="ml-4">
                     <input type="hidden" name="action" value="plugin-toggle" />
-                    <input type="hidden" name="pluginId" value={plugin.id} />
+                    <input type="hidden" name="pluginId" value={plugin.name} />
                     <input type="hidden" name="enable" value={plugin.status === 'active' ? 'false' : 'true'} />
                     <button
                       type="submit"
@@ -436,9 +458,8 @@ export default function AdminSystem() {
                           ? 'bg-red-100 text-red-700 hover:bg-red-200 dark:bg-red-900/30 dark:text-red-400 dark:hover:bg-red-900/50'
                           : 'bg-green-100 text-green-700 hover:bg-green-200 dark:bg-green-900/30 dark:text-green-400 dark:hover:bg-green-900/50'
                       }`}
-                      disabled={plugin.status === 'error'}
                     >
-                      {plugin.status === 'active' ? '비활성화' : '활성화'}
+                      {plugin.status === 'active' ? '비활성화' : plugin.status === 'error' ? '다시 시도' : '활성화'}
                     </button>
                   </Form>
                 </div>
@@ -0,0 +1,198 @@
+// 포인트 원장 대사 페이지
+
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from '@remix-run/node';
+import { useLoaderData, useFetcher, Link } from '@remix-run/react';
+import { useState } from 'react';
+import { requireAdmin } from '~/lib/auth.server';
+import { getLastLedgerScan, runLedgerScan, fixLedgerDrift } from '~/lib/points/point-ledger.server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '~/components/ui/card';
+import { Button } from '~/components/ui/button';
+import { Badge } from '~/components/ui/badge';
+import { Checkbox } from '~/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '~/components/ui/table';
+import { ChevronLeft, RefreshCw, Wrench } from 'lucide-react';
+import { format } from 'date-fns';
+import { ko } from 'date-fns/locale';
+
+const MAX_LISTED_MISMATCHES = 5;
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAdmin(request);
+
+  return json({ result: await getLastLedgerScan() });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const admin = await requireAdmin(request);
+  const formData = await request.formData();
+
+  if (formData.get('intent') === 'scan') {
+    const { scanned, drifts } = await runLedgerScan();
+    return json({ success: true, message: `${scanned}개 계정을 검사해 불일치 ${drifts.length}개를 찾았습니다.` });
+  }
+
+  const userPointIds = formData.getAll('userPointIds').map(String).filter(Boolean);
+
+  if (userPointIds.length === 0) {
+    return json({ success: false, message: '보정할 계정을 선택하세요.' }, { status: 400 });
+  }
+
+  const { fixed } = await fixLedgerDrift(admin.id, userPointIds);
+
+  return json({ success: true, message: `${fixed}개 계정에 조정 거래를 기록했습니다.` });
+}
+
+export default function AdminLedger() {
+  const { result } = useLoaderData<typeof loader>();
+  const drifts = result?.drifts ?? [];
+  const fetcher = useFetcher<typeof action>();
+  const isScanning = fetcher.state !== 'idle' && fetcher.formData?.get('intent') === 'scan';
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, id] : prev.filter((v) => v !== id)));
+  };
+
+  const handleFix = () => {
+    if (!confirm(`선택한 ${selected.length}개 계정에 조정(ADJUST) 거래를 기록하시겠습니까?`)) {
+      return;
+    }
+    const formData = new FormData();
+    selected.forEach((id) => formData.append('userPointIds', id));
+    fetcher.submit(formData, { method: 'post' });
+    setSelected([]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Link to="/admin/system">
+          <Button variant="ghost" size="sm">
+            <ChevronLeft className="w-5 h-5" />
+          </Button>
+        </Link>
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">포인트 원장 대사</h2>
+          <p className="text-muted-foreground">
+            계정 잔액/누적 포인트와 거래 내역 합계, 거래별 잔액 기록을 비교합니다.
+          </p>
+        </div>
+      </div>
+
+      {fetcher.data && (
+        <div className={`p-4 rounded-lg ${
+          fetcher.data.success
+            ? 'bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+            : 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+        }`}>
+          {fetcher.data.message}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>불일치 계정 {drifts.length}개</CardTitle>
+            <CardDescription>
+              {result
+                ? `${result.scanned}개 계정 검사 · ${format(new Date(result.scannedAt), 'yyyy-MM-dd HH:mm:ss', { locale: ko })}`
+                : '아직 검사한 기록이 없습니다.'}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <fetcher.Form method="post">
+              <input type="hidden" name="intent" value="scan" />
+              <Button type="submit" variant="outline" size="sm" disabled={fetcher.state !== 'idle'}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${isScanning ? 'animate-spin' : ''}`} />
+                {isScanning ? '검사 중...' : result ? '다시 검사' : '검사 실행'}
+              </Button>
+            </fetcher.Form>
+            <Button
+              size="sm"
+              onClick={handleFix}
+              disabled={selected.length === 0 || fetcher.state !== 'idle'}
+            >
+              <Wrench className="w-4 h-4 mr-2" />
+              선택 보정
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!result ? (
+            <p className="text-center text-muted-foreground py-8">검사 실행을 눌러 전체 계정을 검사하세요.</p>
+          ) : drifts.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">모든 계정의 원장이 일치합니다.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[40px]">
+                    <Checkbox
+                      checked={selected.length === drifts.length}
+                      onCheckedChange={(checked) =>
+                        setSelected(checked ? drifts.map((d) => d.userPointId) : [])
+                      }
+                    />
+                  </TableHead>
+                  <TableHead>사용자</TableHead>
+                  <TableHead>잔액 (계정 / 내역)</TableHead>
+                  <TableHead>누적 (계정 / 내역)</TableHead>
+                  <TableHead>거래 후 잔액 불일치</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drifts.map((drift) => (
+                  <TableRow key={drift.userPointId}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.includes(drift.userPointId)}
+                        onCheckedChange={(checked) => toggle(drift.userPointId, !!checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{drift.username}</TableCell>
+                    <TableCell>
+                      <span className={drift.balance !== drift.ledgerBalance ? 'text-red-600' : ''}>
+                        {drift.balance.toLocaleString()} / {drift.ledgerBalance.toLocaleString()}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <span className={drift.lifetime !== drift.ledgerLifetime ? 'text-red-600' : ''}>
+                        {drift.lifetime.toLocaleString()} / {drift.ledgerLifetime.toLocaleString()}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {drift.mismatches.length === 0 ? (
+                        <span className="text-muted-foreground">-</span>
+                      ) : (
+                        <div className="space-y-1">
+                          <Badge variant="destructive">{drift.mismatches.length}건</Badge>
+                          {drift.mismatches.slice(0, MAX_LISTED_MISMATCHES).map((m) => (
+                            <p key={m.transactionId} className="text-xs font-mono text-muted-foreground">
+                              {m.transactionId}: 기록 {m.stored} / 계산 {m.expected}
+                            </p>
+                          ))}
+                          {drift.mismatches.length > MAX_LISTED_MISMATCHES && (
+                            <p className="text-xs text-muted-foreground">
+                              외 {drift.mismatches.length - MAX_LISTED_MISMATCHES}건
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Outlet, useLoaderData } from "@remix-run/react";
 import { AdminLayout } from "~/components/admin/AdminLayout";
 import { requireUser } from "~/lib/auth.server";
 import { db } from "~/lib/db.server";
+import { ensurePluginsLoaded, getPluginManager } from "~/lib/architecture/plugin-system.server";
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const user = await requireUser(request);
@@ -17,14 +18,16 @@ export async function loader({ request }: LoaderFunctionArgs) {
     throw redirect('/');
   }
 
-  return json({ user: dbUser });
+  await ensurePluginsLoaded();
+
+  return json({ user: dbUser, pluginMenuItems: getPluginManager().getAdminMenuItems() });
 }
 
 export default function AdminRoute() {
-  const { user } = useLoaderData<typeof loader>();
+  const { user, pluginMenuItems } = useLoaderData<typeof loader>();
 
   return (
-    <AdminLayout user={user}>
+    <AdminLayout user={user} pluginMenuItems={pluginMenuItems}>
       <Outlet />
     </AdminLayout>
   );
@@ -1,19 +1,33 @@
 import { json, LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/node";
 import { useLoaderData, useFetcher, useSearchParams } from "@remix-run/react";
-import { UserTable } from "~/components/admin/UserTable";
+import { useEffect, useState } from "react";
+import { UserTable, type UserData } from "~/components/admin/UserTable";
 import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Textarea } from "~/components/ui/textarea";
 import { Button } from "~/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
 import { Search } from "lucide-react";
 import { db } from "~/lib/db.server";
-import { requireUser } from "~/lib/auth.server";
+import { requireUser, requireAdmin } from "~/lib/auth.server";
+import { adminAdjustPoints } from "~/lib/points/point.server";
 import { z } from "zod";
 
 const actionSchema = z.object({
-  intent: z.enum(['updateRole', 'updateActive']),
+  intent: z.enum(['updateRole', 'updateActive', 'grantPoints', 'revokePoints']),
   userId: z.string(),
   role: z.enum(['USER', 'ADMIN']).optional(),
   isActive: z.enum(['true', 'false']).optional(),
+  amount: z.coerce.number().int().positive().optional(),
+  reason: z.string().max(200).optional(),
 });
 
 export async function loader({ request }: LoaderFunctionArgs) {
@@ -44,6 +58,9 @@ export async function loader({ request }: LoaderFunctionArgs) {
           comments: true,
         },
       },
+      userPoints: {
+        select: { balance: true },
+      },
     },
     orderBy: { createdAt: 'desc' },
   });
@@ -52,13 +69,32 @@ export async function loader({ request }: LoaderFunctionArgs) {
 }
 
 export async function action({ request }: ActionFunctionArgs) {
-  const currentUser = await requireUser(request);
+  const currentUser = await requireAdmin(request);
   
   const formData = await request.formData();
   const data = Object.fromEntries(formData);
   
   try {
     const parsed = actionSchema.parse(data);
+
+    // 포인트 지급/회수 (사유 필수, 거래 내역에 처리 관리자 기록)
+    if (parsed.intent === 'grantPoints' || parsed.intent === 'revokePoints') {
+      if (!parsed.amount || !parsed.reason?.trim()) {
+        return json({ error: '금액과 사유를 입력하세요.' }, { status: 400 });
+      }
+
+      const result = await adminAdjustPoints(
+        currentUser.id,
+        parsed.userId,
+        parsed.intent === 'grantPoints' ? parsed.amount : -parsed.amount,
+        parsed.reason
+      );
+
+      if (!result.success) {
+        return json({ error: result.message }, { status: 400 });
+      }
+      return json({ success: true, newBalance: result.newBalance });
+    }
     
     // 자기 자신의 권한은 변경할 수 없음
     if (parsed.userId === currentUser.id && parsed.intent === 'updateRole') {
@@ -86,7 +122,16 @@ export async function action({ request }: ActionFunctionArgs) {
 export default function AdminUsers() {
   const { users } = useLoaderData<typeof loader>();
   const fetcher = useFetcher();
+  const pointsFetcher = useFetcher<{ success?: boolean; error?: string }>();
   const [searchParams, setSearchParams] = useSearchParams();
+  const [pointsTarget, setPointsTarget] = useState<UserData | null>(null);
+
+  // 지급/회수 완료 시 대화상자 닫기
+  useEffect(() => {
+    if (pointsFetcher.state === 'idle' && pointsFetcher.data?.success) {
+      setPointsTarget(null);
+    }
+  }, [pointsFetcher.state, pointsFetcher.data]);
 
   const handleRoleChange = (userId: string, role: 'USER' | 'ADMIN') => {
     fetcher.submit(
@@ -143,9 +188,54 @@ export default function AdminUsers() {
             users={users}
             onRoleChange={handleRoleChange}
             onActiveChange={handleActiveChange}
+            onAdjustPoints={setPointsTarget}
           />
         </CardContent>
       </Card>
+
+      <Dialog open={!!pointsTarget} onOpenChange={(open) => !open && setPointsTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>포인트 지급/회수</DialogTitle>
+            <DialogDescription>
+              {pointsTarget?.name || pointsTarget?.email} · 현재 {(pointsTarget?.userPoints?.balance ?? 0).toLocaleString()}P
+            </DialogDescription>
+          </DialogHeader>
+          <pointsFetcher.Form method="post" className="space-y-4">
+            <input type="hidden" name="userId" value={pointsTarget?.id ?? ''} />
+            <div>
+              <Label htmlFor="amount">금액</Label>
+              <Input id="amount" name="amount" type="number" min={1} step={1} required />
+            </div>
+            <div>
+              <Label htmlFor="reason">사유</Label>
+              <Textarea id="reason" name="reason" maxLength={200} rows={3} required placeholder="거래 내역에 함께 기록됩니다" />
+            </div>
+            {pointsFetcher.data?.error && (
+              <p className="text-sm text-red-600">{pointsFetcher.data.error}</p>
+            )}
+            <DialogFooter>
+              <Button
+                type="submit"
+                name="intent"
+                value="revokePoints"
+                variant="outline"
+                disabled={pointsFetcher.state !== 'idle'}
+              >
+                회수
+              </Button>
+              <Button
+                type="submit"
+                name="intent"
+                value="grantPoints"
+                disabled={pointsFetcher.state !== 'idle'}
+              >
+                지급
+              </Button>
+            </DialogFooter>
+          </pointsFetcher.Form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
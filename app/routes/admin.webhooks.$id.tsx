@@ -0,0 +1,381 @@
+/**
+ * 어드민 웹훅 상세
+ * 설정 수정, 서명 비밀값 교체, 연결 테스트와 전송 기록(재전송)
+ */
+
+import { json, redirect, type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/node';
+import { Form, Link, useActionData, useLoaderData, useNavigation, useSearchParams } from '@remix-run/react';
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { ArrowLeft, Eye, EyeOff, KeyRound, Power, RotateCw, Save, Send, Trash2 } from 'lucide-react';
+import { requireAdmin } from '~/lib/auth.server';
+import {
+  deleteWebhook,
+  getWebhook,
+  listWebhookDeliveries,
+  redeliverWebhook,
+  rotateWebhookSecret,
+  sendTestWebhook,
+  setWebhookActive,
+  updateWebhook,
+} from '~/lib/webhooks/webhook.server';
+import {
+  AUTO_DISABLE_THRESHOLD,
+  MAX_DELIVERY_ATTEMPTS,
+  WEBHOOK_EVENTS,
+  type WebhookDeliveryStatus,
+  type WebhookEvent,
+} from '~/lib/webhooks/webhook-events';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+
+const DELIVERY_STATUSES: Record<WebhookDeliveryStatus, { label: string; color: string }> = {
+  PENDING: { label: '재시도 대기', color: 'bg-yellow-100 text-yellow-800' },
+  SUCCEEDED: { label: '성공', color: 'bg-green-100 text-green-800' },
+  FAILED: { label: '실패', color: 'bg-red-100 text-red-800' },
+};
+
+function isDeliveryStatus(value: string | null): value is WebhookDeliveryStatus {
+  return value !== null && value in DELIVERY_STATUSES;
+}
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  await requireAdmin(request);
+
+  const webhook = await getWebhook(params.id!);
+  if (!webhook) {
+    throw new Response('웹훅을 찾을 수 없습니다', { status: 404 });
+  }
+
+  const url = new URL(request.url);
+  const status = url.searchParams.get('status');
+  const log = await listWebhookDeliveries(webhook.id, {
+    status: isDeliveryStatus(status) ? status : undefined,
+    page: Number(url.searchParams.get('page')) || 1,
+  });
+
+  return json({ webhook, ...log });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  await requireAdmin(request);
+
+  const id = params.id!;
+  const formData = await request.formData();
+  const intent = formData.get('intent');
+
+  switch (intent) {
+    case 'update': {
+      const result = await updateWebhook(id, {
+        name: String(formData.get('name') || ''),
+        url: String(formData.get('url') || ''),
+        events: formData.getAll('events').map(String),
+      });
+      if (!result.success) {
+        return json({ error: result.message }, { status: 400 });
+      }
+      return json({ message: '설정을 저장했습니다.' });
+    }
+
+    case 'rotate':
+      await rotateWebhookSecret(id);
+      return json({ message: '서명 비밀값을 교체했습니다. 수신 측 설정도 바꿔주세요.' });
+
+    case 'toggle': {
+      const isActive = formData.get('isActive') === 'true';
+      await setWebhookActive(id, isActive);
+      return json({ message: isActive ? '웹훅을 활성화했습니다.' : '웹훅을 비활성화했습니다.' });
+    }
+
+    case 'test': {
+      const delivery = await sendTestWebhook(id);
+      if (delivery?.status !== 'SUCCEEDED') {
+        return json({ error: `테스트 전송 실패: ${delivery?.error ?? '알 수 없는 오류'}` }, { status: 400 });
+      }
+      return json({ message: `테스트 전송 성공 (HTTP ${delivery.responseStatus})` });
+    }
+
+    case 'redeliver': {
+      const result = await redeliverWebhook(String(formData.get('deliveryId') || ''));
+      if (!result.success) {
+        return json({ error: result.message }, { status: 400 });
+      }
+      return json({
+        message: result.delivery?.status === 'SUCCEEDED' ? '다시 전송했습니다.' : '재전송에 실패해 재시도 대기 중입니다.',
+      });
+    }
+
+    case 'delete':
+      await deleteWebhook(id);
+      return redirect('/admin/webhooks');
+
+    default:
+      return json({ error: '알 수 없는 요청입니다.' }, { status: 400 });
+  }
+}
+
+function formatTime(value: string | null) {
+  return value ? format(new Date(value), 'yyyy.MM.dd HH:mm:ss', { locale: ko }) : '-';
+}
+
+function formatPayload(payload: string) {
+  try {
+    return JSON.stringify(JSON.parse(payload), null, 2);
+  } catch {
+    return payload;
+  }
+}
+
+export default function AdminWebhookDetail() {
+  const { webhook, deliveries, total, page, totalPages } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const [searchParams] = useSearchParams();
+  const [showSecret, setShowSecret] = useState(false);
+  const isSubmitting = navigation.state === 'submitting';
+  const statusFilter = searchParams.get('status');
+
+  const filterUrl = (params: Record<string, string | number | null>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(params)) {
+      if (value === null) next.delete(key);
+      else next.set(key, String(value));
+    }
+    return `?${next.toString()}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* 헤더 */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Link to="/admin/webhooks">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">{webhook.name}</h1>
+            <p className="text-sm text-gray-500">
+              {webhook.isActive
+                ? '활성'
+                : webhook.disabledAt
+                  ? `${formatTime(webhook.disabledAt)} 연속 ${AUTO_DISABLE_THRESHOLD}회 실패로 자동 비활성화됨`
+                  : '비활성'}
+              {webhook.consecutiveFailures > 0 && ` · 연속 실패 ${webhook.consecutiveFailures}회`}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Form method="post">
+            <input type="hidden" name="intent" value="test" />
+            <Button type="submit" variant="outline" size="sm" disabled={isSubmitting}>
+              <Send className="w-4 h-4 mr-2" />
+              테스트 전송
+            </Button>
+          </Form>
+          <Form method="post">
+            <input type="hidden" name="intent" value="toggle" />
+            <input type="hidden" name="isActive" value={String(!webhook.isActive)} />
+            <Button type="submit" variant="outline" size="sm" disabled={isSubmitting}>
+              <Power className="w-4 h-4 mr-2" />
+              {webhook.isActive ? '비활성화' : '활성화'}
+            </Button>
+          </Form>
+          <Form
+            method="post"
+            onSubmit={(e) => {
+              if (!confirm(`"${webhook.name}" 웹훅과 전송 기록을 삭제하시겠습니까?`)) e.preventDefault();
+            }}
+          >
+            <input type="hidden" name="intent" value="delete" />
+            <Button type="submit" variant="ghost" size="sm" title="삭제">
+              <Trash2 className="w-4 h-4 text-red-600" />
+            </Button>
+          </Form>
+        </div>
+      </div>
+
+      {actionData && 'error' in actionData && <p className="text-sm text-red-600">{actionData.error}</p>}
+      {actionData && 'message' in actionData && <p className="text-sm text-green-600">{actionData.message}</p>}
+
+      {/* 설정 */}
+      <Form method="post" className="space-y-4 bg-white dark:bg-gray-800 p-4 rounded-lg shadow">
+        <input type="hidden" name="intent" value="update" />
+        <div className="flex flex-wrap gap-3">
+          <div className="flex-1 min-w-[200px]">
+            <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              이름
+            </label>
+            <Input id="name" name="name" required defaultValue={webhook.name} />
+          </div>
+          <div className="flex-[2] min-w-[280px]">
+            <label htmlFor="url" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              전송 주소
+            </label>
+            <Input id="url" name="url" type="url" required defaultValue={webhook.url} />
+          </div>
+        </div>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">이벤트</legend>
+          <div className="flex flex-wrap gap-x-6 gap-y-2">
+            {(Object.keys(WEBHOOK_EVENTS) as WebhookEvent[]).map((event) => (
+              <label key={event} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  name="events"
+                  value={event}
+                  defaultChecked={webhook.events.includes(event)}
+                  className="rounded border-gray-300"
+                />
+                {WEBHOOK_EVENTS[event]}
+                <code className="text-xs text-gray-400">{event}</code>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isSubmitting}>
+            <Save className="w-4 h-4 mr-2" />
+            저장
+          </Button>
+        </div>
+      </Form>
+
+      {/* 서명 */}
+      <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold flex items-center gap-2">
+            <KeyRound className="w-4 h-4" />
+            서명 비밀값
+          </h2>
+          <Form
+            method="post"
+            onSubmit={(e) => {
+              if (!confirm('비밀값을 교체하면 이전 비밀값으로는 서명을 검증할 수 없습니다. 계속할까요?')) e.preventDefault();
+            }}
+          >
+            <input type="hidden" name="intent" value="rotate" />
+            <Button type="submit" variant="outline" size="sm" disabled={isSubmitting}>
+              <RotateCw className="w-4 h-4 mr-2" />
+              교체
+            </Button>
+          </Form>
+        </div>
+        <div className="flex items-center gap-2">
+          <code className="flex-1 px-3 py-2 text-sm bg-gray-50 dark:bg-gray-900 rounded break-all">
+            {showSecret ? webhook.secret : '•'.repeat(32)}
+          </code>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setShowSecret((v) => !v)}>
+            {showSecret ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500">
+          요청마다 <code>X-Webhook-Timestamp</code> 와 <code>X-Webhook-Signature</code> 헤더를 보냅니다. 서명은{' '}
+          <code>sha256=HMAC_SHA256(비밀값, 타임스탬프 + &quot;.&quot; + 본문)</code> 의 16진수 값입니다. 실패한 전송은 최대{' '}
+          {MAX_DELIVERY_ATTEMPTS}회까지 간격을 늘려가며 재시도합니다.
+        </p>
+      </div>
+
+      {/* 전송 기록 */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 border-b dark:border-gray-700">
+          <h2 className="font-semibold">전송 기록 ({total.toLocaleString()})</h2>
+          <div className="flex gap-1">
+            <Link to={filterUrl({ status: null, page: null })}>
+              <Button variant={statusFilter ? 'ghost' : 'secondary'} size="sm">
+                전체
+              </Button>
+            </Link>
+            {(Object.keys(DELIVERY_STATUSES) as WebhookDeliveryStatus[]).map((status) => (
+              <Link key={status} to={filterUrl({ status, page: null })}>
+                <Button variant={statusFilter === status ? 'secondary' : 'ghost'} size="sm">
+                  {DELIVERY_STATUSES[status].label}
+                </Button>
+              </Link>
+            ))}
+          </div>
+        </div>
+
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {deliveries.map((delivery) => {
+            const status = isDeliveryStatus(delivery.status) ? DELIVERY_STATUSES[delivery.status] : null;
+            return (
+              <li key={delivery.id}>
+                <details className="group">
+                  <summary className="flex flex-wrap items-center gap-3 px-4 py-3 cursor-pointer text-sm">
+                    <span className={`px-2 py-1 text-xs rounded-full ${status?.color ?? ''}`}>
+                      {status?.label ?? delivery.status}
+                    </span>
+                    <code className="text-xs">{delivery.event}</code>
+                    <span className="text-gray-500">{formatTime(delivery.createdAt)}</span>
+                    <span className="text-gray-500">
+                      {delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : delivery.error ?? ''}
+                    </span>
+                    <span className="ml-auto text-xs text-gray-400">
+                      시도 {delivery.attempts}회
+                      {delivery.duration !== null && ` · ${delivery.duration}ms`}
+                      {delivery.status === 'PENDING' && delivery.nextAttemptAt && ` · 다음 ${formatTime(delivery.nextAttemptAt)}`}
+                    </span>
+                  </summary>
+
+                  <div className="px-4 pb-4 space-y-3">
+                    {delivery.error && <p className="text-sm text-red-600">{delivery.error}</p>}
+                    <div>
+                      <p className="text-xs font-medium text-gray-500 mb-1">요청 본문</p>
+                      <pre className="text-xs bg-gray-50 dark:bg-gray-900 p-3 rounded overflow-x-auto max-h-64">
+                        {formatPayload(delivery.payload)}
+                      </pre>
+                    </div>
+                    {delivery.responseBody && (
+                      <div>
+                        <p className="text-xs font-medium text-gray-500 mb-1">응답 본문</p>
+                        <pre className="text-xs bg-gray-50 dark:bg-gray-900 p-3 rounded overflow-x-auto max-h-40">
+                          {delivery.responseBody}
+                        </pre>
+                      </div>
+                    )}
+                    <Form method="post">
+                      <input type="hidden" name="intent" value="redeliver" />
+                      <input type="hidden" name="deliveryId" value={delivery.id} />
+                      <Button type="submit" variant="outline" size="sm" disabled={isSubmitting}>
+                        <RotateCw className="w-4 h-4 mr-2" />
+                        다시 전송
+                      </Button>
+                    </Form>
+                  </div>
+                </details>
+              </li>
+            );
+          })}
+        </ul>
+
+        {deliveries.length === 0 && (
+          <div className="text-center py-12 text-gray-500">전송 기록이 없습니다.</div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-center gap-2 px-4 py-3 border-t dark:border-gray-700">
+            {page > 1 && (
+              <Link to={filterUrl({ page: page - 1 })}>
+                <Button variant="ghost" size="sm">이전</Button>
+              </Link>
+            )}
+            <span className="text-sm text-gray-500">
+              {page} / {totalPages}
+            </span>
+            {page < totalPages && (
+              <Link to={filterUrl({ page: page + 1 })}>
+                <Button variant="ghost" size="sm">다음</Button>
+              </Link>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
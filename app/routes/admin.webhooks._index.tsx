@@ -0,0 +1,187 @@
+/**
+ * 어드민 웹훅 목록
+ * Slack/Discord/내부 서비스로 보낼 웹훅을 등록하고 상태를 확인
+ */
+
+import { json, redirect, type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/node';
+import { Form, Link, useActionData, useLoaderData, useNavigation } from '@remix-run/react';
+import { format } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { Plus, Settings } from 'lucide-react';
+import { requireAdmin } from '~/lib/auth.server';
+import { createWebhook, listWebhooks } from '~/lib/webhooks/webhook.server';
+import { WEBHOOK_EVENTS, isWebhookEvent, type WebhookEvent } from '~/lib/webhooks/webhook-events';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAdmin(request);
+
+  const webhooks = await listWebhooks();
+
+  return json({
+    webhooks: webhooks.map((webhook) => ({
+      id: webhook.id,
+      name: webhook.name,
+      url: webhook.url,
+      events: webhook.events.filter(isWebhookEvent),
+      isActive: webhook.isActive,
+      disabledAt: webhook.disabledAt,
+      consecutiveFailures: webhook.consecutiveFailures,
+      lastSuccessAt: webhook.lastSuccessAt,
+      lastFailureAt: webhook.lastFailureAt,
+    })),
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const admin = await requireAdmin(request);
+
+  const formData = await request.formData();
+  const result = await createWebhook(
+    {
+      name: String(formData.get('name') || ''),
+      url: String(formData.get('url') || ''),
+      events: formData.getAll('events').map(String),
+    },
+    admin.id
+  );
+  if (!result.success) {
+    return json({ error: result.message }, { status: 400 });
+  }
+
+  return redirect(`/admin/webhooks/${result.webhook.id}`);
+}
+
+function formatTime(value: string | null) {
+  return value ? format(new Date(value), 'MM.dd HH:mm', { locale: ko }) : '-';
+}
+
+function StatusBadge({ isActive, disabledAt }: { isActive: boolean; disabledAt: string | null }) {
+  if (isActive) {
+    return <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800">활성</span>;
+  }
+  return disabledAt ? (
+    <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-800">자동 비활성화</span>
+  ) : (
+    <span className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-800">비활성</span>
+  );
+}
+
+export default function AdminWebhooks() {
+  const { webhooks } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === 'submitting';
+
+  return (
+    <div className="space-y-6">
+      {/* 헤더 */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">웹훅</h1>
+        <p className="text-gray-500 dark:text-gray-400 mt-1">
+          선택한 이벤트가 생기면 등록한 주소로 서명된 JSON 을 보냅니다. 실패한 전송은 자동으로 재시도합니다
+        </p>
+      </div>
+
+      {/* 새 웹훅 */}
+      <Form method="post" className="space-y-4 bg-white dark:bg-gray-800 p-4 rounded-lg shadow">
+        <div className="flex flex-wrap gap-3">
+          <div className="flex-1 min-w-[200px]">
+            <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              이름
+            </label>
+            <Input id="name" name="name" required placeholder="Slack #community" />
+          </div>
+          <div className="flex-[2] min-w-[280px]">
+            <label htmlFor="url" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              전송 주소
+            </label>
+            <Input id="url" name="url" type="url" required placeholder="https://hooks.slack.com/services/..." />
+          </div>
+        </div>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">이벤트</legend>
+          <div className="flex flex-wrap gap-x-6 gap-y-2">
+            {(Object.keys(WEBHOOK_EVENTS) as WebhookEvent[]).map((event) => (
+              <label key={event} className="flex items-center gap-2 text-sm">
+                <input type="checkbox" name="events" value={event} className="rounded border-gray-300" />
+                {WEBHOOK_EVENTS[event]}
+                <code className="text-xs text-gray-400">{event}</code>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div className="flex items-center justify-between">
+          {actionData && 'error' in actionData ? (
+            <p className="text-sm text-red-600">{actionData.error}</p>
+          ) : (
+            <span />
+          )}
+          <Button type="submit" disabled={isSubmitting}>
+            <Plus className="w-4 h-4 mr-2" />
+            웹훅 추가
+          </Button>
+        </div>
+      </Form>
+
+      {/* 웹훅 목록 */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-900">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">이름</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">이벤트</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">상태</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">최근 성공 / 실패</th>
+              <th className="px-6 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {webhooks.map((webhook) => (
+              <tr key={webhook.id}>
+                <td className="px-6 py-4">
+                  <Link to={`/admin/webhooks/${webhook.id}`} className="font-medium hover:underline">
+                    {webhook.name}
+                  </Link>
+                  <p className="text-xs text-gray-500 truncate max-w-xs">{webhook.url}</p>
+                </td>
+                <td className="px-6 py-4">
+                  <div className="flex flex-wrap gap-1">
+                    {webhook.events.map((event) => (
+                      <span key={event} className="px-2 py-0.5 text-xs rounded bg-blue-50 text-blue-700">
+                        {WEBHOOK_EVENTS[event]}
+                      </span>
+                    ))}
+                  </div>
+                </td>
+                <td className="px-6 py-4">
+                  <StatusBadge isActive={webhook.isActive} disabledAt={webhook.disabledAt} />
+                  {webhook.consecutiveFailures > 0 && (
+                    <p className="text-xs text-red-600 mt-1">연속 실패 {webhook.consecutiveFailures}회</p>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {formatTime(webhook.lastSuccessAt)} / {formatTime(webhook.lastFailureAt)}
+                </td>
+                <td className="px-6 py-4 text-right">
+                  <Link to={`/admin/webhooks/${webhook.id}`} title="설정 및 전송 기록">
+                    <Button variant="ghost" size="sm">
+                      <Settings className="w-4 h-4" />
+                    </Button>
+                  </Link>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {webhooks.length === 0 && (
+          <div className="text-center py-12 text-gray-500">등록된 웹훅이 없습니다.</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import { requireUser } from '../lib/auth.server';
 import { db } from '~/lib/db.server';
 import { validateInput } from '../lib/security/validation.server';
 import { notifyNewPost } from '../lib/realtime/notification-system.server';
+import { syncPostFileReferences } from '~/lib/media/media.server';
+import { runPluginHook, toPluginPost } from '~/lib/architecture/plugin-system.server';
 import { z } from 'zod';
 
 // 콘텐츠 조회
@@ -301,6 +303,10 @@ export const action: ActionFunction = async ({ request }) => {
             menu: { select: { name: true, slug: true } },
           },
         });
+        await syncPostFileReferences(db, post);
+        if (post.isPublished) {
+          await runPluginHook('post.created', { post: toPluginPost(post) });
+        }
 
         // 태그 연결
         if (validatedData.data.tags && validatedData.data.tags.length > 0) {
@@ -399,6 +405,8 @@ export const action: ActionFunction = async ({ request }) => {
           where: { id: validatedData.postId },
           data: updateData,
         });
+        await syncPostFileReferences(db, updatedPost);
+        await runPluginHook('post.updated', { post: toPluginPost(updatedPost), actorId: user.id });
 
         // 태그 업데이트
         if (validatedData.data.tags) {
@@ -458,9 +466,10 @@ export const action: ActionFunction = async ({ request }) => {
         }
 
         // 게시물 삭제 (관련 데이터 cascade 삭제)
-        await db.post.delete({
+        const deleted = await db.post.delete({
           where: { id: validatedData.postId },
         });
+        await runPluginHook('post.deleted', { post: toPluginPost(deleted), actorId: user.id });
 
         return json({ success: true });
       }
@@ -545,11 +554,18 @@ export const action: ActionFunction = async ({ request }) => {
             });
             break;
 
-          case 'delete':
+          case 'delete': {
+            const deleted = await db.post.findMany({
+              where: { id: { in: validatedData.postIds } },
+            });
             await db.post.deleteMany({
               where: { id: { in: validatedData.postIds } },
             });
+            for (const post of deleted) {
+              await runPluginHook('post.deleted', { post: toPluginPost(post), actorId: user.id });
+            }
             break;
+          }
         }
 
         return json({ 
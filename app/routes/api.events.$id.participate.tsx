@@ -3,10 +3,13 @@
  */
 
 import { json, type ActionFunctionArgs } from '@remix-run/node';
+import { Prisma } from '@prisma/client';
 import { db } from '~/lib/db.server';
+import { getUserPoints, applyPointChange } from '~/lib/points/point.server';
 import { getUser } from '~/lib/auth.server';
 import { centrifugo } from '~/lib/centrifugo/client.server';
 import { CHANNELS } from '~/lib/centrifugo/channels';
+import { parseGuess } from '~/lib/events/event-settlement';
 
 export async function action({ request, params }: ActionFunctionArgs) {
   if (request.method !== 'POST') {
@@ -21,7 +24,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
   const { id: eventId } = params;
   const formData = await request.formData();
   const choice = formData.get('choice') as string;
-  const points = parseInt(formData.get('points') as string) || 0;
+  const points = Math.max(0, parseInt(formData.get('points') as string) || 0);
 
   if (!choice) {
     return json({ error: '선택지를 선택해주세요' }, { status: 400 });
@@ -40,6 +43,15 @@ export async function action({ request, params }: ActionFunctionArgs) {
     return json({ error: '참여할 수 없는 이벤트입니다' }, { status: 400 });
   }
 
+  // 예측 이벤트는 숫자 예측 값, 그 외에는 선택지 ID 만 허용
+  const eventOptions = event.options as Array<{ id: string }>;
+  if (event.type === 'PREDICTION' ? parseGuess(choice) === null : !eventOptions.some((o) => o.id === choice)) {
+    return json(
+      { error: event.type === 'PREDICTION' ? '예측 값을 숫자로 입력해주세요' : '잘못된 선택지입니다' },
+      { status: 400 }
+    );
+  }
+
   const now = new Date();
   if (now < event.startsAt || now > event.endsAt) {
     return json({ error: '참여 기간이 아닙니다' }, { status: 400 });
@@ -59,17 +71,9 @@ export async function action({ request, params }: ActionFunctionArgs) {
     return json({ error: '이미 참여하셨습니다' }, { status: 400 });
   }
 
-  // 포인트 차감이 필요한 경우
+  // 포인트 차감이 필요한 경우 (잔액 확인은 트랜잭션 안의 조건부 차감으로 처리)
   const totalCost = event.pointCost + points;
-  if (totalCost > 0) {
-    const userPoints = await db.userPoints.findUnique({
-      where: { userId: user.id },
-    });
-
-    if (!userPoints || userPoints.balance < totalCost) {
-      return json({ error: '포인트가 부족합니다' }, { status: 400 });
-    }
-  }
+  const userPoints = totalCost > 0 ? await getUserPoints(user.id) : null;
 
   // IP 주소 가져오기
   const ipAddress =
@@ -80,25 +84,12 @@ export async function action({ request, params }: ActionFunctionArgs) {
   try {
     // 트랜잭션으로 참여 처리
     const participation = await db.$transaction(async (tx) => {
-      // 포인트 차감
-      if (totalCost > 0) {
-        const userPoints = await tx.userPoints.update({
-          where: { userId: user.id },
-          data: {
-            balance: { decrement: totalCost },
-          },
-        });
-
-        // 포인트 거래 내역
-        await tx.pointTransaction.create({
-          data: {
-            userPointId: userPoints.id,
-            type: 'SPEND_EVENT',
-            amount: -totalCost,
-            balance: userPoints.balance,
-            eventId: eventId,
-            description: `${event.title} 이벤트 참여`,
-          },
+      // 포인트 차감 (이벤트당 한 번만 과금되도록 참여자 기준 idempotencyKey 사용)
+      if (userPoints) {
+        await applyPointChange(tx, userPoints.id, -totalCost, 'SPEND_EVENT', {
+          eventId,
+          description: `${event.title} 이벤트 참여`,
+          idempotencyKey: `event:${eventId}:${user.id}`,
         });
       }
 
@@ -116,12 +107,11 @@ export async function action({ request, params }: ActionFunctionArgs) {
         },
       });
 
-      // 이벤트 참여자 수 업데이트
+      // 이벤트 참여자 수 업데이트 (참여 포인트는 정산 시 참여 기록에서 합산)
       await tx.participationEvent.update({
         where: { id: eventId },
         data: {
           totalParticipants: { increment: 1 },
-          rewardPool: { increment: totalCost },
         },
       });
 
@@ -185,6 +175,13 @@ export async function action({ request, params }: ActionFunctionArgs) {
       },
     });
   } catch (error) {
+    if (error instanceof Error && error.message === 'Insufficient points') {
+      return json({ error: '포인트가 부족합니다' }, { status: 400 });
+    }
+    // 동시에 들어온 재시도 요청: 먼저 처리된 참여만 반영되고 이쪽은 롤백됨
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return json({ error: '이미 참여하셨습니다' }, { status: 400 });
+    }
     console.error('Participation error:', error);
     return json({ error: '참여 중 오류가 발생했습니다' }, { status: 500 });
   }
@@ -509,20 +509,13 @@ async function checkCache(): Promise<CheckResult> {
  */
 async function checkStorage(): Promise<CheckResult> {
   try {
-    // 업로드 디렉토리 체크
-    const fs = require('fs').promises;
-    const uploadDir = './public/uploads';
-    
-    const stats = await fs.stat(uploadDir);
-    
-    if (!stats.isDirectory()) {
-      throw new Error('Upload directory not found');
-    }
-    
-    // 디렉토리 쓰기 권한 체크
-    const testFile = `${uploadDir}/.healthcheck`;
-    await fs.writeFile(testFile, 'test');
-    await fs.unlink(testFile);
+    // 설정된 업로드 스토리지(로컬/S3)에 쓰기/삭제 가능한지 확인
+    const { getStorage } = await import('~/lib/storage/storage.server');
+    const storage = getStorage();
+    const testKey = '.healthcheck';
+
+    await storage.put(testKey, Buffer.from('test'), { contentType: 'text/plain' });
+    await storage.delete(testKey);
     
     return {
       status: 'ok',
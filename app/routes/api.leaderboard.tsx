@@ -1,17 +1,48 @@
 /**
  * 리더보드 API
+ *
+ * - ?period=weekly              현재 기간 순위
+ * - ?period=weekly&key=2026-10-12  지난 기간 최종 순위 (스냅샷)
  */
 
 import { json, type LoaderFunctionArgs } from '@remix-run/node';
 import { db } from '~/lib/db.server';
 import { getUser } from '~/lib/auth.server';
+import { getLeaderboardSnapshot, getLeaderboardSnapshots } from '~/lib/points/leaderboard.server';
+import { formatPeriodLabel, getPeriodWindow, isLeaderboardPeriod, isRollingPeriod } from '~/lib/points/leaderboard';
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const user = await getUser(request);
   const url = new URL(request.url);
 
-  const period = url.searchParams.get('period') || 'all_time';
-  const limit = parseInt(url.searchParams.get('limit') || '100', 10);
+  const periodParam = url.searchParams.get('period') || 'all_time';
+  const key = url.searchParams.get('key');
+  const limit = Math.min(parseInt(url.searchParams.get('limit') || '100', 10) || 100, 100);
+
+  if (!isLeaderboardPeriod(periodParam)) {
+    return json({ error: '알 수 없는 기간입니다' }, { status: 400 });
+  }
+  const period = periodParam;
+
+  // 지난 기간 목록
+  const snapshots = isRollingPeriod(period) ? await getLeaderboardSnapshots(period) : [];
+
+  // 지난 기간 조회
+  if (key) {
+    const snapshot = isRollingPeriod(period) ? await getLeaderboardSnapshot(period, key, limit) : null;
+    if (!snapshot) {
+      return json({ error: '보관된 기간을 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    return json({
+      entries: snapshot.entries,
+      userRank: user ? snapshot.entries.find((entry) => entry.userId === user.id) ?? null : null,
+      period,
+      periodKey: snapshot.periodKey,
+      label: formatPeriodLabel({ period, key: snapshot.periodKey, start: snapshot.startsAt, end: snapshot.endsAt }),
+      snapshots,
+    });
+  }
 
   // 리더보드 조회
   const entries = await db.leaderboardEntry.findMany({
@@ -43,9 +74,14 @@ export async function loader({ request }: LoaderFunctionArgs) {
     });
   }
 
+  const window = getPeriodWindow(period);
+
   return json({
     entries,
     userRank,
     period,
+    periodKey: window.key,
+    label: formatPeriodLabel(window),
+    snapshots,
   });
 }
@@ -11,6 +11,7 @@ import {
   NotificationType, 
   NotificationPriority,
   NotificationDataSchema,
+  NotificationPreferencesSchema,
 } from '~/lib/notifications/notification.types';
 
 /**
@@ -107,8 +108,15 @@ export async function action({ request }: ActionFunctionArgs) {
     }
     
     case 'update-preferences': {
-      const { preferences } = data;
-      await manager.updateUserPreferences(user.id, preferences);
+      const validationResult = NotificationPreferencesSchema.safeParse(data.preferences);
+      if (!validationResult.success) {
+        return json({
+          error: '잘못된 알림 설정',
+          details: validationResult.error.errors,
+        }, { status: 400 });
+      }
+
+      await manager.updateUserPreferences(user.id, { ...validationResult.data, userId: user.id });
       return json({ success: true });
     }
     
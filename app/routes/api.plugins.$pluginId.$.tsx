@@ -0,0 +1,43 @@
+// 플러그인 API 엔드포인트
+// /api/plugins/{플러그인 ID}/{경로} 요청을 활성 플러그인이 등록한 라우트로 전달
+
+import type { ActionFunctionArgs, LoaderFunctionArgs } from '@remix-run/node';
+import { json } from '@remix-run/node';
+import { getUser } from '~/lib/auth.server';
+import { ensurePluginsLoaded, getPluginManager } from '~/lib/architecture/plugin-system.server';
+
+async function handlePluginRequest({ request, params }: LoaderFunctionArgs | ActionFunctionArgs) {
+  await ensurePluginsLoaded();
+
+  const pluginId = params.pluginId ?? '';
+  const match = getPluginManager().findRoute(pluginId, request.method, `/${params['*'] ?? ''}`);
+  if (!match) {
+    return json({ error: '요청한 플러그인 API를 찾을 수 없습니다.' }, { status: 404 });
+  }
+
+  const { route, params: routeParams } = match;
+  const user = await getUser(request);
+
+  if (route.access !== 'public' && !user) {
+    return json({ error: '로그인이 필요합니다.' }, { status: 401 });
+  }
+  if (route.access === 'admin' && user?.role !== 'ADMIN') {
+    return json({ error: '권한이 없습니다.' }, { status: 403 });
+  }
+
+  try {
+    const result = await route.handler({
+      request,
+      params: routeParams,
+      user: user ? { id: user.id, username: user.username, role: user.role } : null,
+    });
+    return result instanceof Response ? result : json(result ?? null);
+  } catch (error) {
+    if (error instanceof Response) throw error;
+    console.error(`Plugin route failed: ${pluginId} ${request.method} ${route.path}`, error);
+    return json({ error: '플러그인 요청 처리 중 오류가 발생했습니다.' }, { status: 500 });
+  }
+}
+
+export const loader = (args: LoaderFunctionArgs) => handlePluginRequest(args);
+export const action = (args: ActionFunctionArgs) => handlePluginRequest(args);
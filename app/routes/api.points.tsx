@@ -3,7 +3,6 @@
  */
 
 import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from '@remix-run/node';
-import { db } from '~/lib/db.server';
 import { requireUser } from '~/lib/auth.server';
 import { getUserPoints, dailyCheckIn, getPointHistory } from '~/lib/points/point.server';
 
@@ -17,10 +16,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
     const limit = parseInt(url.searchParams.get('limit') || '20', 10);
     const offset = parseInt(url.searchParams.get('offset') || '0', 10);
 
-    const history = await getPointHistory(user.id, limit, offset);
-    const total = await db.pointTransaction.count({
-      where: { userPoints: { userId: user.id } },
-    });
+    const { transactions: history, total } = await getPointHistory(user.id, { limit, offset });
 
     return json({
       history,
@@ -44,11 +40,14 @@ export async function action({ request }: ActionFunctionArgs) {
 
   if (intent === 'checkIn') {
     try {
+      // 같은 날 재시도/동시 요청은 한 번만 지급됨
       const result = await dailyCheckIn(user.id);
+      if (!result.success) {
+        return json({ success: false, error: result.message }, { status: 400 });
+      }
       return json({
         success: true,
         points: result.points,
-        isBonus: result.isBonus,
         newBalance: result.newBalance,
       });
     } catch (error: any) {
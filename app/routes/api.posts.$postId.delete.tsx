@@ -1,6 +1,7 @@
 import { json, type ActionFunctionArgs } from "@remix-run/node";
 import { db } from "~/lib/db.server";
 import { requireUserId } from "~/lib/auth.server";
+import { runPluginHook, toPluginPost } from "~/lib/architecture/plugin-system.server";
 
 export async function action({ request, params }: ActionFunctionArgs) {
   const userId = await requireUserId(request);
@@ -65,9 +66,10 @@ export async function action({ request, params }: ActionFunctionArgs) {
     });
 
     // 게시글 삭제
-    await db.post.delete({
+    const deleted = await db.post.delete({
       where: { id: postId },
     });
+    await runPluginHook("post.deleted", { post: toPluginPost(deleted), actorId: userId });
 
     return json({ success: true, message: "게시글이 삭제되었습니다." });
   } catch (error) {
@@ -1,6 +1,9 @@
 import { json, type ActionFunctionArgs } from "@remix-run/node";
 import { db } from "~/lib/db.server";
 import { requireUserId } from "~/lib/auth.server";
+import { getBoardPermissions } from "~/lib/boards/board-permission.server";
+import { getBoardPermissionError } from "~/lib/boards/board-permission";
+import { publishDomainEvent } from "~/lib/domain-events/domain-events.server";
 
 export async function action({ request, params }: ActionFunctionArgs) {
   const userId = await requireUserId(request);
@@ -23,6 +26,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
   // 게시글 확인
   const post = await db.post.findUnique({
     where: { id: postId },
+    include: { menu: { select: { slug: true, board_id: true } } },
   });
 
   if (!post) {
@@ -32,6 +36,20 @@ export async function action({ request, params }: ActionFunctionArgs) {
     );
   }
 
+  // 게시판 읽기 권한
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { role: true, name: true, username: true },
+  });
+  const permissionError = getBoardPermissionError(
+    await getBoardPermissions(post.menu, user),
+    "read",
+    user
+  );
+  if (permissionError) {
+    return json({ error: permissionError }, { status: 403 });
+  }
+
   try {
     // 이미 추천했는지 확인
     const existingLike = await db.postLike.findUnique({
@@ -95,6 +113,18 @@ export async function action({ request, params }: ActionFunctionArgs) {
         },
       });
 
+      if (user) {
+        await publishDomainEvent("post.liked", {
+          post: {
+            id: post.id,
+            title: post.title,
+            url: `/${post.menu.slug}/${post.slug}`,
+            authorId: post.authorId,
+          },
+          actor: { id: userId, name: user.name || user.username },
+        });
+      }
+
       return json({
         success: true,
         liked: true,
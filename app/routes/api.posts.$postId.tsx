@@ -1,6 +1,10 @@
 import { json, type ActionFunctionArgs } from "@remix-run/node";
 import { db } from "~/lib/db.server";
 import { requireUserId } from "~/lib/auth.server";
+import { getBoardPermissions } from "~/lib/boards/board-permission.server";
+import { getBoardPermissionError } from "~/lib/boards/board-permission";
+import { syncPostFileReferences } from "~/lib/media/media.server";
+import { runPluginHook, toPluginPost } from "~/lib/architecture/plugin-system.server";
 
 export async function action({ request, params }: ActionFunctionArgs) {
   const userId = await requireUserId(request);
@@ -54,8 +58,8 @@ export async function action({ request, params }: ActionFunctionArgs) {
       );
     }
 
-    // 카테고리 확인
-    const category = await db.category.findUnique({
+    // 메뉴(카테고리) 확인
+    const category = await db.menu.findUnique({
       where: { id: categoryId },
     });
 
@@ -66,18 +70,36 @@ export async function action({ request, params }: ActionFunctionArgs) {
       );
     }
 
+    // 게시판 쓰기 권한
+    const permissionError = getBoardPermissionError(
+      await getBoardPermissions(category, user),
+      "write",
+      user
+    );
+    if (permissionError) {
+      return json({ error: permissionError }, { status: 403 });
+    }
+
     try {
-      const updatedPost = await db.post.update({
-        where: { id: postId },
-        data: {
-          title,
-          content,
-          categoryId,
-          isPinned: isAdmin ? isPinned : existingPost.isPinned,
-          isPublished: !isDraft,
-          updatedAt: new Date(),
-        },
+      // 본문에 새로 넣은 업로드 파일이 정리 대상이 되지 않도록 참조도 함께 갱신
+      const updatedPost = await db.$transaction(async (tx) => {
+        const post = await tx.post.update({
+          where: { id: postId },
+          data: {
+            title,
+            content,
+            excerpt: content.slice(0, 200),
+            menuId: category.id,
+            isNotice: isAdmin ? !!isPinned : existingPost.isNotice,
+            status: isDraft ? "DRAFT" : "PUBLISHED",
+            isPublished: !isDraft,
+            publishedAt: isDraft ? existingPost.publishedAt : existingPost.publishedAt ?? new Date(),
+          },
+        });
+        await syncPostFileReferences(tx, post);
+        return post;
       });
+      await runPluginHook("post.updated", { post: toPluginPost(updatedPost), actorId: userId });
 
       return json({ success: true, post: updatedPost });
     } catch (error) {
@@ -1,6 +1,10 @@
 import { json, type ActionFunctionArgs } from "@remix-run/node";
 import { db } from "~/lib/db.server";
 import { requireUserId } from "~/lib/auth.server";
+import { getBoardPermissions } from "~/lib/boards/board-permission.server";
+import { getBoardPermissionError } from "~/lib/boards/board-permission";
+import { syncPostFileReferences } from "~/lib/media/media.server";
+import { runPluginHook, toPluginPost } from "~/lib/architecture/plugin-system.server";
 
 export async function action({ request }: ActionFunctionArgs) {
   const userId = await requireUserId(request);
@@ -18,8 +22,8 @@ export async function action({ request }: ActionFunctionArgs) {
       );
     }
 
-    // 카테고리 확인
-    const category = await db.category.findUnique({
+    // 메뉴(카테고리) 확인
+    const category = await db.menu.findUnique({
       where: { id: categoryId },
     });
 
@@ -36,6 +40,16 @@ export async function action({ request }: ActionFunctionArgs) {
       select: { role: true },
     });
 
+    // 게시판 쓰기 권한
+    const permissionError = getBoardPermissionError(
+      await getBoardPermissions(category, user),
+      "write",
+      user
+    );
+    if (permissionError) {
+      return json({ error: permissionError }, { status: 403 });
+    }
+
     const canSetPinned = user?.role === "ADMIN";
 
     try {
@@ -43,15 +57,20 @@ export async function action({ request }: ActionFunctionArgs) {
         data: {
           title,
           content,
-          categoryId,
+          slug: `post-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+          excerpt: content.slice(0, 200),
+          menuId: category.id,
           authorId: userId,
-          isPinned: canSetPinned && isPinned,
+          isNotice: canSetPinned && !!isPinned,
+          status: isDraft ? "DRAFT" : "PUBLISHED",
           isPublished: !isDraft,
-          viewCount: 0,
-          likeCount: 0,
-          commentCount: 0,
+          publishedAt: isDraft ? null : new Date(),
         },
       });
+      await syncPostFileReferences(db, post);
+      if (!isDraft) {
+        await runPluginHook("post.created", { post: toPluginPost(post) });
+      }
 
       return json({ success: true, post });
     } catch (error) {
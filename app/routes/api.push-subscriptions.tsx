@@ -0,0 +1,59 @@
+/**
+ * Web Push 구독 API
+ * GET: VAPID 공개키, POST: 구독 저장, DELETE: 구독 해제
+ */
+
+import type { ActionFunctionArgs, LoaderFunctionArgs } from '@remix-run/node';
+import { json } from '@remix-run/node';
+import { requireAuth } from '~/lib/auth.server';
+import {
+  PushSubscriptionSchema,
+  deletePushSubscription,
+  getVapidPublicKey,
+  savePushSubscription,
+} from '~/lib/notifications/push.server';
+
+/**
+ * GET /api/push-subscriptions
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAuth(request);
+  return json({ publicKey: getVapidPublicKey() });
+}
+
+/**
+ * POST /api/push-subscriptions { subscription }
+ * DELETE /api/push-subscriptions { endpoint }
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireAuth(request);
+  const data = await request.json().catch(() => null);
+
+  switch (request.method) {
+    case 'POST': {
+      if (!getVapidPublicKey()) {
+        return json({ error: '푸시 알림이 설정되어 있지 않습니다.' }, { status: 503 });
+      }
+
+      const result = PushSubscriptionSchema.safeParse(data?.subscription);
+      if (!result.success) {
+        return json({ error: '잘못된 구독 정보입니다.' }, { status: 400 });
+      }
+
+      await savePushSubscription(user.id, result.data, request.headers.get('User-Agent'));
+      return json({ success: true });
+    }
+
+    case 'DELETE': {
+      if (typeof data?.endpoint !== 'string') {
+        return json({ error: '구독 주소가 필요합니다.' }, { status: 400 });
+      }
+
+      await deletePushSubscription(user.id, data.endpoint);
+      return json({ success: true });
+    }
+
+    default:
+      return json({ error: '지원하지 않는 메서드입니다.' }, { status: 405 });
+  }
+}
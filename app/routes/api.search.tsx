@@ -0,0 +1,33 @@
+/**
+ * 통합 검색 API
+ * GET /api/search?q=&scope=posts|comments&board=&author=&from=&to=&page=
+ */
+
+import { json, type LoaderFunctionArgs } from '@remix-run/node';
+import { getUser } from '~/lib/auth.server';
+import { searchContent } from '~/lib/search/search.server';
+import { parseSearchParams, splitHighlights } from '~/lib/search/search-query';
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await getUser(request);
+  const url = new URL(request.url);
+  const params = parseSearchParams(url.searchParams);
+
+  if (!params.query) {
+    return json({ error: '검색어를 입력하세요.' }, { status: 400 });
+  }
+
+  try {
+    const results = await searchContent(params, user);
+
+    // 스니펫은 하이라이트 구간 배열로 변환해 전달 (클라이언트에서 HTML 파싱 불필요)
+    return json({
+      ...results,
+      posts: results.posts.map((hit) => ({ ...hit, snippet: splitHighlights(hit.snippet) })),
+      comments: results.comments.map((hit) => ({ ...hit, snippet: splitHighlights(hit.snippet) })),
+    });
+  } catch (error) {
+    console.error('검색 오류:', error);
+    return json({ error: '검색 중 오류가 발생했습니다.' }, { status: 500 });
+  }
+}
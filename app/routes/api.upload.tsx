@@ -2,11 +2,11 @@
 
 import type { ActionFunction } from '@remix-run/node';
 import { json, unstable_parseMultipartFormData, unstable_createMemoryUploadHandler } from '@remix-run/node';
-import { processImage } from '../lib/media/image-optimization.server';
+import { storeUpload } from '~/lib/media/media.server';
 import { requireUser } from '../lib/auth.server';
 import { db } from '~/lib/db.server';
-import path from 'path';
-import fs from 'fs/promises';
+import { getBoardPermissions } from '~/lib/boards/board-permission.server';
+import { getBoardPermissionError } from '~/lib/boards/board-permission';
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
@@ -25,6 +25,25 @@ export const action: ActionFunction = async ({ request }) => {
       return json({ error: '파일이 선택되지 않았습니다.' }, { status: 400 });
     }
 
+    // 게시판 첨부 권한 확인
+    const menuId = formData.get('menuId') as string | null;
+    const menu = menuId
+      ? await db.menu.findUnique({ where: { id: menuId }, select: { slug: true, board_id: true } })
+      : null;
+
+    if (!menu) {
+      return json({ error: '첨부할 게시판을 찾을 수 없습니다.' }, { status: 400 });
+    }
+
+    const permissionError = getBoardPermissionError(
+      await getBoardPermissions(menu, user),
+      'attach',
+      user
+    );
+    if (permissionError) {
+      return json({ error: permissionError }, { status: 403 });
+    }
+
     // 파일 타입 검증
     const allowedTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
     if (!allowedTypes.includes(file.type)) {
@@ -33,36 +52,7 @@ export const action: ActionFunction = async ({ request }) => {
       }, { status: 400 });
     }
 
-    // 파일명 생성
-    const timestamp = Date.now();
-    const extension = path.extname(file.name);
-    const filename = `${timestamp}-${Math.random().toString(36).substring(7)}${extension}`;
-    
-    // 업로드 디렉토리 생성
-    const uploadDir = path.join(process.cwd(), 'uploads');
-    await fs.mkdir(uploadDir, { recursive: true });
-    
-    // 파일 저장
-    const buffer = Buffer.from(await file.arrayBuffer());
-    const filePath = path.join(uploadDir, filename);
-    await fs.writeFile(filePath, buffer);
-    
-    // 이미지 최적화 및 썸네일 생성
-    const optimizedPaths = await processImage(filePath, filename);
-    
-    // 데이터베이스에 파일 정보 저장
-    const uploadedFile = await db.file.create({
-      data: {
-        filename: filename,
-        originalName: file.name,
-        mimeType: file.type,
-        size: file.size,
-        path: `/uploads/${filename}`,
-        thumbnailPath: optimizedPaths.thumbnail,
-        optimizedPath: optimizedPaths.optimized,
-        uploadedById: user.id,
-      },
-    });
+    const uploadedFile = await storeUpload(file, user.id, { editorUpload: true });
 
     return json({
       success: true,
@@ -74,8 +64,8 @@ export const action: ActionFunction = async ({ request }) => {
         thumbnailPath: uploadedFile.thumbnailPath,
         optimizedPath: uploadedFile.optimizedPath,
         size: uploadedFile.size,
-        url: `/uploads/${filename}`,
-        thumbnailUrl: optimizedPaths.thumbnail,
+        url: uploadedFile.optimizedPath ?? uploadedFile.path,
+        thumbnailUrl: uploadedFile.thumbnailPath,
       }
     });
 
@@ -5,6 +5,7 @@
 
 import { type LoaderFunction, redirect } from '@remix-run/node';
 import { handleKakaoCallback } from '~/lib/auth/kakao.server';
+import { runPluginHook, toPluginUser } from '~/lib/architecture/plugin-system.server';
 import { commitSession, getSession } from '~/lib/session.server';
 
 export const loader: LoaderFunction = async ({ request }) => {
@@ -40,6 +41,12 @@ export const loader: LoaderFunction = async ({ request }) => {
       sessionState
     );
 
+    if (isNewUser) {
+      await runPluginHook('user.registered', { user: toPluginUser(user), provider: 'kakao' });
+    } else {
+      await runPluginHook('user.loggedIn', { user: toPluginUser(user), provider: 'kakao' });
+    }
+
     // 세션 정리 및 설정
     session.unset('kakao_oauth_state');
     session.unset('return_to');
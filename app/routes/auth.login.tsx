@@ -2,6 +2,7 @@ import { json, redirect, type ActionFunctionArgs, type LoaderFunctionArgs } from
 import { useLoaderData } from '@remix-run/react';
 import { LoginForm } from '~/components/auth/LoginForm';
 import { createUserSession, getUserId, verifyLogin } from '~/lib/auth.server';
+import { runPluginHook, toPluginUser } from '~/lib/architecture/plugin-system.server';
 import { safeRedirect } from '~/lib/utils';
 
 export async function loader({ request }: LoaderFunctionArgs) {
@@ -53,6 +54,8 @@ export async function action({ request }: ActionFunctionArgs) {
     );
   }
 
+  await runPluginHook('user.loggedIn', { user: toPluginUser(user), provider: 'local' });
+
   return createUserSession(user.id, redirectTo, remember);
 }
 
@@ -1,6 +1,7 @@
 import { json, redirect, type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/node';
 import { RegisterForm } from '~/components/auth/RegisterForm';
 import { createUser, createUserSession, getUserByEmail, getUserByUsername, getUserId } from '~/lib/auth.server';
+import { runPluginHook, toPluginUser } from '~/lib/architecture/plugin-system.server';
 import { safeRedirect } from '~/lib/utils';
 
 export async function loader({ request }: LoaderFunctionArgs) {
@@ -72,6 +73,7 @@ export async function action({ request }: ActionFunctionArgs) {
       password: password as string,
       name: name as string | undefined,
     });
+    await runPluginHook('user.registered', { user: toPluginUser(user), provider: 'local' });
 
     return createUserSession(user.id, redirectTo, false);
   } catch (_error) {
@@ -6,6 +6,7 @@ import { json, type LoaderFunctionArgs } from '@remix-run/node';
 import { useLoaderData, Link } from '@remix-run/react';
 import { db } from '~/lib/db.server';
 import { getUser } from '~/lib/auth.server';
+import { withTotalPool } from '~/lib/events/event-settlement.server';
 import { EventCard } from '~/components/events/EventCard';
 import { Button } from '~/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '~/components/ui/tabs';
@@ -97,9 +98,9 @@ export async function loader({ request }: LoaderFunctionArgs) {
   }
 
   return json({
-    activeEvents,
-    upcomingEvents,
-    pastEvents,
+    activeEvents: await withTotalPool(activeEvents),
+    upcomingEvents: await withTotalPool(upcomingEvents),
+    pastEvents: await withTotalPool(pastEvents),
     userStats,
     isLoggedIn: !!user,
   });
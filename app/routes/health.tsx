@@ -93,9 +93,11 @@ export const loader: LoaderFunction = async () => {
     try {
       const fs = await import('fs/promises');
       
-      // 업로드 디렉토리 확인
+      // 업로드 디렉토리 확인 (S3 스토리지를 쓰면 로컬 디렉토리가 없어도 됨)
       try {
-        await fs.access('./uploads');
+        if ((process.env.STORAGE_DRIVER || 'local') === 'local') {
+          await fs.access(process.env.UPLOAD_DIR || './uploads');
+        }
       } catch {
         filesystemStatus.uploadDirectory = false;
         filesystemStatus.status = 'down';
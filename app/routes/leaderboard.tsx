@@ -8,7 +8,7 @@
  */
 
 import { json, type LoaderFunctionArgs } from '@remix-run/node';
-import { useLoaderData } from '@remix-run/react';
+import { useLoaderData, Link } from '@remix-run/react';
 import { getUser } from '~/lib/auth.server';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '~/components/ui/tabs';
 import { Trophy, Medal, Crown, TrendingUp, User } from 'lucide-react';
@@ -17,25 +17,51 @@ import {
   getLeaderboardsCached,
   getUserRanksCached,
 } from '~/lib/performance/qps-optimizer.server';
+import { getLeaderboardSnapshot, getLeaderboardSnapshots } from '~/lib/points/leaderboard.server';
+import {
+  LEADERBOARD_PERIODS,
+  PERIOD_LABELS,
+  formatPeriodLabel,
+  getPeriodWindow,
+  isRollingPeriod,
+  type LeaderboardPeriod,
+  type RollingPeriod,
+} from '~/lib/points/leaderboard';
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const user = await getUser(request);
+  const url = new URL(request.url);
+
+  // 지난 기간 조회 (?period=weekly&key=2026-10-12)
+  const archivePeriod = url.searchParams.get('period');
+  const archiveKey = url.searchParams.get('key');
 
   // 병렬로 리더보드 조회 (캐시 + N+1 최적화)
-  const [leaderboards, userRanks] = await Promise.all([
+  const [leaderboards, userRanks, archive, monthly, weekly, daily] = await Promise.all([
     getLeaderboardsCached(),
     user ? getUserRanksCached(user.id) : null,
+    isRollingPeriod(archivePeriod) && archiveKey ? getLeaderboardSnapshot(archivePeriod, archiveKey) : null,
+    getLeaderboardSnapshots('monthly', 12),
+    getLeaderboardSnapshots('weekly', 12),
+    getLeaderboardSnapshots('daily', 14),
   ]);
 
+  const windowLabels = Object.fromEntries(
+    LEADERBOARD_PERIODS.map((period) => [period, formatPeriodLabel(getPeriodWindow(period))])
+  ) as Record<LeaderboardPeriod, string>;
+
   return json({
     leaderboards,
     userRanks,
     currentUserId: user?.id,
+    archive,
+    snapshots: { monthly, weekly, daily },
+    windowLabels,
   });
 }
 
 export default function LeaderboardPage() {
-  const { leaderboards, userRanks, currentUserId } = useLoaderData<typeof loader>();
+  const { leaderboards, userRanks, currentUserId, archive, snapshots, windowLabels } = useLoaderData<typeof loader>();
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
@@ -84,132 +110,187 @@ export default function LeaderboardPage() {
         )}
 
         {/* 리더보드 탭 */}
-        <Tabs defaultValue="all_time" className="space-y-6">
+        <Tabs defaultValue={archive?.period ?? 'all_time'} className="space-y-6">
           <TabsList className="grid w-full grid-cols-4">
-            <TabsTrigger value="all_time">전체</TabsTrigger>
-            <TabsTrigger value="monthly">이번 달</TabsTrigger>
-            <TabsTrigger value="weekly">이번 주</TabsTrigger>
-            <TabsTrigger value="daily">오늘</TabsTrigger>
+            {LEADERBOARD_PERIODS.map((period) => (
+              <TabsTrigger key={period} value={period}>{PERIOD_LABELS[period]}</TabsTrigger>
+            ))}
           </TabsList>
 
-          {(['all_time', 'monthly', 'weekly', 'daily'] as const).map((period) => (
-            <TabsContent key={period} value={period}>
-              {/* 상위 3명 */}
-              {leaderboards[period].length >= 3 && (
-                <div className="grid grid-cols-3 gap-4 mb-6">
-                  {/* 2등 */}
-                  <TopRankCard
-                    rank={2}
-                    user={leaderboards[period][1]?.user}
-                    points={leaderboards[period][1]?.points}
-                    wins={leaderboards[period][1]?.wins}
-                    isCurrentUser={leaderboards[period][1]?.user?.id === currentUserId}
-                  />
-                  {/* 1등 */}
-                  <TopRankCard
-                    rank={1}
-                    user={leaderboards[period][0]?.user}
-                    points={leaderboards[period][0]?.points}
-                    wins={leaderboards[period][0]?.wins}
-                    isCurrentUser={leaderboards[period][0]?.user?.id === currentUserId}
-                    featured
-                  />
-                  {/* 3등 */}
-                  <TopRankCard
-                    rank={3}
-                    user={leaderboards[period][2]?.user}
-                    points={leaderboards[period][2]?.points}
-                    wins={leaderboards[period][2]?.wins}
-                    isCurrentUser={leaderboards[period][2]?.user?.id === currentUserId}
+          {LEADERBOARD_PERIODS.map((period) => {
+            const isArchive = archive?.period === period;
+            const entries = isArchive ? archive.entries : leaderboards[period];
+
+            return (
+              <TabsContent key={period} value={period}>
+                {period !== 'all_time' && (
+                  <PeriodNavigator
+                    period={period}
+                    currentLabel={windowLabels[period]}
+                    snapshots={snapshots[period]}
+                    selectedKey={isArchive ? archive.periodKey : null}
                   />
-                </div>
-              )}
+                )}
 
-              {/* 나머지 순위 */}
-              <div className="bg-white dark:bg-gray-800 rounded-xl overflow-hidden">
-                <table className="w-full">
-                  <thead className="bg-gray-50 dark:bg-gray-700">
-                    <tr>
-                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
-                        순위
-                      </th>
-                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
-                        사용자
-                      </th>
-                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
-                        포인트
-                      </th>
-                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
-                        승리
-                      </th>
-                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
-                        승률
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
-                    {leaderboards[period].slice(3).map((entry, index) => (
-                      <tr
-                        key={entry.id}
-                        className={cn(
-                          'hover:bg-gray-50 dark:hover:bg-gray-700/50',
-                          entry.user?.id === currentUserId && 'bg-blue-50 dark:bg-blue-900/20'
-                        )}
-                      >
-                        <td className="px-4 py-3">
-                          <span className="font-bold text-gray-500">#{index + 4}</span>
-                        </td>
-                        <td className="px-4 py-3">
-                          <div className="flex items-center gap-3">
-                            {entry.user?.profileImage ? (
-                              <img
-                                src={entry.user.profileImage}
-                                alt=""
-                                className="w-8 h-8 rounded-full"
-                              />
-                            ) : (
-                              <div className="w-8 h-8 rounded-full bg-gray-200 dark:bg-gray-600 flex items-center justify-center">
-                                <User className="w-4 h-4 text-gray-500" />
-                              </div>
-                            )}
-                            <span className="font-medium text-gray-900 dark:text-gray-100">
-                              {entry.user?.name || entry.user?.username || '익명'}
-                            </span>
-                            {entry.user?.id === currentUserId && (
-                              <span className="text-xs text-blue-500">(나)</span>
-                            )}
-                          </div>
-                        </td>
-                        <td className="px-4 py-3 text-right font-bold text-gray-900 dark:text-gray-100">
-                          {entry.points.toLocaleString()}P
-                        </td>
-                        <td className="px-4 py-3 text-right text-gray-600 dark:text-gray-400">
-                          {entry.wins}승
-                        </td>
-                        <td className="px-4 py-3 text-right text-gray-600 dark:text-gray-400">
-                          {entry.winRate.toFixed(1)}%
-                        </td>
-                      </tr>
-                    ))}
+                {/* 상위 3명 */}
+                {entries.length >= 3 && (
+                  <div className="grid grid-cols-3 gap-4 mb-6">
+                    {/* 2등 */}
+                    <TopRankCard
+                      rank={2}
+                      user={entries[1]?.user}
+                      points={entries[1]?.points}
+                      wins={entries[1]?.wins}
+                      isCurrentUser={entries[1]?.user?.id === currentUserId}
+                    />
+                    {/* 1등 */}
+                    <TopRankCard
+                      rank={1}
+                      user={entries[0]?.user}
+                      points={entries[0]?.points}
+                      wins={entries[0]?.wins}
+                      isCurrentUser={entries[0]?.user?.id === currentUserId}
+                      featured
+                    />
+                    {/* 3등 */}
+                    <TopRankCard
+                      rank={3}
+                      user={entries[2]?.user}
+                      points={entries[2]?.points}
+                      wins={entries[2]?.wins}
+                      isCurrentUser={entries[2]?.user?.id === currentUserId}
+                    />
+                  </div>
+                )}
 
-                    {leaderboards[period].length === 0 && (
+                {/* 나머지 순위 */}
+                <div className="bg-white dark:bg-gray-800 rounded-xl overflow-hidden">
+                  <table className="w-full">
+                    <thead className="bg-gray-50 dark:bg-gray-700">
                       <tr>
-                        <td colSpan={5} className="px-4 py-12 text-center text-gray-500">
-                          아직 순위 데이터가 없습니다
-                        </td>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                          순위
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                          사용자
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                          포인트
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                          승리
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                          승률
+                        </th>
                       </tr>
-                    )}
-                  </tbody>
-                </table>
-              </div>
-            </TabsContent>
-          ))}
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {entries.slice(3).map((entry, index) => (
+                        <tr
+                          key={entry.id}
+                          className={cn(
+                            'hover:bg-gray-50 dark:hover:bg-gray-700/50',
+                            entry.user?.id === currentUserId && 'bg-blue-50 dark:bg-blue-900/20'
+                          )}
+                        >
+                          <td className="px-4 py-3">
+                            <span className="font-bold text-gray-500">#{index + 4}</span>
+                          </td>
+                          <td className="px-4 py-3">
+                            <div className="flex items-center gap-3">
+                              {entry.user?.profileImage ? (
+                                <img
+                                  src={entry.user.profileImage}
+                                  alt=""
+                                  className="w-8 h-8 rounded-full"
+                                />
+                              ) : (
+                                <div className="w-8 h-8 rounded-full bg-gray-200 dark:bg-gray-600 flex items-center justify-center">
+                                  <User className="w-4 h-4 text-gray-500" />
+                                </div>
+                              )}
+                              <span className="font-medium text-gray-900 dark:text-gray-100">
+                                {entry.user?.name || entry.user?.username || '익명'}
+                              </span>
+                              {entry.user?.id === currentUserId && (
+                                <span className="text-xs text-blue-500">(나)</span>
+                              )}
+                            </div>
+                          </td>
+                          <td className="px-4 py-3 text-right font-bold text-gray-900 dark:text-gray-100">
+                            {entry.points.toLocaleString()}P
+                          </td>
+                          <td className="px-4 py-3 text-right text-gray-600 dark:text-gray-400">
+                            {entry.wins}승
+                          </td>
+                          <td className="px-4 py-3 text-right text-gray-600 dark:text-gray-400">
+                            {entry.winRate.toFixed(1)}%
+                          </td>
+                        </tr>
+                      ))}
+
+                      {entries.length === 0 && (
+                        <tr>
+                          <td colSpan={5} className="px-4 py-12 text-center text-gray-500">
+                            아직 순위 데이터가 없습니다
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </TabsContent>
+            );
+          })}
         </Tabs>
       </div>
     </div>
   );
 }
 
+function PeriodNavigator({
+  period,
+  currentLabel,
+  snapshots,
+  selectedKey,
+}: {
+  period: RollingPeriod;
+  currentLabel: string;
+  snapshots: Array<{ id: string; periodKey: string; startsAt: string; endsAt: string }>;
+  selectedKey: string | null;
+}) {
+  const chipClass = (active: boolean) =>
+    cn(
+      'shrink-0 px-3 py-1 rounded-full text-sm transition-colors',
+      active
+        ? 'bg-blue-500 text-white'
+        : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+    );
+
+  return (
+    <div className="flex items-center gap-2 overflow-x-auto pb-2 mb-4">
+      <Link to="/leaderboard" className={chipClass(!selectedKey)}>
+        {currentLabel} (진행 중)
+      </Link>
+      {snapshots.map((snapshot) => (
+        <Link
+          key={snapshot.id}
+          to={`/leaderboard?period=${period}&key=${snapshot.periodKey}`}
+          className={chipClass(snapshot.periodKey === selectedKey)}
+        >
+          {formatPeriodLabel({
+            period,
+            key: snapshot.periodKey,
+            start: new Date(snapshot.startsAt),
+            end: new Date(snapshot.endsAt),
+          })}
+        </Link>
+      ))}
+    </div>
+  );
+}
+
 function TopRankCard({
   rank,
   user,
@@ -0,0 +1,72 @@
+/**
+ * 페이지 빌더로 만든 공개 페이지 (/pages/{slug})
+ * 발행본을 보여주고, 서명된 미리보기 링크로 열면 임시저장본을 보여줌
+ */
+
+import { json, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
+import { PageBuilder } from "~/components/page-builder/PageBuilder";
+import { ensurePluginsLoaded, getPluginManager, runPluginHook } from "~/lib/architecture/plugin-system.server";
+import { getUserId } from "~/lib/auth.server";
+import { getPageBlockData, getPublicPage } from "~/lib/pages/page.server";
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  if (!data) return [{ title: "페이지를 찾을 수 없습니다" }];
+
+  const { page, isPreview } = data;
+  return [
+    { title: page.seoTitle || page.title },
+    ...(page.seoDescription ? [{ name: "description", content: page.seoDescription }] : []),
+    ...(isPreview ? [{ name: "robots", content: "noindex, nofollow" }] : []),
+  ];
+};
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const url = new URL(request.url);
+  const result = await getPublicPage(params["*"] ?? "", url.searchParams);
+  if (!result) {
+    throw new Response("페이지를 찾을 수 없습니다", { status: 404 });
+  }
+
+  await ensurePluginsLoaded();
+  const { page, blocks, isPreview } = result;
+
+  // 플러그인이 블록 데이터를 가공할 수 있음 (page.render 필터 훅)
+  const data = await getPageBlockData(blocks);
+  const rendered = await runPluginHook("page.render", {
+    path: url.pathname,
+    userId: await getUserId(request),
+    data,
+  });
+
+  return json(
+    {
+      page: {
+        title: page.title,
+        seoTitle: page.seoTitle,
+        seoDescription: page.seoDescription,
+      },
+      blocks,
+      isPreview,
+      pluginBlocks: getPluginManager().getBlockTypes(),
+      data: rendered.data as typeof data,
+    },
+    // 미리보기는 공유 캐시에 남지 않도록
+    isPreview ? { headers: { "Cache-Control": "private, no-store" } } : undefined
+  );
+}
+
+export default function PublicPage() {
+  const { blocks, isPreview, pluginBlocks, data } = useLoaderData<typeof loader>();
+
+  return (
+    <div>
+      {isPreview && (
+        <div className="bg-yellow-100 text-yellow-900 text-sm text-center py-2">
+          임시저장본 미리보기입니다. 발행하기 전까지 방문자에게는 보이지 않습니다.
+        </div>
+      )}
+      <PageBuilder blocks={blocks} data={data} pluginBlocks={pluginBlocks} />
+    </div>
+  );
+}
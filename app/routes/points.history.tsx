@@ -20,6 +20,10 @@ import {
   Sparkles,
   Settings,
   Filter,
+  Send,
+  ShieldCheck,
+  ShieldMinus,
+  RotateCcw,
 } from 'lucide-react';
 import { cn } from '~/lib/utils';
 import { format, startOfMonth, endOfMonth, subMonths } from 'date-fns';
@@ -36,6 +40,20 @@ const TYPE_CONFIG: Record<string, { label: string; icon: any; color: string }> =
   SPEND_EVENT: { label: '이벤트 참여', icon: TrendingDown, color: 'text-red-500' },
   SPEND_BET: { label: '베팅', icon: Coins, color: 'text-orange-500' },
   ADMIN_ADJUST: { label: '관리자 조정', icon: Settings, color: 'text-gray-500' },
+  TRANSFER_OUT: { label: '선물 보냄', icon: Send, color: 'text-pink-500' },
+  TRANSFER_IN: { label: '선물 받음', icon: Gift, color: 'text-pink-500' },
+  ADMIN_GRANT: { label: '관리자 지급', icon: ShieldCheck, color: 'text-green-600' },
+  ADMIN_REVOKE: { label: '관리자 회수', icon: ShieldMinus, color: 'text-red-600' },
+  REFUND: { label: '이벤트 환불', icon: RotateCcw, color: 'text-blue-500' },
+  SETTLE_REVERSAL: { label: '재정산 회수', icon: RotateCcw, color: 'text-red-500' },
+};
+
+// 상대방 표시 문구 (이체 상대 / 처리한 관리자)
+const COUNTERPARTY_LABELS: Record<string, string> = {
+  TRANSFER_OUT: '받는 사람',
+  TRANSFER_IN: '보낸 사람',
+  ADMIN_GRANT: '처리자',
+  ADMIN_REVOKE: '처리자',
 };
 
 export async function loader({ request }: LoaderFunctionArgs) {
@@ -55,6 +73,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
     where.amount = { gt: 0 };
   } else if (filter === 'spend') {
     where.amount = { lt: 0 };
+  } else if (filter === 'transfer') {
+    where.type = { in: ['TRANSFER_OUT', 'TRANSFER_IN'] };
   }
 
   if (month) {
@@ -95,6 +115,18 @@ export async function loader({ request }: LoaderFunctionArgs) {
 
   const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE);
 
+  // 이체 상대/처리 관리자 이름
+  const counterpartyIds = [
+    ...new Set(transactions.map((tx) => tx.counterpartyId).filter((id): id is string => !!id)),
+  ];
+  const counterparties = counterpartyIds.length
+    ? await db.user.findMany({
+        where: { id: { in: counterpartyIds } },
+        select: { id: true, username: true, name: true },
+      })
+    : [];
+  const counterpartyNames = new Map(counterparties.map((u) => [u.id, u.name || u.username]));
+
   // 사용 가능한 월 목록 (최근 6개월)
   const availableMonths = Array.from({ length: 6 }, (_, i) => {
     const date = subMonths(new Date(), i);
@@ -103,7 +135,10 @@ export async function loader({ request }: LoaderFunctionArgs) {
 
   return json({
     points: userPoints,
-    transactions,
+    transactions: transactions.map((tx) => ({
+      ...tx,
+      counterpartyName: tx.counterpartyId ? counterpartyNames.get(tx.counterpartyId) ?? null : null,
+    })),
     totalCount,
     totalPages,
     currentPage: page,
@@ -175,6 +210,9 @@ export default function PointHistoryPage() {
           <div className="text-right">
             <p className="text-sm text-gray-500">현재 잔액</p>
             <p className="font-bold text-blue-600">{points.balance.toLocaleString()}P</p>
+            <Link to="/points/transfer" className="text-xs text-blue-500 hover:underline">
+              선물하기
+            </Link>
           </div>
         </div>
 
@@ -235,6 +273,7 @@ export default function PointHistoryPage() {
             { value: 'all', label: '전체' },
             { value: 'earn', label: '획득' },
             { value: 'spend', label: '사용' },
+            { value: 'transfer', label: '선물' },
           ].map((filter) => (
             <button
               key={filter.value}
@@ -323,6 +362,11 @@ function TransactionItem({ transaction }: { transaction: any }) {
         {transaction.description && (
           <p className="text-sm text-gray-500 truncate">{transaction.description}</p>
         )}
+        {transaction.counterpartyName && COUNTERPARTY_LABELS[transaction.type] && (
+          <p className="text-xs text-gray-500">
+            {COUNTERPARTY_LABELS[transaction.type]}: {transaction.counterpartyName}
+          </p>
+        )}
         <p className="text-xs text-gray-400">
           {format(new Date(transaction.createdAt), 'yyyy.MM.dd HH:mm', { locale: ko })}
         </p>
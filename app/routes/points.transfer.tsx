@@ -0,0 +1,147 @@
+/**
+ * 포인트 선물 페이지
+ */
+
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from '@remix-run/node';
+import { useLoaderData, useActionData, useNavigation, Form, Link } from '@remix-run/react';
+import { db } from '~/lib/db.server';
+import { requireUser } from '~/lib/auth.server';
+import { getUserPoints, transferPoints, POINT_CONFIG } from '~/lib/points/point.server';
+import { startOfKstDay } from '~/lib/points/point-transfer';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { Label } from '~/components/ui/label';
+import { ChevronLeft, Gift, CheckCircle } from 'lucide-react';
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const userPoints = await getUserPoints(user.id);
+
+  const sent = await db.pointTransaction.aggregate({
+    where: {
+      userPointId: userPoints.id,
+      type: 'TRANSFER_OUT',
+      createdAt: { gte: startOfKstDay() },
+    },
+    _sum: { amount: true },
+  });
+
+  const url = new URL(request.url);
+
+  return json({
+    balance: userPoints.balance,
+    remainingToday: Math.max(0, POINT_CONFIG.TRANSFER_DAILY_LIMIT - Math.abs(sent._sum.amount ?? 0)),
+    recipient: url.searchParams.get('to') || '',
+    limits: {
+      minAmount: POINT_CONFIG.TRANSFER_MIN_AMOUNT,
+      dailyLimit: POINT_CONFIG.TRANSFER_DAILY_LIMIT,
+      minAccountAgeDays: POINT_CONFIG.TRANSFER_MIN_ACCOUNT_AGE_DAYS,
+    },
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  const formData = await request.formData();
+
+  const recipient = ((formData.get('recipient') as string) || '').trim().replace(/^@/, '');
+  const amount = Number(formData.get('amount'));
+  const message = (formData.get('message') as string) || undefined;
+
+  if (!recipient) {
+    return json({ success: false, error: '받는 사람 아이디를 입력하세요.', amount, recipient }, { status: 400 });
+  }
+
+  const result = await transferPoints(user.id, recipient, amount, message);
+
+  if (!result.success) {
+    return json({ success: false, error: result.message, amount, recipient }, { status: 400 });
+  }
+
+  return json({ success: true, error: null, amount, recipient });
+}
+
+export default function PointTransferPage() {
+  const { balance, remainingToday, recipient, limits } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === 'submitting';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      <div className="container mx-auto px-4 py-8" style={{ maxWidth: '600px' }}>
+        <div className="flex items-center gap-3 mb-6">
+          <Link to="/points">
+            <Button variant="ghost" size="sm">
+              <ChevronLeft className="w-5 h-5" />
+            </Button>
+          </Link>
+          <h1 className="text-xl font-bold text-gray-900 dark:text-gray-100">포인트 선물</h1>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-3 text-center">
+            <div className="rounded-lg bg-blue-50 dark:bg-blue-900/20 p-3">
+              <p className="text-xs text-gray-500">보유 포인트</p>
+              <p className="font-bold text-blue-600">{balance.toLocaleString()}P</p>
+            </div>
+            <div className="rounded-lg bg-purple-50 dark:bg-purple-900/20 p-3">
+              <p className="text-xs text-gray-500">오늘 남은 한도</p>
+              <p className="font-bold text-purple-600">{remainingToday.toLocaleString()}P</p>
+            </div>
+          </div>
+
+          {actionData?.success ? (
+            <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg text-center">
+              <CheckCircle className="w-8 h-8 mx-auto text-green-500 mb-2" />
+              <p className="font-bold text-green-600">
+                {actionData.recipient}님에게 {actionData.amount.toLocaleString()}P를 선물했습니다.
+              </p>
+              <Link to="/points/history" className="text-sm text-blue-500 hover:underline">
+                거래 내역 보기
+              </Link>
+            </div>
+          ) : (
+            <Form method="post" className="space-y-4">
+              <div>
+                <Label htmlFor="recipient">받는 사람 아이디</Label>
+                <Input id="recipient" name="recipient" defaultValue={recipient} placeholder="아이디" required />
+              </div>
+              <div>
+                <Label htmlFor="amount">금액</Label>
+                <Input
+                  id="amount"
+                  name="amount"
+                  type="number"
+                  min={limits.minAmount}
+                  max={Math.min(balance, remainingToday)}
+                  step={1}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="message">메시지 (선택)</Label>
+                <Input id="message" name="message" maxLength={100} placeholder="함께 보낼 메시지" />
+              </div>
+
+              {actionData?.error && (
+                <p className="text-sm text-red-500">{actionData.error}</p>
+              )}
+
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                <Gift className="w-4 h-4 mr-2" />
+                {isSubmitting ? '보내는 중...' : '선물하기'}
+              </Button>
+            </Form>
+          )}
+
+          <ul className="text-xs text-gray-500 space-y-1 list-disc pl-4">
+            <li>최소 {limits.minAmount}P부터 선물할 수 있습니다.</li>
+            <li>하루(한국 시간 기준) 최대 {limits.dailyLimit.toLocaleString()}P까지 선물할 수 있습니다.</li>
+            <li>가입 후 {limits.minAccountAgeDays}일이 지난 계정만 선물할 수 있습니다.</li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
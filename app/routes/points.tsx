@@ -99,7 +99,10 @@ export async function action({ request }: ActionFunctionArgs) {
   if (intent === 'checkIn') {
     try {
       const result = await dailyCheckIn(user.id);
-      return json({ success: true, points: result.points, isBonus: result.isBonus });
+      if (!result.success) {
+        return json({ success: false, error: result.message }, { status: 400 });
+      }
+      return json({ success: true, points: result.points });
     } catch (error: any) {
       return json({ success: false, error: error.message }, { status: 400 });
     }
@@ -132,8 +135,15 @@ export default function PointsPage() {
             <span className="text-2xl font-normal opacity-75">P</span>
           </div>
 
-          <div className="flex items-center gap-4 text-sm text-blue-100">
+          <div className="flex items-center justify-between text-sm text-blue-100">
             <span>누적 {points.lifetime.toLocaleString()}P</span>
+            <Link
+              to="/points/transfer"
+              className="flex items-center gap-1 rounded-full bg-white/20 px-3 py-1 text-white hover:bg-white/30"
+            >
+              <Gift className="w-4 h-4" />
+              선물하기
+            </Link>
           </div>
         </div>
 
@@ -375,6 +385,12 @@ function TransactionItem({ transaction }: { transaction: any }) {
     SPEND_EVENT: '이벤트 참여',
     SPEND_BET: '베팅',
     ADMIN_ADJUST: '관리자 조정',
+    TRANSFER_OUT: '선물 보냄',
+    TRANSFER_IN: '선물 받음',
+    ADMIN_GRANT: '관리자 지급',
+    ADMIN_REVOKE: '관리자 회수',
+    REFUND: '이벤트 환불',
+    SETTLE_REVERSAL: '재정산 회수',
   };
 
   return (
@@ -0,0 +1,87 @@
+/**
+ * 내 임시저장 / 예약 게시글 목록
+ */
+
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useSearchParams, Link } from "@remix-run/react";
+import { format } from "date-fns";
+import { ko } from "date-fns/locale";
+import { FileText, Clock, Edit } from "lucide-react";
+import { requireUser } from "~/lib/auth.server";
+import { getUserDrafts } from "~/lib/posts/post-status.server";
+import { POST_STATUS_LABELS } from "~/lib/posts/post-status";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+
+const MESSAGES: Record<string, string> = {
+  draft_saved: "임시저장되었습니다.",
+  scheduled: "예약 발행이 등록되었습니다.",
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const drafts = await getUserDrafts(user.id);
+
+  return json({ drafts });
+}
+
+export default function MyDraftsPage() {
+  const { drafts } = useLoaderData<typeof loader>();
+  const [searchParams] = useSearchParams();
+  const message = MESSAGES[searchParams.get("message") || ""];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      <div className="container mx-auto px-4 py-8" style={{ maxWidth: '1450px' }}>
+        <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-gray-100">내 임시글</h1>
+        <p className="text-gray-600 dark:text-gray-400 mb-6">
+          임시저장하거나 예약 발행한 게시글입니다. 예약된 글은 지정한 시각에 자동으로 발행됩니다.
+        </p>
+
+        {message && (
+          <div className="mb-6 rounded-md border border-green-200 bg-green-50 dark:border-green-900 dark:bg-green-950/40 px-4 py-3 text-sm text-green-800 dark:text-green-300">
+            {message}
+          </div>
+        )}
+
+        {drafts.length === 0 ? (
+          <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-12 text-center text-gray-500 dark:text-gray-400">
+            임시저장된 게시글이 없습니다.
+          </div>
+        ) : (
+          <ul className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 divide-y divide-gray-200 dark:divide-gray-800">
+            {drafts.map((draft) => (
+              <li key={draft.id} className="p-4 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <Badge variant={draft.status === "SCHEDULED" ? "default" : "secondary"}>
+                      {draft.status === "SCHEDULED" ? (
+                        <Clock className="h-3 w-3 mr-1" />
+                      ) : (
+                        <FileText className="h-3 w-3 mr-1" />
+                      )}
+                      {POST_STATUS_LABELS[draft.status]}
+                    </Badge>
+                    <span className="text-sm text-muted-foreground">{draft.menu.name}</span>
+                  </div>
+                  <p className="font-medium truncate text-gray-900 dark:text-gray-100">{draft.title}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {draft.status === "SCHEDULED" && draft.publishedAt
+                      ? `${format(new Date(draft.publishedAt), "yyyy-MM-dd HH:mm", { locale: ko })} 발행 예정`
+                      : `${format(new Date(draft.updatedAt), "yyyy-MM-dd HH:mm", { locale: ko })} 저장`}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" asChild>
+                  <Link to={`/${draft.menu.slug}/${draft.slug}/edit`}>
+                    <Edit className="h-4 w-4 mr-1" />
+                    이어쓰기
+                  </Link>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+/**
+ * 통합 검색 페이지
+ * 게시글/댓글 전문 검색 + 게시판/작성자/기간 필터
+ */
+
+import { json, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
+import { Form, Link, useLoaderData, useSearchParams } from "@remix-run/react";
+import { format } from "date-fns";
+import { ko } from "date-fns/locale";
+import { Search, FileText, MessageSquare, Eye } from "lucide-react";
+import { db } from "~/lib/db.server";
+import { getUser } from "~/lib/auth.server";
+import { getUnreadableMenuIds } from "~/lib/boards/board-permission.server";
+import { searchContent } from "~/lib/search/search.server";
+import { parseSearchParams, splitHighlights, type HighlightSegment } from "~/lib/search/search-query";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { cn } from "~/lib/utils";
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  return [{ title: data?.query ? `"${data.query}" 검색 결과` : "검색" }];
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await getUser(request);
+  const url = new URL(request.url);
+  const params = parseSearchParams(url.searchParams);
+
+  const hiddenMenuIds = await getUnreadableMenuIds(user);
+  const boards = await db.menu.findMany({
+    where: { isActive: true, id: { notIn: hiddenMenuIds } },
+    select: { name: true, slug: true },
+    orderBy: { order: "asc" },
+  });
+
+  const results = await searchContent(params, user);
+
+  return json({
+    ...results,
+    boards,
+    posts: results.posts.map((hit) => ({ ...hit, snippet: splitHighlights(hit.snippet) })),
+    comments: results.comments.map((hit) => ({ ...hit, snippet: splitHighlights(hit.snippet) })),
+  });
+}
+
+function Snippet({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-3">
+      {segments.map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+export default function SearchPage() {
+  const { query, scope, page, totalPages, counts, posts, comments, boards } = useLoaderData<typeof loader>();
+  const [searchParams] = useSearchParams();
+
+  const linkTo = (params: Record<string, string>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(params)) {
+      next.set(key, value);
+    }
+    return `?${next.toString()}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      <div className="container mx-auto px-4 py-8" style={{ maxWidth: '1450px' }}>
+        <h1 className="text-3xl font-bold mb-6 text-gray-900 dark:text-gray-100">검색</h1>
+
+        {/* 검색 폼 */}
+        <Form method="get" className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-4 mb-6 space-y-3">
+          <input type="hidden" name="scope" value={scope} />
+          <div className="flex gap-2">
+            <Input
+              name="q"
+              defaultValue={query}
+              placeholder="검색어를 입력하세요"
+              className="flex-1"
+              autoFocus
+            />
+            <Button type="submit">
+              <Search className="h-4 w-4 mr-2" />
+              검색
+            </Button>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+            <select
+              name="board"
+              defaultValue={searchParams.get("board") || ""}
+              className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+            >
+              <option value="">전체 게시판</option>
+              {boards.map((board) => (
+                <option key={board.slug} value={board.slug}>
+                  {board.name}
+                </option>
+              ))}
+            </select>
+            <Input name="author" defaultValue={searchParams.get("author") || ""} placeholder="작성자 아이디" />
+            <Input type="date" name="from" defaultValue={searchParams.get("from") || ""} aria-label="시작일" />
+            <Input type="date" name="to" defaultValue={searchParams.get("to") || ""} aria-label="종료일" />
+          </div>
+        </Form>
+
+        {query && (
+          <>
+            {/* 범위 탭 */}
+            <div className="flex gap-2 mb-4">
+              {([
+                { value: "posts", label: "게시글", count: counts.posts, icon: FileText },
+                { value: "comments", label: "댓글", count: counts.comments, icon: MessageSquare },
+              ] as const).map((tab) => (
+                <Button key={tab.value} variant={scope === tab.value ? "default" : "outline"} size="sm" asChild>
+                  <Link to={linkTo({ scope: tab.value, page: "1" })}>
+                    <tab.icon className="h-4 w-4 mr-1" />
+                    {tab.label} {tab.count.toLocaleString()}
+                  </Link>
+                </Button>
+              ))}
+            </div>
+
+            <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 divide-y divide-gray-200 dark:divide-gray-800">
+              {scope === "posts" && posts.map((hit) => (
+                <div key={hit.id} className="p-4">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+                    <Link to={`/${hit.menuSlug}`} className="hover:underline">{hit.menuName}</Link>
+                    <span>·</span>
+                    <span>{hit.authorName || hit.authorUsername}</span>
+                    <span>·</span>
+                    <span>{format(new Date(hit.createdAt), "yyyy-MM-dd", { locale: ko })}</span>
+                  </div>
+                  <Link
+                    to={`/${hit.menuSlug}/${hit.slug}`}
+                    className="block font-medium text-gray-900 dark:text-gray-100 hover:text-primary mb-1"
+                  >
+                    {hit.title}
+                  </Link>
+                  <Snippet segments={hit.snippet} />
+                  <div className="flex items-center gap-3 mt-2 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1"><Eye className="h-3 w-3" />{hit.views}</span>
+                    <span className="flex items-center gap-1"><MessageSquare className="h-3 w-3" />{hit.commentCount}</span>
+                  </div>
+                </div>
+              ))}
+
+              {scope === "comments" && comments.map((hit) => (
+                <div key={hit.id} className="p-4">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+                    <Link to={`/${hit.menuSlug}`} className="hover:underline">{hit.menuName}</Link>
+                    <span>·</span>
+                    <span>{hit.authorName || hit.authorUsername}</span>
+                    <span>·</span>
+                    <span>{format(new Date(hit.createdAt), "yyyy-MM-dd HH:mm", { locale: ko })}</span>
+                  </div>
+                  <Snippet segments={hit.snippet} />
+                  <Link
+                    to={`/${hit.menuSlug}/${hit.postSlug}#comment-${hit.id}`}
+                    className="inline-block mt-1 text-xs text-primary hover:underline"
+                  >
+                    {hit.postTitle}
+                  </Link>
+                </div>
+              ))}
+
+              {(scope === "posts" ? posts : comments).length === 0 && (
+                <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+                  &quot;{query}&quot;에 대한 검색 결과가 없습니다.
+                </div>
+              )}
+            </div>
+
+            {/* 페이지네이션 */}
+            {totalPages > 1 && (
+              <div className="flex justify-center gap-1 mt-6">
+                {Array.from({ length: Math.min(totalPages, 10) }, (_, i) => {
+                  const start = Math.max(1, Math.min(page - 4, totalPages - 9));
+                  const pageNumber = start + i;
+                  return (
+                    <Link
+                      key={pageNumber}
+                      to={linkTo({ page: String(pageNumber) })}
+                      className={cn(
+                        "min-w-9 h-9 px-2 flex items-center justify-center rounded-md text-sm border",
+                        pageNumber === page
+                          ? "bg-primary text-primary-foreground border-primary"
+                          : "border-gray-200 dark:border-gray-800 hover:bg-gray-100 dark:hover:bg-gray-800"
+                      )}
+                    >
+                      {pageNumber}
+                    </Link>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+/**
+ * 알림 설정 페이지
+ */
+
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from '@remix-run/node';
+import { useLoaderData, Link } from '@remix-run/react';
+import { db } from '~/lib/db.server';
+import { requireUser } from '~/lib/auth.server';
+import { getNotificationManager } from '~/lib/notifications/notification.manager';
+import { isSMSConfigured, sendVerificationCode, verifyPhoneCode } from '~/lib/notifications/sms.server';
+import type { NotificationPreferences } from '~/lib/notifications/notification.types';
+import { NotificationPreferencesForm } from '~/components/notifications/NotificationPreferences';
+import { PhoneVerification } from '~/components/notifications/PhoneVerification';
+import { Button } from '~/components/ui/button';
+import { ChevronLeft } from 'lucide-react';
+
+const MOBILE_NUMBER = /^01[016789]\d{7,8}$/;
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const account = await db.user.findUnique({
+    where: { id: user.id },
+    select: { phone: true, phoneVerified: true },
+  });
+
+  return json({
+    userId: user.id,
+    preferences: await getNotificationManager().getUserPreferences(user.id),
+    phone: account?.phoneVerified ? account.phone : null,
+    phoneVerified: Boolean(account?.phone && account.phoneVerified),
+    smsAvailable: isSMSConfigured(),
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  const formData = await request.formData();
+  const intent = formData.get('intent');
+
+  switch (intent) {
+    case 'send-phone-code': {
+      const phone = ((formData.get('phone') as string) || '').replace(/[^0-9]/g, '');
+      if (!MOBILE_NUMBER.test(phone)) {
+        return json({ success: false as const, error: '휴대폰 번호를 정확히 입력해주세요' }, { status: 400 });
+      }
+
+      const result = await sendVerificationCode(phone, user.id);
+      if (!result.success || !result.verificationId) {
+        return json({ success: false as const, error: result.error || '인증번호를 보내지 못했습니다' }, { status: 400 });
+      }
+      return json({ success: true as const, intent, verificationId: result.verificationId });
+    }
+
+    case 'verify-phone-code': {
+      const verificationId = (formData.get('verificationId') as string) || '';
+      const code = ((formData.get('code') as string) || '').trim();
+
+      const result = await verifyPhoneCode(verificationId, code, user.id);
+      if (!result.success) {
+        return json({ success: false as const, error: result.error || '인증에 실패했습니다' }, { status: 400 });
+      }
+      return json({ success: true as const, intent });
+    }
+
+    default:
+      return json({ success: false as const, error: '알 수 없는 요청입니다' }, { status: 400 });
+  }
+}
+
+// 알림 설정 저장 (검증은 /api/notifications 에서)
+async function savePreferences(preferences: NotificationPreferences) {
+  const response = await fetch('/api/notifications', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action: 'update-preferences', preferences }),
+  });
+  if (!response.ok) {
+    throw new Error('알림 설정을 저장하지 못했습니다');
+  }
+}
+
+export default function NotificationSettingsPage() {
+  const { userId, preferences, phone, phoneVerified, smsAvailable } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      <div className="container mx-auto px-4 py-8 space-y-6" style={{ maxWidth: '720px' }}>
+        <div className="flex items-center gap-3">
+          <Link to="/">
+            <Button variant="ghost" size="sm">
+              <ChevronLeft className="w-5 h-5" />
+            </Button>
+          </Link>
+          <h1 className="text-xl font-bold text-gray-900 dark:text-gray-100">알림 설정</h1>
+        </div>
+
+        <PhoneVerification
+          phone={phone}
+          verified={phoneVerified}
+          available={smsAvailable}
+          action="/settings/notifications"
+        />
+
+        <NotificationPreferencesForm
+          userId={userId}
+          initialPreferences={preferences as NotificationPreferences}
+          onSave={savePreferences}
+        />
+      </div>
+    </div>
+  );
+}
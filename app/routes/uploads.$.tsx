@@ -0,0 +1,63 @@
+// 업로드 파일 제공 (설정된 스토리지의 원본/최적화/변형 파일)
+// private/ 아래 파일은 만료 전의 서명 URL 로만 열람 가능
+// 브라우저에서 바로 열어도 안전한 형식이 아니면 다운로드로만 제공
+
+import type { LoaderFunctionArgs } from '@remix-run/node';
+import { redirect } from '@remix-run/node';
+import { getSigningSecret, getStorage } from '~/lib/storage/storage.server';
+import { contentTypeForKey, isPrivateKey, normalizeStorageKey, verifyUrlSignature } from '~/lib/storage/storage-key';
+
+const INLINE_CONTENT_TYPE = /^(image|video|audio)\/|^(application\/pdf|text\/plain)$/;
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const key = normalizeStorageKey(params['*'] ?? '');
+  if (!key) {
+    throw new Response('Not Found', { status: 404 });
+  }
+
+  const isPrivate = isPrivateKey(key);
+  if (isPrivate) {
+    const url = new URL(request.url);
+    const valid = verifyUrlSignature(
+      getSigningSecret(),
+      key,
+      url.searchParams.get('expires'),
+      url.searchParams.get('signature')
+    );
+    if (!valid) {
+      throw new Response('Forbidden', { status: 403 });
+    }
+  }
+
+  const storage = getStorage();
+
+  // 저장소가 공개 URL 을 제공하면 그쪽으로 보냄 (CDN/공개 버킷)
+  const publicUrl = isPrivate ? null : storage.getPublicUrl(key);
+  if (publicUrl) {
+    return redirect(publicUrl, { headers: { 'Cache-Control': 'public, max-age=86400' } });
+  }
+
+  const object = await storage.get(key).catch((error) => {
+    console.error(`Failed to read upload ${key}:`, error);
+    return null;
+  });
+  if (!object) {
+    throw new Response('Not Found', { status: 404 });
+  }
+
+  const storedType = contentTypeForKey(key) ?? object.contentType ?? '';
+  const inline = INLINE_CONTENT_TYPE.test(storedType);
+  const contentType = inline ? storedType : 'application/octet-stream';
+
+  return new Response(new Uint8Array(object.body), {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Length': String(object.size),
+      // 파일 이름에 내용 해시가 들어가므로 오래 캐시해도 안전 (비공개 파일은 공유 캐시 금지)
+      'Cache-Control': isPrivate ? 'private, no-store' : 'public, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff',
+      ...(inline ? {} : { 'Content-Disposition': 'attachment' }),
+      ...(contentType === 'image/svg+xml' ? { 'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'" } : {}),
+    },
+  });
+}
@@ -1,8 +1,12 @@
 import { create } from 'zustand';
+import { getDefaultBlockSettings, isBuiltinBlockType, type BuiltinBlockType } from '~/lib/pages/block-schema';
+
+export type { BuiltinBlockType };
 
 export interface BlockConfig {
   id: string;
-  type: 'hero' | 'recent-posts' | 'category-grid' | 'popular-posts' | 'banner';
+  // 플러그인 블록은 "{플러그인 ID}/{이름}"
+  type: BuiltinBlockType | `${string}/${string}`;
   order: number;
   settings: Record<string, any>;
   isActive: boolean;
@@ -13,7 +17,7 @@ interface PageBuilderState {
   isDragging: boolean;
   activeBlockId: string | null;
   setBlocks: (blocks: BlockConfig[]) => void;
-  addBlock: (type: BlockConfig['type']) => void;
+  addBlock: (type: BlockConfig['type'], settings?: Record<string, any>) => void;
   removeBlock: (id: string) => void;
   updateBlock: (id: string, settings: Partial<BlockConfig>) => void;
   reorderBlocks: (activeId: string, overId: string) => void;
@@ -29,12 +33,12 @@ export const usePageBuilderStore = create<PageBuilderState>((set) => ({
 
   setBlocks: (blocks) => set({ blocks }),
 
-  addBlock: (type) => {
+  addBlock: (type, settings) => {
     const newBlock: BlockConfig = {
       id: `block-${Date.now()}`,
       type,
       order: 0,
-      settings: getDefaultSettings(type),
+      settings: settings ?? getDefaultSettings(type),
       isActive: true,
     };
 
@@ -83,50 +87,7 @@ export const usePageBuilderStore = create<PageBuilderState>((set) => ({
   })),
 }));
 
+// 기본 블록 설정은 블록 스키마의 기본값 (플러그인 블록은 addBlock 에 설정을 넘김)
 function getDefaultSettings(type: BlockConfig['type']): Record<string, any> {
-  switch (type) {
-    case 'hero':
-      return {
-        title: '환영합니다',
-        subtitle: 'CodeB CMS와 함께 시작하세요',
-        backgroundImage: '',
-        height: '400px',
-        textAlign: 'center',
-      };
-    case 'recent-posts':
-      return {
-        title: '최근 게시물',
-        count: 6,
-        columns: 3,
-        showThumbnail: true,
-        showExcerpt: true,
-        showDate: true,
-        showAuthor: true,
-      };
-    case 'category-grid':
-      return {
-        title: '카테고리',
-        columns: 4,
-        showPostCount: true,
-        showIcon: true,
-      };
-    case 'popular-posts':
-      return {
-        title: '인기 게시물',
-        count: 5,
-        period: 'week', // week, month, all
-        showThumbnail: true,
-        showViewCount: true,
-      };
-    case 'banner':
-      return {
-        content: '',
-        backgroundColor: '#f3f4f6',
-        textColor: '#1f2937',
-        padding: '2rem',
-        link: '',
-      };
-    default:
-      return {};
-  }
-}
\ No newline at end of file
+  return isBuiltinBlockType(type) ? getDefaultBlockSettings(type) : {};
+}
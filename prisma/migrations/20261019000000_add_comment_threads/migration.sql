@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."comments" ADD COLUMN     "parent_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "comments_parent_id_idx" ON "public"."comments"("parent_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."comments" ADD CONSTRAINT "comments_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "public"."comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "public"."post_revisions" (
+    "id" TEXT NOT NULL,
+    "post_id" TEXT NOT NULL,
+    "author_id" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "excerpt" TEXT,
+    "restored_from_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "post_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "post_revisions_post_id_created_at_idx" ON "public"."post_revisions"("post_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "post_revisions_author_id_idx" ON "public"."post_revisions"("author_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "post_revisions_post_id_revision_key" ON "public"."post_revisions"("post_id", "revision");
+
+-- AddForeignKey
+ALTER TABLE "public"."post_revisions" ADD CONSTRAINT "post_revisions_post_id_fkey" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."post_revisions" ADD CONSTRAINT "post_revisions_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
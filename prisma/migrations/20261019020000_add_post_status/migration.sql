@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "public"."PostStatus" ADD VALUE 'SCHEDULED' AFTER 'DRAFT';
+
+-- AlterTable
+ALTER TABLE "public"."posts" ADD COLUMN     "status" "public"."PostStatus" NOT NULL DEFAULT 'PUBLISHED';
+
+-- Backfill: 비공개 게시글은 임시저장으로 간주
+UPDATE "public"."posts" SET "status" = 'DRAFT' WHERE "is_published" = false;
+
+-- CreateIndex
+CREATE INDEX "posts_status_published_at_idx" ON "public"."posts"("status", "published_at");
+
+-- CreateIndex
+CREATE INDEX "posts_author_id_status_idx" ON "public"."posts"("author_id", "status");
@@ -0,0 +1,29 @@
+-- 한글 부분 일치 검색용 트라이그램
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- AlterTable: 게시글 검색 벡터 (제목 A, 본문 B 가중치, 태그 제거 후 색인)
+-- generated column 이므로 게시글 작성/수정 시 자동으로 갱신됨
+ALTER TABLE "public"."posts" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('simple', left(regexp_replace("content", '<[^>]*>', ' ', 'g'), 200000)), 'B')
+) STORED;
+
+-- AlterTable: 댓글 검색 벡터
+ALTER TABLE "public"."comments" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple', left("content", 200000))
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "posts_search_vector_idx" ON "public"."posts" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "posts_title_trgm_idx" ON "public"."posts" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex (검색 쿼리의 본문 표현식과 동일해야 사용됨)
+CREATE INDEX "posts_content_text_trgm_idx" ON "public"."posts" USING GIN ((regexp_replace("content", '<[^>]*>', ' ', 'g')) gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "comments_search_vector_idx" ON "public"."comments" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "comments_content_trgm_idx" ON "public"."comments" USING GIN ("content" gin_trgm_ops);
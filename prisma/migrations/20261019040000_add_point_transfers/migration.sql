@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."point_transactions" ADD COLUMN "transfer_id" TEXT,
+ADD COLUMN "counterparty_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "point_transactions_transfer_id_idx" ON "public"."point_transactions"("transfer_id");
+
+-- CreateIndex
+CREATE INDEX "point_transactions_user_point_id_type_created_at_idx" ON "public"."point_transactions"("user_point_id", "type", "created_at");
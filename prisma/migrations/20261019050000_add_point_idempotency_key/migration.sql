@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."point_transactions" ADD COLUMN "idempotency_key" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "point_transactions_idempotency_key_key" ON "public"."point_transactions"("idempotency_key");
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "public"."leaderboard_snapshots" (
+    "id" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "period_key" TEXT NOT NULL,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "ends_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "leaderboard_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."leaderboard_snapshot_entries" (
+    "id" TEXT NOT NULL,
+    "snapshot_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "points" INTEGER NOT NULL,
+    "wins" INTEGER NOT NULL DEFAULT 0,
+    "win_rate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+
+    CONSTRAINT "leaderboard_snapshot_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "leaderboard_snapshots_period_period_key_key" ON "public"."leaderboard_snapshots"("period", "period_key");
+
+-- CreateIndex
+CREATE INDEX "leaderboard_snapshots_period_starts_at_idx" ON "public"."leaderboard_snapshots"("period", "starts_at" DESC);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "leaderboard_snapshot_entries_snapshot_id_user_id_key" ON "public"."leaderboard_snapshot_entries"("snapshot_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "leaderboard_snapshot_entries_snapshot_id_rank_idx" ON "public"."leaderboard_snapshot_entries"("snapshot_id", "rank");
+
+-- CreateIndex
+CREATE INDEX "leaderboard_snapshot_entries_user_id_idx" ON "public"."leaderboard_snapshot_entries"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."leaderboard_snapshot_entries" ADD CONSTRAINT "leaderboard_snapshot_entries_snapshot_id_fkey" FOREIGN KEY ("snapshot_id") REFERENCES "public"."leaderboard_snapshots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."leaderboard_snapshot_entries" ADD CONSTRAINT "leaderboard_snapshot_entries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 관리자 회수(ADMIN_REVOKE)도 누적 획득 포인트에서 차감
+-- 기존 회수 금액(음수)만큼 lifetime 을 맞춤
+UPDATE "public"."user_points" AS u
+SET "lifetime" = u."lifetime" + r."total"
+FROM (
+  SELECT "user_point_id", SUM("amount") AS "total"
+  FROM "public"."point_transactions"
+  WHERE "type" = 'ADMIN_REVOKE'
+  GROUP BY "user_point_id"
+) AS r
+WHERE u."id" = r."user_point_id";
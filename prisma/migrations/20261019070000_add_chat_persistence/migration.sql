@@ -0,0 +1,91 @@
+-- CreateTable
+CREATE TABLE "public"."chat_rooms" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "created_by" TEXT NOT NULL,
+    "last_message_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chat_rooms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."chat_room_members" (
+    "id" TEXT NOT NULL,
+    "room_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "joined_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "left_at" TIMESTAMP(3),
+
+    CONSTRAINT "chat_room_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."chat_messages" (
+    "id" TEXT NOT NULL,
+    "room_id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "content" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'text',
+    "metadata" JSONB,
+    "edited_at" TIMESTAMP(3),
+    "deleted_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chat_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."chat_message_reactions" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "emoji" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chat_message_reactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "chat_rooms_last_message_at_idx" ON "public"."chat_rooms"("last_message_at" DESC);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chat_room_members_room_id_user_id_key" ON "public"."chat_room_members"("room_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "chat_room_members_user_id_left_at_idx" ON "public"."chat_room_members"("user_id", "left_at");
+
+-- CreateIndex
+CREATE INDEX "chat_messages_room_id_created_at_idx" ON "public"."chat_messages"("room_id", "created_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "chat_messages_user_id_idx" ON "public"."chat_messages"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chat_message_reactions_message_id_user_id_emoji_key" ON "public"."chat_message_reactions"("message_id", "user_id", "emoji");
+
+-- CreateIndex
+CREATE INDEX "chat_message_reactions_message_id_idx" ON "public"."chat_message_reactions"("message_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."chat_rooms" ADD CONSTRAINT "chat_rooms_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."chat_room_members" ADD CONSTRAINT "chat_room_members_room_id_fkey" FOREIGN KEY ("room_id") REFERENCES "public"."chat_rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."chat_room_members" ADD CONSTRAINT "chat_room_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."chat_messages" ADD CONSTRAINT "chat_messages_room_id_fkey" FOREIGN KEY ("room_id") REFERENCES "public"."chat_rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."chat_messages" ADD CONSTRAINT "chat_messages_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."chat_message_reactions" ADD CONSTRAINT "chat_message_reactions_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "public"."chat_messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."chat_message_reactions" ADD CONSTRAINT "chat_message_reactions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
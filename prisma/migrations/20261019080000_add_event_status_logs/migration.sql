@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "public"."event_status_logs" (
+    "id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "from_status" "public"."EventStatus",
+    "to_status" "public"."EventStatus" NOT NULL,
+    "actor_type" TEXT NOT NULL,
+    "actor_id" TEXT,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_status_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "event_status_logs_event_id_created_at_idx" ON "public"."event_status_logs"("event_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."event_status_logs" ADD CONSTRAINT "event_status_logs_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "public"."participation_events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
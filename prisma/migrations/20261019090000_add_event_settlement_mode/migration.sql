@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "public"."participation_events" ADD COLUMN     "house_fee_rate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "prediction_tolerance" DOUBLE PRECISION,
+ADD COLUMN     "settlement_mode" TEXT NOT NULL DEFAULT 'FIXED';
+
+-- 참여 포인트는 더 이상 reward_pool 에 누적하지 않음 (정산 시 참여 기록에서 합산)
+-- 기존에 누적된 참여 포인트를 빼고 추가 보상분만 남김
+UPDATE "public"."participation_events" AS e
+SET "reward_pool" = GREATEST(
+  e."reward_pool" - COALESCE((SELECT SUM(p."points") FROM "public"."participations" AS p WHERE p."event_id" = e."id"), 0),
+  0
+);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."participation_events" ADD COLUMN     "settlement_round" INTEGER NOT NULL DEFAULT 0;
+
+-- 기존 정산 완료 이벤트는 1차 정산으로 간주
+UPDATE "public"."participation_events" SET "settlement_round" = 1 WHERE "status" = 'SETTLED';
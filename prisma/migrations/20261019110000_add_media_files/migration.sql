@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "public"."files" (
+    "id" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "original_name" TEXT NOT NULL,
+    "mime_type" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "width" INTEGER,
+    "height" INTEGER,
+    "hash" TEXT,
+    "path" TEXT NOT NULL,
+    "thumbnail_path" TEXT,
+    "optimized_path" TEXT,
+    "editor_upload" BOOLEAN NOT NULL DEFAULT false,
+    "uploaded_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "files_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."file_references" (
+    "id" TEXT NOT NULL,
+    "file_id" TEXT NOT NULL,
+    "source_type" TEXT NOT NULL,
+    "source_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "file_references_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "files_path_key" ON "public"."files"("path");
+
+-- CreateIndex
+CREATE INDEX "files_uploaded_by_id_idx" ON "public"."files"("uploaded_by_id");
+
+-- CreateIndex
+CREATE INDEX "files_mime_type_idx" ON "public"."files"("mime_type");
+
+-- CreateIndex
+CREATE INDEX "files_hash_idx" ON "public"."files"("hash");
+
+-- CreateIndex
+CREATE INDEX "files_created_at_idx" ON "public"."files"("created_at");
+
+-- CreateIndex
+CREATE INDEX "file_references_source_type_source_id_idx" ON "public"."file_references"("source_type", "source_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "file_references_file_id_source_type_source_id_key" ON "public"."file_references"("file_id", "source_type", "source_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."files" ADD CONSTRAINT "files_uploaded_by_id_fkey" FOREIGN KEY ("uploaded_by_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."file_references" ADD CONSTRAINT "file_references_file_id_fkey" FOREIGN KEY ("file_id") REFERENCES "public"."files"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."files" ADD COLUMN "is_private" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "public"."page_configs" RENAME COLUMN "name" TO "slug";
+ALTER TABLE "public"."page_configs" ADD COLUMN "title" TEXT NOT NULL DEFAULT '',
+ADD COLUMN "seo_title" TEXT,
+ADD COLUMN "seo_description" TEXT,
+ADD COLUMN "published_config" TEXT,
+ADD COLUMN "published_at" TIMESTAMP(3);
+
+-- RenameIndex
+ALTER INDEX "public"."page_configs_name_key" RENAME TO "page_configs_slug_key";
+
+-- 기존 페이지는 저장된 레이아웃을 발행된 상태로 유지
+UPDATE "public"."page_configs"
+SET "title" = "slug", "published_config" = "config", "published_at" = "updated_at";
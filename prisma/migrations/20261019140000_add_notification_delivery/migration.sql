@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN "phone" TEXT,
+ADD COLUMN "phone_verified" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."notifications" ADD COLUMN "delivery" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."sms_logs" (
+    "id" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "template_id" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "variables" JSONB,
+    "provider" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "message_id" TEXT,
+    "error" TEXT,
+    "cost" INTEGER NOT NULL DEFAULT 0,
+    "scheduled_at" TIMESTAMP(3),
+    "sent_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sms_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."phone_verifications" (
+    "id" TEXT NOT NULL,
+    "phone_number" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "user_id" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "phone_verifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sms_logs_status_idx" ON "public"."sms_logs"("status");
+
+-- CreateIndex
+CREATE INDEX "sms_logs_created_at_idx" ON "public"."sms_logs"("created_at");
+
+-- CreateIndex
+CREATE INDEX "phone_verifications_phone_number_idx" ON "public"."phone_verifications"("phone_number");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."notifications" ADD COLUMN "digest_at" TIMESTAMP(3),
+ADD COLUMN "digest_sent_at" TIMESTAMP(3),
+ADD COLUMN "digest_attempts" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "notifications_digest_sent_at_digest_at_idx" ON "public"."notifications"("digest_sent_at", "digest_at");
@@ -248,6 +248,7 @@ self.addEventListener('push', (event) => {
       body: data.body,
       icon: data.icon,
       badge: data.badge,
+      tag: data.tag,
       vibrate: [100, 50, 100],
       data: { url: data.url },
       actions: [
@@ -268,7 +269,9 @@ self.addEventListener('notificationclick', (event) => {
     return;
   }
 
-  const url = event.notification.data?.url || '/';
+  // 상대 경로(/posts/...)는 사이트 주소 기준으로 변환, 다른 사이트 주소는 열지 않음
+  const target = new URL(event.notification.data?.url || '/', self.location.origin);
+  const url = target.origin === self.location.origin ? target.href : self.location.origin + '/';
 
   event.waitUntil(
     clients.matchAll({ type: 'window', includeUncontrolled: true })
@@ -279,6 +282,13 @@ self.addEventListener('notificationclick', (event) => {
             return client.focus();
           }
         }
+        // 사이트 창이 열려 있으면 그 창에서 이동
+        const sameOrigin = clientList.find(
+          (client) => new URL(client.url).origin === self.location.origin && 'navigate' in client
+        );
+        if (sameOrigin) {
+          return sameOrigin.navigate(url).then((client) => client && client.focus());
+        }
         // 없으면 새 창 열기
         if (clients.openWindow) {
           return clients.openWindow(url);
@@ -287,6 +297,40 @@ self.addEventListener('notificationclick', (event) => {
   );
 });
 
+// 브라우저가 구독을 갱신하면 새 구독을 서버에 다시 저장
+self.addEventListener('pushsubscriptionchange', (event) => {
+  const oldEndpoint = event.oldSubscription && event.oldSubscription.endpoint;
+  if (!event.newSubscription && !event.oldSubscription) {
+    return;
+  }
+
+  event.waitUntil(
+    (event.newSubscription
+      ? Promise.resolve(event.newSubscription)
+      : self.registration.pushManager.subscribe(event.oldSubscription.options)
+    )
+      .then((subscription) =>
+        fetch('/api/push-subscriptions', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ subscription: subscription.toJSON() }),
+        })
+      )
+      .then(() => {
+        if (oldEndpoint) {
+          return fetch('/api/push-subscriptions', {
+            method: 'DELETE',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ endpoint: oldEndpoint }),
+          });
+        }
+      })
+      .catch((err) => {
+        console.error('[SW] Failed to renew push subscription:', err);
+      })
+  );
+});
+
 // Message Handler (클라이언트와 통신)
 self.addEventListener('message', (event) => {
   console.log('[SW] Message received:', event.data);
@@ -0,0 +1,16 @@
+/**
+ * Web Push 용 VAPID 키 쌍 생성
+ *
+ * 출력된 값을 .env 에 넣으면 PUSH 알림 채널이 활성화됨
+ * 키를 바꾸면 기존 브라우저 구독은 모두 다시 구독해야 하므로 운영 중에는 바꾸지 말 것
+ *
+ * 사용법: npx tsx scripts/generate-vapid-keys.ts
+ */
+
+import { generateVapidKeys } from '../app/lib/notifications/web-push';
+
+const keys = generateVapidKeys();
+
+console.log(`VAPID_PUBLIC_KEY="${keys.publicKey}"`);
+console.log(`VAPID_PRIVATE_KEY="${keys.privateKey}"`);
+console.log('VAPID_SUBJECT="mailto:admin@example.com"');
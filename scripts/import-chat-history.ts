@@ -0,0 +1,175 @@
+/**
+ * Redis 채팅 기록을 PostgreSQL 로 가져오기
+ *
+ * 예전 저장 형식
+ * - chat:rooms                    채팅방 JSON 해시
+ * - chat:room:{roomId}:messages   메시지 JSON sorted set
+ *
+ * 여러 번 실행해도 이미 가져온 채팅방/메시지/반응은 건너뜀
+ * 사용법: npx tsx scripts/import-chat-history.ts [--purge]
+ *   --purge  가져오기가 끝난 예전 Redis 키 삭제
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { Redis } from 'ioredis';
+import {
+  inferLegacyRoomType,
+  parseLegacyMessage,
+  parseLegacyRoom,
+  type LegacyChatMessage,
+} from '../app/lib/chat/chat-message';
+
+const prisma = new PrismaClient();
+const BATCH_SIZE = 500;
+
+async function scanKeys(redis: Redis, pattern: string) {
+  const keys: string[] = [];
+  let cursor = '0';
+  do {
+    const [next, batch] = await redis.scan(cursor, 'MATCH', pattern, 'COUNT', 500);
+    cursor = next;
+    keys.push(...batch);
+  } while (cursor !== '0');
+  return keys;
+}
+
+async function main() {
+  const redisUrl = process.env.REDIS_URL;
+  if (!redisUrl) {
+    throw new Error('REDIS_URL 이 설정되어 있지 않습니다.');
+  }
+
+  const purge = process.argv.includes('--purge');
+  const redis = new Redis(redisUrl);
+
+  try {
+    const userIds = new Set((await prisma.user.findMany({ select: { id: true } })).map((u) => u.id));
+
+    // 1. 채팅방
+    const rawRooms = await redis.hgetall('chat:rooms');
+    let roomCount = 0;
+
+    for (const raw of Object.values(rawRooms)) {
+      const room = parseLegacyRoom(raw);
+      if (!room || !userIds.has(room.createdBy)) {
+        console.warn('⚠️  건너뜀 (형식 오류 또는 생성자 없음):', raw.slice(0, 100));
+        continue;
+      }
+
+      await prisma.chatRoom.upsert({
+        where: { id: room.id },
+        create: {
+          id: room.id,
+          name: room.name,
+          type: room.type,
+          createdBy: room.createdBy,
+          createdAt: room.createdAt,
+          updatedAt: room.updatedAt,
+        },
+        update: {},
+      });
+      await prisma.chatRoomMember.createMany({
+        data: room.participants
+          .filter((userId) => userIds.has(userId))
+          .map((userId) => ({ roomId: room.id, userId, joinedAt: room.createdAt })),
+        skipDuplicates: true,
+      });
+      roomCount++;
+    }
+    console.log(`✅ 채팅방 ${roomCount}개`);
+
+    // 2. 메시지
+    const messageKeys = await scanKeys(redis, 'chat:room:*:messages');
+    let messageCount = 0;
+    let reactionCount = 0;
+
+    for (const key of messageKeys) {
+      const roomId = key.slice('chat:room:'.length, -':messages'.length);
+      const messages = (await redis.zrange(key, 0, -1))
+        .map(parseLegacyMessage)
+        .filter((m): m is LegacyChatMessage => m !== null && m.roomId === roomId);
+
+      if (messages.length === 0) continue;
+
+      // 채팅방 해시에 없던 채팅방은 첫 작성자를 생성자로 만들어 둠
+      // 종류는 ID 접두어로 추정해 1:1/비공개 채팅방이 공개 채널이 되지 않도록 하고, 멤버는 메시지 작성자만
+      const exists = await prisma.chatRoom.findUnique({ where: { id: roomId }, select: { id: true } });
+      if (!exists) {
+        const creator = messages.find((m) => userIds.has(m.userId));
+        if (!creator) {
+          console.warn(`⚠️  건너뜀 (작성자를 찾을 수 없음): ${roomId}`);
+          continue;
+        }
+        const type = inferLegacyRoomType(roomId);
+        await prisma.chatRoom.create({
+          data: { id: roomId, name: roomId, type, createdBy: creator.userId, createdAt: messages[0].createdAt },
+        });
+        if (type !== 'channel') {
+          console.warn(`⚠️  채팅방 정보 없음, 비공개(${type})로 생성: ${roomId}`);
+        }
+      }
+
+      await prisma.chatRoomMember.createMany({
+        data: [...new Set(messages.map((m) => m.userId))]
+          .filter((userId) => userIds.has(userId))
+          .map((userId) => ({ roomId, userId })),
+        skipDuplicates: true,
+      });
+
+      for (let i = 0; i < messages.length; i += BATCH_SIZE) {
+        const batch = messages.slice(i, i + BATCH_SIZE);
+
+        const created = await prisma.chatMessage.createMany({
+          data: batch.map((m) => ({
+            id: m.id,
+            roomId,
+            userId: m.type === 'system' || !userIds.has(m.userId) ? null : m.userId,
+            content: m.content,
+            type: m.type,
+            metadata: m.metadata as object | undefined,
+            editedAt: m.editedAt,
+            createdAt: m.createdAt,
+          })),
+          skipDuplicates: true,
+        });
+        messageCount += created.count;
+
+        const reactions = await prisma.chatMessageReaction.createMany({
+          data: batch.flatMap((m) =>
+            Object.entries(m.reactions).flatMap(([emoji, users]) =>
+              users.filter((userId) => userIds.has(userId)).map((userId) => ({ messageId: m.id, userId, emoji }))
+            )
+          ),
+          skipDuplicates: true,
+        });
+        reactionCount += reactions.count;
+      }
+
+      await prisma.chatRoom.update({
+        where: { id: roomId },
+        data: { lastMessageAt: messages[messages.length - 1].createdAt },
+      });
+
+      if (purge) {
+        await redis.del(key);
+      }
+    }
+    console.log(`✅ 메시지 ${messageCount}개, 반응 ${reactionCount}개`);
+
+    if (purge) {
+      await redis.del('chat:rooms');
+      console.log('🧹 예전 Redis 키 삭제 완료');
+    }
+  } finally {
+    redis.disconnect();
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ 가져오기 실패:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,83 @@
+/**
+ * 로컬 uploads/ 디렉터리의 파일을 설정된 스토리지로 옮기기
+ *
+ * STORAGE_DRIVER, S3_* 환경 변수로 대상 스토리지를 정하고, 키(상대 경로)는 그대로 유지하므로
+ * 본문에 저장된 /uploads/... URL 과 File 레코드는 바꿀 필요 없음
+ * 여러 번 실행해도 대상에 이미 있는 파일은 건너뜀
+ *
+ * 사용법: npx tsx scripts/migrate-uploads.ts [--from ./uploads] [--dry-run] [--overwrite] [--delete-local]
+ *   --from          옮길 로컬 디렉터리 (기본값 UPLOAD_DIR 또는 ./uploads)
+ *   --dry-run       옮길 파일만 출력
+ *   --overwrite     대상에 이미 있는 파일도 다시 올림
+ *   --delete-local  옮기고 확인이 끝난 로컬 파일 삭제
+ */
+
+import path from 'path';
+import { LocalStorage } from '../app/lib/storage/local-storage.server';
+import { createStorage } from '../app/lib/storage/storage.server';
+import { contentTypeForKey } from '../app/lib/storage/storage-key';
+
+// 이미지 변환 캐시는 다시 만들 수 있으므로 옮기지 않음
+const SKIPPED_PREFIXES = ['cache/'];
+
+function option(name: string) {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const from = path.resolve(option('--from') || process.env.UPLOAD_DIR || './uploads');
+  const dryRun = process.argv.includes('--dry-run');
+  const overwrite = process.argv.includes('--overwrite');
+  const deleteLocal = process.argv.includes('--delete-local');
+
+  const source = new LocalStorage(from, () => '');
+  const target = createStorage();
+
+  if (target instanceof LocalStorage && target.root === source.root) {
+    throw new Error('원본과 대상이 같은 디렉터리입니다. STORAGE_DRIVER 설정을 확인하세요.');
+  }
+
+  const objects = (await source.list('')).filter(
+    (object) => !SKIPPED_PREFIXES.some((prefix) => object.key.startsWith(prefix))
+  );
+  console.log(`📦 ${from} → ${target.driver} (${objects.length}개 파일)`);
+
+  let copied = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const { key, size } of objects) {
+    try {
+      if (!overwrite && (await target.exists(key))) {
+        skipped++;
+      } else if (dryRun) {
+        console.log(`  ${key} (${size} bytes)`);
+        copied++;
+      } else {
+        const object = await source.get(key);
+        if (!object) continue;
+
+        await target.put(key, object.body, { contentType: contentTypeForKey(key) ?? 'application/octet-stream' });
+        copied++;
+      }
+
+      if (deleteLocal && !dryRun && (await target.exists(key))) {
+        await source.delete(key);
+      }
+    } catch (error) {
+      failed++;
+      console.error(`⚠️  실패: ${key}`, error);
+    }
+  }
+
+  console.log(`✅ ${dryRun ? '옮길 파일' : '옮김'} ${copied}개, 건너뜀 ${skipped}개, 실패 ${failed}개`);
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 업로드 파일 이전 실패:', error);
+  process.exit(1);
+});
@@ -0,0 +1,77 @@
+/**
+ * 로컬 테스트용 SENS/알림톡 스텁 서버
+ *
+ * 실제 문자를 보내지 않고 요청 내용을 출력한 뒤 성공(또는 --fail 이면 실패) 응답을 돌려줌
+ * .env 에 NAVER_SENS_API_URL / KAKAO_ALIMTALK_API_URL 을 이 서버 주소로 지정해서 사용
+ *
+ * 사용법: npx tsx scripts/sms-stub.ts [--port 4010] [--fail]
+ *   --port  수신 포트 (기본값 4010)
+ *   --fail  모든 요청에 실패 응답 (알림 재시도/실패 기록 확인용)
+ */
+
+import { createServer, type ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+
+function option(name: string) {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const port = Number(option('--port') || 4010);
+const fail = process.argv.includes('--fail');
+
+const SENS_PATH = /^\/sms\/v2\/services\/[^/]+\/messages$/;
+const ALIMTALK_PATH = '/v1/alimtalk/send';
+
+function reply(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer((req, res) => {
+  let raw = '';
+  req.on('data', (chunk) => (raw += chunk));
+  req.on('end', () => {
+    const path = new URL(req.url ?? '/', `http://localhost:${port}`).pathname;
+    let payload: unknown = raw;
+    try {
+      payload = JSON.parse(raw);
+    } catch {
+      // JSON 이 아니면 그대로 출력
+    }
+
+    console.log(`\n[${new Date().toISOString()}] ${req.method} ${path}`);
+    console.log(JSON.stringify(payload, null, 2));
+
+    if (req.method === 'POST' && SENS_PATH.test(path)) {
+      if (!req.headers['x-ncp-apigw-signature-v2']) {
+        return reply(res, 401, { errorMessage: '서명 헤더가 없습니다' });
+      }
+      return fail
+        ? reply(res, 400, { errorMessage: '스텁 서버 실패 응답' })
+        : reply(res, 202, {
+            requestId: randomUUID(),
+            requestTime: new Date().toISOString(),
+            statusCode: '202',
+            statusName: 'success',
+          });
+    }
+
+    if (req.method === 'POST' && path === ALIMTALK_PATH) {
+      return fail
+        ? reply(res, 200, { header: { resultCode: '99', resultMessage: '스텁 서버 실패 응답', isSuccessful: false } })
+        : reply(res, 200, {
+            header: { resultCode: '00', resultMessage: 'success', isSuccessful: true },
+            body: { requestId: randomUUID() },
+          });
+    }
+
+    reply(res, 404, { errorMessage: `알 수 없는 경로: ${path}` });
+  });
+});
+
+server.listen(port, () => {
+  console.log(`SMS 스텁 서버 실행 중: http://localhost:${port}${fail ? ' (실패 응답 모드)' : ''}`);
+  console.log(`  NAVER_SENS_API_URL="http://localhost:${port}"`);
+  console.log(`  KAKAO_ALIMTALK_API_URL="http://localhost:${port}"`);
+});